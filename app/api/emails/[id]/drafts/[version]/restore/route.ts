@@ -0,0 +1,49 @@
+// /app/api/emails/[id]/drafts/[version]/restore/route.ts
+// API route to make an older draft version the one to send
+// The restore is recorded as a new version pointing back at the original
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailProcessor, type ReviewInput } from '@/lib/services/email/processor'
+
+// POST /api/emails/[id]/drafts/[version]/restore - Restore a draft version
+// Body (optional): { reviewer?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version } = await params
+
+    const versionNumber = parseInt(version)
+    if (isNaN(versionNumber) || versionNumber < 1) {
+      return NextResponse.json(
+        { error: 'Invalid draft version' },
+        { status: 400 }
+      )
+    }
+
+    const { reviewer } = await request.json().catch(() => ({})) as ReviewInput
+
+    const draft = await emailProcessor.restoreDraft(id, versionNumber, { reviewer })
+
+    return NextResponse.json({
+      success: true,
+      draft
+    })
+  } catch (error) {
+    console.error('Error restoring draft:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot restore') ? 400 :
+                       errorMessage.includes('already being processed') ? 409 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to restore draft',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
@@ -0,0 +1,84 @@
+// /app/api/emails/[id]/drafts/route.ts
+// API route for the draft version history of an email's reply
+// GET lists every version; POST saves a human edit as the new draft to send
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailStore } from '@/lib/kv-client'
+import { draftHistory } from '@/lib/services/email/draft-history'
+import { emailProcessor, type ReviewInput } from '@/lib/services/email/processor'
+
+// GET /api/emails/[id]/drafts - All draft versions, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const email = await emailStore.getEmail(id)
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email not found' },
+        { status: 404 }
+      )
+    }
+
+    const drafts = await draftHistory.list(id)
+
+    return NextResponse.json({
+      success: true,
+      emailId: id,
+      drafts,
+      count: drafts.length,
+      currentVersion: drafts.length > 0 ? drafts[drafts.length - 1].version : null
+    })
+  } catch (error) {
+    console.error('Error fetching drafts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch drafts' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/emails/[id]/drafts - Save an edited draft without sending it
+// Body: { content: string, reviewer?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const { content, reviewer } = await request.json().catch(() => ({})) as ReviewInput & { content?: string }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { error: 'Draft content is required' },
+        { status: 400 }
+      )
+    }
+
+    const draft = await emailProcessor.saveDraft(id, content, { reviewer })
+
+    return NextResponse.json({
+      success: true,
+      draft
+    })
+  } catch (error) {
+    console.error('Error saving draft:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot edit') ? 400 :
+                       errorMessage.includes('already being processed') ? 409 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save draft',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+// /app/api/emails/[id]/route.ts
+// API route for fetching a single email with body and response
+// Lists ship projected summaries; the detail view loads the full record here
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailStore } from '@/lib/kv-client'
+
+// GET /api/emails/[id] - Full email with processing status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const email = await emailStore.getEmail(id)
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Email not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      email,
+    })
+  } catch (error) {
+    console.error('Error fetching email:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch email' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,44 +4,37 @@
 
 import { NextResponse } from 'next/server'
 import { emailStore, type EmailRecord } from '@/lib/kv-client'
-import { kv } from '@vercel/kv'
+import { kv } from '@/lib/storage/kv'
+import { KEYS, scanEmailIds } from '@/lib/storage/kv-keys'
+import { MAX_PAGE_SIZE } from '@/lib/storage/email-query'
 
-// Fetch new emails from Upstash that haven't been processed yet
+// Fetch new emails from Upstash that haven't been processed yet.
+// The ingester indexes each email in gmail:emails:by_history; a keyspace SCAN
+// is only used to recover when that index does not exist yet.
 async function fetchNewEmailsFromUpstash(lastHistoryId: number): Promise<EmailRecord[]> {
   try {
     console.log(`🔍 Fetching emails with historyId > ${lastHistoryId}`)
     
-    // Get all email keys from Redis
-    // Pattern: gmail:email:* (excluding status, response, metadata keys)
-    const allKeys = await kv.keys('gmail:email:*')
-    
-    // Filter to get only base email keys
-    const emailKeys = allKeys.filter(key => {
-      const keyStr = key as string
-      return keyStr.startsWith('gmail:email:') && 
-             !keyStr.includes(':status') && 
-             !keyStr.includes(':response') &&
-             !keyStr.includes(':metadata') &&
-             !keyStr.includes(':queue') &&
-             !keyStr.includes(':all') &&
-             !keyStr.includes(':last_history_id') &&
-             !keyStr.includes(':processing')
-    })
+    const hasIndex = await kv.exists(KEYS.EMAILS_BY_HISTORY)
+    
+    const candidateIds = hasIndex
+      ? await kv.zrange<string[]>(KEYS.EMAILS_BY_HISTORY, `(${lastHistoryId}`, '+inf', { byScore: true })
+      : await scanEmailIds(kv)
 
-    console.log(`📧 Found ${emailKeys.length} total email keys in Redis`)
+    console.log(`📧 Found ${candidateIds.length} candidate emails ${hasIndex ? 'in history index' : 'via SCAN recovery'}`)
 
     const newEmails: EmailRecord[] = []
     
     // Check each email to see if it's new
-    for (const key of emailKeys) {
-      const emailId = (key as string).replace('gmail:email:', '')
+    for (const candidateId of candidateIds) {
+      const emailId = String(candidateId)
       
-      // Check if we already have this email in our tracking set
-      const existsInSet = await kv.sismember('gmail:email:all', emailId)
+      // Check if we already have this email in our tracking index
+      const existsInStore = await emailStore.hasEmail(emailId)
       
-      if (!existsInSet) {
+      if (!existsInStore) {
         // This is a new email we haven't seen before
-        const emailData = await kv.get<EmailRecord>(key as string)
+        const emailData = await kv.get<EmailRecord>(KEYS.EMAIL(emailId))
         
         if (emailData && emailData.historyId > lastHistoryId) {
           console.log(`✨ Found new email: ${emailData.subject} (historyId: ${emailData.historyId})`)
@@ -50,34 +43,6 @@ async function fetchNewEmailsFromUpstash(lastHistoryId: number): Promise<EmailRe
       }
     }
 
-    // Also check for emails by scanning a sorted set if you have one
-    // This is more efficient if emails are stored in a sorted set by historyId
-    const rangeKey = 'gmail:emails:by_history'
-    const hasRange = await kv.exists(rangeKey)
-    
-    if (hasRange) {
-      // Get emails with historyId greater than last processed
-      // Using zrange with BYSCORE option
-      const newEmailIds = await kv.zrange(
-        rangeKey,
-        lastHistoryId + 1,
-        '+inf',
-        {
-          byScore: true,
-          withScores: false
-        }
-      ) as string[]
-      
-      console.log(`📊 Found ${newEmailIds.length} emails from sorted set`)
-      
-      for (const emailId of newEmailIds) {
-        const emailData = await kv.get<EmailRecord>(`gmail:email:${emailId}`)
-        if (emailData && !newEmails.find(e => e.id === emailData.id)) {
-          newEmails.push(emailData)
-        }
-      }
-    }
-
     console.log(`📬 Returning ${newEmails.length} new emails`)
     return newEmails.sort((a, b) => b.historyId - a.historyId)
     
@@ -87,7 +52,24 @@ async function fetchNewEmailsFromUpstash(lastHistoryId: number): Promise<EmailRe
   }
 }
 
+// Highest historyId in the store - pages through summaries with only that field loaded
+async function getMaxHistoryId(): Promise<number> {
+  let maxHistoryId = 0
+  let cursor: string | undefined
+
+  do {
+    const page = await emailStore.queryEmails({ fields: ['historyId'], limit: MAX_PAGE_SIZE, cursor })
+    for (const email of page.emails) {
+      if ((email.historyId || 0) > maxHistoryId) maxHistoryId = email.historyId!
+    }
+    cursor = page.nextCursor || undefined
+  } while (cursor)
+
+  return maxHistoryId
+}
+
 // GET - Poll for new emails
+// Returns counts only - the dashboard refetches the pages it shows when newCount > 0
 export async function GET() {
   try {
     // Get the last processed history ID
@@ -122,22 +104,18 @@ export async function GET() {
       console.log(`📈 Updated lastHistoryId to: ${maxHistoryId}`)
     }
     
-    // Return all emails for dashboard update
-    const allEmails = await emailStore.getAllEmails()
+    // Counts come from the status indexes, not from loading every email
+    const stats = await emailStore.getProcessingStats()
     
-    console.log(`📊 Poll complete: ${storedCount} new, ${allEmails.length} total`)
+    console.log(`📊 Poll complete: ${storedCount} new, ${stats.totalEmails} total`)
     
     return NextResponse.json({
       success: true,
       newCount: storedCount,
-      emails: allEmails,
       lastHistoryId: maxHistoryId,
       stats: {
-        totalEmails: allEmails.length,
-        newEmails: storedCount,
-        pending: allEmails.filter(e => e.status === 'pending').length,
-        processing: allEmails.filter(e => e.status === 'processing').length,
-        completed: allEmails.filter(e => e.status === 'completed').length
+        ...stats,
+        newEmails: storedCount
       }
     })
   } catch (error) {
@@ -162,7 +140,7 @@ export async function POST(request: Request) {
       )
     }
     
-    // Store the email
+    // Store the email (indexes it by receivedAt, status and historyId)
     await emailStore.storeEmail(email)
     console.log(`✅ Manually added email: ${email.subject}`)
     
@@ -172,13 +150,6 @@ export async function POST(request: Request) {
       await emailStore.setLastHistoryId(email.historyId)
     }
     
-    // Also add to sorted set for efficient retrieval
-    const rangeKey = 'gmail:emails:by_history'
-    await kv.zadd(rangeKey, {
-      score: email.historyId,
-      member: email.id
-    })
-    
     return NextResponse.json({
       success: true,
       message: 'Email added successfully',
@@ -199,30 +170,22 @@ export async function PUT() {
     // Import all existing emails
     const imported = await emailStore.importExistingEmails()
     
-    // Get all emails
-    const allEmails = await emailStore.getAllEmails()
-    
     // Find the max history ID
-    let maxHistoryId = 0
-    for (const email of allEmails) {
-      if (email.historyId > maxHistoryId) {
-        maxHistoryId = email.historyId
-      }
-    }
+    const maxHistoryId = await getMaxHistoryId()
     
     // Update last history ID
     if (maxHistoryId > 0) {
       await emailStore.setLastHistoryId(maxHistoryId)
     }
     
-    console.log(`🔄 Force refresh: ${imported} imported, ${allEmails.length} total`)
+    const { totalEmails } = await emailStore.getProcessingStats()
+    console.log(`🔄 Force refresh: ${imported} imported, ${totalEmails} total`)
     
     return NextResponse.json({
       success: true,
       imported,
-      totalEmails: allEmails.length,
-      maxHistoryId,
-      emails: allEmails
+      totalEmails,
+      maxHistoryId
     })
   } catch (error) {
     console.error('Force refresh error:', error)
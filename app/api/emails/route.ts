@@ -1,24 +1,117 @@
 // /app/api/emails/route.ts
-// API route for fetching all emails
-// Returns list of emails with their current processing status
+// API route for listing emails a page at a time
+// Supports filters, sort order, cursor pagination and a fields= projection
 
-import { NextResponse } from 'next/server'
-import { emailStore } from '@/lib/kv-client'
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  emailStore,
+  EMAIL_STATUSES,
+  DELIVERY_STATUSES,
+  type EmailQuery,
+  type EmailSortField
+} from '@/lib/kv-client'
+import { EMAIL_FIELDS } from '@/lib/storage/email-query'
+
+const SORT_FIELDS: EmailSortField[] = ['receivedAt', 'processedAt']
+
+// GET /api/emails?status=failed,manual-review&sender=acme&after=2025-01-01&fields=id,subject,status&limit=50&cursor=...
+export async function GET(request: NextRequest) {
+  const parsed = parseEmailQuery(request.nextUrl.searchParams)
+  if ('error' in parsed) {
+    return NextResponse.json(
+      { error: parsed.error },
+      { status: 400 }
+    )
+  }
 
-export async function GET() {
   try {
-    const emails = await emailStore.getAllEmails()
-    
+    const [{ emails, nextCursor }, stats] = await Promise.all([
+      emailStore.queryEmails(parsed.query),
+      emailStore.getProcessingStats()
+    ])
+
     return NextResponse.json({
       success: true,
       emails,
       count: emails.length,
+      nextCursor,
+      stats,
     })
   } catch (error) {
+    if (error instanceof Error && error.message === 'Invalid cursor') {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      )
+    }
+
     console.error('Error fetching emails:', error)
     return NextResponse.json(
       { error: 'Failed to fetch emails' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Translate query string parameters into an EmailQuery, rejecting unknown values
+ */
+function parseEmailQuery(params: URLSearchParams): { query: EmailQuery } | { error: string } {
+  const list = (name: string) => params.get(name)?.split(',').map(value => value.trim()).filter(Boolean)
+  const query: EmailQuery = {}
+
+  const status = list('status')
+  if (status) {
+    const invalid = status.filter(value => !EMAIL_STATUSES.includes(value as never))
+    if (invalid.length > 0) return { error: `Unknown status: ${invalid.join(', ')}` }
+    query.status = status as EmailQuery['status']
+  }
+
+  const delivery = list('delivery')
+  if (delivery) {
+    const invalid = delivery.filter(value => !DELIVERY_STATUSES.includes(value as never))
+    if (invalid.length > 0) return { error: `Unknown delivery status: ${invalid.join(', ')}` }
+    query.deliveryStatus = delivery as EmailQuery['deliveryStatus']
+  }
+
+  const fields = list('fields')
+  if (fields) {
+    const invalid = fields.filter(value => !EMAIL_FIELDS.includes(value as never))
+    if (invalid.length > 0) return { error: `Unknown field: ${invalid.join(', ')}` }
+    query.fields = fields as EmailQuery['fields']
+  }
+
+  query.category = list('category')
+  query.sender = params.get('sender') || undefined
+
+  for (const [name, key] of [['after', 'receivedAfter'], ['before', 'receivedBefore']] as const) {
+    const value = params.get(name)
+    if (!value) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) return { error: `Invalid date for ${name}: ${value}` }
+    query[key] = date.toISOString()
+  }
+
+  const sort = params.get('sort')
+  if (sort) {
+    if (!SORT_FIELDS.includes(sort as EmailSortField)) return { error: `Unknown sort: ${sort}` }
+    query.sort = sort as EmailSortField
+  }
+
+  const order = params.get('order')
+  if (order) {
+    if (order !== 'asc' && order !== 'desc') return { error: `Unknown order: ${order}` }
+    query.order = order
+  }
+
+  const limit = params.get('limit')
+  if (limit) {
+    const parsed = parseInt(limit)
+    if (isNaN(parsed) || parsed < 1) return { error: `Invalid limit: ${limit}` }
+    query.limit = parsed
+  }
+
+  query.cursor = params.get('cursor') || undefined
+
+  return { query }
+}
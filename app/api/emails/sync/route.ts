@@ -3,43 +3,28 @@
 // One-time import or force refresh functionality
 
 import { NextResponse } from 'next/server'
-import { kv } from '@vercel/kv'
+import { kv } from '@/lib/storage/kv'
+import { KEYS, scanEmailIds } from '@/lib/storage/kv-keys'
 import { emailStore, type EmailRecord } from '@/lib/kv-client'
 
 export async function POST() {
   try {
     console.log('🔄 Starting full email sync from Upstash...')
     
-    // Get all email keys from Redis
-    const allKeys = await kv.keys('gmail:email:*')
-    console.log(`📊 Found ${allKeys.length} total keys in Redis`)
+    // Recovery path: walk the keyspace with SCAN instead of the indexes
+    const emailIds = await scanEmailIds(kv)
     
-    // Filter to get only base email keys
-    const emailKeys = allKeys.filter(key => {
-      const keyStr = key as string
-      return keyStr.startsWith('gmail:email:') && 
-             !keyStr.includes(':status') && 
-             !keyStr.includes(':response') &&
-             !keyStr.includes(':metadata') &&
-             !keyStr.includes(':queue') &&
-             !keyStr.includes(':all') &&
-             !keyStr.includes(':last_history_id') &&
-             !keyStr.includes(':processing')
-    })
-    
-    console.log(`📧 Found ${emailKeys.length} email keys to sync`)
+    console.log(`📧 Found ${emailIds.length} email records to sync`)
     
     let imported = 0
     let skipped = 0
     let failed = 0
     let maxHistoryId = 0
     
-    for (const key of emailKeys) {
+    for (const emailId of emailIds) {
       try {
-        const emailId = (key as string).replace('gmail:email:', '')
-        
-        // Check if already in our tracking set
-        const existsInSet = await kv.sismember('gmail:email:all', emailId)
+        // Check if already in our tracking index
+        const existsInSet = await emailStore.hasEmail(emailId)
         
         if (existsInSet) {
           skipped++
@@ -47,15 +32,15 @@ export async function POST() {
         }
         
         // Get the email data
-        const emailData = await kv.get<EmailRecord>(key as string)
+        const emailData = await kv.get<EmailRecord>(KEYS.EMAIL(emailId))
         
         if (!emailData) {
-          console.warn(`⚠️ No data found for key: ${key}`)
+          console.warn(`⚠️ No data found for email: ${emailId}`)
           failed++
           continue
         }
         
-        // Store the email properly
+        // Store the email properly (also indexes it by historyId)
         await emailStore.storeEmail(emailData)
         imported++
         
@@ -64,16 +49,10 @@ export async function POST() {
           maxHistoryId = emailData.historyId
         }
         
-        // Also add to sorted set for efficient retrieval
-        await kv.zadd('gmail:emails:by_history', {
-          score: emailData.historyId,
-          member: emailData.id
-        })
-        
         console.log(`✅ Imported: ${emailData.subject} (historyId: ${emailData.historyId})`)
         
       } catch (error) {
-        console.error(`❌ Failed to import ${key}:`, error)
+        console.error(`❌ Failed to import ${emailId}:`, error)
         failed++
       }
     }
@@ -85,7 +64,6 @@ export async function POST() {
     }
     
     // Get final stats
-    const allEmails = await emailStore.getAllEmails()
     const stats = await emailStore.getProcessingStats()
     
     console.log(`✅ Sync complete: ${imported} imported, ${skipped} skipped, ${failed} failed`)
@@ -96,14 +74,12 @@ export async function POST() {
         imported,
         skipped,
         failed,
-        totalKeys: emailKeys.length
+        totalKeys: emailIds.length
       },
       current: {
         maxHistoryId,
-        ...stats,
-        totalEmails: allEmails.length  // Override the totalEmails from stats
-      },
-      emails: allEmails
+        ...stats
+      }
     })
     
   } catch (error) {
@@ -122,45 +98,34 @@ export async function POST() {
 export async function GET() {
   try {
     // Check what's in Redis vs what's in our tracking
-    const allKeys = await kv.keys('gmail:email:*')
-    const emailKeys = allKeys.filter(key => {
-      const keyStr = key as string
-      return keyStr.startsWith('gmail:email:') && 
-             !keyStr.includes(':status') && 
-             !keyStr.includes(':response') &&
-             !keyStr.includes(':metadata') &&
-             !keyStr.includes(':queue') &&
-             !keyStr.includes(':all') &&
-             !keyStr.includes(':last_history_id') &&
-             !keyStr.includes(':processing')
-    })
+    const emailIds = await scanEmailIds(kv)
     
-    const trackedEmails = await kv.smembers('gmail:email:all')
+    const trackedEmails = await emailStore.getEmailIds()
     const lastHistoryId = await emailStore.getLastHistoryId()
-    const allEmails = await emailStore.getAllEmails()
+    // Only the ends of the receivedAt index are needed, not every email
+    const [newest, oldest] = await Promise.all([
+      emailStore.queryEmails({ fields: ['receivedAt'], order: 'desc', limit: 1 }),
+      emailStore.queryEmails({ fields: ['receivedAt'], order: 'asc', limit: 1 })
+    ])
     
     // Find untracked emails
-    const untrackedKeys: string[] = []
-    for (const key of emailKeys) {
-      const emailId = (key as string).replace('gmail:email:', '')
-      if (!trackedEmails.includes(emailId)) {
-        untrackedKeys.push(key as string)
-      }
-    }
+    const tracked = new Set(trackedEmails)
+    const untrackedKeys = emailIds
+      .filter(emailId => !tracked.has(emailId))
+      .map(emailId => KEYS.EMAIL(emailId))
     
     return NextResponse.json({
       redis: {
-        totalKeys: allKeys.length,
-        emailKeys: emailKeys.length,
+        emailKeys: emailIds.length,
         trackedEmails: trackedEmails.length,
         untrackedCount: untrackedKeys.length,
         untrackedKeys: untrackedKeys.slice(0, 10) // Show first 10
       },
       current: {
-        totalEmails: allEmails.length,
+        totalEmails: trackedEmails.length,
         lastHistoryId,
-        oldestEmail: allEmails[allEmails.length - 1]?.receivedAt,
-        newestEmail: allEmails[0]?.receivedAt
+        oldestEmail: oldest.emails[0]?.receivedAt,
+        newestEmail: newest.emails[0]?.receivedAt
       },
       needsSync: untrackedKeys.length > 0
     })
@@ -0,0 +1,110 @@
+// /app/api/fuel/route.ts
+// API route for the fuel surcharge schedule
+// GET shows diesel prices, the ladder and the surcharge in effect per region; POST uploads either
+
+import { NextRequest, NextResponse } from 'next/server'
+import { fuelSurcharge, type FuelImportResult } from '@/lib/services/freight/fuel-surcharge'
+import type { SurchargeBand } from '@/lib/services/freight/rate-tables'
+
+interface FuelUpload {
+  csv?: string
+  replace?: boolean
+  ladder?: SurchargeBand[]
+  resetLadder?: boolean
+}
+
+// GET /api/fuel?limit=52 - Schedule with the newest price rows first
+export async function GET(request: NextRequest) {
+  try {
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '52') || 52, 1000)
+
+    const schedule = await fuelSurcharge.getSchedule()
+
+    return NextResponse.json({
+      success: true,
+      ...schedule,
+      prices: schedule.prices.slice(0, limit),
+      totalPrices: schedule.prices.length
+    })
+
+  } catch (error) {
+    console.error('Fuel schedule error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load fuel schedule',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/fuel - Upload diesel prices and/or the surcharge ladder
+// JSON body: { csv?, replace?, ladder?, resetLadder? }
+// text/csv body or multipart "file" field: diesel prices, with ?replace=true to drop existing rows
+export async function POST(request: NextRequest) {
+  try {
+    const upload = await readUpload(request)
+
+    if (!upload.csv && !upload.ladder && !upload.resetLadder) {
+      return NextResponse.json(
+        { error: 'Provide a diesel price CSV or a surcharge ladder' },
+        { status: 400 }
+      )
+    }
+
+    let imported: FuelImportResult | null = null
+    if (upload.csv) {
+      imported = await fuelSurcharge.importCsv(upload.csv, { replace: upload.replace })
+    }
+
+    if (upload.resetLadder) {
+      await fuelSurcharge.resetLadder()
+    } else if (upload.ladder) {
+      await fuelSurcharge.setLadder(upload.ladder)
+    }
+
+    const schedule = await fuelSurcharge.getSchedule()
+
+    return NextResponse.json({
+      success: true,
+      imported,
+      ladder: schedule.ladder,
+      ladderIsDefault: schedule.ladderIsDefault,
+      current: schedule.current
+    })
+
+  } catch (error) {
+    console.error('Fuel upload error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.startsWith('Invalid') ? 400 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update fuel schedule',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
+
+async function readUpload(request: NextRequest): Promise<FuelUpload> {
+  const contentType = request.headers.get('content-type') || ''
+  const replace = request.nextUrl.searchParams.get('replace') === 'true'
+
+  if (contentType.includes('application/json')) {
+    return await request.json().catch(() => ({})) as FuelUpload
+  }
+
+  if (contentType.includes('multipart/form-data')) {
+    const form = await request.formData()
+    const file = form.get('file')
+    const csv = typeof file === 'string' ? file : file ? await file.text() : undefined
+    return { csv, replace: replace || form.get('replace') === 'true' }
+  }
+
+  return { csv: await request.text(), replace }
+}
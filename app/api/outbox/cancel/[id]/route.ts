@@ -0,0 +1,53 @@
+// /app/api/outbox/cancel/[id]/route.ts
+// API route to stop a queued reply from being sent
+// Only queued entries can be cancelled; the email is marked as not delivered
+
+import { NextRequest, NextResponse } from 'next/server'
+import { outboxDispatcher } from '@/lib/services/email/outbox-dispatcher'
+
+interface CancelRequest {
+  cancelledBy?: string
+}
+
+// POST /api/outbox/cancel/[id] - Cancel the queued reply for an email
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Email ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({})) as CancelRequest
+
+    console.log(`🚫 API: Cancelling queued reply for email ${id}`)
+    const message = await outboxDispatcher.cancel(id, body.cancelledBy)
+
+    return NextResponse.json({
+      success: true,
+      message
+    })
+
+  } catch (error) {
+    console.error('Outbox cancel API error:', error)
+    
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot cancel') ? 400 :
+                       errorMessage.includes('already being sent') ? 409 : 500
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to cancel email',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
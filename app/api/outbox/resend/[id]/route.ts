@@ -0,0 +1,51 @@
+// /app/api/outbox/resend/[id]/route.ts
+// API route to send a reply again
+// Failed, cancelled or already sent entries are queued with a fresh attempt budget and tried immediately
+
+import { NextRequest, NextResponse } from 'next/server'
+import { outbox } from '@/lib/services/email/outbox'
+import { outboxDispatcher } from '@/lib/services/email/outbox-dispatcher'
+
+// POST /api/outbox/resend/[id] - Queue the reply for an email again and try it now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Email ID is required' },
+        { status: 400 }
+      )
+    }
+
+    console.log(`🔁 API: Resending reply for email ${id}`)
+    const result = await outboxDispatcher.resend(id)
+    const message = await outbox.get(id)
+
+    return NextResponse.json({
+      success: true,
+      sent: result?.sent ?? false,
+      result,
+      message
+    })
+
+  } catch (error) {
+    console.error('Outbox resend API error:', error)
+    
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot resend') ? 400 :
+                       errorMessage.includes('already being sent') ? 409 : 500
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to resend email',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
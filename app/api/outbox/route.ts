@@ -0,0 +1,91 @@
+// /app/api/outbox/route.ts
+// API route for the outbox of replies waiting to be sent
+// Lists entries with their attempts and errors, and drains due entries through the mail transport
+
+import { NextRequest, NextResponse } from 'next/server'
+import { outbox, OUTBOX_STATUSES, type OutboxStatus } from '@/lib/services/email/outbox'
+import { outboxDispatcher } from '@/lib/services/email/outbox-dispatcher'
+import { emailService } from '@/lib/services/email/email-service'
+
+// GET /api/outbox?status=queued,failed&limit=50&offset=0 - List entries, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const limit = Math.min(parseInt(params.get('limit') || '50') || 50, 200)
+    const offset = Math.max(parseInt(params.get('offset') || '0') || 0, 0)
+    const status = (params.get('status') || '')
+      .split(',')
+      .filter((value): value is OutboxStatus => (OUTBOX_STATUSES as readonly string[]).includes(value))
+
+    const [{ messages, total }, stats] = await Promise.all([
+      outbox.list({ status, limit, offset }),
+      outbox.getStats()
+    ])
+
+    return NextResponse.json({
+      messages,
+      total,
+      stats,
+      transport: emailService.getTransportName(),
+      configured: emailService.isConfigured()
+    })
+
+  } catch (error) {
+    console.error('Outbox list error:', error)
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to list outbox',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/outbox - Send every due entry until the outbox drains or the mail rate limit is hit
+export async function POST() {
+  try {
+    if (!emailService.isConfigured()) {
+      return NextResponse.json(
+        { 
+          error: 'Email sending not configured',
+          message: 'Set ENABLE_EMAIL_SENDING=true and configure a mail transport'
+        },
+        { status: 503 }
+      )
+    }
+
+    console.log('📤 API: Draining outbox')
+    const { results, stoppedReason, retryAfterMs } = await outboxDispatcher.run()
+
+    const summary = {
+      attempted: results.length,
+      sent: results.filter(r => r.sent).length,
+      retryScheduled: results.filter(r => r.status === 'queued').length,
+      failed: results.filter(r => r.status === 'failed').length,
+      cancelled: results.filter(r => r.status === 'cancelled').length,
+      stoppedReason,
+      retryAfterMs
+    }
+    console.log('✅ Outbox run complete:', summary)
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      results,
+      stats: await outbox.getStats()
+    })
+
+  } catch (error) {
+    console.error('Outbox dispatch error:', error)
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to drain outbox',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+// /app/api/process/approve/[id]/route.ts
+// API route to approve a draft held for review
+// Sends the generated reply exactly as the LLM wrote it
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailProcessor, type ReviewInput } from '@/lib/services/email/processor'
+
+// POST /api/process/approve/[id] - Approve and send the held draft
+// Body (optional): { reviewer?: string, note?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Email ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { reviewer, note } = await request.json().catch(() => ({})) as ReviewInput
+
+    console.log(`✅ API: Approving email ${id}`)
+
+    const result = await emailProcessor.approveEmail(id, { reviewer, note })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Approve API error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot approve') ? 400 :
+                       errorMessage.includes('already being processed') ? 409 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to approve email',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
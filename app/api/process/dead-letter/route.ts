@@ -0,0 +1,113 @@
+// /app/api/process/dead-letter/route.ts
+// API route for inspecting and replaying dead-lettered emails
+// Emails land here after exhausting their retry policy
+
+import { NextRequest, NextResponse } from 'next/server'
+import { deadLetterQueue } from '@/lib/services/email/dead-letter'
+import { retryPolicy } from '@/lib/services/email/retry-policy'
+
+interface BulkRequest {
+  emailIds?: string[]
+  all?: boolean
+}
+
+// GET /api/process/dead-letter?limit=50&offset=0 - List entries, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const limit = Math.min(parseInt(params.get('limit') || '50') || 50, 200)
+    const offset = Math.max(parseInt(params.get('offset') || '0') || 0, 0)
+
+    const { entries, total } = await deadLetterQueue.list(limit, offset)
+
+    return NextResponse.json({
+      entries,
+      total,
+      policies: retryPolicy.getPolicies()
+    })
+
+  } catch (error) {
+    console.error('Dead-letter list error:', error)
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to list dead-letter entries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/process/dead-letter - Replay { emailIds } or { all: true } back into the queue
+export async function POST(request: NextRequest) {
+  try {
+    const emailIds = await resolveEmailIds(request)
+    if (!emailIds) {
+      return NextResponse.json(
+        { error: 'Provide emailIds or all: true' },
+        { status: 400 }
+      )
+    }
+
+    const { replayed, missing } = await deadLetterQueue.replay(emailIds)
+
+    return NextResponse.json({
+      success: true,
+      replayed,
+      missing
+    })
+
+  } catch (error) {
+    console.error('Dead-letter replay error:', error)
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to replay dead-letter entries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/process/dead-letter - Discard { emailIds } or { all: true } without replaying
+export async function DELETE(request: NextRequest) {
+  try {
+    const emailIds = await resolveEmailIds(request)
+    if (!emailIds) {
+      return NextResponse.json(
+        { error: 'Provide emailIds or all: true' },
+        { status: 400 }
+      )
+    }
+
+    const removed = await deadLetterQueue.remove(emailIds)
+
+    return NextResponse.json({
+      success: true,
+      removed
+    })
+
+  } catch (error) {
+    console.error('Dead-letter discard error:', error)
+    
+    return NextResponse.json(
+      { 
+        error: 'Failed to discard dead-letter entries',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+async function resolveEmailIds(request: NextRequest): Promise<string[] | null> {
+  const body = await request.json().catch(() => ({})) as BulkRequest
+
+  if (body.all) return deadLetterQueue.getIds()
+  if (Array.isArray(body.emailIds) && body.emailIds.length > 0) {
+    return body.emailIds.map(String)
+  }
+  return null
+}
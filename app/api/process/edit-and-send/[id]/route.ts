@@ -0,0 +1,58 @@
+// /app/api/process/edit-and-send/[id]/route.ts
+// API route to send a reviewer-edited version of a held draft
+// The edited text replaces the stored response and is marked as edited
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailProcessor, type ReviewInput } from '@/lib/services/email/processor'
+
+// POST /api/process/edit-and-send/[id] - Send the edited draft
+// Body: { content: string, reviewer?: string, note?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Email ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { content, reviewer, note } = await request.json().catch(() => ({})) as ReviewInput & { content?: string }
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { error: 'Edited content is required' },
+        { status: 400 }
+      )
+    }
+
+    console.log(`✏️ API: Sending edited reply for email ${id}`)
+
+    const result = await emailProcessor.editAndSendEmail(id, content, { reviewer, note })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Edit-and-send API error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot edit') ? 400 :
+                       errorMessage.includes('already being processed') ? 409 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to send edited reply',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
@@ -4,15 +4,40 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { emailProcessor } from '@/lib/services/email/processor'
+import { jobQueue } from '@/lib/services/email/job-queue'
+import { outbox } from '@/lib/services/email/outbox'
+import { outboxDispatcher } from '@/lib/services/email/outbox-dispatcher'
+import { llmFactory, LLM_PROVIDERS } from '@/lib/services/llm/llm-factory'
+import { rateLimiter } from '@/lib/services/llm/rate-limiter'
+import { modelRouter } from '@/lib/services/llm/model-router'
+
+interface LLMSelectionRequest {
+  provider?: string
+  model?: string
+}
 
 export async function POST(request: NextRequest) {
   try {
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    // Optional { provider, model } - runs on the configured default when left out
+    const body = await request.json().catch(() => ({})) as LLMSelectionRequest
+    const llm = llmFactory.parseSelection(body)
+    if (!llm) {
       return NextResponse.json(
         { 
-          error: 'OpenAI API not configured',
-          message: 'Please add OPENAI_API_KEY to your environment variables'
+          error: 'Unknown LLM provider',
+          message: `Provider must be one of: ${LLM_PROVIDERS.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    // Check the selected LLM provider is configured
+    const provider = llmFactory.getProviderInfo(llm)
+    if (!provider.configured) {
+      return NextResponse.json(
+        { 
+          error: `LLM provider ${provider.name} not configured`,
+          message: `Please add ${provider.requiredEnv} to your environment variables`
         },
         { status: 503 }
       )
@@ -25,7 +50,10 @@ export async function POST(request: NextRequest) {
     console.log('📊 Queue stats before processing:', beforeStats)
 
     // Process the queue
-    const results = await emailProcessor.processQueue()
+    const { results, stoppedReason, retryAfterMs } = await emailProcessor.processQueue(llm)
+
+    // Then retry replies whose earlier sends failed
+    const delivery = await outboxDispatcher.run()
 
     // Get queue stats after processing
     const afterStats = await emailProcessor.getQueueStats()
@@ -37,8 +65,18 @@ export async function POST(request: NextRequest) {
       successful: results.filter(r => r.status === 'completed').length,
       failed: results.filter(r => r.status === 'failed').length,
       manualReview: results.filter(r => r.status === 'manual-review').length,
+      awaitingApproval: results.filter(r => r.status === 'awaiting-approval').length,
+      retryScheduled: results.filter(r => r.status === 'pending').length,
       remainingPending: afterStats.pending,
-      totalCompleted: afterStats.completed
+      totalCompleted: afterStats.completed,
+      stoppedReason,
+      retryAfterMs,
+      llm: llmFactory.resolve(llm),
+      delivery: {
+        attempted: delivery.results.length,
+        sent: delivery.results.filter(r => r.sent).length,
+        stoppedReason: delivery.stoppedReason
+      }
     }
 
     console.log('✅ Batch processing complete:', summary)
@@ -53,7 +91,9 @@ export async function POST(request: NextRequest) {
         hasResponse: !!r.response,
         tokenUsage: r.tokenUsage,
         processingTime: r.processingTime,
-        error: r.error
+        error: r.error,
+        attempts: r.attempts,
+        nextRetryAt: r.nextRetryAt
       })),
       stats: {
         before: beforeStats,
@@ -79,11 +119,22 @@ export async function GET() {
   try {
     const stats = await emailProcessor.getQueueStats()
     const tokenUsage = await emailProcessor.getTotalTokenUsage()
+    const jobs = await jobQueue.getStats()
+    const rateLimit = await rateLimiter.getStatus(llmFactory.getProvider())
+    const outboxStats = await outbox.getStats()
 
     return NextResponse.json({
       queue: stats,
+      jobs,
+      outbox: outboxStats,
+      rateLimit,
       tokenUsage,
-      openAIConfigured: !!process.env.OPENAI_API_KEY
+      openAIConfigured: llmFactory.isConfigured({ provider: 'openai' }),
+      llm: {
+        ...llmFactory.resolve(),
+        providers: llmFactory.getProviders(),
+        routing: { enabled: modelRouter.isEnabled(), rules: modelRouter.getRules() }
+      }
     })
 
   } catch (error) {
@@ -0,0 +1,51 @@
+// /app/api/process/reject/[id]/route.ts
+// API route to reject a draft held for review
+// Nothing is sent; the email moves to manual review with the reviewer's note
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailProcessor, type ReviewInput } from '@/lib/services/email/processor'
+
+// POST /api/process/reject/[id] - Reject the held draft
+// Body (optional): { reviewer?: string, note?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Email ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const { reviewer, note } = await request.json().catch(() => ({})) as ReviewInput
+
+    console.log(`🚫 API: Rejecting email ${id}`)
+
+    const result = await emailProcessor.rejectEmail(id, { reviewer, note })
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Reject API error:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot reject') ? 400 :
+                       errorMessage.includes('already being processed') ? 409 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to reject email',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
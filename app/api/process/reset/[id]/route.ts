@@ -4,6 +4,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { emailStore } from '@/lib/kv-client'
+import { deadLetterQueue } from '@/lib/services/email/dead-letter'
 
 // POST /api/process/reset/[id] - Reset email to pending status
 export async function POST(
@@ -41,8 +42,11 @@ export async function POST(
       response: undefined,
       processedAt: undefined,
       tokenUsage: undefined,
-      processingTime: undefined
+      processingTime: undefined,
+      attempts: 0,
+      nextRetryAt: ''
     })
+    await deadLetterQueue.remove([id])
 
     console.log(`✅ Email reset from ${previousStatus} to pending`)
     
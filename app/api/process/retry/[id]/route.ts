@@ -4,8 +4,14 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { emailProcessor } from '@/lib/services/email/processor'
+import { llmFactory, LLM_PROVIDERS } from '@/lib/services/llm/llm-factory'
 
-// POST /api/process/retry/[id] - Retry processing for a failed email
+interface LLMSelectionRequest {
+  provider?: string
+  model?: string
+}
+
+// POST /api/process/retry/[id] - Retry processing for a failed email, optionally on { provider, model }
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -20,12 +26,26 @@ export async function POST(
       )
     }
 
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    // Optional { provider, model } - runs on the configured default when left out
+    const body = await request.json().catch(() => ({})) as LLMSelectionRequest
+    const llm = llmFactory.parseSelection(body)
+    if (!llm) {
+      return NextResponse.json(
+        { 
+          error: 'Unknown LLM provider',
+          message: `Provider must be one of: ${LLM_PROVIDERS.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    // Check the selected LLM provider is configured
+    const provider = llmFactory.getProviderInfo(llm)
+    if (!provider.configured) {
       return NextResponse.json(
         { 
-          error: 'OpenAI API not configured',
-          message: 'Please add OPENAI_API_KEY to your environment variables'
+          error: `LLM provider ${provider.name} not configured`,
+          message: `Please add ${provider.requiredEnv} to your environment variables`
         },
         { status: 503 }
       )
@@ -34,7 +54,7 @@ export async function POST(
     console.log(`🔄 API: Retrying email ${id}`)
     
     // Retry processing the email
-    const result = await emailProcessor.retryEmail(id)
+    const result = await emailProcessor.retryEmail(id, llm)
 
     // Return appropriate status code based on result
     const statusCode = result.status === 'completed' ? 200 : 
@@ -52,7 +72,8 @@ export async function POST(
     // Check for specific error messages
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     const statusCode = errorMessage.includes('not found') ? 404 :
-                       errorMessage.includes('Cannot retry') ? 400 : 500
+                       errorMessage.includes('Cannot retry') ? 400 :
+                       errorMessage.includes('already being processed') ? 409 : 500
     
     return NextResponse.json(
       { 
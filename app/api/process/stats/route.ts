@@ -2,14 +2,23 @@
 // API route for processing statistics and diagnostics
 // Provides detailed information about email processing status
 
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { emailStore } from '@/lib/kv-client'
 import { emailProcessor } from '@/lib/services/email/processor'
+import { llmFactory, LLM_PROVIDERS } from '@/lib/services/llm/llm-factory'
+
+interface LLMSelectionRequest {
+  provider?: string
+  model?: string
+}
 
 export async function GET() {
   try {
-    // Check if OpenAI API is configured
-    const openAIConfigured = !!process.env.OPENAI_API_KEY
+    // Check if the default LLM provider is configured
+    const llm = llmFactory.resolve()
+    const openAIConfigured = llmFactory.isConfigured()
+    // Breaker state for the default model and each fallback behind it
+    const circuits = await llmFactory.getCircuits()
     
     // Get processing statistics
     const processingStats = await emailStore.getProcessingStats()
@@ -40,8 +49,11 @@ export async function GET() {
     const response = {
       status: {
         openAIConfigured,
-        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-        maxTokens: process.env.OPENAI_MAX_TOKENS || '500'
+        provider: llm.provider,
+        model: llm.model,
+        maxTokens: process.env.OPENAI_MAX_TOKENS || '500',
+        providers: llmFactory.getProviders(),
+        circuits
       },
       processing: processingStats,
       tokenUsage: {
@@ -73,23 +85,38 @@ export async function GET() {
   }
 }
 
-// POST endpoint to process all pending emails
-export async function POST() {
+// POST endpoint to process all pending emails, optionally on { provider, model }
+export async function POST(request: NextRequest) {
   try {
-    if (!process.env.OPENAI_API_KEY) {
+    const body = await request.json().catch(() => ({})) as LLMSelectionRequest
+    const llm = llmFactory.parseSelection(body)
+    if (!llm) {
+      return NextResponse.json(
+        { 
+          error: 'Unknown LLM provider',
+          message: `Provider must be one of: ${LLM_PROVIDERS.join(', ')}`
+        },
+        { status: 400 }
+      )
+    }
+
+    const provider = llmFactory.getProviderInfo(llm)
+    if (!provider.configured) {
       return NextResponse.json(
         { 
-          error: 'OpenAI API not configured',
-          message: 'Please add OPENAI_API_KEY to your environment variables'
+          error: `LLM provider ${provider.name} not configured`,
+          message: `Please add ${provider.requiredEnv} to your environment variables`
         },
         { status: 503 }
       )
     }
 
     console.log('🚀 Starting queue processing...')
-    const results = await emailProcessor.processQueue()
+    const { results, stoppedReason, retryAfterMs } = await emailProcessor.processQueue(llm)
 
     const stats = {
+      stoppedReason,
+      retryAfterMs,
       total: results.length,
       successful: results.filter(r => r.status === 'completed').length,
       failed: results.filter(r => r.status === 'failed' || r.status === 'manual-review').length
@@ -0,0 +1,55 @@
+// /app/api/prompts/[name]/[version]/publish/route.ts
+// API route to make a prompt version the one replies are written with
+// The version it replaces is retired; publishing an older version or version 0 rolls back
+
+import { NextRequest, NextResponse } from 'next/server'
+import { promptRegistry } from '@/lib/services/llm/prompt-registry'
+
+// POST /api/prompts/[name]/[version]/publish - Publish a version
+// Body (optional): { publishedBy?: string }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; version: string }> }
+) {
+  try {
+    const { name, version } = await params
+
+    const versionNumber = parseInt(version)
+    if (isNaN(versionNumber) || versionNumber < 0) {
+      return NextResponse.json(
+        { error: 'Invalid prompt version' },
+        { status: 400 }
+      )
+    }
+
+    if (!promptRegistry.isTemplateName(name)) {
+      return NextResponse.json(
+        { error: 'Prompt version not found' },
+        { status: 404 }
+      )
+    }
+
+    const { publishedBy } = await request.json().catch(() => ({})) as { publishedBy?: string }
+
+    const prompt = await promptRegistry.publish(name, versionNumber, publishedBy || undefined)
+
+    return NextResponse.json({
+      success: true,
+      prompt
+    })
+  } catch (error) {
+    console.error('Error publishing prompt:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot') ? 400 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to publish prompt',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
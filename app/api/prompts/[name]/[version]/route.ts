@@ -0,0 +1,102 @@
+// /app/api/prompts/[name]/[version]/route.ts
+// API route for a single prompt version
+// GET fetches it with its rendered prompt; PATCH edits it while it is still a draft
+
+import { NextRequest, NextResponse } from 'next/server'
+import { promptRegistry, type PromptDraftInput } from '@/lib/services/llm/prompt-registry'
+
+// GET /api/prompts/[name]/[version] - Version 0 is the built-in prompt
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; version: string }> }
+) {
+  try {
+    const { name, version } = await params
+
+    const versionNumber = parseInt(version)
+    if (isNaN(versionNumber) || versionNumber < 0) {
+      return NextResponse.json(
+        { error: 'Invalid prompt version' },
+        { status: 400 }
+      )
+    }
+
+    const prompt = promptRegistry.isTemplateName(name)
+      ? await promptRegistry.getVersion(name, versionNumber)
+      : null
+    if (!prompt) {
+      return NextResponse.json(
+        { error: 'Prompt version not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      prompt,
+      rendered: promptRegistry.preview(prompt.template, prompt.variables)
+    })
+  } catch (error) {
+    console.error('Error fetching prompt version:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt version' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/prompts/[name]/[version] - Edit a draft
+// Body: { template?: string, variables?: Partial<PromptVariables>, note?: string }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; version: string }> }
+) {
+  try {
+    const { name, version } = await params
+
+    const versionNumber = parseInt(version)
+    if (isNaN(versionNumber) || versionNumber < 1) {
+      return NextResponse.json(
+        { error: 'Invalid prompt version' },
+        { status: 400 }
+      )
+    }
+
+    if (!promptRegistry.isTemplateName(name)) {
+      return NextResponse.json(
+        { error: 'Prompt version not found' },
+        { status: 404 }
+      )
+    }
+
+    const { template, variables, note } = await request.json().catch(() => ({})) as PromptDraftInput
+
+    if (template === undefined && variables === undefined && note === undefined) {
+      return NextResponse.json(
+        { error: 'Provide template, variables or note' },
+        { status: 400 }
+      )
+    }
+
+    const prompt = await promptRegistry.updateDraft(name, versionNumber, { template, variables, note })
+
+    return NextResponse.json({
+      success: true,
+      prompt
+    })
+  } catch (error) {
+    console.error('Error updating prompt draft:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot') || errorMessage.includes('Invalid') ? 400 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update prompt draft',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+// /app/api/prompts/[name]/route.ts
+// API route for one system prompt template
+// GET lists its versions; POST starts a new draft from the published version or a chosen one
+
+import { NextRequest, NextResponse } from 'next/server'
+import { promptRegistry, type PromptDraftInput } from '@/lib/services/llm/prompt-registry'
+import { PROMPT_VARIANTS } from '@/lib/services/llm/llm-prompts'
+
+// GET /api/prompts/[name] - Published version and every stored version, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params
+
+    if (!promptRegistry.isTemplateName(name)) {
+      return NextResponse.json(
+        { error: `Unknown prompt template "${name}"`, allowed: PROMPT_VARIANTS },
+        { status: 404 }
+      )
+    }
+
+    const [published, versions, builtin] = await Promise.all([
+      promptRegistry.getPublished(name),
+      promptRegistry.getVersions(name),
+      promptRegistry.getVersion(name, 0)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      name,
+      published,
+      versions: [...versions, builtin]
+    })
+  } catch (error) {
+    console.error('Error fetching prompt template:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt template' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/prompts/[name] - Create a draft
+// Body: { template?: string, variables?: Partial<PromptVariables>, note?: string, author?: string, from?: number }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params
+
+    if (!promptRegistry.isTemplateName(name)) {
+      return NextResponse.json(
+        { error: `Unknown prompt template "${name}"`, allowed: PROMPT_VARIANTS },
+        { status: 404 }
+      )
+    }
+
+    const { template, variables, note, author, from } = await request.json().catch(() => ({})) as PromptDraftInput
+
+    if (from !== undefined && (!Number.isInteger(from) || from < 0)) {
+      return NextResponse.json(
+        { error: 'Invalid from version' },
+        { status: 400 }
+      )
+    }
+
+    const draft = await promptRegistry.createDraft(name, { template, variables, note, author, from })
+
+    return NextResponse.json({
+      success: true,
+      draft
+    })
+  } catch (error) {
+    console.error('Error creating prompt draft:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Invalid') ? 400 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create prompt draft',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
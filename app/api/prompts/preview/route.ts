@@ -0,0 +1,55 @@
+// /app/api/prompts/preview/route.ts
+// API route to fill in a template without saving it
+// Variables left out take the built-in values; an email ID fills {{rateContext}} from that email's pricing
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailStore } from '@/lib/kv-client'
+import { promptRegistry } from '@/lib/services/llm/prompt-registry'
+import type { PromptVariables } from '@/lib/services/llm/llm-prompts'
+
+// POST /api/prompts/preview - Render a template
+// Body: { template: string, variables?: Partial<PromptVariables>, emailId?: string }
+export async function POST(request: NextRequest) {
+  try {
+    const { template, variables, emailId } = await request.json().catch(() => ({})) as {
+      template?: string
+      variables?: Partial<PromptVariables>
+      emailId?: string
+    }
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Provide template' },
+        { status: 400 }
+      )
+    }
+
+    const email = emailId ? await emailStore.getEmail(emailId) : undefined
+    if (email === null) {
+      return NextResponse.json(
+        { error: 'Email not found' },
+        { status: 404 }
+      )
+    }
+
+    const content = promptRegistry.preview(template, variables, email)
+
+    return NextResponse.json({
+      success: true,
+      content
+    })
+  } catch (error) {
+    console.error('Error previewing prompt:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('Invalid') ? 400 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to preview prompt',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
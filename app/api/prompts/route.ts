@@ -0,0 +1,32 @@
+// /app/api/prompts/route.ts
+// API route for the system prompt templates replies are written with
+// One template per reply style, each with its published version and the variables it can use
+
+import { NextResponse } from 'next/server'
+import { promptRegistry } from '@/lib/services/llm/prompt-registry'
+import { EMAIL_PROMPT_VARIABLES, PROMPT_VARIABLES } from '@/lib/services/llm/llm-prompts'
+
+// GET /api/prompts - Every template with its published version
+export async function GET() {
+  try {
+    const templates = await promptRegistry.list()
+
+    return NextResponse.json({
+      success: true,
+      templates,
+      variables: PROMPT_VARIABLES,
+      emailVariables: EMAIL_PROMPT_VARIABLES
+    })
+
+  } catch (error) {
+    console.error('Prompt list error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list prompt templates',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
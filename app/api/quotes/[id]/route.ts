@@ -0,0 +1,83 @@
+// /app/api/quotes/[id]/route.ts
+// API route for a single quote
+// GET fetches it; PATCH moves it through its lifecycle or changes its valid-until date
+
+import { NextRequest, NextResponse } from 'next/server'
+import { quoteService, QUOTE_STATUSES, type QuoteUpdate } from '@/lib/services/freight/quote-service'
+
+// GET /api/quotes/[id] - Quote by number
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const quote = await quoteService.get(id)
+    if (!quote) {
+      return NextResponse.json(
+        { error: 'Quote not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      quote
+    })
+  } catch (error) {
+    console.error('Error fetching quote:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch quote' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/quotes/[id] - Update status and/or valid-until
+// Body: { status?: QuoteStatus, validUntil?: string, by?: string, note?: string }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const { status, validUntil, by, note } = await request.json().catch(() => ({})) as QuoteUpdate
+
+    if (status === undefined && validUntil === undefined && !note) {
+      return NextResponse.json(
+        { error: 'Provide status, validUntil or note' },
+        { status: 400 }
+      )
+    }
+
+    if (status !== undefined && !QUOTE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Unknown status "${status}"`, allowed: QUOTE_STATUSES },
+        { status: 400 }
+      )
+    }
+
+    const quote = await quoteService.update(id, { status, validUntil, by, note })
+
+    return NextResponse.json({
+      success: true,
+      quote
+    })
+  } catch (error) {
+    console.error('Error updating quote:', error)
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const statusCode = errorMessage.includes('not found') ? 404 :
+                       errorMessage.includes('Cannot') ? 400 : 500
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update quote',
+        message: errorMessage
+      },
+      { status: statusCode }
+    )
+  }
+}
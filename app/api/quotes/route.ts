@@ -0,0 +1,47 @@
+// /app/api/quotes/route.ts
+// API route for listing quotes issued from rate engine prices
+// Filterable by lifecycle status or by the email a quote was prepared for
+
+import { NextRequest, NextResponse } from 'next/server'
+import { quoteService, QUOTE_STATUSES, type QuoteStatus } from '@/lib/services/freight/quote-service'
+
+// GET /api/quotes?status=sent&emailId=...&limit=50&offset=0 - Newest first
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams
+    const limit = Math.min(parseInt(params.get('limit') || '50') || 50, 200)
+    const offset = Math.max(parseInt(params.get('offset') || '0') || 0, 0)
+
+    const status = params.get('status')
+    if (status && !QUOTE_STATUSES.includes(status as QuoteStatus)) {
+      return NextResponse.json(
+        { error: `Unknown status "${status}"`, allowed: QUOTE_STATUSES },
+        { status: 400 }
+      )
+    }
+
+    const { quotes, total } = await quoteService.list({
+      status: (status as QuoteStatus) || undefined,
+      emailId: params.get('emailId') || undefined,
+      limit,
+      offset
+    })
+
+    return NextResponse.json({
+      success: true,
+      quotes,
+      total
+    })
+
+  } catch (error) {
+    console.error('Quote list error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to list quotes',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -3,7 +3,7 @@
 // Helps diagnose empty response issues
 
 import { NextResponse } from 'next/server'
-import { llmFactory } from '@/lib/services/llm-factory'
+import { llmFactory } from '@/lib/services/llm/llm-factory'
 
 export async function GET() {
   try {
@@ -13,9 +13,9 @@ export async function GET() {
 
     console.log('🧪 Testing OpenAI configuration...')
 
-    // Get the appropriate service
-    const llmService = llmFactory.getService()
-    const modelType = llmFactory.getModelType()
+    // Get the appropriate service - this endpoint always tests OpenAI, whatever LLM_PROVIDER is
+    const llmService = llmFactory.getService({ provider: 'openai' })
+    const modelType = llmFactory.getModelType({ provider: 'openai' })
 
     // First test basic connection
     const connectionTest = await llmService.testConnection()
@@ -202,7 +202,7 @@ export async function GET() {
         configuration: {
           hasApiKey: !!process.env.OPENAI_API_KEY,
           model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-          modelType: llmFactory.getModelType()
+          modelType: llmFactory.getModelType({ provider: 'openai' })
         }
       },
       { status: 500 }
@@ -0,0 +1,39 @@
+// /app/api/threads/[threadId]/route.ts
+// API route for a whole conversation, grouped by threadId
+// Inbound emails, drafts and sent replies in chronological order for the dashboard thread view
+
+import { NextRequest, NextResponse } from 'next/server'
+import { emailStore } from '@/lib/kv-client'
+import { buildConversation } from '@/lib/services/email/conversation'
+
+// GET /api/threads/[threadId] - Thread summary and its conversation entries, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  try {
+    const { threadId } = await params
+
+    const thread = await emailStore.getThread(threadId)
+    if (!thread) {
+      return NextResponse.json(
+        { error: 'Thread not found' },
+        { status: 404 }
+      )
+    }
+
+    const conversation = await buildConversation(thread)
+
+    return NextResponse.json({
+      success: true,
+      ...conversation,
+      count: conversation.entries.length
+    })
+  } catch (error) {
+    console.error('Error fetching thread:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch thread' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,22 +4,50 @@
 
 'use client'
 
-import { useQuery } from '@tanstack/react-query'
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query'
 import { useEffect, useState } from 'react'
 import { AgentHeader } from '@/components/agent-header'
-import { FeedStream } from '@/components/feed-stream'
+import { FeedStream, type FeedMode } from '@/components/feed-stream'
 import { MissionControl } from '@/components/mission-control'
-import { type ProcessedEmail } from '@/lib/kv-client'
+import { type ProcessedEmail, type ProcessingStats } from '@/lib/kv-client'
+import type { CircuitStatus } from '@/lib/services/llm/circuit-breaker'
 import { RefreshCw } from 'lucide-react'
 
-async function fetchEmails(): Promise<ProcessedEmail[]> {
-  const response = await fetch('/api/emails')
+// The feed only needs these - body and response load with the selected email
+const LIST_FIELDS = ['threadId', 'subject', 'from', 'receivedAt', 'status', 'category', 'processingTime']
+
+type EmailListItem = Pick<ProcessedEmail, 'id' | 'threadId' | 'subject' | 'from' | 'receivedAt' | 'status' | 'category' | 'processingTime'>
+
+interface EmailListPage {
+  emails: EmailListItem[]
+  nextCursor: string | null
+  stats: ProcessingStats
+}
+
+async function fetchEmailPage(cursor: string | null): Promise<EmailListPage> {
+  const params = new URLSearchParams({ fields: LIST_FIELDS.join(','), limit: '50' })
+  if (cursor) params.set('cursor', cursor)
+
+  const response = await fetch(`/api/emails?${params}`)
   if (!response.ok) throw new Error('Failed to fetch emails')
+  return response.json()
+}
+
+async function fetchEmail(id: string): Promise<ProcessedEmail> {
+  const response = await fetch(`/api/emails/${id}`)
+  if (!response.ok) throw new Error('Failed to fetch email')
+  const data = await response.json()
+  return data.email
+}
+
+async function fetchCircuits(): Promise<CircuitStatus[]> {
+  const response = await fetch('/api/process/stats')
+  if (!response.ok) throw new Error('Failed to fetch processing stats')
   const data = await response.json()
-  return data.emails
+  return data.status?.circuits ?? []
 }
 
-async function pollForNewEmails(): Promise<{ newCount: number; emails: ProcessedEmail[] }> {
+async function pollForNewEmails(): Promise<{ newCount: number; lastHistoryId: number }> {
   const response = await fetch('/api/emails/poll')
   if (!response.ok) throw new Error('Failed to poll emails')
   return response.json()
@@ -27,14 +55,39 @@ async function pollForNewEmails(): Promise<{ newCount: number; emails: Processed
 
 export default function DashboardPage() {
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null)
+  const [feedMode, setFeedMode] = useState<FeedMode>('emails')
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null)
 
-  // Main query for fetching emails
-  const { data: emails = [], isLoading, error, refetch } = useQuery({
+  // Main query for fetching email summaries a page at a time
+  const { data, isLoading, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
     queryKey: ['emails'],
-    queryFn: fetchEmails,
+    queryFn: ({ pageParam }) => fetchEmailPage(pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    refetchInterval: 15000,
+  })
+  const emails = data?.pages.flatMap(page => page.emails) ?? []
+  const processingStats = data?.pages[0]?.stats
+
+  // Full record (body and response) for the selected email
+  const { data: selectedMessage = null, refetch: refetchSelected } = useQuery({
+    queryKey: ['email', selectedMessageId],
+    queryFn: () => fetchEmail(selectedMessageId!),
+    enabled: !!selectedMessageId,
     refetchInterval: 15000,
   })
 
+  const refreshAll = () => {
+    refetch()
+    if (selectedMessageId) refetchSelected()
+  }
+
+  // Opening an email from the conversation view drops back to the single-email view
+  const openMessage = (id: string) => {
+    setFeedMode('emails')
+    setSelectedMessageId(id)
+  }
+
   // Polling query for new emails
   const { data: pollData } = useQuery({
     queryKey: ['poll-emails'],
@@ -43,6 +96,13 @@ export default function DashboardPage() {
     enabled: !isLoading,
   })
 
+  // Circuit breaker state of the LLM fallback chain
+  const { data: circuits } = useQuery({
+    queryKey: ['llm-circuits'],
+    queryFn: fetchCircuits,
+    refetchInterval: 30000,
+  })
+
   // Refetch when new messages detected
   useEffect(() => {
     if (pollData?.newCount && pollData.newCount > 0) {
@@ -50,18 +110,15 @@ export default function DashboardPage() {
     }
   }, [pollData?.newCount, refetch])
 
-  // Get selected message
-  const selectedMessage = emails.find(e => e.id === selectedMessageId) || null
-
-  // Calculate stats
+  // Counts come from the store, not from the pages loaded so far
   const stats = {
-    total: emails.length,
-    analyzed: emails.filter(e => e.status === 'completed').length,
-    active: emails.filter(e => e.status === 'processing').length,
-    pending: emails.filter(e => e.status === 'pending').length,
+    total: processingStats?.totalEmails ?? emails.length,
+    analyzed: processingStats?.completed ?? 0,
+    active: processingStats?.processing ?? 0,
+    pending: processingStats?.pending ?? 0,
   }
 
-  // Calculate average response time from processed emails
+  // Calculate average response time from the loaded processed emails
   const avgResponseTime = (() => {
     const processed = emails.filter(e => e.status === 'completed' && e.processingTime)
     if (processed.length === 0) return 2.1
@@ -94,6 +151,7 @@ export default function DashboardPage() {
         analyzedCount={stats.analyzed}
         avgResponseTime={avgResponseTime}
         activeProcessing={stats.active}
+        circuits={circuits}
       />
 
       {/* Status Bar - Optional: Shows pending count */}
@@ -113,8 +171,17 @@ export default function DashboardPage() {
         <div className="w-64 flex-shrink-0">
           <FeedStream 
             messages={emails}
+            totalCount={stats.total}
+            pendingCount={stats.pending}
             selectedId={selectedMessageId}
             onSelectMessage={setSelectedMessageId}
+            mode={feedMode}
+            onModeChange={setFeedMode}
+            selectedThreadId={selectedThreadId}
+            onSelectThread={setSelectedThreadId}
+            hasMore={hasNextPage}
+            isLoadingMore={isFetchingNextPage}
+            onLoadMore={() => fetchNextPage()}
           />
         </div>
 
@@ -122,8 +189,10 @@ export default function DashboardPage() {
         <div className="flex-1 min-w-0">
           <MissionControl 
             selectedMessage={selectedMessage}
-            allMessages={emails}
-            onRefresh={refetch}
+            selectedThreadId={feedMode === 'threads' ? selectedThreadId : null}
+            stats={processingStats}
+            onRefresh={refreshAll}
+            onSelectMessage={openMessage}
           />
         </div>
       </div>
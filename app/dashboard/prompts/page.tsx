@@ -0,0 +1,358 @@
+// /app/dashboard/prompts/page.tsx
+// System prompt templates - edit drafts, preview them and publish without a redeploy
+// Every version stays listed so an email's prompt version can be looked up or rolled back to
+
+'use client'
+
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { ArrowLeft, Eye, FilePlus, GitCompare, Save, Send } from 'lucide-react'
+import { toast } from 'sonner'
+import type { PromptTemplateSummary, PromptVersion, PromptVersionStatus } from '@/lib/services/llm/prompt-registry'
+import type { EmailPromptVariable, PromptVariable, PromptVariables, PromptVariant } from '@/lib/services/llm/llm-prompts'
+import { diffDrafts } from '@/lib/services/email/draft-diff'
+
+interface TemplateList {
+  templates: PromptTemplateSummary[]
+  variables: PromptVariable[]
+  emailVariables: EmailPromptVariable[]
+}
+
+interface TemplateVersions {
+  published: PromptVersion
+  versions: PromptVersion[]
+}
+
+interface DraftEditor {
+  template: string
+  variables: PromptVariables
+  note: string
+}
+
+const STATUS_COLORS: Record<PromptVersionStatus, string> = {
+  draft: 'text-amber-600',
+  published: 'text-green-600',
+  retired: 'text-gray-400'
+}
+
+async function fetchTemplates(): Promise<TemplateList> {
+  const response = await fetch('/api/prompts')
+  if (!response.ok) throw new Error('Failed to fetch prompt templates')
+  return response.json()
+}
+
+async function fetchVersions(name: PromptVariant): Promise<TemplateVersions> {
+  const response = await fetch(`/api/prompts/${name}`)
+  if (!response.ok) throw new Error('Failed to fetch prompt versions')
+  return response.json()
+}
+
+export default function PromptsPage() {
+  const queryClient = useQueryClient()
+  const [name, setName] = useState<PromptVariant>('standard')
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null)
+  const [editor, setEditor] = useState<DraftEditor | null>(null)
+  const [preview, setPreview] = useState<string | null>(null)
+  const [previewEmailId, setPreviewEmailId] = useState('')
+  const [showDiff, setShowDiff] = useState(false)
+  const [author, setAuthor] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data: list } = useQuery({
+    queryKey: ['prompt-templates'],
+    queryFn: fetchTemplates,
+    refetchInterval: false,
+  })
+
+  const { data: detail } = useQuery({
+    queryKey: ['prompt-versions', name],
+    queryFn: () => fetchVersions(name),
+    refetchInterval: false,
+  })
+
+  const versions = detail?.versions ?? []
+  const published = detail?.published
+  const selected = versions.find(version => version.version === (selectedVersion ?? published?.version))
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['prompt-templates'] })
+    queryClient.invalidateQueries({ queryKey: ['prompt-versions', name] })
+  }
+
+  // Drafts open in the editor; published and retired versions are read-only
+  const selectVersion = (version: PromptVersion) => {
+    setSelectedVersion(version.version)
+    setEditor(version.status === 'draft'
+      ? { template: version.template, variables: version.variables, note: version.note || '' }
+      : null)
+    setPreview(null)
+  }
+
+  const selectTemplate = (template: PromptVariant) => {
+    setName(template)
+    setSelectedVersion(null)
+    setEditor(null)
+    setPreview(null)
+  }
+
+  // POST, PATCH and publish share the same error handling
+  const send = async (url: string, method: 'POST' | 'PATCH', body: object): Promise<{ draft?: PromptVersion; prompt?: PromptVersion; content?: string } | null> => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      toast.error(data.message || data.error || 'Request failed')
+      return null
+    }
+    return data
+  }
+
+  const handleNewDraft = async (from: PromptVersion) => {
+    setIsSaving(true)
+    try {
+      const data = await send(`/api/prompts/${name}`, 'POST', { from: from.version, author: author || undefined })
+      if (data?.draft) {
+        toast.success(`Draft ${data.draft.id} created from ${from.id}`)
+        selectVersion(data.draft)
+        refresh()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = async (): Promise<boolean> => {
+    if (!selected || !editor) return false
+
+    setIsSaving(true)
+    try {
+      const data = await send(`/api/prompts/${name}/${selected.version}`, 'PATCH', editor)
+      if (data?.prompt) {
+        refresh()
+        return true
+      }
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // A draft is saved first so what gets published is what is in the editor
+  const handlePublish = async (version: PromptVersion) => {
+    if (version.status === 'draft' && !(await handleSave())) return
+
+    setIsSaving(true)
+    try {
+      const data = await send(`/api/prompts/${name}/${version.version}/publish`, 'POST', { publishedBy: author || undefined })
+      if (data?.prompt) {
+        toast.success(`${data.prompt.id} is now live`)
+        setEditor(null)
+        refresh()
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handlePreview = async () => {
+    const template = editor?.template ?? selected?.template
+    if (!template) return
+
+    const data = await send('/api/prompts/preview', 'POST', {
+      template,
+      variables: editor?.variables ?? selected?.variables,
+      emailId: previewEmailId.trim() || undefined
+    })
+    if (data?.content !== undefined) setPreview(data.content)
+  }
+
+  const template = editor?.template ?? selected?.template ?? ''
+  const variables = editor?.variables ?? selected?.variables
+  const diff = showDiff && published && selected && selected.id !== published.id
+    ? diffDrafts(published.template, template)
+    : null
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="border-b border-gray-200 bg-white h-14 flex items-center justify-between px-6">
+        <div className="flex items-center gap-4">
+          <a href="/dashboard" className="text-gray-500 hover:text-purple-600">
+            <ArrowLeft className="h-4 w-4" />
+          </a>
+          <h1 className="text-xl font-light tracking-[0.3em] text-gray-900">PROMPTS</h1>
+        </div>
+        <input
+          value={author}
+          onChange={event => setAuthor(event.target.value)}
+          placeholder="Your name"
+          className="border border-gray-200 rounded px-2 py-1 text-xs w-40"
+        />
+      </header>
+
+      {/* One tab per reply style the model router can pick */}
+      <div className="flex border-b border-gray-200 bg-white px-6">
+        {list?.templates.map(summary => (
+          <button
+            key={summary.name}
+            onClick={() => selectTemplate(summary.name)}
+            className={`px-4 py-2 text-xs uppercase tracking-wider border-b-2 ${
+              summary.name === name ? 'border-purple-600 text-purple-600' : 'border-transparent text-gray-500 hover:text-gray-900'
+            }`}
+          >
+            {summary.name}
+            <span className="ml-2 font-mono normal-case text-gray-400">{summary.published.id}</span>
+            {summary.drafts > 0 && <span className="ml-2 text-amber-600">{summary.drafts} draft{summary.drafts > 1 ? 's' : ''}</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-6 p-6">
+        {/* Versions, newest first - the built-in prompt is version 0 */}
+        <div className="w-72 flex-shrink-0 border border-gray-200 rounded bg-white divide-y divide-gray-100 self-start">
+          {versions.map(version => (
+            <button
+              key={version.id}
+              onClick={() => selectVersion(version)}
+              className={`w-full text-left px-3 py-2 text-xs ${version.id === selected?.id ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-mono font-semibold text-gray-900">{version.id}</span>
+                <span className={`uppercase ${STATUS_COLORS[version.status]}`}>{version.status}</span>
+              </div>
+              <div className="text-gray-500 truncate">
+                {version.createdBy}
+                {version.createdAt && ` · ${format(new Date(version.createdAt), 'MMM d HH:mm')}`}
+              </div>
+              {version.note && <div className="text-gray-700 truncate">{version.note}</div>}
+            </button>
+          ))}
+        </div>
+
+        {selected && variables && (
+          <div className="flex-1 min-w-0 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="text-xs text-gray-500">
+                <span className="font-mono font-semibold text-gray-900">{selected.id}</span>
+                {selected.publishedAt && ` · published ${format(new Date(selected.publishedAt), 'MMM d HH:mm')} by ${selected.publishedBy}`}
+              </div>
+              <div className="flex items-center gap-3 text-xs">
+                <button onClick={() => setShowDiff(!showDiff)} className="flex items-center gap-1 text-blue-600 hover:underline">
+                  <GitCompare className="h-3 w-3" />
+                  {showDiff ? 'Hide diff' : 'Diff vs published'}
+                </button>
+                <input
+                  value={previewEmailId}
+                  onChange={event => setPreviewEmailId(event.target.value)}
+                  placeholder="Preview for email ID"
+                  className="border border-gray-200 rounded px-2 py-0.5 text-xs w-36"
+                />
+                <button onClick={handlePreview} className="flex items-center gap-1 text-blue-600 hover:underline">
+                  <Eye className="h-3 w-3" />
+                  Preview
+                </button>
+                <button
+                  onClick={() => handleNewDraft(selected)}
+                  disabled={isSaving}
+                  className="flex items-center gap-1 text-gray-700 hover:underline disabled:opacity-50"
+                >
+                  <FilePlus className="h-3 w-3" />
+                  New draft from this
+                </button>
+                {editor && (
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="flex items-center gap-1 text-gray-700 hover:underline disabled:opacity-50"
+                  >
+                    <Save className="h-3 w-3" />
+                    Save draft
+                  </button>
+                )}
+                {selected.status !== 'published' && (
+                  <button
+                    onClick={() => handlePublish(selected)}
+                    disabled={isSaving}
+                    className="flex items-center gap-1 px-3 py-1 bg-purple-600 text-white rounded disabled:opacity-50"
+                  >
+                    <Send className="h-3 w-3" />
+                    {selected.status === 'retired' ? 'Roll back to this' : 'Publish'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {(list?.variables ?? []).map(variable => (
+                <label key={variable} className="block text-xs">
+                  <span className="text-gray-500 font-mono">{`{{${variable}}}`}</span>
+                  <textarea
+                    value={variables[variable]}
+                    readOnly={!editor}
+                    onChange={event => editor && setEditor({ ...editor, variables: { ...editor.variables, [variable]: event.target.value } })}
+                    rows={2}
+                    className="mt-1 w-full border border-gray-200 rounded p-2 font-mono text-xs read-only:bg-gray-50"
+                  />
+                </label>
+              ))}
+            </div>
+
+            {(list?.emailVariables ?? []).length > 0 && (
+              <p className="text-xs text-gray-500">
+                {list!.emailVariables.map(variable => <span key={variable} className="font-mono">{`{{${variable}}} `}</span>)}
+                is filled from each email when the reply is written - the rate engine pricing and fuel surcharge basis.
+              </p>
+            )}
+
+            <textarea
+              value={template}
+              readOnly={!editor}
+              onChange={event => editor && setEditor({ ...editor, template: event.target.value })}
+              rows={24}
+              className="w-full border border-gray-200 rounded p-3 font-mono text-xs read-only:bg-gray-50"
+            />
+
+            {editor && (
+              <input
+                value={editor.note}
+                onChange={event => setEditor({ ...editor, note: event.target.value })}
+                placeholder="What changed and why"
+                className="w-full border border-gray-200 rounded px-2 py-1 text-xs"
+              />
+            )}
+
+            {diff && (
+              <div className="border border-gray-200 rounded bg-white">
+                <div className="px-2 py-1 border-b border-gray-200 text-xs text-gray-500 uppercase">{published?.id} → {selected.id}</div>
+                <div className="p-2 text-xs font-mono whitespace-pre-wrap">
+                  {diff.map((line, index) => (
+                    <div
+                      key={index}
+                      className={
+                        line.type === 'added' ? 'bg-green-50 text-green-800' :
+                        line.type === 'removed' ? 'bg-red-50 text-red-800 line-through' :
+                        'text-gray-500'
+                      }
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {preview !== null && (
+              <div className="border border-gray-200 rounded bg-white">
+                <div className="px-2 py-1 border-b border-gray-200 text-xs text-gray-500 uppercase">Rendered prompt</div>
+                <pre className="p-3 text-xs whitespace-pre-wrap">{preview}</pre>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,19 +5,28 @@
 'use client'
 
 import { useEffect, useState } from 'react'
+import type { CircuitState, CircuitStatus } from '@/lib/services/llm/circuit-breaker'
 
 interface AgentHeaderProps {
   totalIntel: number
   analyzedCount: number
   avgResponseTime: number
   activeProcessing: number
+  circuits?: CircuitStatus[]
+}
+
+const CIRCUIT_COLORS: Record<CircuitState, string> = {
+  closed: 'bg-green-500',
+  'half-open': 'bg-amber-500',
+  open: 'bg-red-500'
 }
 
 export function AgentHeader({ 
   totalIntel, 
   analyzedCount, 
   avgResponseTime,
-  activeProcessing
+  activeProcessing,
+  circuits = []
 }: AgentHeaderProps) {
   const [currentTime, setCurrentTime] = useState<Date | null>(null)
   const [mounted, setMounted] = useState(false)
@@ -33,6 +42,8 @@ export function AgentHeader({
     return () => clearInterval(timer)
   }, [])
 
+  const availableModels = circuits.filter(circuit => circuit.state !== 'open').length
+
   return (
     <header className="border-b border-gray-200 bg-white">
       <div className="flex items-center justify-between h-14">
@@ -43,6 +54,13 @@ export function AgentHeader({
               AMARA QUO
             </h1>
           </div>
+
+          <a
+            href="/dashboard/prompts"
+            className="px-4 text-[10px] uppercase tracking-wider text-gray-500 hover:text-purple-600"
+          >
+            Prompts
+          </a>
           
           {/* Processing Indicator */}
           {activeProcessing > 0 && (
@@ -81,6 +99,27 @@ export function AgentHeader({
             </div>
           </div>
 
+          {/* Metric Group 4: Model chain - one light per model, in fallback order */}
+          {circuits.length > 0 && (
+            <div className="px-6 border-l border-gray-200 h-14 flex items-center">
+              <div className="space-y-0.5">
+                <div className="text-[10px] uppercase tracking-wider text-gray-500">Models</div>
+                <div className="flex items-center gap-1.5">
+                  {circuits.map(circuit => (
+                    <div
+                      key={`${circuit.provider}:${circuit.model}`}
+                      className={`h-2 w-2 rounded-full ${CIRCUIT_COLORS[circuit.state]}`}
+                      title={`${circuit.provider} / ${circuit.model}: ${circuit.state}${circuit.lastError && circuit.state !== 'closed' ? ` - ${circuit.lastError}` : ''}`}
+                    />
+                  ))}
+                  <span className={`font-mono text-lg ml-1 ${availableModels === circuits.length ? 'text-gray-900' : availableModels === 0 ? 'text-red-600' : 'text-amber-600'}`}>
+                    {availableModels}/{circuits.length}
+                  </span>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Clock - Only render on client */}
           <div className="px-6 border-l border-gray-200 h-14 flex items-center bg-gray-50 min-w-[140px]">
             <div className="font-mono text-sm text-gray-600">
@@ -0,0 +1,148 @@
+// /components/draft-history.tsx
+// Version history of a reply draft with a line diff between versions
+// Older versions can be restored as the draft to send while the email awaits approval
+
+'use client'
+
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { History, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import type { DraftVersion } from '@/lib/services/email/draft-history'
+import { diffDrafts } from '@/lib/services/email/draft-diff'
+
+interface DraftHistoryProps {
+  emailId: string
+  canRestore: boolean
+  pendingEdit?: string | null   // Unsaved editor text, diffed against the current draft
+  onChange?: () => void
+}
+
+async function fetchDrafts(emailId: string): Promise<DraftVersion[]> {
+  const response = await fetch(`/api/emails/${emailId}/drafts`)
+  if (!response.ok) throw new Error('Failed to fetch drafts')
+  const data = await response.json()
+  return data.drafts
+}
+
+export function DraftHistory({ emailId, canRestore, pendingEdit, onChange }: DraftHistoryProps) {
+  const queryClient = useQueryClient()
+  const [compareVersion, setCompareVersion] = useState<number | null>(null)
+  const [restoringVersion, setRestoringVersion] = useState<number | null>(null)
+
+  const { data: drafts = [] } = useQuery({
+    queryKey: ['drafts', emailId],
+    queryFn: () => fetchDrafts(emailId),
+  })
+
+  const current = drafts[drafts.length - 1]
+  const compared = drafts.find(draft => draft.version === compareVersion && draft !== current)
+
+  const handleRestore = async (version: number) => {
+    setRestoringVersion(version)
+    try {
+      const response = await fetch(`/api/emails/${emailId}/drafts/${version}/restore`, {
+        method: 'POST'
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        toast.success(`Draft v${version} restored as v${data.draft.version}`)
+        setCompareVersion(null)
+        queryClient.invalidateQueries({ queryKey: ['drafts', emailId] })
+        onChange?.()
+      } else {
+        toast.error(data.message || 'Failed to restore draft')
+      }
+    } catch (error) {
+      console.error('Restore error:', error)
+      toast.error('Failed to restore draft')
+    } finally {
+      setRestoringVersion(null)
+    }
+  }
+
+  if (drafts.length === 0) return null
+
+  // Unsaved edits take priority over comparing stored versions
+  const diff = pendingEdit != null && current
+    ? { title: `Unsaved edit vs v${current.version}`, lines: diffDrafts(current.content, pendingEdit) }
+    : compared && current
+      ? { title: `v${compared.version} → v${current.version}`, lines: diffDrafts(compared.content, current.content) }
+      : null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-gray-500">
+        <History className="h-3 w-3" />
+        <span className="text-xs uppercase tracking-wider">Draft History ({drafts.length})</span>
+      </div>
+
+      <div className="border border-gray-200 rounded divide-y divide-gray-100">
+        {[...drafts].reverse().map(draft => (
+          <div
+            key={draft.version}
+            className={`px-2 py-1 flex items-center justify-between text-xs ${
+              draft === current ? 'bg-green-50' : compareVersion === draft.version ? 'bg-blue-50' : ''
+            }`}
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <span className="font-semibold text-gray-900">v{draft.version}</span>
+              <span className="text-gray-500 uppercase">
+                {draft.source === 'restore' ? `restore of v${draft.restoredFrom}` : draft.source}
+              </span>
+              <span className="text-gray-700 truncate">{draft.author}</span>
+              {draft.model && <span className="text-purple-600 truncate">{draft.model}</span>}
+              {draft.promptVersion && <span className="text-gray-500 font-mono truncate">{draft.promptVersion}</span>}
+              <span className="text-gray-400">{format(new Date(draft.createdAt), 'MMM d HH:mm:ss')}</span>
+            </div>
+            {draft === current ? (
+              <span className="text-green-600 font-semibold uppercase">Current</span>
+            ) : (
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => setCompareVersion(compareVersion === draft.version ? null : draft.version)}
+                  className="text-blue-600 hover:underline"
+                >
+                  {compareVersion === draft.version ? 'Hide diff' : 'Diff'}
+                </button>
+                {canRestore && (
+                  <button
+                    onClick={() => handleRestore(draft.version)}
+                    disabled={restoringVersion !== null}
+                    className="text-amber-600 hover:underline disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                    {restoringVersion === draft.version ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {diff && (
+        <div className="border border-gray-200 rounded">
+          <div className="px-2 py-1 border-b border-gray-200 text-xs text-gray-500 uppercase">{diff.title}</div>
+          <div className="p-2 text-xs font-mono whitespace-pre-wrap">
+            {diff.lines.map((line, index) => (
+              <div
+                key={index}
+                className={
+                  line.type === 'added' ? 'bg-green-50 text-green-800' :
+                  line.type === 'removed' ? 'bg-red-50 text-red-800 line-through' :
+                  'text-gray-500'
+                }
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
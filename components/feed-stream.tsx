@@ -4,22 +4,72 @@
 
 'use client'
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { format } from 'date-fns'
 import { type ProcessedEmail } from '@/lib/kv-client'
 import { ChevronDown } from 'lucide-react'
 
+// The feed renders summaries, so only these fields are required
+type FeedMessage = Pick<ProcessedEmail, 'id' | 'threadId' | 'from' | 'subject' | 'status' | 'receivedAt'>
+
+export type FeedMode = 'emails' | 'threads'
+
+// Loaded messages of one thread - the newest one stands for the thread
+interface FeedThread {
+  threadId: string
+  latest: FeedMessage
+  count: number
+}
+
 interface FeedStreamProps {
-  messages: ProcessedEmail[]
+  messages: FeedMessage[]
+  totalCount?: number
+  pendingCount?: number
   selectedId: string | null
   onSelectMessage: (id: string) => void
+  mode?: FeedMode
+  onModeChange?: (mode: FeedMode) => void
+  selectedThreadId?: string | null
+  onSelectThread?: (threadId: string) => void
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  onLoadMore?: () => void
 }
 
-export function FeedStream({ messages, selectedId, onSelectMessage }: FeedStreamProps) {
+// Messages arrive newest first, so the first one seen for a thread is its latest
+function groupByThread(messages: FeedMessage[]): FeedThread[] {
+  const threads = new Map<string, FeedThread>()
+  for (const message of messages) {
+    const threadId = message.threadId || message.id
+    const thread = threads.get(threadId)
+    if (thread) {
+      thread.count++
+    } else {
+      threads.set(threadId, { threadId, latest: message, count: 1 })
+    }
+  }
+  return [...threads.values()]
+}
+
+export function FeedStream({
+  messages,
+  totalCount,
+  pendingCount,
+  selectedId,
+  onSelectMessage,
+  mode = 'emails',
+  onModeChange,
+  selectedThreadId,
+  onSelectThread,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
+}: FeedStreamProps) {
   const scrollRef = useRef<HTMLDivElement>(null)
   const [autoScroll, setAutoScroll] = useState(true)
   const [hasNewMessages, setHasNewMessages] = useState(false)
   const prevMessageCount = useRef(messages.length)
+  const threads = useMemo(() => groupByThread(messages), [messages])
 
   // Messages are already sorted newest first from the API
   // No need to re-sort here
@@ -72,6 +122,7 @@ export function FeedStream({ messages, selectedId, onSelectMessage }: FeedStream
     switch (status) {
       case 'completed': return 'bg-green-500'
       case 'processing': return 'bg-purple-600 animate-pulse'
+      case 'awaiting-approval': return 'bg-blue-500'
       case 'failed': return 'bg-red-500'
       case 'manual-review': return 'bg-amber-500'
       default: return 'bg-gray-400'
@@ -82,6 +133,7 @@ export function FeedStream({ messages, selectedId, onSelectMessage }: FeedStream
     switch (status) {
       case 'completed': return 1
       case 'processing': return 0.5
+      case 'awaiting-approval': return 0.8
       case 'failed': return 0.3
       case 'manual-review': return 0.3
       default: return 0.1
@@ -92,16 +144,31 @@ export function FeedStream({ messages, selectedId, onSelectMessage }: FeedStream
     <div className="h-full bg-white border-r border-gray-200 flex flex-col">
       {/* Header */}
       <div className="px-4 py-3 border-b border-gray-200 bg-gray-50">
-        <h2 className="text-xs font-mono text-gray-600 tracking-wider uppercase">
-          INCOMING FEED
-        </h2>
+        <div className="flex items-center justify-between">
+          <h2 className="text-xs font-mono text-gray-600 tracking-wider uppercase">
+            INCOMING FEED
+          </h2>
+          {onModeChange && (
+            <div className="flex text-[10px] font-mono border border-gray-300 rounded overflow-hidden">
+              {(['emails', 'threads'] as FeedMode[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => onModeChange(option)}
+                  className={`px-1.5 py-0.5 uppercase ${mode === option ? 'bg-purple-600 text-white' : 'text-gray-500 hover:bg-white'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
         <div className="flex items-center justify-between mt-1">
           <div className="flex items-center">
             <div className="h-1.5 w-1.5 bg-green-500 rounded-full animate-pulse mr-2" />
             <span className="text-xs font-mono text-gray-500">LIVE</span>
           </div>
           <span className="text-xs font-mono text-gray-500">
-            {messages.length} MSGS
+            {mode === 'threads' ? `${threads.length} THREADS` : `${totalCount ?? messages.length} MSGS`}
           </span>
         </div>
       </div>
@@ -128,6 +195,51 @@ export function FeedStream({ messages, selectedId, onSelectMessage }: FeedStream
           <div className="text-center text-gray-400 text-xs mt-8">
             NO MESSAGES YET
           </div>
+        ) : mode === 'threads' ? (
+          threads.map(({ threadId, latest, count }) => {
+            const isSelected = selectedThreadId === threadId
+
+            return (
+              <div
+                key={threadId}
+                onClick={() => onSelectThread?.(threadId)}
+                className={`
+                  px-2 py-1.5 cursor-pointer transition-all duration-150 rounded
+                  ${isSelected 
+                    ? 'bg-purple-600 text-white shadow-sm ring-2 ring-purple-400' 
+                    : 'hover:bg-white text-gray-600 hover:text-gray-900 hover:shadow-sm'
+                  }
+                  ${latest.status === 'processing' ? 'border-l-2 border-purple-600' : ''}
+                `}
+              >
+                {/* Latest activity */}
+                <div className={`text-xs ${isSelected ? 'text-purple-200' : 'text-gray-400'} mb-0.5 flex items-center justify-between`}>
+                  <span>{format(new Date(latest.receivedAt), 'MMM d HH:mm')}</span>
+                  <span className={`px-1 rounded text-[10px] ${isSelected ? 'bg-purple-500 text-white' : 'bg-gray-200 text-gray-600'}`}>
+                    {count} MSG{count === 1 ? '' : 'S'}
+                  </span>
+                </div>
+
+                {/* Sender */}
+                <div className={`font-semibold ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                  {extractSenderName(latest.from)}
+                </div>
+
+                {/* Subject Preview */}
+                <div className={`text-xs ${isSelected ? 'text-purple-100' : 'text-gray-500'} truncate`}>
+                  {truncateSubject(latest.subject)}
+                </div>
+
+                {/* Latest Status */}
+                <div className="flex mt-1 h-1 bg-gray-200 rounded-full overflow-hidden">
+                  <div 
+                    className={`${getStatusColor(latest.status)} transition-all duration-300`}
+                    style={{ width: `${getStatusProgress(latest.status) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )
+          })
         ) : (
           messages.map((message) => {
             const isSelected = selectedId === message.id
@@ -178,13 +290,24 @@ export function FeedStream({ messages, selectedId, onSelectMessage }: FeedStream
           })
         )}
         
+        {/* Older pages load on demand */}
+        {hasMore && (
+          <button
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+            className="w-full px-2 py-1.5 text-xs text-gray-500 hover:text-purple-600 hover:bg-white rounded disabled:opacity-50"
+          >
+            {isLoadingMore ? 'LOADING...' : 'LOAD MORE'}
+          </button>
+        )}
+
         {/* Bottom padding */}
         <div className="h-4" />
       </div>
 
       {/* Footer Status */}
       <div className="px-4 py-2 border-t border-gray-200 bg-white text-xs font-mono text-gray-500 flex items-center justify-between">
-        <span>[{messages.filter(m => m.status === 'pending').length} PENDING]</span>
+        <span>[{pendingCount ?? messages.filter(m => m.status === 'pending').length} PENDING]</span>
         <span className={`${autoScroll ? 'text-green-600' : 'text-gray-400'}`}>
           {autoScroll ? 'AUTO-SCROLL ON' : 'AUTO-SCROLL OFF'}
         </span>
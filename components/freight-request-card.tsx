@@ -0,0 +1,98 @@
+// /components/freight-request-card.tsx
+// Structured freight request extracted from the incoming email
+// Shows the lane, windows and load details, and flags what is missing for a quote
+
+'use client'
+
+import { format } from 'date-fns'
+import { Truck, AlertTriangle } from 'lucide-react'
+import { formatLocation, QUOTE_FIELD_LABELS, type FreightExtraction, type TimeWindow } from '@/lib/services/freight/freight-request'
+
+interface FreightRequestCardProps {
+  extraction: FreightExtraction
+}
+
+function formatDate(value: string): string {
+  // Date-only values have no time to show
+  return value.length > 10 ? format(new Date(value), 'MMM d HH:mm') : format(new Date(`${value}T00:00:00`), 'MMM d')
+}
+
+function formatWindow(window: TimeWindow): string {
+  if (!window.earliest && !window.latest) return '—'
+  if (window.earliest === window.latest || !window.latest) return formatDate(window.earliest!)
+  if (!window.earliest) return `by ${formatDate(window.latest)}`
+  return `${formatDate(window.earliest)} – ${formatDate(window.latest)}`
+}
+
+export function FreightRequestCard({ extraction }: FreightRequestCardProps) {
+  const { request } = extraction
+
+  if (!extraction.isFreightRequest) {
+    return (
+      <div className="flex items-center gap-2 text-gray-400 text-xs uppercase">
+        <Truck className="h-3 w-3" />
+        Not a freight request
+      </div>
+    )
+  }
+
+  const details: { label: string; value: string }[] = [
+    { label: 'Pickup', value: formatWindow(request.pickupWindow) },
+    { label: 'Delivery', value: formatWindow(request.deliveryWindow) },
+    { label: 'Equipment', value: request.equipmentType?.replace(/_/g, ' ') ?? '—' },
+    { label: 'Weight', value: request.weightLbs !== null ? `${request.weightLbs.toLocaleString('en-US')} lbs` : '—' },
+    { label: 'Commodity', value: request.commodity ?? '—' },
+    { label: 'Pieces', value: request.pieceCount !== null ? String(request.pieceCount) : '—' }
+  ]
+
+  return (
+    <div className="p-3 bg-purple-50 border border-purple-200 rounded space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-purple-700">
+          <Truck className="h-4 w-4" />
+          <span className="text-xs uppercase tracking-wider font-semibold">Freight Request</span>
+        </div>
+        {request.hazmat && (
+          <span className="px-2 py-0.5 bg-red-600 text-white text-xs rounded font-semibold">HAZMAT</span>
+        )}
+      </div>
+
+      <div className="text-gray-900 font-semibold">
+        {formatLocation(request.origin)} → {formatLocation(request.destination)}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {details.map(detail => (
+          <div key={detail.label}>
+            <span className="text-gray-500 text-xs uppercase">{detail.label}:</span>
+            <div className="text-gray-700 text-xs font-semibold capitalize">{detail.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {request.accessorials.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {request.accessorials.map(accessorial => (
+            <span key={accessorial} className="px-2 py-0.5 bg-white border border-purple-200 text-purple-700 text-xs rounded">
+              {accessorial.replace(/_/g, ' ')}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {(extraction.missingFields.length > 0 || extraction.issues.length > 0) && (
+        <div className="flex items-start gap-2 text-amber-700 text-xs">
+          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          <div>
+            {extraction.missingFields.length > 0 && (
+              <div className="capitalize">Missing: {extraction.missingFields.map(field => QUOTE_FIELD_LABELS[field]).join(', ')}</div>
+            )}
+            {extraction.issues.map(issue => (
+              <div key={issue}>{issue}</div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -20,6 +20,7 @@ export function IntelligenceCard({ message, onClick, isNew = false }: Intelligen
     const stateMap: Record<EmailStatus, AgentState> = {
       'pending': 'queued',
       'processing': 'analyzing',
+      'awaiting-approval': 'awaiting-approval',
       'completed': 'synthesized',
       'failed': 'needs-review',
       'manual-review': 'needs-review'
@@ -5,25 +5,37 @@
 'use client'
 
 import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
 import { format } from 'date-fns'
-import { Maximize2, Minimize2, Send, RefreshCw, AlertTriangle, GripVertical } from 'lucide-react'
-import { type ProcessedEmail } from '@/lib/kv-client'
+import { Maximize2, Minimize2, Send, RefreshCw, AlertTriangle, GripVertical, Check, X, Pencil, PauseCircle } from 'lucide-react'
+import { type ProcessedEmail, type ProcessingStats } from '@/lib/kv-client'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { MarkdownRenderer } from '@/components/markdown-renderer'
+import { DraftHistory } from '@/components/draft-history'
+import { FreightRequestCard } from '@/components/freight-request-card'
+import { RateQuoteCard } from '@/components/rate-quote-card'
+import { QuoteReplyCard } from '@/components/quote-reply-card'
+import { ThreadConversationView } from '@/components/thread-conversation'
 import { toast } from 'sonner'
 
 interface MissionControlProps {
   selectedMessage: ProcessedEmail | null
-  allMessages: ProcessedEmail[]
+  selectedThreadId?: string | null   // Thread mode - shows the conversation instead of one email
+  stats?: ProcessingStats
   onRefresh?: () => void
+  onSelectMessage?: (id: string) => void
 }
 
 type ViewMode = 'split' | 'incoming' | 'response'
 
-export function MissionControl({ selectedMessage, allMessages, onRefresh }: MissionControlProps) {
+export function MissionControl({ selectedMessage, selectedThreadId, stats, onRefresh, onSelectMessage }: MissionControlProps) {
+  const queryClient = useQueryClient()
   const [viewMode, setViewMode] = useState<ViewMode>('split')
   const [isProcessing, setIsProcessing] = useState(false)
   const [isRetrying, setIsRetrying] = useState(false)
+  const [isReviewing, setIsReviewing] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null) // Email whose draft is open in the editor
+  const [editedDraft, setEditedDraft] = useState('')
   const [splitRatio, setSplitRatio] = useState(50) // Percentage for left panel
 
   // Handle processing a single email
@@ -121,7 +133,7 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
           response: data.response,
           fullData: data
         })
-        onRefresh?.()
+        refreshWithDrafts()
       } else {
         toast.error(data.message || 'Failed to reprocess email')
         console.error('Reprocessing failed:', data)
@@ -134,12 +146,91 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
     }
   }
 
+  // Reviews and reruns add draft versions, so the history refreshes with the email
+  const refreshWithDrafts = () => {
+    if (selectedMessage) {
+      queryClient.invalidateQueries({ queryKey: ['drafts', selectedMessage.id] })
+    }
+    onRefresh?.()
+  }
+
+  // Handle a reviewer decision on a draft held for approval
+  const handleReview = async (action: 'approve' | 'reject' | 'edit-and-send') => {
+    if (!selectedMessage) return
+    
+    setIsReviewing(true)
+    try {
+      const response = await fetch(`/api/process/${action}/${selectedMessage.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'edit-and-send' ? { content: editedDraft } : {})
+      })
+      
+      const data = await response.json()
+      
+      if (response.ok) {
+        toast.success(action === 'reject' ? 'Draft rejected' : 'Reply approved and sent!')
+        setEditingId(null)
+        refreshWithDrafts()
+      } else {
+        toast.error(data.message || data.error || 'Failed to review draft')
+        console.error('Review failed:', data)
+      }
+    } catch (error) {
+      console.error('Review error:', error)
+      toast.error('Failed to submit review')
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
+  // Save the editor contents as a new draft version without sending
+  const handleSaveDraft = async () => {
+    if (!selectedMessage) return
+    
+    setIsReviewing(true)
+    try {
+      const response = await fetch(`/api/emails/${selectedMessage.id}/drafts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: editedDraft })
+      })
+      
+      const data = await response.json()
+      
+      if (response.ok) {
+        toast.success(`Draft saved as v${data.draft.version}`)
+        setEditingId(null)
+        refreshWithDrafts()
+      } else {
+        toast.error(data.message || data.error || 'Failed to save draft')
+      }
+    } catch (error) {
+      console.error('Save draft error:', error)
+      toast.error('Failed to save draft')
+    } finally {
+      setIsReviewing(false)
+    }
+  }
+
+  const startEditing = () => {
+    if (!selectedMessage) return
+    setEditedDraft(selectedMessage.response || '')
+    setEditingId(selectedMessage.id)
+  }
+
   const canProcess = selectedMessage && selectedMessage.status === 'pending'
   const canRetry = selectedMessage && (
     selectedMessage.status === 'failed' || 
     selectedMessage.status === 'manual-review'
   )
   const canRerun = selectedMessage && selectedMessage.status === 'completed'
+  const canReview = selectedMessage && selectedMessage.status === 'awaiting-approval'
+  const isEditing = !!selectedMessage && editingId === selectedMessage.id
+
+  if (selectedThreadId) {
+    return <ThreadConversationView threadId={selectedThreadId} onSelectMessage={onSelectMessage} />
+  }
 
   if (!selectedMessage) {
     return (
@@ -221,6 +312,7 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
               <div className={`mt-0.5 font-semibold ${
                 selectedMessage.status === 'pending' ? 'text-gray-600' :
                 selectedMessage.status === 'processing' ? 'text-purple-600' :
+                selectedMessage.status === 'awaiting-approval' ? 'text-blue-600' :
                 selectedMessage.status === 'completed' ? 'text-green-600' :
                 selectedMessage.status === 'failed' ? 'text-red-600' :
                 'text-amber-600'
@@ -229,6 +321,18 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
               </div>
             </div>
             
+            {selectedMessage.extraction && (
+              <FreightRequestCard extraction={selectedMessage.extraction} />
+            )}
+
+            {selectedMessage.rateQuote && (
+              <RateQuoteCard quote={selectedMessage.rateQuote} quoteId={selectedMessage.quoteId} />
+            )}
+
+            {selectedMessage.quoteReply && (
+              <QuoteReplyCard reply={selectedMessage.quoteReply} />
+            )}
+            
             <div className="pt-3 border-t border-gray-100">
               <div className="text-gray-700 whitespace-pre-wrap font-sans text-base leading-relaxed">
                 {selectedMessage.body || selectedMessage.snippet}
@@ -260,6 +364,67 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
               {isRetrying ? 'Retrying...' : 'Retry'}
             </button>
           )}
+          {/* Review buttons for drafts held for approval */}
+          {canReview && !isEditing && (
+            <>
+              <button
+                onClick={() => handleReview('approve')}
+                disabled={isReviewing}
+                className="px-3 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+                title="Send the draft as written"
+              >
+                <Check className="h-3 w-3" />
+                {isReviewing ? 'Sending...' : 'Approve & Send'}
+              </button>
+              <button
+                onClick={startEditing}
+                disabled={isReviewing}
+                className="px-3 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+                title="Edit the draft before sending"
+              >
+                <Pencil className="h-3 w-3" />
+                Edit
+              </button>
+              <button
+                onClick={() => handleReview('reject')}
+                disabled={isReviewing}
+                className="px-3 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+                title="Reject the draft - nothing is sent"
+              >
+                <X className="h-3 w-3" />
+                Reject
+              </button>
+            </>
+          )}
+          {canReview && isEditing && (
+            <>
+              <button
+                onClick={() => handleReview('edit-and-send')}
+                disabled={isReviewing || !editedDraft.trim()}
+                className="px-3 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-1"
+                title="Send the edited reply"
+              >
+                <Send className="h-3 w-3" />
+                {isReviewing ? 'Sending...' : 'Send Edited'}
+              </button>
+              <button
+                onClick={handleSaveDraft}
+                disabled={isReviewing || !editedDraft.trim() || editedDraft === selectedMessage.response}
+                className="px-3 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Save as a new draft version without sending"
+              >
+                Save Draft
+              </button>
+              <button
+                onClick={() => setEditingId(null)}
+                disabled={isReviewing}
+                className="px-3 py-1 bg-gray-200 text-gray-700 text-xs rounded hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                title="Discard edits"
+              >
+                Cancel
+              </button>
+            </>
+          )}
           {/* Rerun button for completed emails */}
           {canRerun && (
             <button
@@ -337,10 +502,48 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
                     </div>
                   </div>
                 )}
-                
+
+                {selectedMessage.generatedBy && (
+                  <div>
+                    <span className="text-gray-500 text-xs uppercase">Model:</span>
+                    <span className="ml-2 text-gray-700 text-xs font-semibold">
+                      {selectedMessage.generatedBy.provider} / {selectedMessage.generatedBy.model}
+                    </span>
+                  </div>
+                )}
+
+                {selectedMessage.route && (
+                  <div>
+                    <span className="text-gray-500 text-xs uppercase">Route:</span>
+                    <span className="ml-2 text-gray-700 text-xs font-semibold">
+                      {selectedMessage.route.name}
+                    </span>
+                    <span className="ml-2 text-gray-500 text-xs">
+                      ({selectedMessage.route.signals.category.replace(/_/g, ' ')}, {selectedMessage.route.prompt} prompt{selectedMessage.route.maxTokens ? `, ${selectedMessage.route.maxTokens} max tokens` : ''})
+                    </span>
+                  </div>
+                )}
+
+                {selectedMessage.promptVersion && (
+                  <div>
+                    <span className="text-gray-500 text-xs uppercase">Prompt:</span>
+                    <a
+                      href="/dashboard/prompts"
+                      className="ml-2 text-purple-600 text-xs font-mono hover:underline"
+                    >
+                      {selectedMessage.promptVersion}
+                    </a>
+                  </div>
+                )}
+
                 <div>
                   <span className="text-gray-500 text-xs uppercase">Status:</span>
                   <span className="ml-2 text-green-600 font-semibold">SYNTHESIZED ✓</span>
+                  {selectedMessage.approval?.decision === 'approved' && (
+                    <span className="ml-2 text-xs text-blue-600">
+                      (Approved{selectedMessage.approval.decidedBy ? ` by ${selectedMessage.approval.decidedBy}` : ''}{selectedMessage.approval.edited ? ', edited' : ''})
+                    </span>
+                  )}
                   {selectedMessage.processingTime && selectedMessage.processingTime > 5000 && (
                     <span className="ml-2 text-xs text-blue-600">(Reprocessed)</span>
                   )}
@@ -353,7 +556,53 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
                     className="text-gray-700"
                   />
                 </div>
+                
+                <div className="pt-3 border-t border-gray-100">
+                  <DraftHistory emailId={selectedMessage.id} canRestore={false} />
+                </div>
               </>
+            ) : selectedMessage.status === 'awaiting-approval' ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-blue-600">
+                  <PauseCircle className="h-4 w-4" />
+                  <span className="uppercase text-xs tracking-wider font-semibold">
+                    Awaiting Approval - Not Sent
+                  </span>
+                </div>
+                {selectedMessage.approval && selectedMessage.approval.reasons.length > 0 && (
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded">
+                    <span className="text-gray-500 text-xs uppercase">Held Because:</span>
+                    <ul className="text-blue-800 text-sm mt-1 list-disc list-inside">
+                      {selectedMessage.approval.reasons.map(reason => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div className="pt-3 border-t border-gray-100">
+                  {isEditing ? (
+                    <textarea
+                      value={editedDraft}
+                      onChange={(e) => setEditedDraft(e.target.value)}
+                      disabled={isReviewing}
+                      className="w-full min-h-[320px] p-3 border border-gray-300 rounded font-sans text-sm text-gray-700 leading-relaxed focus:outline-none focus:border-blue-500"
+                    />
+                  ) : (
+                    <MarkdownRenderer 
+                      content={selectedMessage.response || 'Draft is missing.'}
+                      className="text-gray-700"
+                    />
+                  )}
+                </div>
+                <div className="pt-3 border-t border-gray-100">
+                  <DraftHistory
+                    emailId={selectedMessage.id}
+                    canRestore={!isEditing && !isReviewing}
+                    pendingEdit={isEditing ? editedDraft : null}
+                    onChange={onRefresh}
+                  />
+                </div>
+              </div>
             ) : selectedMessage.status === 'processing' ? (
               <div className="flex items-center space-x-2 text-purple-600">
                 <div className="flex space-x-1">
@@ -377,10 +626,30 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
                     <div className="text-amber-800 text-sm mt-1">{selectedMessage.error}</div>
                   </div>
                 )}
+                {!!selectedMessage.attempts && (
+                  <div className="text-gray-500 text-xs uppercase">
+                    Attempts: <span className="text-gray-700 font-semibold">{selectedMessage.attempts}</span>
+                  </div>
+                )}
                 <div className="text-gray-600 text-xs">
                   Click "Retry" above to attempt processing again.
                 </div>
               </div>
+            ) : selectedMessage.nextRetryAt ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 text-purple-600">
+                  <RefreshCw className="h-4 w-4" />
+                  <span className="uppercase text-xs tracking-wider font-semibold">
+                    Retry {(selectedMessage.attempts || 0) + 1} scheduled for {format(new Date(selectedMessage.nextRetryAt), 'HH:mm:ss')}
+                  </span>
+                </div>
+                {selectedMessage.error && (
+                  <div className="p-3 bg-amber-50 border border-amber-200 rounded">
+                    <span className="text-gray-500 text-xs uppercase">Last Error:</span>
+                    <div className="text-amber-800 text-sm mt-1">{selectedMessage.error}</div>
+                  </div>
+                )}
+              </div>
             ) : (
               <div className="text-gray-500 uppercase text-xs tracking-wider">
                 Queued for Analysis - Click "Process" to start
@@ -438,22 +707,27 @@ export function MissionControl({ selectedMessage, allMessages, onRefresh }: Miss
           <div className="flex items-center space-x-6">
             <span className="text-gray-500 uppercase">
               Pending: <span className="text-gray-700 font-semibold">
-                {allMessages.filter(m => m.status === 'pending').length}
+                {stats?.pending ?? 0}
               </span>
             </span>
             <span className="text-gray-500 uppercase">
               Analyzing: <span className="text-purple-600 font-semibold">
-                {allMessages.filter(m => m.status === 'processing').length}
+                {stats?.processing ?? 0}
+              </span>
+            </span>
+            <span className="text-gray-500 uppercase">
+              Awaiting: <span className="text-blue-600 font-semibold">
+                {stats?.awaitingApproval ?? 0}
               </span>
             </span>
             <span className="text-gray-500 uppercase">
               Synthesized: <span className="text-green-600 font-semibold">
-                {allMessages.filter(m => m.status === 'completed').length}
+                {stats?.completed ?? 0}
               </span>
             </span>
             <span className="text-gray-500 uppercase">
               Failed: <span className="text-amber-600 font-semibold">
-                {allMessages.filter(m => m.status === 'failed' || m.status === 'manual-review').length}
+                {(stats?.failed ?? 0) + (stats?.manualReview ?? 0)}
               </span>
             </span>
           </div>
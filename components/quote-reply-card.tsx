@@ -0,0 +1,66 @@
+// /components/quote-reply-card.tsx
+// Classified intent of a shipper's reply to a quote we already sent
+// Shows what the sender wants and where the quote stands after the reply
+
+'use client'
+
+import { MessageSquareReply, AlertTriangle } from 'lucide-react'
+import { type QuoteReply, type QuoteReplyIntent } from '@/lib/services/freight/quote-reply'
+
+interface QuoteReplyCardProps {
+  reply: QuoteReply
+}
+
+const INTENT_LABELS: Record<QuoteReplyIntent, { label: string; className: string }> = {
+  accept: { label: 'Accepted', className: 'bg-green-600 text-white' },
+  decline: { label: 'Declined', className: 'bg-gray-600 text-white' },
+  counter_offer: { label: 'Counter-offer', className: 'bg-amber-500 text-white' },
+  question: { label: 'Question', className: 'bg-blue-600 text-white' },
+  other: { label: 'Other', className: 'bg-gray-300 text-gray-800' }
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+export function QuoteReplyCard({ reply }: QuoteReplyCardProps) {
+  const intent = INTENT_LABELS[reply.intent]
+
+  return (
+    <div className="p-3 bg-blue-50 border border-blue-200 rounded space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-blue-700">
+          <MessageSquareReply className="h-4 w-4" />
+          <span className="text-xs uppercase tracking-wider font-semibold">Quote Reply</span>
+          <span className="text-xs font-mono text-blue-800">{reply.quoteId}</span>
+        </div>
+        <span className={`px-2 py-0.5 text-xs rounded font-semibold ${intent.className}`}>{intent.label}</span>
+      </div>
+
+      <div className="text-gray-900 text-sm">
+        {reply.lane} · <span className="font-mono">{formatMoney(reply.quoteTotal)}</span>
+        {reply.counterOffer !== null && (
+          <span className="text-amber-700 font-semibold"> → {formatMoney(reply.counterOffer)} proposed</span>
+        )}
+      </div>
+
+      {reply.summary && <div className="text-gray-600 text-xs">{reply.summary}</div>}
+
+      <div className="flex flex-wrap gap-x-4 text-gray-500 text-xs uppercase">
+        <span>Quote: <span className="text-gray-700 font-semibold">{reply.quoteStatus}</span></span>
+        <span>Confidence: <span className="text-gray-700 font-semibold">{Math.round(reply.confidence * 100)}%</span></span>
+      </div>
+
+      {reply.issues.length > 0 && (
+        <div className="flex items-start gap-2 text-amber-700 text-xs">
+          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          <div>
+            {reply.issues.map(issue => (
+              <div key={issue}>{issue}</div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,66 @@
+// /components/rate-quote-card.tsx
+// Rate engine output for a priced freight request
+// Customer-facing line items and total, with the internal cost and margin underneath
+
+'use client'
+
+import { DollarSign } from 'lucide-react'
+import { type RateQuote } from '@/lib/services/freight/rate-engine'
+
+interface RateQuoteCardProps {
+  quote: RateQuote
+  quoteId?: string   // Quote number issued for the email, if any
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+}
+
+export function RateQuoteCard({ quote, quoteId }: RateQuoteCardProps) {
+  return (
+    <div className="p-3 bg-green-50 border border-green-200 rounded space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-green-700">
+          <DollarSign className="h-4 w-4" />
+          <span className="text-xs uppercase tracking-wider font-semibold">Rate Quote</span>
+          {quoteId && <span className="text-xs font-mono text-green-800">{quoteId}</span>}
+        </div>
+        <span className="text-gray-500 text-xs">
+          ~{quote.miles.toLocaleString('en-US')} mi · {quote.laneKey}
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        {quote.lineItems.map(item => (
+          <div key={item.code} className="flex justify-between text-xs">
+            <span className="text-gray-600">{item.label}</span>
+            <span className="text-gray-700 font-mono">{formatMoney(item.amount)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between pt-1 border-t border-green-200 text-sm font-semibold">
+          <span className="text-gray-900">All-in total</span>
+          <span className="text-green-700 font-mono">{formatMoney(quote.total)}</span>
+        </div>
+      </div>
+
+      <div className="text-gray-500 text-xs">
+        {quote.fuelBasis ? (
+          <span className={quote.fuelBasis.stale ? 'text-amber-700' : undefined}>
+            Fuel: diesel {formatMoney(quote.fuelBasis.pricePerGallon)}/gal, {quote.fuelBasis.region.replace(/_/g, ' ')} week of {quote.fuelBasis.weekOf}
+            {' → '}{quote.fuelBasis.band.pct !== undefined ? `${quote.fuelBasis.band.pct}% of linehaul` : `${quote.fuelBasis.band.centsPerMile}¢/mi`}
+            {quote.fuelBasis.stale && ' (stale)'}
+          </span>
+        ) : (
+          <span>Fuel: flat {formatMoney(quote.fuelSurchargePerMile)}/mi (no diesel index imported)</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 text-gray-500 text-xs uppercase">
+        <span>Rate: <span className="text-gray-700 font-semibold">{formatMoney(quote.ratePerMile)}/mi</span></span>
+        <span>Cost: <span className="text-gray-700 font-semibold">{formatMoney(quote.cost)}</span></span>
+        <span>Margin: <span className="text-gray-700 font-semibold">{formatMoney(quote.margin)} ({quote.marginPct}%)</span></span>
+        {quote.minimumApplied && <span className="text-amber-700 font-semibold">Minimum applied</span>}
+      </div>
+    </div>
+  )
+}
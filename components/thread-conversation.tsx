@@ -0,0 +1,165 @@
+// /components/thread-conversation.tsx
+// Chronological conversation view for one thread
+// Inbound emails on the left; drafts and sent replies on the right with their delivery status
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { MessagesSquare, ExternalLink } from 'lucide-react'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { MarkdownRenderer } from '@/components/markdown-renderer'
+import type { ConversationEntry, ThreadConversation } from '@/lib/services/email/conversation'
+import type { ProcessedEmail } from '@/lib/kv-client'
+
+interface ThreadConversationViewProps {
+  threadId: string
+  onSelectMessage?: (id: string) => void
+}
+
+async function fetchThread(threadId: string): Promise<ThreadConversation> {
+  const response = await fetch(`/api/threads/${encodeURIComponent(threadId)}`)
+  if (!response.ok) throw new Error('Failed to fetch thread')
+  return response.json()
+}
+
+const STATUS_COLORS: Record<ProcessedEmail['status'], string> = {
+  'pending': 'text-gray-600',
+  'processing': 'text-purple-600',
+  'awaiting-approval': 'text-blue-600',
+  'completed': 'text-green-600',
+  'failed': 'text-red-600',
+  'manual-review': 'text-amber-600'
+}
+
+const DELIVERY_COLORS: Record<NonNullable<ProcessedEmail['deliveryStatus']>, string> = {
+  pending: 'bg-gray-200 text-gray-700',
+  sent: 'bg-green-600 text-white',
+  failed: 'bg-red-600 text-white'
+}
+
+function formatTime(at: string): string {
+  return format(new Date(at), 'MMM d HH:mm')
+}
+
+function InboundEntry({ entry, onSelectMessage }: { entry: ConversationEntry; onSelectMessage?: (id: string) => void }) {
+  return (
+    <div className="mr-12 p-3 bg-white border border-gray-200 rounded space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-900 font-semibold">{entry.author}</span>
+        <div className="flex items-center gap-2">
+          {entry.status && (
+            <span className={`font-semibold ${STATUS_COLORS[entry.status]}`}>{entry.status.toUpperCase()}</span>
+          )}
+          <span className="text-gray-400">{formatTime(entry.at)}</span>
+          {onSelectMessage && (
+            <button
+              onClick={() => onSelectMessage(entry.emailId)}
+              className="p-0.5 hover:bg-gray-100 rounded transition-colors"
+              title="Open email"
+            >
+              <ExternalLink className="h-3 w-3 text-gray-400" />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="text-gray-700 whitespace-pre-wrap font-sans text-sm leading-relaxed">
+        {entry.content}
+      </div>
+    </div>
+  )
+}
+
+function DraftEntry({ entry }: { entry: ConversationEntry }) {
+  return (
+    <details className="ml-12 p-3 bg-gray-50 border border-dashed border-gray-300 rounded">
+      <summary className="flex items-center justify-between text-xs cursor-pointer list-none">
+        <span className="text-gray-600 uppercase">
+          Draft v{entry.draftVersion} · {entry.draftSource} · {entry.author}
+        </span>
+        <span className="text-gray-400">{formatTime(entry.at)}</span>
+      </summary>
+      <div className="pt-2 mt-2 border-t border-gray-200">
+        <MarkdownRenderer content={entry.content} className="text-gray-600" />
+      </div>
+    </details>
+  )
+}
+
+function ReplyEntry({ entry }: { entry: ConversationEntry }) {
+  const delivery = entry.deliveryStatus
+  return (
+    <div className="ml-12 p-3 bg-green-50 border border-green-200 rounded space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-green-700 font-semibold uppercase">
+          Reply{entry.draftVersion ? ` · from v${entry.draftVersion}` : ''}
+        </span>
+        <div className="flex items-center gap-2">
+          {(entry.deliveryAttempts || 0) > 1 && (
+            <span className="text-gray-500">{entry.deliveryAttempts} attempts</span>
+          )}
+          <span className={`px-2 py-0.5 rounded font-semibold ${delivery ? DELIVERY_COLORS[delivery] : DELIVERY_COLORS.pending}`}>
+            {(delivery || 'not sent').toUpperCase()}
+          </span>
+          <span className="text-gray-400">{formatTime(entry.at)}</span>
+        </div>
+      </div>
+      <MarkdownRenderer content={entry.content} className="text-gray-700" />
+    </div>
+  )
+}
+
+export function ThreadConversationView({ threadId, onSelectMessage }: ThreadConversationViewProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['thread', threadId],
+    queryFn: () => fetchThread(threadId),
+    refetchInterval: 15000,
+  })
+
+  if (isLoading || error || !data) {
+    return (
+      <div className="h-full bg-gray-50 flex items-center justify-center">
+        <div className={`font-mono text-sm ${error ? 'text-red-500' : 'text-gray-500 animate-pulse'}`}>
+          {error ? 'FAILED TO LOAD THREAD' : 'LOADING THREAD...'}
+        </div>
+      </div>
+    )
+  }
+
+  const { thread, entries } = data
+
+  return (
+    <div className="h-full bg-gray-50 p-4">
+      <div className="h-full flex flex-col border border-gray-200 rounded-sm bg-white">
+        {/* Header */}
+        <div className="px-4 py-2 border-b border-gray-200 flex-shrink-0 space-y-1">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-mono text-purple-600 tracking-wider uppercase flex items-center gap-2">
+              <MessagesSquare className="h-3 w-3" />
+              CONVERSATION
+            </h3>
+            <span className="text-xs font-mono text-gray-500">
+              {thread.emailCount} MSGS · {formatTime(thread.firstEmailAt)} – {formatTime(thread.lastEmailAt)}
+            </span>
+          </div>
+          <div className="text-gray-900 font-mono text-sm font-semibold">{thread.subject}</div>
+          <div className="text-gray-500 font-mono text-xs truncate">{thread.participants.join(', ')}</div>
+        </div>
+
+        {/* Entries, oldest first */}
+        <div className="flex-1 overflow-hidden">
+          <ScrollArea className="h-full">
+            <div className="p-4 space-y-3 font-mono text-sm">
+              {entries.map(entry => {
+                const key = `${entry.emailId}-${entry.kind}-${entry.draftVersion ?? 0}`
+                if (entry.kind === 'inbound') return <InboundEntry key={key} entry={entry} onSelectMessage={onSelectMessage} />
+                if (entry.kind === 'draft') return <DraftEntry key={key} entry={entry} />
+                return <ReplyEntry key={key} entry={entry} />
+              })}
+            </div>
+          </ScrollArea>
+        </div>
+      </div>
+    </div>
+  )
+}
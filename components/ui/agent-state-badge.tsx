@@ -4,7 +4,7 @@
 
 import * as React from "react"
 
-export type AgentState = 'queued' | 'analyzing' | 'synthesized' | 'needs-review'
+export type AgentState = 'queued' | 'analyzing' | 'awaiting-approval' | 'synthesized' | 'needs-review'
 
 interface AgentStateBadgeProps extends React.HTMLAttributes<HTMLDivElement> {
   state: AgentState
@@ -43,6 +43,13 @@ export function AgentStateBadge({
         </span>
       )
     },
+    'awaiting-approval': {
+      label: 'Awaiting Approval',
+      color: 'text-blue-600',
+      bgColor: 'bg-blue-50',
+      borderColor: 'border-blue-200',
+      icon: <span className="text-xs">⏸</span>
+    },
     'synthesized': {
       label: 'Synthesized',
       color: 'text-[var(--synthesis-green)]',
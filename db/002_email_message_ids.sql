@@ -0,0 +1,18 @@
+-- db/002_email_message_ids.sql
+-- RFC 5322 threading headers for inbound emails and the replies we send
+-- Lets outbound replies thread in the sender's mail client and inbound replies be matched back to them
+
+-- Headers captured by the ingester
+ALTER TABLE email_requests ADD COLUMN message_id VARCHAR(998);
+ALTER TABLE email_requests ADD COLUMN in_reply_to VARCHAR(998);
+ALTER TABLE email_requests ADD COLUMN references_header TEXT;
+
+-- Message-ID we generated for the reply (provider_message_id stays the provider's own ID)
+ALTER TABLE email_responses ADD COLUMN message_id VARCHAR(998);
+
+CREATE INDEX idx_email_requests_message_id ON email_requests(tenant_id, message_id);
+CREATE INDEX idx_email_responses_message_id ON email_responses(tenant_id, message_id);
+
+COMMENT ON COLUMN email_requests.message_id IS 'Message-ID header of the inbound email, angle brackets included';
+COMMENT ON COLUMN email_requests.references_header IS 'Raw References header - space-separated Message-IDs of earlier messages in the thread';
+COMMENT ON COLUMN email_responses.message_id IS 'Message-ID we set on the outbound reply; inbound In-Reply-To/References point back at it';
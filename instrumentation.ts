@@ -0,0 +1,10 @@
+// /instrumentation.ts
+// Runs once when the Next.js server starts
+// Refuses to start when the storage backend is not configured
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { assertStorageConfigured } = await import('./lib/kv-client')
+  assertStorageConfigured()
+}
@@ -0,0 +1,115 @@
+// /lib/services/email/approval-policy.ts
+// Decides whether a generated reply must be reviewed by a human before sending
+// Rules: always, by category, by sender domain, by dollar amounts found in the reply, or by quote reply intent
+
+import type { ProcessedEmail } from '@/lib/kv-client'
+import { QUOTE_REPLY_TARGET_STATUS, type QuoteReply } from '../freight/quote-reply'
+
+export interface ApprovalPolicyConfig {
+  always: boolean
+  categories: string[]
+  senderDomains: string[]
+  amountThreshold: number | null   // null disables the dollar-amount rule
+}
+
+export interface ApprovalDecision {
+  required: boolean
+  reasons: string[]
+}
+
+// $1,250 / $ 1250.00 / $1.2k - the amounts a freight quote is likely to contain
+const DOLLAR_PATTERN = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?\s?(k)?\b/gi
+
+class ApprovalPolicy {
+  private config: ApprovalPolicyConfig
+
+  constructor() {
+    const list = (value: string | undefined, fallback: string) =>
+      (value ?? fallback).split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+
+    const threshold = process.env.APPROVAL_AMOUNT_THRESHOLD ?? '0'
+
+    this.config = {
+      always: process.env.APPROVAL_ALWAYS === 'true',
+      categories: list(process.env.APPROVAL_CATEGORIES, 'request_quote,complaint,urgent'),
+      senderDomains: list(process.env.APPROVAL_SENDER_DOMAINS, ''),
+      amountThreshold: threshold === '' || threshold === 'off' ? null : parseFloat(threshold)
+    }
+  }
+
+  getConfig(): ApprovalPolicyConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Check a generated reply against every rule; any match holds it for approval
+   */
+  evaluate(email: Pick<ProcessedEmail, 'from' | 'quoteReply'>, response: string, category?: string): ApprovalDecision {
+    const reasons: string[] = []
+
+    if (this.config.always) {
+      reasons.push('Approval required for all replies')
+    }
+
+    if (category && this.config.categories.includes(category.toLowerCase())) {
+      reasons.push(`Category: ${category}`)
+    }
+
+    const domain = this.extractDomain(email.from)
+    if (domain && this.config.senderDomains.some(rule => domain === rule || domain.endsWith(`.${rule}`))) {
+      reasons.push(`Sender domain: ${domain}`)
+    }
+
+    if (this.config.amountThreshold !== null) {
+      const amounts = this.detectAmounts(response)
+      const largest = Math.max(0, ...amounts)
+      if (amounts.length > 0 && largest >= this.config.amountThreshold) {
+        reasons.push(`Dollar amount: $${largest.toLocaleString('en-US')}`)
+      }
+    }
+
+    if (email.quoteReply) {
+      reasons.push(...this.quoteReplyReasons(email.quoteReply))
+    }
+
+    return { required: reasons.length > 0, reasons }
+  }
+
+  /**
+   * Every dollar figure in the text, as numbers
+   */
+  detectAmounts(text: string): number[] {
+    const amounts: number[] = []
+    for (const match of text.matchAll(DOLLAR_PATTERN)) {
+      const whole = parseFloat(match[1].replace(/,/g, ''))
+      const cents = match[2] ? parseFloat(`0.${match[2]}`) : 0
+      const value = (whole + cents) * (match[3] ? 1000 : 1)
+      if (!isNaN(value)) amounts.push(value)
+    }
+    return amounts
+  }
+
+  // Counter-offers are always answered by a person, as is any accept/decline that could not be applied
+  private quoteReplyReasons(reply: QuoteReply): string[] {
+    if (reply.intent === 'counter_offer') {
+      const amount = reply.counterOffer !== null ? `: $${reply.counterOffer.toLocaleString('en-US')}` : ''
+      return [`Counter-offer on quote ${reply.quoteId}${amount}`]
+    }
+
+    const target = QUOTE_REPLY_TARGET_STATUS[reply.intent]
+    if (target && reply.quoteStatus !== target) {
+      const detail = reply.quoteStatus === 'expired' ? 'quote has expired' : `confidence ${reply.confidence}`
+      return [`Unconfirmed ${reply.intent} of quote ${reply.quoteId} (${detail})`]
+    }
+
+    return []
+  }
+
+  private extractDomain(from: string): string | null {
+    const match = from.match(/@([^>\s]+)/)
+    return match ? match[1].toLowerCase() : null
+  }
+}
+
+// Export singleton instance
+export const approvalPolicy = new ApprovalPolicy()
@@ -0,0 +1,28 @@
+// /lib/services/email/console-transport.ts
+// Mail transport that only logs what would be sent
+// What EMAIL_TEST_MODE used to do inline in the email service
+
+import type { MailMessage, MailSendResult, MailTransport } from './mail-transport'
+
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console' as const
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    console.log('📧 TEST MODE - Email would be sent:', {
+      to: message.to.join(', '),
+      subject: message.subject,
+      template: message.headers['X-Email-Template'],
+      inReplyTo: message.headers['In-Reply-To'] || 'none',
+      contentLength: message.text.length
+    })
+    return { success: true, messageId: `test-${Date.now()}` }
+  }
+
+  describe(): Record<string, unknown> {
+    return {}
+  }
+}
@@ -0,0 +1,94 @@
+// /lib/services/email/conversation.ts
+// Chronological view of a thread for the dashboard
+// Interleaves inbound emails, every generated or edited draft, and the replies we sent with their delivery status
+
+import type { EmailStatus, EmailThread, ProcessedEmail } from '@/lib/kv-client'
+import { draftHistory, LLM_AUTHOR, type DraftSource } from './draft-history'
+
+export type ConversationEntryKind = 'inbound' | 'draft' | 'reply'
+
+export interface ConversationEntry {
+  kind: ConversationEntryKind
+  emailId: string
+  at: string
+  author: string
+  content: string
+  status?: EmailStatus                                // inbound: processing status of the email
+  deliveryStatus?: ProcessedEmail['deliveryStatus']   // reply
+  deliveryAttempts?: number                           // reply
+  draftVersion?: number                               // draft, and the version a reply was sent from
+  draftSource?: DraftSource
+}
+
+export interface ThreadConversation {
+  thread: Omit<EmailThread, 'emails'>
+  entries: ConversationEntry[]
+}
+
+// Inbound before drafts before the reply when timestamps tie
+const KIND_ORDER: Record<ConversationEntryKind, number> = { inbound: 0, draft: 1, reply: 2 }
+
+/**
+ * Flatten a thread into entries, oldest first
+ */
+export async function buildConversation(thread: EmailThread): Promise<ThreadConversation> {
+  const { emails, ...summary } = thread
+  const perEmail = await Promise.all(emails.map(email => entriesForEmail(email)))
+
+  const entries = perEmail.flat().sort((a, b) =>
+    new Date(a.at).getTime() - new Date(b.at).getTime() || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]
+  )
+
+  return { thread: summary, entries }
+}
+
+async function entriesForEmail(email: ProcessedEmail): Promise<ConversationEntry[]> {
+  const entries: ConversationEntry[] = [{
+    kind: 'inbound',
+    emailId: email.id,
+    at: email.receivedAt,
+    author: email.from,
+    content: email.body || email.snippet,
+    status: email.status
+  }]
+
+  let drafts = await draftHistory.list(email.id)
+  // Emails generated before draft history existed still show their stored reply as a draft
+  if (drafts.length === 0 && email.response) {
+    drafts = [{
+      version: 1,
+      content: email.response,
+      source: 'llm',
+      author: LLM_AUTHOR,
+      createdAt: email.processedAt || email.receivedAt
+    }]
+  }
+
+  for (const draft of drafts) {
+    entries.push({
+      kind: 'draft',
+      emailId: email.id,
+      at: draft.createdAt,
+      author: draft.author,
+      content: draft.content,
+      draftVersion: draft.version,
+      draftSource: draft.source
+    })
+  }
+
+  // A completed email's stored response is what went out (or was attempted)
+  if (email.status === 'completed' && email.response) {
+    entries.push({
+      kind: 'reply',
+      emailId: email.id,
+      at: email.deliveredAt || email.approval?.decidedAt || email.processedAt || email.receivedAt,
+      author: email.approval?.decidedBy || LLM_AUTHOR,
+      content: email.response,
+      deliveryStatus: email.deliveryStatus,
+      deliveryAttempts: email.deliveryAttempts,
+      draftVersion: email.approval?.draftVersion ?? drafts[drafts.length - 1]?.version
+    })
+  }
+
+  return entries
+}
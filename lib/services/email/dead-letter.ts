@@ -0,0 +1,96 @@
+// /lib/services/email/dead-letter.ts
+// Dead-letter list for emails that exhausted their retry policy
+// Entries can be inspected, discarded, or replayed back into the job queue
+
+import { emailStore } from '@/lib/kv-client'
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import { jobQueue } from './job-queue'
+import type { RetryErrorCode } from './retry-policy'
+
+export interface DeadLetterEntry {
+  emailId: string
+  errorCode: RetryErrorCode
+  error: string
+  attempts: number
+  status: 'failed' | 'manual-review'
+  deadAt: string
+}
+
+class DeadLetterQueue {
+  async add(entry: DeadLetterEntry): Promise<void> {
+    await Promise.all([
+      kv.set(KEYS.DEAD_LETTER_ENTRY(entry.emailId), entry),
+      kv.zadd(KEYS.DEAD_LETTER, { score: new Date(entry.deadAt).getTime(), member: entry.emailId })
+    ])
+    console.log(`🪦 Dead-lettered email ${entry.emailId} after ${entry.attempts} attempts (${entry.errorCode})`)
+  }
+
+  /**
+   * Newest first
+   */
+  async list(limit: number = 50, offset: number = 0): Promise<{ entries: DeadLetterEntry[]; total: number }> {
+    const [ids, total] = await Promise.all([
+      kv.zrange<string[]>(KEYS.DEAD_LETTER, offset, offset + limit - 1, { rev: true }),
+      kv.zcard(KEYS.DEAD_LETTER)
+    ])
+
+    const entries = await Promise.all(ids.map(id => kv.get<DeadLetterEntry>(KEYS.DEAD_LETTER_ENTRY(String(id)))))
+    return {
+      entries: entries.filter((entry): entry is DeadLetterEntry => entry !== null),
+      total
+    }
+  }
+
+  async getIds(): Promise<string[]> {
+    const ids = await kv.zrange<string[]>(KEYS.DEAD_LETTER, 0, -1)
+    return ids.map(String)
+  }
+
+  /**
+   * Drop entries without replaying them - returns how many were removed
+   */
+  async remove(emailIds: string[]): Promise<number> {
+    if (emailIds.length === 0) return 0
+    const [removed] = await Promise.all([
+      kv.zrem(KEYS.DEAD_LETTER, ...emailIds),
+      kv.del(...emailIds.map(id => KEYS.DEAD_LETTER_ENTRY(id)))
+    ])
+    return removed
+  }
+
+  /**
+   * Reset each email to pending with a fresh attempt budget and queue it again
+   */
+  async replay(emailIds: string[]): Promise<{ replayed: string[]; missing: string[] }> {
+    const replayed: string[] = []
+    const missing: string[] = []
+
+    for (const emailId of emailIds) {
+      const email = await emailStore.getEmail(emailId)
+      if (!email) {
+        missing.push(emailId)
+        await this.remove([emailId])
+        continue
+      }
+
+      await emailStore.updateEmailStatus(emailId, 'pending', {
+        error: '',
+        attempts: 0,
+        nextRetryAt: '',
+        deliveryStatus: undefined
+      })
+      await jobQueue.enqueue(emailId)
+      await this.remove([emailId])
+      replayed.push(emailId)
+    }
+
+    if (replayed.length > 0) {
+      console.log(`🔁 Replayed ${replayed.length} dead-lettered emails`)
+    }
+    return { replayed, missing }
+  }
+}
+
+// Export singleton instance
+export const deadLetterQueue = new DeadLetterQueue()
@@ -0,0 +1,63 @@
+// /lib/services/email/draft-history.ts
+// Numbered versions of the reply drafted for each email
+// Every LLM output, human edit and restore is appended; the latest version is the one to send
+
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+
+export type DraftSource = 'llm' | 'edit' | 'restore'
+
+export interface DraftVersion {
+  version: number
+  content: string
+  source: DraftSource
+  author: string
+  model?: string
+  promptVersion?: string     // System prompt version behind an LLM draft
+  createdAt: string
+  restoredFrom?: number
+}
+
+export type NewDraft = Omit<DraftVersion, 'version' | 'createdAt'> & { createdAt?: string }
+
+// Author recorded for LLM-generated drafts
+export const LLM_AUTHOR = 'amara'
+
+class DraftHistory {
+  /**
+   * All versions, oldest first
+   */
+  async list(emailId: string): Promise<DraftVersion[]> {
+    return kv.lrange<DraftVersion>(KEYS.EMAIL_DRAFTS(emailId), 0, -1)
+  }
+
+  async get(emailId: string, version: number): Promise<DraftVersion | null> {
+    const [draft] = await kv.lrange<DraftVersion>(KEYS.EMAIL_DRAFTS(emailId), version - 1, version - 1)
+    return draft ?? null
+  }
+
+  async latest(emailId: string): Promise<DraftVersion | null> {
+    const [draft] = await kv.lrange<DraftVersion>(KEYS.EMAIL_DRAFTS(emailId), -1, -1)
+    return draft ?? null
+  }
+
+  /**
+   * Append a version. Callers hold the email's job lease, so numbering from
+   * the list length cannot race.
+   */
+  async add(emailId: string, draft: NewDraft): Promise<DraftVersion> {
+    const count = await kv.llen(KEYS.EMAIL_DRAFTS(emailId))
+    const version: DraftVersion = {
+      ...draft,
+      version: count + 1,
+      createdAt: draft.createdAt || new Date().toISOString()
+    }
+
+    await kv.rpush(KEYS.EMAIL_DRAFTS(emailId), version)
+    console.log(`📝 Draft v${version.version} (${version.source}) saved for ${emailId} by ${version.author}`)
+    return version
+  }
+}
+
+// Export singleton instance
+export const draftHistory = new DraftHistory()
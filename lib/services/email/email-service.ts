@@ -1,24 +1,31 @@
 // /lib/services/email-service.ts
 // Pure email delivery service - delegates content formatting to email-wrapper
-// Handles delivery logic, domain filtering, and template selection
+// Handles delivery logic, domain filtering, and template selection; the MailTransport does the sending
 
-import { Resend } from 'resend'
 import { ProcessedEmail } from '@/lib/kv-client'
 import { EmailWrapper, type EmailWrapperOptions } from './email-wrapper'
+import { buildThreadingHeaders, createMessageId } from './email-threading'
+import { getMailTransportName, type MailErrorCode, type MailTransport, type MailTransportName } from './mail-transport'
+import { ResendTransport } from './resend-transport'
+import { SmtpTransport } from './smtp-transport'
+import { ConsoleTransport } from './console-transport'
+import { FileTransport } from './file-transport'
 
 export interface EmailSendResult {
   success: boolean
   messageId?: string
+  outboundMessageId?: string   // Message-ID header we set, for matching inbound replies
   error?: string
+  errorCode?: MailErrorCode
+  retryAfterMs?: number
   sentAt?: string
 }
 
 class EmailService {
-  private resend: Resend | null = null
+  private transport: MailTransport
   private fromEmail: string
   private fromName: string
   private enabled: boolean
-  private testMode: boolean
   private allowedDomains: string[]
   private blockedDomains: string[]
   private emailWrapper: EmailWrapper
@@ -27,19 +34,30 @@ class EmailService {
     this.fromEmail = process.env.RESEND_FROM_EMAIL || 'amara@example.com'
     this.fromName = process.env.RESEND_FROM_NAME || 'Amara QUO'
     this.enabled = process.env.ENABLE_EMAIL_SENDING === 'true'
-    this.testMode = process.env.EMAIL_TEST_MODE === 'true'
     
     this.allowedDomains = process.env.EMAIL_ALLOWED_DOMAINS?.split(',').map(d => d.trim()) || []
     this.blockedDomains = process.env.EMAIL_BLOCKED_DOMAINS?.split(',').map(d => d.trim()) || ['noreply', 'no-reply', 'donotreply']
 
     this.emailWrapper = new EmailWrapper()
+    this.transport = this.createTransport(getMailTransportName())
 
-    const apiKey = process.env.RESEND_API_KEY
-    if (apiKey && this.enabled) {
-      this.resend = new Resend(apiKey)
-      console.log('📧 Email service initialized')
+    if (this.isConfigured()) {
+      console.log(`📧 Email service initialized (${this.transport.name} transport)`)
     } else {
-      console.warn('⚠️ Email service not initialized - missing API key or disabled')
+      console.warn(`⚠️ Email service not initialized - ${this.enabled ? `${this.transport.name} transport not configured` : 'disabled'}`)
+    }
+  }
+
+  private createTransport(name: MailTransportName): MailTransport {
+    switch (name) {
+      case 'smtp':
+        return new SmtpTransport()
+      case 'console':
+        return new ConsoleTransport()
+      case 'file':
+        return new FileTransport()
+      default:
+        return new ResendTransport()
     }
   }
 
@@ -54,11 +72,11 @@ class EmailService {
   ): Promise<EmailSendResult> {
     try {
       if (!this.enabled) {
-        return { success: false, error: 'Email sending is disabled' }
+        return { success: false, error: 'Email sending is disabled', errorCode: 'delivery_error' }
       }
 
-      if (!this.resend) {
-        return { success: false, error: 'Resend client not initialized' }
+      if (!this.transport.isConfigured()) {
+        return { success: false, error: `${this.transport.name} transport not configured`, errorCode: 'delivery_error' }
       }
 
       const toEmail = this.extractEmailAddress(email.from)
@@ -66,43 +84,34 @@ class EmailService {
       const { allowed, reason } = this.shouldSendToEmail(toEmail)
       if (!allowed) {
         console.log(`📧 Email blocked: ${toEmail} - ${reason}`)
-        return { success: false, error: `Email blocked: ${reason}` }
+        return { success: false, error: `Email blocked: ${reason}`, errorCode: 'delivery_rejected' }
       }
 
       // Select template based on content or override
-      const template = templateOverride || this.selectTemplate(email.subject, responseContent)
+      const template = templateOverride || (email.quoteId ? 'quote' : this.selectTemplate(email.subject, responseContent))
       
       // Generate email content using wrapper
       const wrapperOptions: EmailWrapperOptions = {
         template,
-        subject: `Re: ${email.subject}`
+        subject: this.buildSubject(email)
       }
 
       const emailContent = this.emailWrapper.wrapContent(responseContent, wrapperOptions)
 
-      if (this.testMode) {
-        console.log('📧 TEST MODE - Email would be sent:', {
-          to: toEmail,
-          subject: wrapperOptions.subject,
-          template,
-          contentLength: responseContent.length
-        })
-        return {
-          success: true,
-          messageId: `test-${Date.now()}`,
-          sentAt: new Date().toISOString()
-        }
-      }
+      // Thread under the shipper's message rather than starting a new conversation
+      const outboundMessageId = createMessageId(email.id, this.fromEmail)
+      const threadingHeaders = buildThreadingHeaders(email, outboundMessageId)
 
-      console.log(`📧 Sending ${template} email to ${toEmail}...`)
+      console.log(`📧 Sending ${template} email to ${toEmail} via ${this.transport.name}...`)
       
-      const result = await this.resend.emails.send({
+      const result = await this.transport.send({
         from: `${this.fromName} <${this.fromEmail}>`,
         to: [toEmail],
         subject: wrapperOptions.subject,
         html: emailContent.html,
         text: emailContent.text,
         headers: {
+          ...threadingHeaders,
           'X-Entity-Ref-ID': email.id,
           'X-Email-Template': template,
         },
@@ -112,16 +121,17 @@ class EmailService {
         ]
       })
 
-      if (result.error) {
+      if (!result.success) {
         console.error('📧 Email send failed:', result.error)
-        return { success: false, error: result.error.message }
+        return { success: false, error: result.error, errorCode: result.errorCode, retryAfterMs: result.retryAfterMs }
       }
 
-      console.log(`✅ Email sent: ${result.data?.id}`)
+      console.log(`✅ Email sent: ${result.messageId}`)
       
       return {
         success: true,
-        messageId: result.data?.id,
+        messageId: result.messageId,
+        outboundMessageId,
         sentAt: new Date().toISOString()
       }
 
@@ -129,11 +139,21 @@ class EmailService {
       console.error('📧 Email service error:', error)
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: 'delivery_error'
       }
     }
   }
 
+  /**
+   * Reply subject, tagged with the quote number when the reply carries a quote
+   */
+  private buildSubject(email: ProcessedEmail): string {
+    const subject = `Re: ${email.subject}`
+    if (!email.quoteId || subject.includes(email.quoteId)) return subject
+    return `${subject} [Quote ${email.quoteId}]`
+  }
+
   /**
    * Select template based on email content
    */
@@ -232,13 +252,23 @@ Best regards,
   }
 
   isConfigured(): boolean {
-    return this.enabled && !!this.resend
+    return this.enabled && this.transport.isConfigured()
+  }
+
+  /**
+   * Name of the active transport - keys its send rate limit
+   */
+  getTransportName(): MailTransportName {
+    return this.transport.name
   }
 
   getConfiguration() {
     return {
       enabled: this.enabled,
-      testMode: this.testMode,
+      testMode: this.transport.name === 'console',
+      transport: this.transport.name,
+      transportConfigured: this.transport.isConfigured(),
+      ...this.transport.describe(),
       fromEmail: this.fromEmail,
       fromName: this.fromName,
       hasApiKey: !!process.env.RESEND_API_KEY,
@@ -0,0 +1,66 @@
+// /lib/services/email/email-threading.ts
+// RFC 5322 threading headers for outbound replies (Message-ID, In-Reply-To, References)
+// and the reverse lookup from an inbound reply's headers to the email we answered
+
+import { emailStore, type EmailRecord, type ProcessedEmail } from '@/lib/kv-client'
+
+// Mail clients cap References; keep the first message and the most recent ones
+const MAX_REFERENCES = 20
+
+/**
+ * Fresh Message-ID for a reply, on the sending domain so it stays globally unique
+ */
+export function createMessageId(emailId: string, fromEmail: string): string {
+  const domain = fromEmail.split('@')[1]?.trim() || 'amara.local'
+  const unique = `${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 10)}`
+  return `<amara.${emailId.replace(/[^A-Za-z0-9._-]/g, '')}.${unique}@${domain}>`
+}
+
+/**
+ * Message-IDs in a header value, in order. Tolerates folding and missing angle brackets.
+ */
+export function parseMessageIds(header: string | undefined): string[] {
+  if (!header) return []
+  const bracketed = header.match(/<[^<>\s]+>/g)
+  if (bracketed) return bracketed
+  return header.split(/\s+/).filter(id => id.includes('@')).map(id => `<${id}>`)
+}
+
+/**
+ * Headers that make our reply thread under the email it answers.
+ * Without a captured Message-ID the reply still gets its own, it just starts a new thread.
+ */
+export function buildThreadingHeaders(email: EmailRecord, messageId: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Message-ID': messageId }
+
+  const [parent] = parseMessageIds(email.messageId)
+  if (!parent) return headers
+
+  const chain = [...parseMessageIds(email.references), parent]
+    .filter((id, index, all) => all.indexOf(id) === index)
+  const references = chain.length > MAX_REFERENCES
+    ? [chain[0], ...chain.slice(-(MAX_REFERENCES - 1))]
+    : chain
+
+  headers['In-Reply-To'] = parent
+  headers['References'] = references.join(' ')
+  return headers
+}
+
+/**
+ * The stored email an inbound message answers, resolved through its In-Reply-To and then its
+ * References, newest first. Matches either the earlier inbound email or the reply we sent for it.
+ */
+export async function findRepliedEmail(email: EmailRecord): Promise<ProcessedEmail | null> {
+  const candidates = [
+    ...parseMessageIds(email.inReplyTo),
+    ...parseMessageIds(email.references).reverse()
+  ]
+
+  for (const messageId of candidates) {
+    if (messageId === email.messageId) continue
+    const match = await emailStore.getEmailByMessageId(messageId)
+    if (match && match.id !== email.id) return match
+  }
+  return null
+}
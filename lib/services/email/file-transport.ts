@@ -0,0 +1,74 @@
+// /lib/services/email/file-transport.ts
+// Mail transport that writes each message to disk instead of sending it
+// Flat .eml files by default, or a Maildir (tmp/new/cur) that mail clients and tests can read
+
+import { mkdir, rename, writeFile } from 'fs/promises'
+import { hostname } from 'os'
+import path from 'path'
+import { buildMimeMessage, type MailMessage, type MailSendResult, type MailTransport } from './mail-transport'
+
+export type MailFileFormat = 'eml' | 'maildir'
+
+export class FileTransport implements MailTransport {
+  readonly name = 'file' as const
+  private directory: string
+  private format: MailFileFormat
+  private sequence = 0
+
+  constructor(
+    directory: string = process.env.MAIL_FILE_DIR || '.mail',
+    format: MailFileFormat = process.env.MAIL_FILE_FORMAT === 'maildir' ? 'maildir' : 'eml'
+  ) {
+    this.directory = path.resolve(directory)
+    this.format = format
+  }
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  /**
+   * Write the message; the returned messageId is the path of the written file
+   */
+  async send(message: MailMessage): Promise<MailSendResult> {
+    try {
+      const content = buildMimeMessage(message)
+      const filePath = this.format === 'maildir'
+        ? await this.deliverToMaildir(content)
+        : await this.writeEml(content, message)
+
+      console.log(`📁 Email written to ${filePath}`)
+      return { success: true, messageId: filePath }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error', errorCode: 'delivery_error' }
+    }
+  }
+
+  describe(): Record<string, unknown> {
+    return { directory: this.directory, format: this.format }
+  }
+
+  // 2026-10-19T14-03-22-123Z-<email id>.eml - sorts by send time
+  private async writeEml(content: string, message: MailMessage): Promise<string> {
+    await mkdir(this.directory, { recursive: true })
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const ref = (message.headers['X-Entity-Ref-ID'] || `${++this.sequence}`).replace(/[^A-Za-z0-9._-]/g, '')
+    const filePath = path.join(this.directory, `${stamp}-${ref}.eml`)
+    await writeFile(filePath, content, 'utf-8')
+    return filePath
+  }
+
+  // Maildir delivery: write under tmp/, then rename into new/ so readers never see a partial file
+  private async deliverToMaildir(content: string): Promise<string> {
+    await Promise.all(['tmp', 'new', 'cur'].map(dir => mkdir(path.join(this.directory, dir), { recursive: true })))
+
+    const now = Date.now()
+    const unique = `${Math.floor(now / 1000)}.M${(now % 1000) * 1000}P${process.pid}Q${++this.sequence}.${hostname().replace(/[/:]/g, '_')}`
+    const tmpPath = path.join(this.directory, 'tmp', unique)
+    const newPath = path.join(this.directory, 'new', unique)
+
+    await writeFile(tmpPath, content, 'utf-8')
+    await rename(tmpPath, newPath)
+    return newPath
+  }
+}
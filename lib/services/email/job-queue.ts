@@ -0,0 +1,197 @@
+// /lib/services/email/job-queue.ts
+// KV-backed processing queue with leases shared by every server instance
+// Ready jobs are scored by run time; a lease key (SET NX PX) marks the one owner of a job
+
+import { randomUUID } from 'crypto'
+import { emailStore } from '@/lib/kv-client'
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+
+export interface JobLease {
+  emailId: string
+  owner: string
+  token: string
+  expiresAt: number
+}
+
+export interface JobQueueStats {
+  ready: number
+  scheduled: number
+  leased: number
+  leaseMs: number
+}
+
+// Stored under JOB_LEASE(emailId) and expired by KV itself
+interface LeaseRecord {
+  owner: string
+  token: string
+  claimedAt: string
+}
+
+class JobQueue {
+  private leaseMs: number
+
+  constructor() {
+    this.leaseMs = parseInt(process.env.JOB_LEASE_MS || '120000')
+  }
+
+  getLeaseMs(): number {
+    return this.leaseMs
+  }
+
+  /**
+   * Add an email to the ready queue, optionally not before runAt (ms)
+   */
+  async enqueue(emailId: string, runAt: number = Date.now()): Promise<void> {
+    await kv.zadd(KEYS.JOBS_READY, { score: runAt, member: emailId })
+  }
+
+  /**
+   * Make sure every pending email has a job - covers emails stored before the
+   * queue existed and backends that do not enqueue on write
+   */
+  async enqueuePending(): Promise<number> {
+    const pendingIds = await emailStore.getPendingEmails()
+
+    let enqueued = 0
+    for (const emailId of pendingIds) {
+      const [queued, leased] = await Promise.all([
+        kv.zscore(KEYS.JOBS_READY, emailId),
+        kv.exists(KEYS.JOB_LEASE(emailId))
+      ])
+      if (queued !== null || leased) continue
+
+      await this.enqueue(emailId)
+      enqueued++
+    }
+
+    if (enqueued > 0) {
+      console.log(`📥 Enqueued ${enqueued} pending emails`)
+    }
+    return enqueued
+  }
+
+  /**
+   * Take the lease on an email. Returns null when another owner holds it.
+   * SET NX is the atomic step - whoever writes the lease key owns the job.
+   */
+  async acquire(emailId: string, owner: string): Promise<JobLease | null> {
+    const token = randomUUID()
+    const record: LeaseRecord = { owner, token, claimedAt: new Date().toISOString() }
+
+    const acquired = await kv.set(KEYS.JOB_LEASE(emailId), record, { nx: true, px: this.leaseMs })
+    if (!acquired) return null
+
+    const expiresAt = Date.now() + this.leaseMs
+    await Promise.all([
+      kv.zadd(KEYS.JOBS_LEASED, { score: expiresAt, member: emailId }),
+      kv.zrem(KEYS.JOBS_READY, emailId)
+    ])
+
+    return { emailId, owner, token, expiresAt }
+  }
+
+  /**
+   * Claim up to `count` due jobs from the ready queue, oldest first
+   */
+  async claim(owner: string, count: number = 1): Promise<JobLease[]> {
+    const leases: JobLease[] = []
+    // Jobs another worker won may linger in the ready set until its zrem lands
+    const tried = new Set<string>()
+
+    while (leases.length < count) {
+      const due = await kv.zrange<string[]>(KEYS.JOBS_READY, '-inf', Date.now(), {
+        byScore: true,
+        offset: 0,
+        count: count - leases.length + tried.size
+      })
+      const candidates = due.map(String).filter(emailId => !tried.has(emailId))
+      if (candidates.length === 0) break
+
+      for (const emailId of candidates) {
+        tried.add(emailId)
+        const lease = await this.acquire(emailId, owner)
+        if (lease) leases.push(lease)
+        if (leases.length >= count) break
+      }
+    }
+
+    return leases
+  }
+
+  /**
+   * Extend a lease we still own. Returns false once the lease is lost
+   * (expired and possibly claimed elsewhere) so the caller can stop work.
+   */
+  async heartbeat(lease: JobLease): Promise<boolean> {
+    const current = await kv.get<LeaseRecord>(KEYS.JOB_LEASE(lease.emailId))
+    if (current?.token !== lease.token) return false
+
+    await kv.set(KEYS.JOB_LEASE(lease.emailId), current, { xx: true, px: this.leaseMs })
+    lease.expiresAt = Date.now() + this.leaseMs
+    await kv.zadd(KEYS.JOBS_LEASED, { score: lease.expiresAt, member: lease.emailId })
+    return true
+  }
+
+  /**
+   * Drop the lease when the job reached a final state (or was rescheduled)
+   */
+  async release(lease: JobLease): Promise<void> {
+    const current = await kv.get<LeaseRecord>(KEYS.JOB_LEASE(lease.emailId))
+    // Another worker took over after this lease expired - its bookkeeping is not ours to drop
+    if (current && current.token !== lease.token) return
+
+    if (current) {
+      await kv.del(KEYS.JOB_LEASE(lease.emailId))
+    }
+    await kv.zrem(KEYS.JOBS_LEASED, lease.emailId)
+  }
+
+  /**
+   * Requeue work whose owner disappeared: leases that expired without release,
+   * and emails left in 'processing' with no lease at all (crash mid-run).
+   */
+  async recoverStale(): Promise<string[]> {
+    const recovered: string[] = []
+
+    const expired = await kv.zrange<string[]>(KEYS.JOBS_LEASED, '-inf', Date.now(), { byScore: true })
+    const processing = await emailStore.getProcessingQueue()
+
+    for (const emailId of new Set([...expired.map(String), ...processing.map(String)])) {
+      if (await kv.exists(KEYS.JOB_LEASE(emailId))) continue
+
+      await kv.zrem(KEYS.JOBS_LEASED, emailId)
+
+      const email = await emailStore.getEmail(emailId)
+      if (email?.status !== 'processing') continue
+
+      await emailStore.updateEmailStatus(emailId, 'pending')
+      await this.enqueue(emailId)
+      recovered.push(emailId)
+    }
+
+    if (recovered.length > 0) {
+      console.log(`♻️ Recovered ${recovered.length} stalled emails:`, recovered)
+    }
+    return recovered
+  }
+
+  async getStats(): Promise<JobQueueStats> {
+    const now = Date.now()
+    const [ready, total, leased] = await Promise.all([
+      kv.zrange<string[]>(KEYS.JOBS_READY, '-inf', now, { byScore: true }),
+      kv.zcard(KEYS.JOBS_READY),
+      kv.zcard(KEYS.JOBS_LEASED)
+    ])
+
+    return {
+      ready: ready.length,
+      scheduled: total - ready.length,
+      leased,
+      leaseMs: this.leaseMs
+    }
+  }
+}
+
+// Export singleton instance
+export const jobQueue = new JobQueue()
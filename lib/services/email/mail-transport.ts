@@ -0,0 +1,130 @@
+// /lib/services/email/mail-transport.ts
+// Provider-agnostic outbound mail: the MailTransport contract every delivery backend implements
+// plus the RFC 5322 / MIME serializer shared by the SMTP and file transports
+
+import { randomBytes } from 'crypto'
+
+export type MailTransportName = 'resend' | 'smtp' | 'console' | 'file'
+
+export const MAIL_TRANSPORTS: MailTransportName[] = ['resend', 'smtp', 'console', 'file']
+
+// Why a send failed - keys the delivery retry policies (lib/services/email/retry-policy.ts)
+export type MailErrorCode = 'delivery_rate_limit' | 'delivery_rejected' | 'delivery_error'
+
+export interface MailMessage {
+  from: string                        // "Name <address>" or a bare address
+  to: string[]
+  subject: string
+  html: string
+  text: string
+  headers: Record<string, string>     // Message-ID, threading and X- headers
+  tags?: { name: string; value: string }[]
+}
+
+export interface MailSendResult {
+  success: boolean
+  messageId?: string                  // The transport's own ID (Resend id, SMTP queue id, file path)
+  error?: string
+  errorCode?: MailErrorCode           // Set on failure; rejected means retrying will not help
+  retryAfterMs?: number
+}
+
+/**
+ * One way of getting a message out. Transports never throw - failures come back
+ * in the result so the processor records them like any other delivery error.
+ */
+export interface MailTransport {
+  readonly name: MailTransportName
+  isConfigured(): boolean
+  send(message: MailMessage): Promise<MailSendResult>
+  describe(): Record<string, unknown>   // Safe to show on the dashboard - no secrets
+}
+
+/**
+ * Transport named by MAIL_TRANSPORT. EMAIL_TEST_MODE predates it and still means console.
+ */
+export function getMailTransportName(): MailTransportName {
+  const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase()
+  if (configured && (MAIL_TRANSPORTS as string[]).includes(configured)) {
+    return configured as MailTransportName
+  }
+  if (configured) {
+    console.warn(`⚠️ Unknown MAIL_TRANSPORT "${configured}", falling back to resend`)
+  }
+  return process.env.EMAIL_TEST_MODE === 'true' ? 'console' : 'resend'
+}
+
+/**
+ * Bare address out of a From/To value: "Fred <fred@x.com>" -> fred@x.com
+ */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return (match ? match[1] : value).trim()
+}
+
+/**
+ * Serialize a message as it would travel over SMTP: CRLF line endings,
+ * multipart/alternative with base64 text and HTML parts.
+ */
+export function buildMimeMessage(message: MailMessage, date: Date = new Date()): string {
+  const boundary = `amara-${randomBytes(12).toString('hex')}`
+  const custom = { ...message.headers }
+  if (!Object.keys(custom).some(name => name.toLowerCase() === 'message-id')) {
+    custom['Message-ID'] = `<${randomBytes(16).toString('hex')}@${extractAddress(message.from).split('@')[1] || 'localhost'}>`
+  }
+
+  const headers: [string, string][] = [
+    ['Date', date.toUTCString()],
+    ['From', encodeAddress(message.from)],
+    ['To', message.to.map(encodeAddress).join(', ')],
+    ['Subject', encodeHeaderValue(message.subject)],
+    ...Object.entries(custom),
+    ['MIME-Version', '1.0'],
+    ['Content-Type', `multipart/alternative; boundary="${boundary}"`]
+  ]
+
+  const lines = [
+    ...headers.map(([name, value]) => `${name}: ${sanitizeHeader(value)}`),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...base64Lines(message.html),
+    `--${boundary}--`,
+    ''
+  ]
+
+  return lines.join('\r\n')
+}
+
+// A header value must not carry its own line breaks - that would inject headers
+function sanitizeHeader(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ')
+}
+
+// RFC 2047 encoded-word for anything outside printable ASCII
+function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`
+}
+
+// Display names with specials are quoted; non-ASCII ones are encoded instead
+function encodeAddress(value: string): string {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/)
+  if (!match || !match[1]) return extractAddress(value)
+
+  const name = match[1]
+  const display = !/^[\x20-\x7e]*$/.test(name)
+    ? encodeHeaderValue(name)
+    : /[()<>[\]:;@\\,."]/.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : name
+  return `${display} <${match[2]}>`
+}
+
+function base64Lines(content: string): string[] {
+  return Buffer.from(content, 'utf-8').toString('base64').match(/.{1,76}/g) || ['']
+}
@@ -0,0 +1,231 @@
+// /lib/services/email/outbox-dispatcher.ts
+// Delivers queued outbox entries through the configured mail transport
+// Failed sends are retried with backoff per error code; the transport's send rate is limited per minute like the LLM
+
+import { emailStore, type EmailStatusMetadata } from '@/lib/kv-client'
+import { rateLimiter } from '../llm/rate-limiter'
+import { quoteService } from '../freight/quote-service'
+import { emailService } from './email-service'
+import { outbox, type OutboxLease, type OutboxMessage } from './outbox'
+import { retryPolicy } from './retry-policy'
+
+export interface DispatchResult {
+  emailId: string
+  status: OutboxMessage['status']
+  attempts: number
+  sent: boolean
+  error?: string
+  nextAttemptAt?: string
+  providerMessageId?: string
+  outboundMessageId?: string
+  rateLimited?: boolean
+}
+
+export interface DispatchRunResult {
+  results: DispatchResult[]
+  stoppedReason: 'drained' | 'rate_limited' | 'time_budget' | 'not_configured'
+  retryAfterMs?: number
+}
+
+// A reply whose email is still being (re)processed waits this long before the next look
+const DEFER_MS = 30_000
+
+class OutboxDispatcher {
+  private maxDuration: number = parseInt(process.env.OUTBOX_MAX_DURATION_MS || '60000')
+
+  /**
+   * Drain due entries until the outbox is empty, the time budget runs out,
+   * or the transport's rate limit is reached
+   */
+  async run(): Promise<DispatchRunResult> {
+    if (!emailService.isConfigured()) {
+      return { results: [], stoppedReason: 'not_configured' }
+    }
+
+    const results: DispatchResult[] = []
+    const deadline = Date.now() + this.maxDuration
+
+    await outbox.recoverStale()
+
+    while (Date.now() < deadline) {
+      const [lease] = await outbox.claim(1)
+      if (!lease) {
+        return { results, stoppedReason: 'drained' }
+      }
+
+      const result = await this.attempt(lease)
+      if (result) results.push(result)
+
+      if (result?.rateLimited) {
+        const status = await rateLimiter.check(emailService.getTransportName(), 0)
+        console.log(`🚦 Mail rate limit reached for ${emailService.getTransportName()}, stopping dispatcher`)
+        return { results, stoppedReason: 'rate_limited', retryAfterMs: status.retryAfterMs }
+      }
+    }
+
+    return { results, stoppedReason: 'time_budget' }
+  }
+
+  /**
+   * Try one entry right away - used after a reply is queued so a healthy transport
+   * still sends immediately. Null when another dispatcher holds the entry.
+   */
+  async deliver(emailId: string): Promise<DispatchResult | null> {
+    if (!emailService.isConfigured()) return null
+
+    const lease = await outbox.acquire(emailId)
+    if (!lease) return null
+    return this.attempt(lease)
+  }
+
+  /**
+   * Queue the reply again and try it now. Emails sent before the outbox existed
+   * have no entry yet - their stored response becomes one.
+   */
+  async resend(emailId: string): Promise<DispatchResult | null> {
+    const existing = await outbox.get(emailId)
+    if (existing) {
+      await outbox.resend(emailId)
+    } else {
+      const email = await emailStore.getEmail(emailId)
+      if (!email) {
+        throw new Error('Email not found')
+      }
+      if (email.status !== 'completed' || !email.response) {
+        throw new Error(`Cannot resend email with status: ${email.status}`)
+      }
+      await outbox.enqueue(emailId, email.response)
+    }
+
+    await this.updateEmail(emailId, { deliveryStatus: 'pending', deliveryAttempts: 0, error: '' })
+    return this.deliver(emailId)
+  }
+
+  /**
+   * Cancel a queued reply; the email records that nothing was sent
+   */
+  async cancel(emailId: string, cancelledBy?: string): Promise<OutboxMessage> {
+    const cancelled = await outbox.cancel(emailId, cancelledBy)
+    await this.updateEmail(emailId, {
+      deliveryStatus: 'failed',
+      error: `Delivery cancelled${cancelledBy ? ` by ${cancelledBy}` : ''}`
+    })
+    return cancelled
+  }
+
+  // One send under the lease; never throws for delivery problems
+  private async attempt(lease: OutboxLease): Promise<DispatchResult | null> {
+    try {
+      const message = await outbox.get(lease.emailId)
+      if (!message || message.status !== 'queued') return null
+
+      const email = await emailStore.getEmail(message.emailId)
+      if (!email) {
+        return this.finish({ ...message, status: 'failed', lastError: 'Email not found', lastErrorCode: 'delivery_rejected' })
+      }
+
+      // Still being generated or approved - the processor queues before it marks the email completed
+      if (email.status === 'pending' || email.status === 'processing' || email.status === 'awaiting-approval') {
+        return this.finish({ ...message, nextAttemptAt: new Date(Date.now() + DEFER_MS).toISOString() })
+      }
+      // Failed or rejected since it was queued - this reply must not go out
+      if (email.status !== 'completed') {
+        return this.finish({ ...message, status: 'cancelled', nextAttemptAt: undefined, lastError: `Email is ${email.status}` })
+      }
+
+      const transport = emailService.getTransportName()
+      const permit = await rateLimiter.check(transport, 0)
+      if (!permit.allowed) {
+        const result = await this.finish({ ...message, nextAttemptAt: new Date(Date.now() + permit.retryAfterMs).toISOString() })
+        return { ...result, rateLimited: true }
+      }
+
+      const attempts = message.attempts + 1
+      await outbox.save({ ...message, status: 'sending', attempts, transport })
+
+      const sendResult = await emailService.sendResponse(email, message.content)
+      await rateLimiter.consume(transport, 0)
+
+      if (sendResult.success) {
+        const sentAt = sendResult.sentAt || new Date().toISOString()
+        await this.updateEmail(email.id, {
+          deliveryStatus: 'sent',
+          deliveredAt: sentAt,
+          deliveryAttempts: attempts,
+          deliveryProvider: transport,
+          outboundMessageId: sendResult.outboundMessageId,
+          error: ''
+        })
+        if (email.quoteId) await quoteService.markSent(email.quoteId)
+        console.log(`✅ Outbox delivered reply for ${email.id} (attempt ${attempts})`)
+
+        return this.finish({
+          ...message,
+          status: 'sent',
+          attempts,
+          transport,
+          sentAt,
+          nextAttemptAt: undefined,
+          providerMessageId: sendResult.messageId,
+          outboundMessageId: sendResult.outboundMessageId,
+          lastError: undefined,
+          lastErrorCode: undefined
+        })
+      }
+
+      const errorCode = sendResult.errorCode || 'delivery_error'
+      const error = sendResult.error || 'Unknown error'
+      // The provider is throttling us - hold every dispatcher off until it recovers
+      if (errorCode === 'delivery_rate_limit') {
+        await rateLimiter.pause(transport, sendResult.retryAfterMs || 60_000)
+      }
+
+      const decision = retryPolicy.decide(errorCode, attempts, sendResult.retryAfterMs)
+      const nextAttemptAt = decision.retry ? new Date(Date.now() + decision.delayMs).toISOString() : undefined
+      console.warn(`⚠️ Outbox send ${attempts}/${decision.maxAttempts} for ${email.id} failed (${errorCode}): ${error}${nextAttemptAt ? ` - retrying at ${nextAttemptAt}` : ''}`)
+
+      await this.updateEmail(email.id, {
+        deliveryStatus: decision.retry ? 'pending' : 'failed',
+        deliveryAttempts: attempts,
+        deliveryProvider: transport,
+        error
+      })
+
+      return this.finish({
+        ...message,
+        status: decision.retry ? 'queued' : 'failed',
+        attempts,
+        transport,
+        nextAttemptAt,
+        lastError: error,
+        lastErrorCode: errorCode
+      })
+    } finally {
+      await outbox.release(lease)
+    }
+  }
+
+  private async finish(message: OutboxMessage): Promise<DispatchResult> {
+    await outbox.save(message)
+    return {
+      emailId: message.emailId,
+      status: message.status,
+      attempts: message.attempts,
+      sent: message.status === 'sent',
+      error: message.lastError,
+      nextAttemptAt: message.nextAttemptAt,
+      providerMessageId: message.providerMessageId,
+      outboundMessageId: message.outboundMessageId
+    }
+  }
+
+  // Delivery fields only - the email keeps whatever status it has
+  private async updateEmail(emailId: string, metadata: EmailStatusMetadata): Promise<void> {
+    const email = await emailStore.getEmail(emailId)
+    if (!email) return
+    await emailStore.updateEmailStatus(emailId, email.status, metadata)
+  }
+}
+
+// Export singleton instance
+export const outboxDispatcher = new OutboxDispatcher()
@@ -0,0 +1,281 @@
+// /lib/services/email/outbox.ts
+// Persisted outbox of replies waiting to be sent - one entry per email, holding the exact content to deliver
+// Due entries are scored by next attempt time; a lease key (SET NX PX) marks the one dispatcher sending it
+
+import { randomUUID } from 'crypto'
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import type { MailErrorCode, MailTransportName } from './mail-transport'
+
+export const OUTBOX_STATUSES = ['queued', 'sending', 'sent', 'failed', 'cancelled'] as const
+
+export type OutboxStatus = typeof OUTBOX_STATUSES[number]
+
+export interface OutboxMessage {
+  emailId: string
+  content: string                 // Final reply text, quote reference already stamped
+  status: OutboxStatus
+  attempts: number                // Send attempts for this content; reset by a resend
+  lastError?: string
+  lastErrorCode?: MailErrorCode
+  nextAttemptAt?: string          // queued: not sent before this time
+  transport?: MailTransportName   // Transport of the last attempt
+  providerMessageId?: string      // The transport's own ID, once sent
+  outboundMessageId?: string      // Message-ID header we set, once sent
+  createdAt: string
+  updatedAt: string
+  sentAt?: string
+  cancelledBy?: string
+}
+
+export interface OutboxLease {
+  emailId: string
+  token: string
+  expiresAt: number
+}
+
+export interface OutboxListOptions {
+  status?: OutboxStatus[]
+  limit?: number
+  offset?: number
+}
+
+export interface OutboxStats {
+  ready: number
+  scheduled: number
+  sending: number
+  total: number
+  leaseMs: number
+}
+
+class Outbox {
+  private leaseMs: number
+
+  constructor() {
+    this.leaseMs = parseInt(process.env.OUTBOX_LEASE_MS || '60000')
+  }
+
+  getLeaseMs(): number {
+    return this.leaseMs
+  }
+
+  /**
+   * Queue a reply for delivery. Replaces whatever was queued or sent for the email
+   * before - a rerun or a re-approval is a new reply with a fresh attempt budget.
+   */
+  async enqueue(emailId: string, content: string, runAt: number = Date.now()): Promise<OutboxMessage> {
+    const now = new Date().toISOString()
+    const message: OutboxMessage = {
+      emailId,
+      content,
+      status: 'queued',
+      attempts: 0,
+      nextAttemptAt: new Date(runAt).toISOString(),
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await Promise.all([
+      kv.set(KEYS.OUTBOX_MESSAGE(emailId), message),
+      kv.zadd(KEYS.OUTBOX_READY, { score: runAt, member: emailId }),
+      kv.zadd(KEYS.OUTBOX_BY_CREATED, { score: Date.now(), member: emailId })
+    ])
+    console.log(`📤 Queued reply for ${emailId} in the outbox`)
+    return message
+  }
+
+  async get(emailId: string): Promise<OutboxMessage | null> {
+    return kv.get<OutboxMessage>(KEYS.OUTBOX_MESSAGE(emailId))
+  }
+
+  /**
+   * Newest first, optionally filtered by status
+   */
+  async list(options: OutboxListOptions = {}): Promise<{ messages: OutboxMessage[]; total: number }> {
+    const limit = options.limit ?? 50
+    const offset = options.offset ?? 0
+
+    if (!options.status?.length) {
+      const [ids, total] = await Promise.all([
+        kv.zrange<string[]>(KEYS.OUTBOX_BY_CREATED, offset, offset + limit - 1, { rev: true }),
+        kv.zcard(KEYS.OUTBOX_BY_CREATED)
+      ])
+      const messages = await Promise.all(ids.map(id => this.get(String(id))))
+      return { messages: messages.filter((message): message is OutboxMessage => message !== null), total }
+    }
+
+    // Status lives on the entry, so filtered listings read every entry
+    const ids = await kv.zrange<string[]>(KEYS.OUTBOX_BY_CREATED, 0, -1, { rev: true })
+    const all = await Promise.all(ids.map(id => this.get(String(id))))
+    const matching = all.filter((message): message is OutboxMessage =>
+      message !== null && options.status!.includes(message.status)
+    )
+    return { messages: matching.slice(offset, offset + limit), total: matching.length }
+  }
+
+  /**
+   * Write an entry back after the dispatcher or an API action changed it
+   */
+  async save(message: OutboxMessage): Promise<void> {
+    const updated = { ...message, updatedAt: new Date().toISOString() }
+    const runAt = updated.status === 'queued' && updated.nextAttemptAt ? new Date(updated.nextAttemptAt).getTime() : null
+
+    await Promise.all([
+      kv.set(KEYS.OUTBOX_MESSAGE(message.emailId), updated),
+      runAt !== null
+        ? kv.zadd(KEYS.OUTBOX_READY, { score: runAt, member: message.emailId })
+        : kv.zrem(KEYS.OUTBOX_READY, message.emailId)
+    ])
+  }
+
+  /**
+   * Take the lease on an entry. Returns null when another dispatcher (or an API action) holds it.
+   */
+  async acquire(emailId: string): Promise<OutboxLease | null> {
+    const token = randomUUID()
+    const acquired = await kv.set(KEYS.OUTBOX_LEASE(emailId), token, { nx: true, px: this.leaseMs })
+    if (!acquired) return null
+
+    const expiresAt = Date.now() + this.leaseMs
+    await kv.zadd(KEYS.OUTBOX_SENDING, { score: expiresAt, member: emailId })
+    return { emailId, token, expiresAt }
+  }
+
+  /**
+   * Lease due entries, earliest first
+   */
+  async claim(count: number = 1): Promise<OutboxLease[]> {
+    const leases: OutboxLease[] = []
+    const tried = new Set<string>()
+
+    while (leases.length < count) {
+      const due = await kv.zrange<string[]>(KEYS.OUTBOX_READY, '-inf', Date.now(), {
+        byScore: true,
+        offset: 0,
+        count: count - leases.length + tried.size
+      })
+      const candidates = due.map(String).filter(emailId => !tried.has(emailId))
+      if (candidates.length === 0) break
+
+      for (const emailId of candidates) {
+        tried.add(emailId)
+        const lease = await this.acquire(emailId)
+        if (lease) leases.push(lease)
+        if (leases.length >= count) break
+      }
+    }
+
+    return leases
+  }
+
+  async release(lease: OutboxLease): Promise<void> {
+    const current = await kv.get<string>(KEYS.OUTBOX_LEASE(lease.emailId))
+    if (current === lease.token) {
+      await kv.del(KEYS.OUTBOX_LEASE(lease.emailId))
+    }
+    await kv.zrem(KEYS.OUTBOX_SENDING, lease.emailId)
+  }
+
+  /**
+   * Send again: a failed, cancelled or sent entry goes back to queued with a fresh
+   * attempt budget; a queued one is made due now
+   */
+  async resend(emailId: string): Promise<OutboxMessage> {
+    return this.withLease(emailId, async message => {
+      const resent: OutboxMessage = {
+        ...message,
+        status: 'queued',
+        attempts: 0,
+        lastError: undefined,
+        lastErrorCode: undefined,
+        cancelledBy: undefined,
+        nextAttemptAt: new Date().toISOString()
+      }
+      await this.save(resent)
+      console.log(`🔁 Outbox entry for ${emailId} queued for resend`)
+      return resent
+    })
+  }
+
+  /**
+   * Stop a queued reply from going out
+   */
+  async cancel(emailId: string, cancelledBy?: string): Promise<OutboxMessage> {
+    return this.withLease(emailId, async message => {
+      if (message.status !== 'queued') {
+        throw new Error(`Cannot cancel message with status: ${message.status}`)
+      }
+
+      const cancelled: OutboxMessage = { ...message, status: 'cancelled', nextAttemptAt: undefined, cancelledBy }
+      await this.save(cancelled)
+      console.log(`🚫 Outbox entry for ${emailId} cancelled${cancelledBy ? ` by ${cancelledBy}` : ''}`)
+      return cancelled
+    })
+  }
+
+  /**
+   * Entries left in 'sending' by a dispatcher that died go back to queued.
+   * The attempt already counted, so a crash mid-send still uses up budget.
+   */
+  async recoverStale(): Promise<string[]> {
+    const expired = await kv.zrange<string[]>(KEYS.OUTBOX_SENDING, '-inf', Date.now(), { byScore: true })
+    const recovered: string[] = []
+
+    for (const emailId of expired.map(String)) {
+      if (await kv.exists(KEYS.OUTBOX_LEASE(emailId))) continue
+      await kv.zrem(KEYS.OUTBOX_SENDING, emailId)
+
+      const message = await this.get(emailId)
+      if (message?.status !== 'sending') continue
+
+      await this.save({ ...message, status: 'queued', nextAttemptAt: new Date().toISOString() })
+      recovered.push(emailId)
+    }
+
+    if (recovered.length > 0) {
+      console.log(`♻️ Recovered ${recovered.length} stalled outbox entries:`, recovered)
+    }
+    return recovered
+  }
+
+  async getStats(): Promise<OutboxStats> {
+    const [ready, queued, sending, total] = await Promise.all([
+      kv.zrange<string[]>(KEYS.OUTBOX_READY, '-inf', Date.now(), { byScore: true }),
+      kv.zcard(KEYS.OUTBOX_READY),
+      kv.zcard(KEYS.OUTBOX_SENDING),
+      kv.zcard(KEYS.OUTBOX_BY_CREATED)
+    ])
+
+    return {
+      ready: ready.length,
+      scheduled: queued - ready.length,
+      sending,
+      total,
+      leaseMs: this.leaseMs
+    }
+  }
+
+  // API actions hold the lease too, so they cannot race a send in progress
+  private async withLease<T>(emailId: string, fn: (message: OutboxMessage) => Promise<T>): Promise<T> {
+    const message = await this.get(emailId)
+    if (!message) {
+      throw new Error(`Outbox message not found: ${emailId}`)
+    }
+
+    const lease = await this.acquire(emailId)
+    if (!lease) {
+      throw new Error(`Message ${emailId} is already being sent`)
+    }
+
+    try {
+      // Re-read under the lease - a send may have finished in between
+      const current = await this.get(emailId)
+      return await fn(current || message)
+    } finally {
+      await this.release(lease)
+    }
+  }
+}
+
+// Export singleton instance
+export const outbox = new Outbox()
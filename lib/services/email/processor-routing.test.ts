@@ -0,0 +1,93 @@
+// /lib/services/email/processor-routing.test.ts
+// Rate-limit checks follow the route a reply takes once the email has been extracted
+// ROUTING_RULES is read when the router loads, so it is set before anything is imported
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { emailStore, type EmailRecord } from '@/lib/kv-client'
+import { kv } from '@/lib/storage/kv'
+import type { MemoryKV } from '@/lib/storage/memory-kv'
+import { mockLLMScript } from '../llm/llm-service-mock'
+import { rateLimiter } from '../llm/rate-limiter'
+import { jobQueue } from './job-queue'
+import { emailProcessor } from './processor'
+
+vi.hoisted(() => {
+  // Freight requests go to a self-hosted model; nothing listens there, so a call would time out
+  process.env.OPENAI_COMPATIBLE_BASE_URL = 'http://127.0.0.1:9/v1'
+  process.env.ROUTING_RULES = JSON.stringify([
+    { name: 'freight', match: { categories: ['freight_request'] }, provider: 'openai-compatible', model: 'llama3.1', maxTokens: 800 }
+  ])
+})
+
+const freightRequest: EmailRecord = {
+  id: 'load-1',
+  threadId: 'thread-load-1',
+  subject: 'Dry van Chicago to Dallas',
+  from: 'Dana Shipper <dana@shipper.test>',
+  to: 'quotes@amara.test',
+  date: '2026-10-01T10:00:00Z',
+  snippet: '',
+  body: 'Need a dry van from Chicago, IL to Dallas, TX next week. Weight TBD.',
+  receivedAt: '2026-10-01T10:00:00Z',
+  historyId: 1
+}
+
+describe('EmailProcessor rate limits per route', () => {
+  beforeEach(async () => {
+    await (kv as MemoryKV).flushall()
+    // Extraction finds a freight request that is missing its weight, so it is routed but not priced
+    mockLLMScript.load({
+      rules: [{
+        operation: 'extract',
+        response: {
+          data: {
+            is_freight_request: true,
+            origin: { city: 'Chicago', state: 'IL', zip: null },
+            destination: { city: 'Dallas', state: 'TX', zip: null },
+            pickup_window: null,
+            delivery_window: null,
+            equipment_type: 'dry_van',
+            weight_lbs: null,
+            commodity: null,
+            piece_count: null,
+            hazmat: false,
+            accessorials: []
+          }
+        }
+      }]
+    })
+  })
+
+  it('defers an email whose freight route goes to a paused provider and stops the pool', async () => {
+    await rateLimiter.pause('openai-compatible', 120_000)
+    await emailStore.storeEmail(freightRequest)
+
+    const run = await emailProcessor.processQueue()
+
+    expect(run.stoppedReason).toBe('rate_limited')
+    expect(run.retryAfterMs).toBeGreaterThan(110_000)
+    expect(run.results).toHaveLength(1)
+    expect(run.results[0]).toMatchObject({ status: 'pending', errorCode: 'rate_limit', provider: 'openai-compatible', attempts: 0 })
+
+    // Handed back untouched for when the pause ends - no attempt used, nothing sent
+    const stored = await emailStore.getEmail('load-1')
+    expect(stored).toMatchObject({ status: 'pending', attempts: 0 })
+    expect(stored?.response).toBeFalsy()
+    expect((await jobQueue.getStats()).scheduled).toBe(1)
+
+    // The default provider's bucket was neither checked against nor charged for the reply
+    const mock = await rateLimiter.getStatus('mock')
+    expect(mock.pausedUntil).toBeUndefined()
+  })
+
+  it('answers on the default provider when the email is not a freight request', async () => {
+    await rateLimiter.pause('openai-compatible', 120_000)
+    mockLLMScript.reset()
+    await emailStore.storeEmail({ ...freightRequest, id: 'note-1', subject: 'Question', body: 'Do you haul reefer loads?' })
+
+    const run = await emailProcessor.processQueue()
+
+    expect(run.stoppedReason).toBe('drained')
+    expect(run.results[0]).toMatchObject({ status: 'completed', provider: 'mock' })
+  })
+})
@@ -0,0 +1,127 @@
+// /lib/services/email/processor.test.ts
+// End-to-end EmailProcessor runs on the mock LLM provider and the in-memory store
+// The example LLM_MOCK_SCRIPT drives success and failure; the recorded fixture is replayed
+
+import fs from 'fs'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { emailStore, type EmailRecord } from '@/lib/kv-client'
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import type { MemoryKV } from '@/lib/storage/memory-kv'
+import { mockLLMScript, type MockLLMScript } from '../llm/llm-service-mock'
+import { llmFixtures } from '../llm/llm-fixtures'
+import { rateLimiter } from '../llm/rate-limiter'
+import { jobQueue } from './job-queue'
+import { emailProcessor } from './processor'
+
+const FIXTURES = path.resolve(__dirname, '../../../fixtures/llm')
+
+function loadScript(): MockLLMScript {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURES, 'mock-script.json'), 'utf-8'))
+}
+
+function email(id: string, subject: string): EmailRecord {
+  return {
+    id,
+    threadId: `thread-${id}`,
+    subject,
+    from: 'Dana Shipper <dana@shipper.test>',
+    to: 'quotes@amara.test',
+    date: '2026-10-01T10:00:00Z',
+    snippet: '',
+    body: 'Hello, do you run trucks out of the Midwest? Looking for a regular carrier.',
+    receivedAt: '2026-10-01T10:00:00Z',
+    historyId: 1
+  }
+}
+
+describe('EmailProcessor with the mock provider', () => {
+  beforeEach(async () => {
+    await (kv as MemoryKV).flushall()
+    mockLLMScript.load(loadScript())
+  })
+
+  afterEach(() => {
+    mockLLMScript.reset()
+    llmFixtures.configure('off')
+  })
+
+  it('stores and sends the scripted reply', async () => {
+    await emailStore.storeEmail(email('ok', 'Carrier question'))
+
+    const result = await emailProcessor.processEmail('ok')
+
+    expect(result.status).toBe('completed')
+    expect(result.response).toContain('Thanks for reaching out')
+    expect(result.emailSent).toBe(true)
+
+    const stored = await emailStore.getEmail('ok')
+    expect(stored?.status).toBe('completed')
+    expect(stored?.deliveryStatus).toBe('sent')
+    expect(stored?.deliveryProvider).toBe('console')
+    expect(stored?.generatedBy).toEqual({ provider: 'mock', model: 'mock' })
+  })
+
+  it('puts a rate-limited email back to pending and pauses the provider', async () => {
+    await emailStore.storeEmail(email('limited', '[rate-limit] Carrier question'))
+
+    const result = await emailProcessor.processEmail('limited')
+
+    expect(result).toMatchObject({ status: 'pending', errorCode: 'rate_limit', attempts: 1, provider: 'mock' })
+    // The provider's retry-after is a floor for the backoff
+    expect(Date.parse(result.nextRetryAt!) - Date.now()).toBeGreaterThan(80_000)
+
+    const stored = await emailStore.getEmail('limited')
+    expect(stored?.status).toBe('pending')
+    expect(stored?.deliveryStatus).toBeUndefined()
+    expect((await jobQueue.getStats()).scheduled).toBe(1)
+
+    const permit = await rateLimiter.check('mock', 0)
+    expect(permit.allowed).toBe(false)
+
+    // While the provider is paused the email is handed back without using an attempt
+    const deferred = await emailProcessor.processEmail('limited')
+    expect(deferred).toMatchObject({ status: 'pending', errorCode: 'rate_limit', attempts: 1 })
+
+    // Once the pause is over the script's limit is used up too - the retry goes through
+    await kv.del(KEYS.RATE_LIMIT_PAUSE('mock'))
+    const retried = await emailProcessor.processEmail('limited')
+    expect(retried.status).toBe('completed')
+    expect(retried.attempts).toBeUndefined()
+    expect((await emailStore.getEmail('limited'))?.attempts).toBe(2)
+  })
+
+  it('schedules a retry after a timeout', async () => {
+    await emailStore.storeEmail(email('slow', '[timeout] Carrier question'))
+
+    const result = await emailProcessor.processEmail('slow')
+
+    expect(result).toMatchObject({ status: 'pending', errorCode: 'timeout', error: 'Simulated slow provider' })
+    expect((await emailStore.getEmail('slow'))?.response).toBeFalsy()
+  })
+
+  it('fails an email whose replies keep coming back empty', async () => {
+    await emailStore.storeEmail(email('empty', '[empty] Carrier question'))
+
+    const first = await emailProcessor.processEmail('empty')
+    expect(first).toMatchObject({ status: 'pending', errorCode: 'empty_response' })
+
+    // empty_response allows two attempts, so the second one gives up
+    const second = await emailProcessor.processEmail('empty')
+    expect(second).toMatchObject({ status: 'failed', errorCode: 'empty_response', attempts: 2 })
+    expect((await emailStore.getEmail('empty'))?.status).toBe('failed')
+  })
+
+  it('replays a recorded reply without calling the provider', async () => {
+    // Any call that reaches the mock now fails, so only the recording can answer
+    mockLLMScript.load({ rules: [{ error: { code: 'invalid_request', message: 'Provider should not be called' } }] })
+    llmFixtures.configure('replay', path.join(FIXTURES, 'replay'))
+    await emailStore.storeEmail(email('replayed', 'Carrier question'))
+
+    const result = await emailProcessor.processEmail('replayed')
+
+    expect(result.status).toBe('completed')
+    expect(result.response).toContain('Thanks for reaching out')
+  })
+})
@@ -3,8 +3,25 @@
 // Automatically sends responses after successful LLM processing
 
 import { emailStore, type ProcessedEmail, type EmailStatus } from '@/lib/kv-client'
-import { llmFactory } from '../llm/llm-factory'
+import { llmFactory, type LLMProviderName, type LLMSelection } from '../llm/llm-factory'
+import { rateLimiter, type RateLimitCheck } from '../llm/rate-limiter'
+import { modelRouter } from '../llm/model-router'
+import { promptRegistry } from '../llm/prompt-registry'
 import { emailService } from './email-service'
+import { outbox } from './outbox'
+import { outboxDispatcher } from './outbox-dispatcher'
+import { jobQueue, type JobLease } from './job-queue'
+import { retryPolicy, type RetryErrorCode } from './retry-policy'
+import { deadLetterQueue } from './dead-letter'
+import { approvalPolicy } from './approval-policy'
+import { draftHistory, LLM_AUTHOR, type DraftVersion } from './draft-history'
+import { threadContext } from './thread-context'
+import { freightExtractor } from '../freight/freight-extractor'
+import { rateEngine, type RateQuote } from '../freight/rate-engine'
+import { fuelSurcharge } from '../freight/fuel-surcharge'
+import { laneDistance, type UnresolvedLocationError } from '../freight/lane-distance'
+import { quoteService, type Quote } from '../freight/quote-service'
+import { quoteReplyClassifier } from '../freight/quote-reply-classifier'
 import type { LLMResponse, LLMError } from '../llm/llm-service'
 
 export type ProcessingStatus = EmailStatus
@@ -16,38 +33,91 @@ export interface ProcessingResult {
   tokenUsage?: LLMResponse['tokenUsage']
   processingTime?: number
   error?: string
+  errorCode?: RetryErrorCode
+  attempts?: number
+  nextRetryAt?: string
   processedAt: string
   emailSent?: boolean
   deliveryMessageId?: string
+  provider?: LLMProviderName    // Answered the reply, or hit the error
+  retryAfterMs?: number         // Set when the provider's budget was spent and the email was handed back
 }
 
-export interface ProcessingQueueItem {
-  emailId: string
-  priority: number
-  attempts: number
-  lastAttempt?: string
-  error?: string
+export interface ReviewInput {
+  reviewer?: string
+  note?: string
+}
+
+interface DeliveryOutcome {
+  emailSent: boolean
+  deliveryMessageId?: string
+  deliveryStatus: ProcessedEmail['deliveryStatus']
+}
+
+export interface RouteUsage {
+  emails: number
+  tokens: number
+  estimatedCost: number
+  costPerEmail: number
+}
+
+export interface QueueRunResult {
+  results: ProcessingResult[]
+  stoppedReason: 'drained' | 'rate_limited' | 'time_budget'
+  retryAfterMs?: number
 }
 
 class EmailProcessor {
-  private isProcessing: boolean = false
-  private processingQueue: ProcessingQueueItem[] = []
-  private maxConcurrent: number = 1
-  private currentlyProcessing: Set<string> = new Set()
+  private maxConcurrent: number = Math.max(1, parseInt(process.env.WORKER_CONCURRENCY || '4'))
+  private workerId: string = `worker-${process.pid}-${Math.random().toString(36).slice(2, 8)}`
+  private maxWorkerDuration: number = parseInt(process.env.WORKER_MAX_DURATION_MS || '240000')
 
   /**
-   * Process a single email with comprehensive logging and email delivery
+   * Process a single email with comprehensive logging and email delivery.
+   * Runs under a job lease so no two instances work on the same email; pass the
+   * lease when the caller already claimed it from the queue, and an LLM selection to
+   * run this email on a provider or model other than the configured default.
    */
-  async processEmail(emailId: string, isRerun: boolean = false): Promise<ProcessingResult> {
+  async processEmail(emailId: string, isRerun: boolean = false, lease?: JobLease, llm?: LLMSelection): Promise<ProcessingResult> {
+    const jobLease = lease || await jobQueue.acquire(emailId, this.workerId)
+    if (!jobLease) {
+      throw new Error(`Email ${emailId} is already being processed`)
+    }
+
+    // Keep the lease alive while the LLM call and delivery run; losing it aborts the run
+    const leaseLost = new AbortController()
+    const heartbeat = setInterval(() => {
+      jobQueue.heartbeat(jobLease).then(held => {
+        if (held) return
+        console.warn(`⚠️ Lost lease on email ${emailId}`)
+        leaseLost.abort()
+      }).catch(error => console.error('Lease heartbeat failed:', error))
+    }, Math.floor(jobQueue.getLeaseMs() / 3))
+
+    try {
+      return await this.runEmail(emailId, isRerun, llm, jobLease, leaseLost)
+    } finally {
+      clearInterval(heartbeat)
+      await jobQueue.release(jobLease)
+    }
+  }
+
+  private async runEmail(emailId: string, isRerun: boolean, llm: LLMSelection | undefined, lease: JobLease, leaseLost: AbortController): Promise<ProcessingResult> {
     console.log(`\n${'='.repeat(60)}`)
     console.log(`🚀 ${isRerun ? 'RERUNNING' : 'STARTING'} EMAIL PROCESSING`)
     console.log(`📧 Email ID: ${emailId}`)
     console.log(`⏰ Time: ${new Date().toISOString()}`)
+    const { provider, model } = llmFactory.resolve(llm)
+    console.log(`🤖 LLM: ${provider} / ${model}`)
     if (isRerun) {
       console.log(`🔄 This is a RERUN - previous response will be replaced`)
     }
     console.log(`${'='.repeat(60)}\n`)
     
+    let attempt = 1
+    // Until routing runs, errors belong to the selected provider
+    let routedProvider = provider
+
     try {
       // Step 1: Get email from KV store
       console.log(`📥 Step 1: Fetching email from KV store...`)
@@ -67,18 +137,104 @@ class EmailProcessor {
       })
 
       // Step 2: Update status to processing
-      console.log(`\n📝 Step 2: Updating status to 'processing'...`)
-      await emailStore.updateEmailStatus(emailId, 'processing')
+      attempt = (email.attempts || 0) + 1
+      console.log(`\n📝 Step 2: Updating status to 'processing' (attempt ${attempt})...`)
+      await emailStore.updateEmailStatus(emailId, 'processing', { attempts: attempt, nextRetryAt: '' })
       console.log(`✅ Status updated to: processing`)
 
+      // Step 3a: A reply on a quoted thread answers that quote - classify it instead of pricing again
+      let extractionTokens = { prompt: 0, completion: 0, total: 0 }
+      let quote: Quote | null = null
+      const answered = quoteReplyClassifier.isEnabled() ? await quoteReplyClassifier.findQuote(email) : null
+      if (answered) {
+        console.log(`\n📨 Step 3a: Classifying reply to quote ${answered.id}...`)
+        const { reply, tokenUsage, provider: answeredBy } = await quoteReplyClassifier.classify(email, answered, llm)
+        await rateLimiter.consume(answeredBy || provider, tokenUsage.total)
+        extractionTokens = tokenUsage
+
+        const quoteReply = await quoteReplyClassifier.apply(email, answered, reply)
+        await emailStore.updateEmailStatus(emailId, 'processing', { quoteReply, quoteId: answered.id })
+        email.quoteReply = quoteReply
+        email.quoteId = answered.id
+      } else if (freightExtractor.isEnabled()) {
+        // Extract the structured freight request before drafting a reply
+        console.log(`\n🔎 Step 3a: Extracting freight request...`)
+        const { extraction, tokenUsage, provider: answeredBy } = await freightExtractor.extract(email, llm)
+        await rateLimiter.consume(answeredBy || provider, tokenUsage.total)
+        extractionTokens = tokenUsage
+
+        // Price complete requests with the rate engine - the prompt quotes these numbers verbatim
+        let rateQuote: RateQuote | null = null
+        let unresolved: UnresolvedLocationError | null = null
+        if (extraction.isFreightRequest && extraction.missingFields.length === 0) {
+          const distance = await laneDistance.measure(extraction.request.origin, extraction.request.destination)
+          if (distance.ok) {
+            const fuel = await fuelSurcharge.getCurrent(distance.estimate.origin.state)
+            const priced = rateEngine.quote(extraction.request, distance.estimate, fuel)
+            if (priced.ok) {
+              rateQuote = priced.quote
+              console.log(`💲 Rate engine: $${rateQuote.total} for ${rateQuote.miles} mi (${rateQuote.laneKey})`)
+            } else {
+              console.log(`💲 Rate engine could not price request: ${priced.reason}`)
+            }
+          } else {
+            unresolved = distance.error
+          }
+        }
+
+        if (rateQuote) {
+          quote = await quoteService.createDraft(email, extraction.request, rateQuote)
+        }
+
+        await emailStore.updateEmailStatus(emailId, 'processing', { extraction, rateQuote, quoteId: quote?.id ?? '' })
+        email.extraction = extraction
+        email.rateQuote = rateQuote
+        email.quoteId = quote?.id
+
+        // Never price on a guessed distance - a human places the lane
+        if (unresolved) throw unresolved
+      }
+
       // Step 3: Process with LLM
       console.log(`\n🤖 Step 3: Calling LLM service...`)
       console.log(`📋 Email content being sent:`)
       console.log(`   Subject: ${email.subject}`)
       console.log(`   Body preview: ${(email.body || email.snippet).substring(0, 100)}...`)
       
-      const llmService = llmFactory.getService()
-      const llmResponse = await llmService.processEmail(email)
+      // Earlier turns of the conversation, so the reply remembers what was already said and quoted
+      const thread = threadContext.isEnabled() ? await threadContext.build(email) : null
+      if (thread) {
+        console.log(`🧵 Thread context: ${thread.turns.length} turns verbatim, ${thread.summarizedTurns} summarized (~${thread.estimatedTokens} tokens)`)
+      }
+
+      // Route the reply on what the first pass found - a provider or model chosen for this request still wins
+      const route = modelRouter.route(email, llm)
+      routedProvider = route.provider
+      const llmService = llmFactory.getService({ provider: route.provider, model: route.model })
+      // The published template for the route's reply style, priced for this email - its version is stamped on the email
+      const { promptVersion, content: systemPrompt } = await promptRegistry.render(route.prompt, email)
+
+      // Budget is checked on the provider this reply is routed to, sized with the prompt it will be sent
+      const permit = await rateLimiter.check(route.provider, rateLimiter.estimateReplyTokens(email, {
+        systemPrompt,
+        maxTokens: route.maxTokens ?? llmFactory.getMaxTokens(route)
+      }))
+      if (!permit.allowed) {
+        return this.deferForBudget(email, attempt - 1, route.provider, permit, lease, leaseLost)
+      }
+
+      const llmResponse = await llmService.processEmail(email, thread, { maxTokens: route.maxTokens, prompt: route.prompt, systemPrompt })
+      // A fallback model may have answered - charge and credit the one that did
+      const answeredBy = llmResponse.provider || route.provider
+      await rateLimiter.consume(answeredBy, llmResponse.tokenUsage.total)
+      const generatedBy = { provider: answeredBy, model: llmResponse.model || model }
+
+      // Stored usage covers both calls so cost tracking stays complete
+      const tokenUsage = {
+        prompt: llmResponse.tokenUsage.prompt + extractionTokens.prompt,
+        completion: llmResponse.tokenUsage.completion + extractionTokens.completion,
+        total: llmResponse.tokenUsage.total + extractionTokens.total
+      }
 
       // Log the FULL response
       console.log(`\n✨ Step 4: LLM Response Received`)
@@ -93,53 +249,80 @@ class EmailProcessor {
       console.log(llmResponse.content || '[EMPTY RESPONSE]')
       console.log(`${'='.repeat(60)}\n`)
 
-      // Step 5: Send email response
-      console.log(`📧 Step 5: Sending email response...`)
-      let emailSent = false
-      let deliveryMessageId: string | undefined
-      let deliveryStatus: ProcessedEmail['deliveryStatus'] = 'pending'
-      let deliveryError: string | undefined
-
-      if (emailService.isConfigured()) {
-        const emailResult = await emailService.sendResponse(email, llmResponse.content)
-        
-        if (emailResult.success) {
-          console.log(`✅ Email sent successfully!`)
-          console.log(`   Message ID: ${emailResult.messageId}`)
-          emailSent = true
-          deliveryMessageId = emailResult.messageId
-          deliveryStatus = 'sent'
-        } else {
-          console.warn(`⚠️ Email send failed: ${emailResult.error}`)
-          deliveryError = emailResult.error
-          deliveryStatus = 'failed'
-          // Don't fail the entire processing if email sending fails
+      // The quote number always reaches the customer, whatever the model wrote
+      const content = quote ? quoteService.stampContent(quote, llmResponse.content) : llmResponse.content
+
+      // The LLM call can outlast the lease - nothing is stored once another worker may own the email
+      await this.ensureLease(lease, leaseLost)
+
+      // Every generation is kept as a draft version - reruns no longer lose the previous reply
+      const draft = await draftHistory.add(emailId, {
+        content,
+        source: 'llm',
+        author: LLM_AUTHOR,
+        model: llmResponse.model,
+        promptVersion
+      })
+
+      // Step 5: Hold for approval when the policy requires a human to review the draft
+      const approval = approvalPolicy.evaluate(email, content, llmResponse.category)
+      if (approval.required) {
+        console.log(`⏸️ Step 5: Holding response for approval:`, approval.reasons)
+        const processedAt = new Date().toISOString()
+
+        await emailStore.updateEmailStatus(emailId, 'awaiting-approval', {
+          response: content,
+          processedAt,
+          tokenUsage,
+          generatedBy,
+          route,
+          promptVersion,
+          processingTime: llmResponse.processingTime,
+          category: llmResponse.category,
+          deliveryStatus: 'pending',
+          error: '',
+          approval: { reasons: approval.reasons, requestedAt: processedAt, draftVersion: draft.version }
+        })
+
+        return {
+          emailId,
+          status: 'awaiting-approval',
+          response: content,
+          tokenUsage,
+          processingTime: llmResponse.processingTime,
+          processedAt,
+          emailSent: false
         }
-      } else {
-        console.log(`📧 Email service not configured - skipping email delivery`)
-        const config = emailService.getConfiguration()
-        console.log(`   Config:`, config)
       }
 
-      // Step 6: Store the response with delivery status
+      // Step 5: Queue the reply in the outbox
+      console.log(`📧 Step 5: Queueing email response...`)
+      await this.ensureLease(lease, leaseLost)
+      const queued = await this.queueDelivery(email, content)
+
+      // Step 6: Store the response - delivery status follows the outbox
       console.log(`\n💾 Step 6: Storing response and delivery status in KV...`)
-      console.log(`   - Response length to store: ${llmResponse.content.length}`)
-      console.log(`   - Email sent: ${emailSent}`)
-      console.log(`   - Delivery status: ${deliveryStatus}`)
+      console.log(`   - Response length to store: ${content.length}`)
+      console.log(`   - Queued for delivery: ${queued}`)
       
       await emailStore.updateEmailStatus(emailId, 'completed', {
-        response: llmResponse.content,
+        response: content,
         processedAt: new Date().toISOString(),
-        tokenUsage: llmResponse.tokenUsage,
+        tokenUsage,
+        generatedBy,
+        route,
+        promptVersion,
         processingTime: llmResponse.processingTime,
         category: llmResponse.category,
-        deliveryStatus: deliveryStatus,
-        deliveredAt: emailSent ? new Date().toISOString() : undefined,
-        error: deliveryError // Store delivery error if any
+        deliveryStatus: 'pending',
+        deliveryAttempts: 0
       })
 
       console.log(`✅ Response stored with status 'completed'`)
 
+      // First delivery attempt right away; failures stay queued for the dispatcher
+      const { emailSent, deliveryMessageId } = await this.deliver(emailId, queued)
+
       // Step 7: Verify the response was stored
       console.log(`\n🔍 Step 7: Verifying stored response...`)
       const verifyEmail = await emailStore.getEmail(emailId)
@@ -171,19 +354,21 @@ class EmailProcessor {
       console.log(`   - Response stored: ${!!verifyEmail?.response}`)
       console.log(`   - Email sent: ${emailSent}`)
       console.log(`   - Delivery ID: ${deliveryMessageId || 'N/A'}`)
-      console.log(`   - Tokens used: ${llmResponse.tokenUsage.total}`)
+      console.log(`   - Route: ${route.name} (${generatedBy.provider}/${generatedBy.model}, prompt ${promptVersion})`)
+      console.log(`   - Tokens used: ${tokenUsage.total}`)
       console.log(`   - Time: ${llmResponse.processingTime}ms`)
       console.log(`${'='.repeat(60)}\n`)
 
       return {
         emailId,
         status: 'completed',
-        response: llmResponse.content,
-        tokenUsage: llmResponse.tokenUsage,
+        response: content,
+        tokenUsage,
         processingTime: llmResponse.processingTime,
         processedAt: new Date().toISOString(),
         emailSent,
-        deliveryMessageId
+        deliveryMessageId,
+        provider: answeredBy
       }
       
     } catch (error) {
@@ -194,67 +379,137 @@ class EmailProcessor {
       console.error(`${'='.repeat(60)}\n`)
       
       const errorMessage = this.getErrorMessage(error)
-      const shouldRetry = this.shouldRetry(error as LLMError)
-      const status: ProcessingStatus = shouldRetry ? 'failed' : 'manual-review'
+
+      // Another worker owns the email now - its run records the outcome, so this one writes nothing
+      if (leaseLost.signal.aborted) {
+        console.warn(`⚠️ Abandoning ${emailId}: the lease was lost`)
+        return {
+          emailId,
+          status: 'processing',
+          error: errorMessage,
+          attempts: attempt,
+          processedAt: new Date().toISOString(),
+          emailSent: false
+        }
+      }
+
+      const errorCode: RetryErrorCode = (error as { code?: RetryErrorCode })?.code || 'unknown'
+      const retryAfterMs = (error as LLMError)?.retryAfter ? (error as LLMError).retryAfter! * 1000 : undefined
+      const failedProvider = (error as LLMError)?.provider || routedProvider
+
+      // The provider is throttling us - hold every worker off until it recovers
+      if (errorCode === 'rate_limit') {
+        await rateLimiter.pause(failedProvider, retryAfterMs || 60_000)
+      }
+
+      const decision = retryPolicy.decide(errorCode, attempt, retryAfterMs)
+      let status: ProcessingStatus
+      let nextRetryAt: string | undefined
+
+      if (decision.retry) {
+        // Back to pending with a delayed job - the worker picks it up when it is due
+        status = 'pending'
+        nextRetryAt = new Date(Date.now() + decision.delayMs).toISOString()
+        console.log(`🔁 Retry ${attempt}/${decision.maxAttempts} for ${emailId} (${errorCode}) at ${nextRetryAt}`)
+      } else {
+        status = errorCode === 'invalid_request' || errorCode === 'unresolved_location' ? 'manual-review' : 'failed'
+      }
       
+      // Nothing was queued for delivery yet, so deliveryStatus stays unset - the outbox owns it
       await emailStore.updateEmailStatus(emailId, status, {
         error: errorMessage,
         processedAt: new Date().toISOString(),
-        deliveryStatus: 'failed'
+        attempts: attempt,
+        nextRetryAt: nextRetryAt || ''
       })
 
+      if (decision.retry) {
+        await jobQueue.enqueue(emailId, Date.now() + decision.delayMs)
+      } else {
+        await deadLetterQueue.add({
+          emailId,
+          errorCode,
+          error: errorMessage,
+          attempts: attempt,
+          status: status === 'manual-review' ? 'manual-review' : 'failed',
+          deadAt: new Date().toISOString()
+        })
+      }
+
       return {
         emailId,
         status,
         error: errorMessage,
+        errorCode,
+        attempts: attempt,
+        nextRetryAt,
         processedAt: new Date().toISOString(),
-        emailSent: false
+        emailSent: false,
+        provider: failedProvider
       }
     }
   }
 
   /**
-   * Process multiple emails from the queue
+   * Worker pool: `maxConcurrent` slots drain the shared job queue until it is empty,
+   * the time budget runs out, or the provider's rate limit is reached.
+   * Safe to run on several instances at once - each job is claimed under a lease.
+   * An LLM selection applies to every email this run processes.
    */
-  async processQueue(): Promise<ProcessingResult[]> {
-    if (this.isProcessing) {
-      console.log('⏸️ Processing already in progress')
-      return []
-    }
-
-    this.isProcessing = true
+  async processQueue(llm?: LLMSelection): Promise<QueueRunResult> {
     const results: ProcessingResult[] = []
+    const deadline = Date.now() + this.maxWorkerDuration
+    // Set by whichever slot decides the run is over; the others finish their current email
+    const run: { stop: Omit<QueueRunResult, 'results'> | null } = { stop: null }
 
-    try {
-      const pendingIds = await emailStore.getPendingEmails()
-      console.log(`📬 Found ${pendingIds.length} pending emails`)
+    await jobQueue.recoverStale()
+    await jobQueue.enqueuePending()
+
+    const queueStats = await jobQueue.getStats()
+    console.log(`📬 Worker ${this.workerId} starting: ${queueStats.ready} jobs ready, ${this.maxConcurrent} slots`)
+
+    const runSlot = async () => {
+      while (!run.stop) {
+        if (Date.now() >= deadline) {
+          run.stop = { stoppedReason: 'time_budget' }
+          break
+        }
 
-      for (const emailId of pendingIds) {
-        if (this.currentlyProcessing.has(emailId)) {
+        const [lease] = await jobQueue.claim(this.workerId, 1)
+        if (!lease) break
+
+        // Stale job - the email was processed or reset since it was queued
+        const email = await emailStore.getEmail(lease.emailId)
+        if (email?.status !== 'pending') {
+          await jobQueue.release(lease)
           continue
         }
 
-        this.currentlyProcessing.add(emailId)
-        
-        try {
-          const result = await this.processEmail(emailId)
-          results.push(result)
-          await this.delay(1000)
-        } finally {
-          this.currentlyProcessing.delete(emailId)
+        // The routed provider's budget is checked inside, once the email has been extracted and routed
+        const result = await this.processEmail(lease.emailId, false, lease, llm)
+        results.push(result)
+
+        // Out of budget, or a provider returned 429 - the result names the provider, which may be a fallback
+        if (result.errorCode === 'rate_limit') {
+          const retryAfterMs = result.retryAfterMs ??
+            (await rateLimiter.check(result.provider || llmFactory.getProvider(llm), 0)).retryAfterMs
+          console.log(`🚦 Rate limit reached for ${result.provider}, stopping worker`)
+          run.stop = { stoppedReason: 'rate_limited', retryAfterMs }
         }
       }
-
-      return results
-    } finally {
-      this.isProcessing = false
     }
+
+    await Promise.all(Array.from({ length: this.maxConcurrent }, runSlot))
+
+    const outcome = run.stop || { stoppedReason: 'drained' as const }
+    console.log(`🏁 Worker ${this.workerId} finished: ${results.length} processed, ${outcome.stoppedReason}`)
+    return { results, ...outcome }
   }
 
   /**
    * Retry failed email processing
    */
-  async retryEmail(emailId: string): Promise<ProcessingResult> {
+  async retryEmail(emailId: string, llm?: LLMSelection): Promise<ProcessingResult> {
     console.log(`\n🔄 RETRYING EMAIL: ${emailId}`)
     
     const email = await emailStore.getEmail(emailId)
@@ -268,13 +523,271 @@ class EmailProcessor {
       throw new Error(`Cannot retry email with status: ${email.status}`)
     }
 
+    // A manual retry starts a fresh attempt budget
     await emailStore.updateEmailStatus(emailId, 'pending', {
       error: undefined,
       deliveryStatus: undefined,
-      deliveredAt: undefined
+      deliveredAt: undefined,
+      attempts: 0,
+      nextRetryAt: ''
     })
+    await deadLetterQueue.remove([emailId])
 
-    return this.processEmail(emailId)
+    return this.processEmail(emailId, false, undefined, llm)
+  }
+
+  /**
+   * Send the held draft - the latest draft version, which may be an edit or a restore
+   */
+  async approveEmail(emailId: string, review: ReviewInput = {}): Promise<ProcessingResult> {
+    return this.withReview(emailId, 'approve', async (email) => {
+      const draft = await this.ensureDraftHistory(email)
+      return this.sendReviewed(email, email.response || '', review, await this.isEdited(emailId, draft), draft?.version)
+    })
+  }
+
+  /**
+   * Send a reviewer-edited version of the held draft
+   */
+  async editAndSendEmail(emailId: string, content: string, review: ReviewInput = {}): Promise<ProcessingResult> {
+    return this.withReview(emailId, 'edit', async (email) => {
+      let draft = await this.ensureDraftHistory(email)
+      if (content !== email.response) {
+        draft = await draftHistory.add(emailId, { content, source: 'edit', author: review.reviewer || 'reviewer' })
+      }
+      return this.sendReviewed(email, content, review, await this.isEdited(emailId, draft), draft?.version)
+    })
+  }
+
+  /**
+   * Save an edited draft as a new version without sending it
+   */
+  async saveDraft(emailId: string, content: string, review: ReviewInput = {}): Promise<DraftVersion> {
+    return this.withReview(emailId, 'edit', async (email) => {
+      await this.ensureDraftHistory(email)
+      const draft = await draftHistory.add(emailId, { content, source: 'edit', author: review.reviewer || 'reviewer' })
+      await emailStore.updateEmailStatus(emailId, 'awaiting-approval', { response: content })
+      return draft
+    })
+  }
+
+  /**
+   * Make an older version the one to send again. The restore is appended as a
+   * new version so the history stays linear.
+   */
+  async restoreDraft(emailId: string, version: number, review: ReviewInput = {}): Promise<DraftVersion> {
+    return this.withReview(emailId, 'restore', async (email) => {
+      await this.ensureDraftHistory(email)
+      const original = await draftHistory.get(emailId, version)
+      if (!original) {
+        throw new Error(`Draft version ${version} not found`)
+      }
+
+      const draft = await draftHistory.add(emailId, {
+        content: original.content,
+        source: 'restore',
+        author: review.reviewer || 'reviewer',
+        model: original.model,
+        restoredFrom: original.version
+      })
+      await emailStore.updateEmailStatus(emailId, 'awaiting-approval', { response: original.content })
+      return draft
+    })
+  }
+
+  /**
+   * Discard the held draft - the email moves to manual review and nothing is sent
+   */
+  async rejectEmail(emailId: string, review: ReviewInput = {}): Promise<ProcessingResult> {
+    return this.withReview(emailId, 'reject', async (email) => {
+      const decidedAt = new Date().toISOString()
+      const error = review.note ? `Rejected: ${review.note}` : 'Rejected by reviewer'
+
+      await emailStore.updateEmailStatus(emailId, 'manual-review', {
+        error,
+        deliveryStatus: undefined,
+        approval: {
+          ...email.approval!,
+          decision: 'rejected',
+          decidedBy: review.reviewer,
+          decidedAt,
+          note: review.note
+        }
+      })
+      console.log(`🚫 Draft for ${emailId} rejected${review.reviewer ? ` by ${review.reviewer}` : ''}`)
+
+      return {
+        emailId,
+        status: 'manual-review',
+        error,
+        processedAt: email.processedAt || decidedAt,
+        emailSent: false
+      }
+    })
+  }
+
+  // Review actions run under the job lease so a decision cannot race a rerun or another reviewer
+  private async withReview<T>(
+    emailId: string,
+    action: 'approve' | 'edit' | 'reject' | 'restore',
+    fn: (email: ProcessedEmail) => Promise<T>
+  ): Promise<T> {
+    const lease = await jobQueue.acquire(emailId, this.workerId)
+    if (!lease) {
+      throw new Error(`Email ${emailId} is already being processed`)
+    }
+
+    try {
+      const email = await emailStore.getEmail(emailId)
+      if (!email) {
+        throw new Error('Email not found')
+      }
+      if (email.status !== 'awaiting-approval') {
+        throw new Error(`Cannot ${action} email with status: ${email.status}`)
+      }
+      return await fn(email)
+    } finally {
+      await jobQueue.release(lease)
+    }
+  }
+
+  private async sendReviewed(
+    email: ProcessedEmail,
+    content: string,
+    review: ReviewInput,
+    edited: boolean,
+    draftVersion?: number
+  ): Promise<ProcessingResult> {
+    console.log(`✅ Draft for ${email.id} approved${review.reviewer ? ` by ${review.reviewer}` : ''}${edited ? ' (edited)' : ''}`)
+    const queued = await this.queueDelivery(email, content)
+    const decidedAt = new Date().toISOString()
+
+    await emailStore.updateEmailStatus(email.id, 'completed', {
+      response: content,
+      deliveryStatus: 'pending',
+      deliveryAttempts: 0,
+      error: '',
+      approval: {
+        ...email.approval!,
+        decision: 'approved',
+        decidedBy: review.reviewer,
+        decidedAt,
+        note: review.note,
+        edited,
+        draftVersion
+      }
+    })
+
+    const { emailSent, deliveryMessageId } = await this.deliver(email.id, queued)
+
+    return {
+      emailId: email.id,
+      status: 'completed',
+      response: content,
+      tokenUsage: email.tokenUsage,
+      processingTime: email.processingTime,
+      processedAt: email.processedAt || decidedAt,
+      emailSent,
+      deliveryMessageId
+    }
+  }
+
+  // Emails generated before draft history existed get their stored response as version 1
+  private async ensureDraftHistory(email: ProcessedEmail): Promise<DraftVersion | null> {
+    const latest = await draftHistory.latest(email.id)
+    if (latest || !email.response) return latest
+
+    return draftHistory.add(email.id, {
+      content: email.response,
+      source: 'llm',
+      author: LLM_AUTHOR,
+      createdAt: email.processedAt
+    })
+  }
+
+  // Does this version carry a human edit? Restores are followed back to their source.
+  private async isEdited(emailId: string, draft: DraftVersion | null): Promise<boolean> {
+    let current = draft
+    while (current?.source === 'restore' && current.restoredFrom) {
+      current = await draftHistory.get(emailId, current.restoredFrom)
+    }
+    return current?.source === 'edit'
+  }
+
+  // Put the final reply in the outbox before the email is marked completed, so a crash in between
+  // leaves a queued entry rather than a lost reply. Reviewer edits may have dropped the quote reference.
+  private async queueDelivery(email: ProcessedEmail, content: string): Promise<boolean> {
+    if (!emailService.isConfigured()) {
+      console.log(`📧 Email service not configured - skipping email delivery`)
+      const config = emailService.getConfiguration()
+      console.log(`   Config:`, config)
+      return false
+    }
+
+    const quote = email.quoteId ? await quoteService.get(email.quoteId) : null
+    await outbox.enqueue(email.id, quote ? quoteService.stampContent(quote, content) : content)
+    return true
+  }
+
+  // Heartbeat now rather than trusting the last beat, which may be a third of a lease old
+  /**
+   * The routed provider has no budget for this reply: hand the job back for when it refills.
+   * Nothing was called, so the attempt does not count.
+   */
+  private async deferForBudget(
+    email: ProcessedEmail,
+    attempts: number,
+    provider: LLMProviderName,
+    permit: RateLimitCheck,
+    lease: JobLease,
+    leaseLost: AbortController
+  ): Promise<ProcessingResult> {
+    await this.ensureLease(lease, leaseLost)
+
+    const nextRetryAt = new Date(Date.now() + permit.retryAfterMs).toISOString()
+    await emailStore.updateEmailStatus(email.id, 'pending', { attempts, nextRetryAt })
+    await jobQueue.enqueue(email.id, Date.now() + permit.retryAfterMs)
+    console.log(`🚦 Rate limit (${permit.reason}) reached for ${provider}: ${email.id} deferred until ${nextRetryAt}`)
+
+    return {
+      emailId: email.id,
+      status: 'pending',
+      error: `Rate limit (${permit.reason}) reached for ${provider}`,
+      errorCode: 'rate_limit',
+      attempts,
+      nextRetryAt,
+      processedAt: new Date().toISOString(),
+      emailSent: false,
+      provider,
+      retryAfterMs: permit.retryAfterMs
+    }
+  }
+
+  private async ensureLease(lease: JobLease, leaseLost: AbortController): Promise<void> {
+    if (!leaseLost.signal.aborted && await jobQueue.heartbeat(lease)) return
+
+    leaseLost.abort()
+    throw new Error(`Lost the lease on email ${lease.emailId} - another worker may be processing it`)
+  }
+
+  // Try the queued reply now; delivery problems are recorded by the dispatcher, never thrown
+  private async deliver(emailId: string, queued: boolean): Promise<DeliveryOutcome> {
+    if (!queued) {
+      return { emailSent: false, deliveryStatus: 'pending' }
+    }
+
+    const result = await outboxDispatcher.deliver(emailId)
+    if (result?.sent) {
+      console.log(`✅ Email sent successfully!`)
+      console.log(`   Message ID: ${result.providerMessageId}`)
+      return { emailSent: true, deliveryMessageId: result.providerMessageId, deliveryStatus: 'sent' }
+    }
+
+    if (result?.error) {
+      console.warn(`⚠️ Email send failed: ${result.error}${result.nextAttemptAt ? ` - retry queued for ${result.nextAttemptAt}` : ''}`)
+    }
+    // Don't fail the entire processing if email sending fails
+    return { emailSent: false, deliveryStatus: result?.status === 'failed' ? 'failed' : 'pending' }
   }
 
   async getStatus(emailId: string): Promise<ProcessingStatus | null> {
@@ -283,12 +796,6 @@ class EmailProcessor {
     return email.status
   }
 
-  private shouldRetry(error: LLMError): boolean {
-    if (!error?.code) return true
-    const nonRetryableCodes = ['invalid_request']
-    return !nonRetryableCodes.includes(error.code)
-  }
-
   private getErrorMessage(error: any): string {
     if (typeof error === 'string') return error
     if (error?.message) return error.message
@@ -296,10 +803,6 @@ class EmailProcessor {
     return 'Unknown error occurred'
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
-  }
-
   async getQueueStats(): Promise<{
     pending: number
     processing: number
@@ -327,32 +830,42 @@ class EmailProcessor {
     completion: number
     total: number
     estimatedCost: number
+    byRoute: Record<string, RouteUsage>
   }> {
     const allEmails = await emailStore.getAllEmails()
     
     let totalPrompt = 0
     let totalCompletion = 0
+    let estimatedCost = 0
+    const byRoute: Record<string, RouteUsage> = {}
     
     for (const email of allEmails) {
       if (email.tokenUsage) {
         totalPrompt += email.tokenUsage.prompt || 0
         totalCompletion += email.tokenUsage.completion || 0
+        // Priced on the model that wrote the reply; older emails predate the record and use the default
+        const cost = llmFactory.calculateCost(email.tokenUsage, email.generatedBy)
+        estimatedCost += cost
+
+        // Emails processed before routing existed are grouped as 'unrouted'
+        const routeName = email.route?.name || 'unrouted'
+        const usage = byRoute[routeName] || { emails: 0, tokens: 0, estimatedCost: 0, costPerEmail: 0 }
+        byRoute[routeName] = usage
+        usage.emails++
+        usage.tokens += email.tokenUsage.total || 0
+        usage.estimatedCost += cost
+        usage.costPerEmail = usage.estimatedCost / usage.emails
       }
     }
     
     const total = totalPrompt + totalCompletion
-    const llmService = llmFactory.getService()
-    const estimatedCost = llmService.calculateCost({ 
-      prompt: totalPrompt, 
-      completion: totalCompletion, 
-      total 
-    })
     
     return {
       prompt: totalPrompt,
       completion: totalCompletion,
       total,
-      estimatedCost
+      estimatedCost,
+      byRoute
     }
   }
 
@@ -0,0 +1,66 @@
+// /lib/services/email/resend-transport.ts
+// Mail transport over the Resend API
+// Resend builds the MIME itself; our headers and tags are passed through as-is
+
+import { Resend } from 'resend'
+import type { MailErrorCode, MailMessage, MailSendResult, MailTransport } from './mail-transport'
+
+// Resend error names that no retry can fix
+const REJECTED_ERRORS = new Set([
+  'missing_required_field',
+  'invalid_parameter',
+  'invalid_access',
+  'invalid_from_address',
+  'validation_error',
+  'missing_api_key',
+  'invalid_api_Key'
+])
+
+export class ResendTransport implements MailTransport {
+  readonly name = 'resend' as const
+  private client: Resend | null = null
+
+  constructor(private apiKey: string | undefined = process.env.RESEND_API_KEY) {
+    if (apiKey) {
+      this.client = new Resend(apiKey)
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.client
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    if (!this.client) {
+      return { success: false, error: 'Resend client not initialized' }
+    }
+
+    try {
+      const result = await this.client.emails.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+        tags: message.tags
+      })
+
+      if (result.error) {
+        return { success: false, error: result.error.message, errorCode: this.toErrorCode(result.error.name) }
+      }
+      return { success: true, messageId: result.data?.id }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error', errorCode: 'delivery_error' }
+    }
+  }
+
+  describe(): Record<string, unknown> {
+    return { hasApiKey: !!this.apiKey }
+  }
+
+  private toErrorCode(name: string): MailErrorCode {
+    if (name === 'rate_limit_exceeded') return 'delivery_rate_limit'
+    return REJECTED_ERRORS.has(name) ? 'delivery_rejected' : 'delivery_error'
+  }
+}
@@ -0,0 +1,90 @@
+// /lib/services/email/retry-policy.ts
+// Per-error-code retry policies with capped exponential backoff and jitter
+// Decides whether a failed attempt is rescheduled or gives up for good
+
+import type { LLMError } from '../llm/llm-service'
+import type { UnresolvedLocationError } from '../freight/lane-distance'
+import type { MailErrorCode } from './mail-transport'
+
+export type RetryErrorCode = LLMError['code'] | UnresolvedLocationError['code'] | MailErrorCode | 'unknown'
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export type RetryDecision =
+  | { retry: true; delayMs: number; attempt: number; maxAttempts: number }
+  | { retry: false; attempt: number; maxAttempts: number }
+
+const DEFAULT_POLICIES: Record<RetryErrorCode, RetryPolicy> = {
+  rate_limit: { maxAttempts: 6, baseDelayMs: 30_000, maxDelayMs: 10 * 60_000 },
+  timeout: { maxAttempts: 4, baseDelayMs: 5_000, maxDelayMs: 2 * 60_000 },
+  api_error: { maxAttempts: 4, baseDelayMs: 10_000, maxDelayMs: 5 * 60_000 },
+  empty_response: { maxAttempts: 2, baseDelayMs: 5_000, maxDelayMs: 60_000 },
+  invalid_request: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  unresolved_location: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  // Outbox delivery (lib/services/email/outbox-dispatcher.ts)
+  delivery_rate_limit: { maxAttempts: 8, baseDelayMs: 30_000, maxDelayMs: 10 * 60_000 },
+  delivery_error: { maxAttempts: 5, baseDelayMs: 60_000, maxDelayMs: 30 * 60_000 },
+  delivery_rejected: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  unknown: { maxAttempts: 3, baseDelayMs: 10_000, maxDelayMs: 5 * 60_000 }
+}
+
+class RetryPolicyEngine {
+  private policies: Record<RetryErrorCode, RetryPolicy>
+
+  constructor() {
+    this.policies = { ...DEFAULT_POLICIES }
+
+    // RETRY_POLICIES='{"timeout":{"maxAttempts":6}}' overrides individual fields per code
+    if (process.env.RETRY_POLICIES) {
+      try {
+        const overrides = JSON.parse(process.env.RETRY_POLICIES) as Partial<Record<RetryErrorCode, Partial<RetryPolicy>>>
+        for (const [code, override] of Object.entries(overrides)) {
+          if (code in this.policies) {
+            this.policies[code as RetryErrorCode] = { ...this.policies[code as RetryErrorCode], ...override }
+          }
+        }
+      } catch (error) {
+        console.warn('⚠️ Invalid RETRY_POLICIES, using defaults:', error)
+      }
+    }
+  }
+
+  getPolicy(code: RetryErrorCode): RetryPolicy {
+    return this.policies[code] || this.policies.unknown
+  }
+
+  getPolicies(): Record<RetryErrorCode, RetryPolicy> {
+    return { ...this.policies }
+  }
+
+  /**
+   * Decide what happens after a failed attempt (1-based).
+   * A provider-supplied retryAfter is a floor for the delay.
+   */
+  decide(code: RetryErrorCode, attempt: number, retryAfterMs?: number): RetryDecision {
+    const policy = this.getPolicy(code)
+
+    if (attempt >= policy.maxAttempts) {
+      return { retry: false, attempt, maxAttempts: policy.maxAttempts }
+    }
+
+    const delayMs = Math.max(this.backoff(policy, attempt), retryAfterMs || 0)
+    return { retry: true, delayMs, attempt, maxAttempts: policy.maxAttempts }
+  }
+
+  /**
+   * Capped exponential backoff with "equal jitter": half fixed, half random,
+   * so retries spread out but never fire immediately
+   */
+  private backoff(policy: RetryPolicy, attempt: number): number {
+    const capped = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1))
+    return Math.round(capped / 2 + Math.random() * (capped / 2))
+  }
+}
+
+// Export singleton instance
+export const retryPolicy = new RetryPolicyEngine()
@@ -0,0 +1,283 @@
+// /lib/services/email/smtp-transport.ts
+// Mail transport over plain SMTP - any relay, or a local sink (Mailpit, MailHog) in development
+// Minimal client: EHLO, STARTTLS when offered, AUTH PLAIN/LOGIN, one message per connection
+
+import net from 'net'
+import tls from 'tls'
+import { hostname } from 'os'
+import {
+  buildMimeMessage,
+  extractAddress,
+  type MailErrorCode,
+  type MailMessage,
+  type MailSendResult,
+  type MailTransport
+} from './mail-transport'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean               // TLS from the first byte (port 465)
+  ignoreTls: boolean            // Never upgrade with STARTTLS - for local sinks with no certificate
+  rejectUnauthorized: boolean
+  user?: string
+  pass?: string
+  timeoutMs: number
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]               // Text after the code on each line
+}
+
+// Thrown for an unexpected reply; the code decides whether a retry can help
+type SmtpReplyError = Error & { smtpCode: number }
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp' as const
+  private options: SmtpOptions
+
+  constructor(options: Partial<SmtpOptions> = {}) {
+    const port = parseInt(process.env.SMTP_PORT || '587')
+    this.options = {
+      host: process.env.SMTP_HOST || '',
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      ignoreTls: process.env.SMTP_IGNORE_TLS === 'true',
+      rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+      user: process.env.SMTP_USER || undefined,
+      pass: process.env.SMTP_PASS || undefined,
+      timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '15000'),
+      ...options
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.host
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    if (!this.isConfigured()) {
+      return { success: false, error: 'SMTP_HOST not configured' }
+    }
+
+    let session: SmtpSession | null = null
+    try {
+      session = await SmtpSession.connect(this.options)
+      const queued = await this.transact(session, message)
+      return { success: true, messageId: queued }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: toErrorCode((error as Partial<SmtpReplyError>)?.smtpCode)
+      }
+    } finally {
+      session?.close()
+    }
+  }
+
+  describe(): Record<string, unknown> {
+    return {
+      host: this.options.host,
+      port: this.options.port,
+      secure: this.options.secure,
+      auth: !!this.options.user
+    }
+  }
+
+  // Greeting through QUIT; returns the server's queue id when it reports one
+  private async transact(session: SmtpSession, message: MailMessage): Promise<string | undefined> {
+    await session.expect(await session.read(), [220])
+
+    const clientName = hostname() || 'localhost'
+    let ehlo = await session.command(`EHLO ${clientName}`, [250])
+
+    if (!this.options.secure && !this.options.ignoreTls && hasExtension(ehlo, 'STARTTLS')) {
+      await session.command('STARTTLS', [220])
+      await session.upgrade(this.options)
+      ehlo = await session.command(`EHLO ${clientName}`, [250])
+    }
+
+    if (this.options.user) {
+      await this.authenticate(session, ehlo)
+    }
+
+    await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250])
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251])
+    }
+
+    await session.command('DATA', [354])
+    const accepted = await session.command(`${dotStuff(buildMimeMessage(message))}.`, [250])
+    await session.command('QUIT', [221]).catch(() => undefined)
+
+    const text = accepted.lines.join(' ')
+    return text.match(/queued as (\S+)/i)?.[1] || text || undefined
+  }
+
+  private async authenticate(session: SmtpSession, ehlo: SmtpReply): Promise<void> {
+    const user = this.options.user!
+    const pass = this.options.pass || ''
+    const mechanisms = ehlo.lines.find(line => /^AUTH[ =]/i.test(line))?.slice(5).toUpperCase().split(/\s+/) || []
+
+    if (mechanisms.includes('LOGIN') && !mechanisms.includes('PLAIN')) {
+      await session.command('AUTH LOGIN', [334])
+      await session.command(base64(user), [334])
+      await session.command(base64(pass), [235])
+      return
+    }
+    await session.command(`AUTH PLAIN ${base64(`\0${user}\0${pass}`)}`, [235])
+  }
+}
+
+/**
+ * One SMTP connection. Replies are buffered as they arrive and handed out in order.
+ */
+class SmtpSession {
+  private buffer = ''
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf-8')
+    this.deliver()
+  }
+  private onError = (error: Error) => this.fail(error)
+  private onClose = () => this.fail(new Error('SMTP connection closed'))
+
+  private constructor(private socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  static connect(options: SmtpOptions): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host, rejectUnauthorized: options.rejectUnauthorized })
+        : net.connect({ host: options.host, port: options.port })
+
+      socket.setTimeout(options.timeoutMs, () => socket.destroy(new Error(`SMTP timeout after ${options.timeoutMs}ms`)))
+      socket.once('error', reject)
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject)
+        resolve(new SmtpSession(socket))
+      })
+    })
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.takeReply()
+    if (reply) return Promise.resolve(reply)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject }
+    })
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(await this.read(), expected)
+  }
+
+  async expect(reply: SmtpReply, expected: number[]): Promise<SmtpReply> {
+    if (!expected.includes(reply.code)) {
+      throw Object.assign(new Error(`SMTP ${reply.code}: ${reply.lines.join(' ')}`), { smtpCode: reply.code })
+    }
+    return reply
+  }
+
+  /**
+   * Swap the plain socket for TLS after the server accepted STARTTLS
+   */
+  upgrade(options: SmtpOptions): Promise<void> {
+    this.detach(this.socket)
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({
+        socket: this.socket,
+        servername: options.host,
+        rejectUnauthorized: options.rejectUnauthorized
+      })
+      secure.once('error', reject)
+      secure.once('secureConnect', () => {
+        secure.off('error', reject)
+        secure.setTimeout(options.timeoutMs, () => secure.destroy(new Error(`SMTP timeout after ${options.timeoutMs}ms`)))
+        this.socket = secure
+        this.attach(secure)
+        resolve()
+      })
+    })
+  }
+
+  close(): void {
+    this.detach(this.socket)
+    this.socket.destroy()
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.on('data', this.onData)
+    socket.on('error', this.onError)
+    socket.on('close', this.onClose)
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.off('data', this.onData)
+    socket.off('error', this.onError)
+    socket.off('close', this.onClose)
+  }
+
+  private deliver(): void {
+    if (!this.pending) return
+    const reply = this.takeReply()
+    if (!reply) return
+    const { resolve } = this.pending
+    this.pending = null
+    resolve(reply)
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error
+    if (!this.pending) return
+    const { reject } = this.pending
+    this.pending = null
+    reject(this.failure)
+  }
+
+  // A reply is complete at the line whose code is followed by a space rather than "-"
+  private takeReply(): SmtpReply | null {
+    const lines: string[] = []
+    let offset = 0
+
+    while (true) {
+      const end = this.buffer.indexOf('\r\n', offset)
+      if (end < 0) return null
+      const line = this.buffer.slice(offset, end)
+      offset = end + 2
+      lines.push(line)
+
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.buffer = this.buffer.slice(offset)
+        return { code: parseInt(line.slice(0, 3)), lines: lines.map(l => l.slice(4)) }
+      }
+    }
+  }
+}
+
+// 5xx is a permanent refusal; 421 and 450-452 are the server asking us to slow down or come back
+function toErrorCode(smtpCode: number | undefined): MailErrorCode {
+  if (smtpCode === undefined) return 'delivery_error'
+  if (smtpCode >= 500) return 'delivery_rejected'
+  return smtpCode === 421 || smtpCode === 450 || smtpCode === 451 || smtpCode === 452 ? 'delivery_rate_limit' : 'delivery_error'
+}
+
+function hasExtension(ehlo: SmtpReply, extension: string): boolean {
+  return ehlo.lines.some(line => line.toUpperCase().split(/\s+/)[0] === extension)
+}
+
+// Lines starting with "." get a second one so they are not read as the end of DATA
+function dotStuff(content: string): string {
+  const normalized = content.endsWith('\r\n') ? content : `${content}\r\n`
+  return normalized.replace(/^\./, '..').replace(/\r\n\./g, '\r\n..')
+}
+
+function base64(value: string): string {
+  return Buffer.from(value, 'utf-8').toString('base64')
+}
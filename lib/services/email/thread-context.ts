@@ -0,0 +1,174 @@
+// /lib/services/email/thread-context.ts
+// Earlier turns of an email's thread for the reply prompt - what the shipper wrote and what we sent back
+// Recent turns go in verbatim under a token budget; older ones are condensed to one line each
+
+import { format } from 'date-fns'
+import { emailStore, type ProcessedEmail } from '@/lib/kv-client'
+
+export interface ConversationTurn {
+  role: 'inbound' | 'outbound'   // inbound: the shipper's email; outbound: the reply we sent
+  emailId: string
+  from: string
+  at: string
+  content: string
+}
+
+export interface ThreadContext {
+  threadId: string
+  turns: ConversationTurn[]      // Verbatim, oldest first
+  summary: string | null         // Condensed turns that did not fit the budget
+  summarizedTurns: number
+  estimatedTokens: number
+}
+
+// Share of the budget kept back for the summary of older turns
+const SUMMARY_SHARE = 0.25
+
+const SUMMARY_LINE_CHARS = 200
+
+class ThreadContextBuilder {
+  private enabled: boolean
+  private maxTokens: number
+
+  constructor() {
+    this.enabled = process.env.THREAD_CONTEXT !== 'false'
+    this.maxTokens = parseInt(process.env.THREAD_CONTEXT_MAX_TOKENS || '2000')
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  getMaxTokens(): number {
+    return this.maxTokens
+  }
+
+  /**
+   * Prior turns for an email - null when it starts its thread
+   */
+  async build(email: ProcessedEmail): Promise<ThreadContext | null> {
+    if (!email.threadId) return null
+
+    const thread = await emailStore.getThread(email.threadId)
+    const turns = thread ? this.toTurns(thread.emails, email) : []
+    if (turns.length === 0) return null
+
+    return this.fitBudget(email.threadId, turns)
+  }
+
+  // Everything received before this email, each inbound message followed by the reply we sent for it
+  private toTurns(emails: ProcessedEmail[], current: ProcessedEmail): ConversationTurn[] {
+    const cutoff = new Date(current.receivedAt).getTime()
+    const turns: ConversationTurn[] = []
+
+    for (const email of emails) {
+      if (email.id === current.id || new Date(email.receivedAt).getTime() > cutoff) continue
+
+      turns.push({
+        role: 'inbound',
+        emailId: email.id,
+        from: email.from,
+        at: email.receivedAt,
+        content: stripQuotedText(email.body || email.snippet)
+      })
+
+      // Drafts that were never sent are not part of the conversation
+      if (email.response && email.deliveryStatus === 'sent') {
+        turns.push({
+          role: 'outbound',
+          emailId: email.id,
+          from: 'Fred',
+          at: email.deliveredAt || email.processedAt || email.receivedAt,
+          content: email.response
+        })
+      }
+    }
+
+    return turns
+  }
+
+  // Newest turns stay verbatim while they fit; the rest are summarized within the summary share
+  private fitBudget(threadId: string, turns: ConversationTurn[]): ThreadContext {
+    const summaryBudget = Math.floor(this.maxTokens * SUMMARY_SHARE)
+    let remaining = this.maxTokens - summaryBudget
+    let split = turns.length
+
+    while (split > 0 && estimateTokens(turns[split - 1].content) <= remaining) {
+      remaining -= estimateTokens(turns[split - 1].content)
+      split--
+    }
+
+    const verbatim = turns.slice(split)
+    // The latest turn always makes it in, cut down if it alone is over budget
+    if (verbatim.length === 0) {
+      const latest = turns[turns.length - 1]
+      verbatim.push({ ...latest, content: `${latest.content.slice(0, remaining * 4).trimEnd()} [...]` })
+      remaining = 0
+      split--
+    }
+
+    const older = turns.slice(0, split)
+    const summary = older.length > 0 ? this.summarize(older, summaryBudget) : null
+
+    return {
+      threadId,
+      turns: verbatim,
+      summary,
+      summarizedTurns: older.length,
+      estimatedTokens: this.maxTokens - summaryBudget - remaining + (summary ? estimateTokens(summary) : 0)
+    }
+  }
+
+  // One line per turn, newest kept first when even the summary is over budget
+  private summarize(turns: ConversationTurn[], budget: number): string {
+    const lines: string[] = []
+    let used = 0
+
+    for (let i = turns.length - 1; i >= 0; i--) {
+      const turn = turns[i]
+      const who = turn.role === 'inbound' ? turn.from : 'We replied'
+      const line = `- ${format(new Date(turn.at), 'MMM d')}, ${who}: ${condense(turn.content)}`
+      if (used + estimateTokens(line) > budget) break
+      lines.unshift(line)
+      used += estimateTokens(line)
+    }
+
+    const omitted = turns.length - lines.length
+    return [
+      ...(omitted > 0 ? [`- (${omitted} earlier message${omitted === 1 ? '' : 's'} omitted)`] : []),
+      ...lines
+    ].join('\n')
+  }
+}
+
+/**
+ * Drop the quoted history a mail client appends below a reply - it is already in the earlier turns
+ */
+export function stripQuotedText(body: string): string {
+  const lines = body.split(/\r?\n/)
+  const kept: string[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    // "On Mon, Oct 12, 2026 at 9:14 AM Fred <fred@…> wrote:" - clients sometimes wrap it onto two lines
+    if (/^On .+wrote:$/.test(line) || (/^On /.test(line) && /wrote:$/.test(lines[i + 1]?.trim() ?? ''))) break
+    if (/^-{2,}\s*Original Message\s*-{2,}$/i.test(line)) break
+    if (line.startsWith('>')) continue
+    kept.push(lines[i])
+  }
+
+  return kept.join('\n').trim()
+}
+
+// Same characters-per-token heuristic the rate limiter uses
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function condense(text: string): string {
+  const flat = text.replace(/[*_#>|`]/g, '').replace(/\s+/g, ' ').trim()
+  return flat.length > SUMMARY_LINE_CHARS ? `${flat.slice(0, SUMMARY_LINE_CHARS - 1).trimEnd()}…` : flat
+}
+
+// Export singleton instance
+export const threadContext = new ThreadContextBuilder()
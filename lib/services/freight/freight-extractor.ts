@@ -0,0 +1,56 @@
+// /lib/services/freight/freight-extractor.ts
+// Extraction stage that runs before reply generation
+// Asks the LLM for schema-constrained JSON and validates it into a FreightExtraction
+
+import type { ProcessedEmail } from '@/lib/kv-client'
+import { llmFactory, type LLMProviderName, type LLMSelection } from '../llm/llm-factory'
+import type { LLMExtractionResponse } from '../llm/llm-service'
+import { validateFreightRequest, getMissingQuoteFields, type FreightExtraction } from './freight-request'
+
+export interface ExtractionResult {
+  extraction: FreightExtraction
+  tokenUsage: LLMExtractionResponse['tokenUsage']
+  provider?: LLMProviderName    // Who answered - a fallback when the selected model failed
+}
+
+class FreightExtractor {
+  private enabled: boolean
+
+  constructor() {
+    this.enabled = process.env.FREIGHT_EXTRACTION !== 'false'
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /**
+   * Run the extraction call. LLM errors propagate so the processor's retry policy
+   * applies; output that fails validation is kept with its issues listed.
+   */
+  async extract(email: ProcessedEmail, llm?: LLMSelection): Promise<ExtractionResult> {
+    const response = await llmFactory.getService(llm).extractFreightRequest(email)
+    const { isFreightRequest, request, issues } = validateFreightRequest(response.data)
+
+    const extraction: FreightExtraction = {
+      isFreightRequest,
+      request,
+      missingFields: isFreightRequest ? getMissingQuoteFields(request) : [],
+      issues,
+      model: response.model,
+      extractedAt: new Date().toISOString()
+    }
+
+    console.log(`🔎 Extraction for ${email.id}:`, {
+      isFreightRequest,
+      missingFields: extraction.missingFields,
+      issues: issues.length,
+      tokens: response.tokenUsage.total
+    })
+
+    return { extraction, tokenUsage: response.tokenUsage, provider: response.provider }
+  }
+}
+
+// Export singleton instance
+export const freightExtractor = new FreightExtractor()
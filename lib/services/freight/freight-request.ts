@@ -0,0 +1,243 @@
+// /lib/services/freight/freight-request.ts
+// Typed freight request extracted from a shipper email, plus its validation
+// The LLM returns snake_case JSON under a strict schema; this module turns it into a checked FreightRequest
+
+export const EQUIPMENT_TYPES = [
+  'dry_van', 'reefer', 'flatbed', 'step_deck', 'lowboy', 'conestoga',
+  'power_only', 'box_truck', 'hotshot', 'tanker', 'intermodal', 'other'
+] as const
+
+export const ACCESSORIALS = [
+  'liftgate', 'residential', 'inside_delivery', 'appointment', 'limited_access',
+  'driver_assist', 'team', 'tarps', 'pallet_jack', 'detention', 'lumper', 'other'
+] as const
+
+export type EquipmentType = typeof EQUIPMENT_TYPES[number]
+export type Accessorial = typeof ACCESSORIALS[number]
+
+export interface FreightLocation {
+  city: string | null
+  state: string | null   // Two-letter state / province code
+  zip: string | null     // Five-digit ZIP or Canadian postal code
+}
+
+export interface TimeWindow {
+  earliest: string | null   // ISO date or date-time
+  latest: string | null
+}
+
+export interface FreightRequest {
+  origin: FreightLocation
+  destination: FreightLocation
+  pickupWindow: TimeWindow
+  deliveryWindow: TimeWindow
+  equipmentType: EquipmentType | null
+  weightLbs: number | null
+  commodity: string | null
+  pieceCount: number | null
+  hazmat: boolean
+  accessorials: Accessorial[]
+}
+
+// Fields pricing cannot do without
+export type QuoteField = 'origin' | 'destination' | 'pickupDate' | 'equipmentType' | 'weightLbs'
+
+export const QUOTE_FIELD_LABELS: Record<QuoteField, string> = {
+  origin: 'pickup location',
+  destination: 'delivery location',
+  pickupDate: 'pickup date',
+  equipmentType: 'equipment type',
+  weightLbs: 'weight'
+}
+
+/**
+ * Stored on the email next to the reply
+ */
+export interface FreightExtraction {
+  isFreightRequest: boolean
+  request: FreightRequest
+  missingFields: QuoteField[]
+  issues: string[]        // Values the model returned that failed validation and were dropped
+  model: string
+  extractedAt: string
+}
+
+export interface FreightValidationResult {
+  isFreightRequest: boolean
+  request: FreightRequest
+  issues: string[]
+}
+
+const STATE_PATTERN = /^[A-Z]{2}$/
+const ZIP_PATTERN = /^(\d{5})(?:-\d{4})?$/
+const POSTAL_CODE_PATTERN = /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Check raw model output against the schema and normalize it. Never throws -
+ * a value that fails validation becomes null (or is dropped) and is reported in `issues`.
+ */
+export function validateFreightRequest(raw: unknown): FreightValidationResult {
+  const issues: string[] = []
+  const data = isObject(raw) ? raw : {}
+  if (!isObject(raw)) issues.push('Extraction output is not an object')
+
+  const request: FreightRequest = {
+    origin: validateLocation(data.origin, 'origin', issues),
+    destination: validateLocation(data.destination, 'destination', issues),
+    pickupWindow: validateWindow(data.pickup_window, 'pickup_window', issues),
+    deliveryWindow: validateWindow(data.delivery_window, 'delivery_window', issues),
+    equipmentType: validateEnum(data.equipment_type, EQUIPMENT_TYPES, 'equipment_type', issues),
+    weightLbs: validateNumber(data.weight_lbs, 'weight_lbs', issues, { integer: false }),
+    commodity: validateString(data.commodity, 'commodity', issues),
+    pieceCount: validateNumber(data.piece_count, 'piece_count', issues, { integer: true }),
+    hazmat: data.hazmat === true,
+    accessorials: []
+  }
+
+  if (data.hazmat !== undefined && typeof data.hazmat !== 'boolean') {
+    issues.push(`hazmat: expected boolean, got ${JSON.stringify(data.hazmat)}`)
+  }
+
+  if (Array.isArray(data.accessorials)) {
+    for (const item of data.accessorials) {
+      const accessorial = validateEnum(item, ACCESSORIALS, 'accessorials', issues)
+      if (accessorial && !request.accessorials.includes(accessorial)) {
+        request.accessorials.push(accessorial)
+      }
+    }
+  } else if (data.accessorials != null) {
+    issues.push('accessorials: expected array')
+  }
+
+  if (request.pickupWindow.earliest && request.deliveryWindow.latest &&
+      request.deliveryWindow.latest < request.pickupWindow.earliest) {
+    issues.push('delivery_window: ends before pickup starts')
+  }
+
+  return {
+    isFreightRequest: data.is_freight_request === true,
+    request,
+    issues
+  }
+}
+
+/**
+ * Quote-critical fields that are still unknown
+ */
+export function getMissingQuoteFields(request: FreightRequest): QuoteField[] {
+  const missing: QuoteField[] = []
+  if (!hasLocation(request.origin)) missing.push('origin')
+  if (!hasLocation(request.destination)) missing.push('destination')
+  if (!request.pickupWindow.earliest && !request.pickupWindow.latest) missing.push('pickupDate')
+  if (!request.equipmentType) missing.push('equipmentType')
+  if (request.weightLbs === null) missing.push('weightLbs')
+  return missing
+}
+
+/**
+ * "Dallas, TX 75201" style label for display and prompts
+ */
+export function formatLocation(location: FreightLocation): string {
+  const cityState = [location.city, location.state].filter(Boolean).join(', ')
+  return [cityState, location.zip].filter(Boolean).join(' ') || 'Unknown'
+}
+
+// A lane endpoint is usable with a ZIP, or a city and state
+function hasLocation(location: FreightLocation): boolean {
+  return !!location.zip || (!!location.city && !!location.state)
+}
+
+function validateLocation(value: unknown, field: string, issues: string[]): FreightLocation {
+  const location = isObject(value) ? value : {}
+  if (value != null && !isObject(value)) issues.push(`${field}: expected object`)
+
+  let state = validateString(location.state, `${field}.state`, issues)?.toUpperCase() ?? null
+  if (state && !STATE_PATTERN.test(state)) {
+    issues.push(`${field}.state: "${state}" is not a two-letter code`)
+    state = null
+  }
+
+  let zip = validateString(location.zip, `${field}.zip`, issues)?.toUpperCase() ?? null
+  if (zip) {
+    const usZip = zip.match(ZIP_PATTERN)
+    if (usZip) {
+      zip = usZip[1]
+    } else if (!POSTAL_CODE_PATTERN.test(zip)) {
+      issues.push(`${field}.zip: "${zip}" is not a ZIP or postal code`)
+      zip = null
+    }
+  }
+
+  return {
+    city: validateString(location.city, `${field}.city`, issues),
+    state,
+    zip
+  }
+}
+
+function validateWindow(value: unknown, field: string, issues: string[]): TimeWindow {
+  const window = isObject(value) ? value : {}
+  if (value != null && !isObject(value)) issues.push(`${field}: expected object`)
+
+  const date = (raw: unknown, part: string): string | null => {
+    const text = validateString(raw, `${field}.${part}`, issues)
+    if (!text) return null
+    if (!DATE_PATTERN.test(text) || isNaN(new Date(text).getTime())) {
+      issues.push(`${field}.${part}: "${text}" is not an ISO date`)
+      return null
+    }
+    return text
+  }
+
+  const earliest = date(window.earliest, 'earliest')
+  const latest = date(window.latest, 'latest')
+
+  if (earliest && latest && latest < earliest) {
+    issues.push(`${field}: latest is before earliest`)
+    return { earliest: latest, latest: earliest }
+  }
+  return { earliest, latest }
+}
+
+function validateString(value: unknown, field: string, issues: string[]): string | null {
+  if (value == null) return null
+  if (typeof value !== 'string') {
+    issues.push(`${field}: expected string, got ${JSON.stringify(value)}`)
+    return null
+  }
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : null
+}
+
+function validateNumber(
+  value: unknown,
+  field: string,
+  issues: string[],
+  { integer }: { integer: boolean }
+): number | null {
+  if (value == null) return null
+  if (typeof value !== 'number' || !isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+    issues.push(`${field}: expected a non-negative ${integer ? 'integer' : 'number'}, got ${JSON.stringify(value)}`)
+    return null
+  }
+  return value
+}
+
+function validateEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  field: string,
+  issues: string[]
+): T | null {
+  if (value == null) return null
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    issues.push(`${field}: unknown value ${JSON.stringify(value)}`)
+    return null
+  }
+  return value as T
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
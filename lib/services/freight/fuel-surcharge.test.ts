@@ -0,0 +1,70 @@
+// /lib/services/freight/fuel-surcharge.test.ts
+// Picking the fuel surcharge band for a lane from imported diesel prices
+// Runs against the in-memory KV, flushed before each test, with the clock fixed
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { kv } from '@/lib/storage/kv'
+import type { MemoryKV } from '@/lib/storage/memory-kv'
+import { fuelSurcharge } from './fuel-surcharge'
+
+const LADDER = [
+  { minPrice: 0, maxPrice: 3.5, centsPerMile: 45 },
+  { minPrice: 3.5, maxPrice: 4, centsPerMile: 52 },
+  { minPrice: 4, maxPrice: null, pct: 22 }
+]
+
+describe('FuelSurchargeService', () => {
+  beforeEach(async () => {
+    await (kv as MemoryKV).flushall()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-10-19T00:00:00Z'))
+    await fuelSurcharge.setLadder(LADDER)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('returns nothing before any prices are imported', async () => {
+    expect(await fuelSurcharge.getCurrent('IL')).toBeNull()
+  })
+
+  it.each([
+    [3.49, { centsPerMile: 45 }],
+    [3.5, { centsPerMile: 52 }],
+    [3.99, { centsPerMile: 52 }],
+    [4, { pct: 22 }],
+    [5.25, { pct: 22 }]
+  ])('puts diesel at %s a gallon in its band', async (price, band) => {
+    await fuelSurcharge.importCsv(`week,region,price\n2026-10-12,midwest,${price}`)
+
+    const current = await fuelSurcharge.getCurrent('IL')
+    expect(current).toMatchObject({ region: 'midwest', weekOf: '2026-10-12', pricePerGallon: price, band })
+  })
+
+  it('uses the latest week of the origin region, then the national average', async () => {
+    await fuelSurcharge.importCsv([
+      'week,national,midwest',
+      '2026-10-05,3.60,3.40',
+      '2026-10-12,3.70,4.10'
+    ].join('\n'))
+
+    expect(await fuelSurcharge.getCurrent('IL')).toMatchObject({ region: 'midwest', pricePerGallon: 4.1, band: { pct: 22 } })
+    expect(await fuelSurcharge.getCurrent('CA')).toMatchObject({ region: 'national', pricePerGallon: 3.7, band: { centsPerMile: 52 } })
+  })
+
+  it('marks a price as stale once it is more than 14 days old', async () => {
+    await fuelSurcharge.importCsv('week,region,price\n2026-10-05,midwest,3.80')
+    expect((await fuelSurcharge.getCurrent('IL'))?.stale).toBe(false)
+
+    await fuelSurcharge.importCsv('week,region,price\n2026-10-04,gulf_coast,3.80')
+    expect((await fuelSurcharge.getCurrent('TX'))?.stale).toBe(true)
+  })
+
+  it('rejects a ladder with overlapping bands', async () => {
+    await expect(fuelSurcharge.setLadder([
+      { minPrice: 0, maxPrice: 3.6, centsPerMile: 45 },
+      { minPrice: 3.5, maxPrice: null, centsPerMile: 52 }
+    ])).rejects.toThrow('Invalid surcharge ladder: bands starting at $0 and $3.5 overlap')
+  })
+})
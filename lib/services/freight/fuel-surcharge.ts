@@ -0,0 +1,347 @@
+// /lib/services/freight/fuel-surcharge.ts
+// Fuel surcharge schedule: weekly diesel prices imported from CSV and a price-band ladder
+// Both are kept in KV; quotes use the latest week for the origin's fuel region
+
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import { DEFAULT_FUEL_LADDER, type SurchargeBand } from './rate-tables'
+
+// EIA diesel price regions (PADD districts) plus the national average
+export const FUEL_REGIONS = ['national', 'east_coast', 'midwest', 'gulf_coast', 'rocky_mountain', 'west_coast'] as const
+
+export type FuelRegion = typeof FUEL_REGIONS[number]
+
+export interface DieselPrice {
+  weekOf: string            // YYYY-MM-DD
+  region: FuelRegion
+  pricePerGallon: number
+}
+
+/**
+ * Surcharge in effect for a lane - stored on the rate quote as its fuel basis
+ */
+export interface FuelSurcharge {
+  region: FuelRegion
+  weekOf: string
+  pricePerGallon: number
+  band: SurchargeBand
+  stale: boolean            // Latest week is older than FUEL_MAX_AGE_DAYS
+}
+
+export interface FuelSchedule {
+  prices: DieselPrice[]     // Newest week first
+  ladder: SurchargeBand[]
+  ladderIsDefault: boolean
+  pricesUpdatedAt: string | null
+  ladderUpdatedAt: string | null
+  current: Record<FuelRegion, FuelSurcharge | null>
+}
+
+export interface FuelImportResult {
+  imported: number
+  skipped: string[]         // "line 7: ..." for rows that could not be read
+  total: number
+  latestWeek: string | null
+}
+
+interface StoredPrices {
+  prices: DieselPrice[]
+  updatedAt: string
+}
+
+interface StoredLadder {
+  ladder: SurchargeBand[]
+  updatedAt: string
+}
+
+// Weeks kept per region - older rows are dropped on import
+const HISTORY_WEEKS = 104
+
+const MAX_AGE_DAYS = parseInt(process.env.FUEL_MAX_AGE_DAYS || '14')
+
+const FUEL_REGION_BY_STATE: Record<string, FuelRegion> = {
+  CT: 'east_coast', ME: 'east_coast', MA: 'east_coast', NH: 'east_coast', RI: 'east_coast', VT: 'east_coast',
+  DE: 'east_coast', DC: 'east_coast', MD: 'east_coast', NJ: 'east_coast', NY: 'east_coast', PA: 'east_coast',
+  FL: 'east_coast', GA: 'east_coast', NC: 'east_coast', SC: 'east_coast', VA: 'east_coast', WV: 'east_coast',
+  IL: 'midwest', IN: 'midwest', IA: 'midwest', KS: 'midwest', KY: 'midwest', MI: 'midwest', MN: 'midwest',
+  MO: 'midwest', NE: 'midwest', ND: 'midwest', SD: 'midwest', OH: 'midwest', OK: 'midwest', TN: 'midwest', WI: 'midwest',
+  AL: 'gulf_coast', AR: 'gulf_coast', LA: 'gulf_coast', MS: 'gulf_coast', NM: 'gulf_coast', TX: 'gulf_coast',
+  CO: 'rocky_mountain', ID: 'rocky_mountain', MT: 'rocky_mountain', UT: 'rocky_mountain', WY: 'rocky_mountain',
+  AK: 'west_coast', AZ: 'west_coast', CA: 'west_coast', HI: 'west_coast', NV: 'west_coast', OR: 'west_coast', WA: 'west_coast'
+}
+
+// CSV header spellings, normalized to lower_snake_case
+const REGION_ALIASES: Record<string, FuelRegion> = {
+  national: 'national', us: 'national', u_s: 'national', us_average: 'national',
+  east_coast: 'east_coast', padd_1: 'east_coast', padd1: 'east_coast',
+  midwest: 'midwest', padd_2: 'midwest', padd2: 'midwest',
+  gulf_coast: 'gulf_coast', padd_3: 'gulf_coast', padd3: 'gulf_coast',
+  rocky_mountain: 'rocky_mountain', padd_4: 'rocky_mountain', padd4: 'rocky_mountain',
+  west_coast: 'west_coast', padd_5: 'west_coast', padd5: 'west_coast'
+}
+
+const DATE_COLUMNS = ['week', 'week_of', 'weekof', 'date']
+const PRICE_COLUMNS = ['price', 'diesel', 'price_per_gallon', 'usd_per_gallon']
+
+class FuelSurchargeService {
+  /**
+   * Fuel region for a state or province code - Canada and unknown states use the national average
+   */
+  getRegion(state: string | null): FuelRegion {
+    return state ? FUEL_REGION_BY_STATE[state] ?? 'national' : 'national'
+  }
+
+  async getPrices(): Promise<DieselPrice[]> {
+    const stored = await kv.get<StoredPrices>(KEYS.FUEL_PRICES)
+    return stored?.prices ?? []
+  }
+
+  async getLadder(): Promise<SurchargeBand[]> {
+    const stored = await kv.get<StoredLadder>(KEYS.FUEL_LADDER)
+    return stored?.ladder ?? DEFAULT_FUEL_LADDER
+  }
+
+  /**
+   * Surcharge for a lane starting in `originState`, or null before any prices are imported
+   */
+  async getCurrent(originState: string | null): Promise<FuelSurcharge | null> {
+    const [prices, ladder] = await Promise.all([this.getPrices(), this.getLadder()])
+    return this.resolve(this.getRegion(originState), prices, ladder)
+  }
+
+  async getSchedule(): Promise<FuelSchedule> {
+    const [storedPrices, storedLadder] = await Promise.all([
+      kv.get<StoredPrices>(KEYS.FUEL_PRICES),
+      kv.get<StoredLadder>(KEYS.FUEL_LADDER)
+    ])
+    const prices = storedPrices?.prices ?? []
+    const ladder = storedLadder?.ladder ?? DEFAULT_FUEL_LADDER
+
+    const current = {} as Record<FuelRegion, FuelSurcharge | null>
+    for (const region of FUEL_REGIONS) {
+      current[region] = this.resolve(region, prices, ladder)
+    }
+
+    return {
+      prices: [...prices].reverse(),
+      ladder,
+      ladderIsDefault: !storedLadder,
+      pricesUpdatedAt: storedPrices?.updatedAt ?? null,
+      ladderUpdatedAt: storedLadder?.updatedAt ?? null,
+      current
+    }
+  }
+
+  /**
+   * Import weekly diesel prices. Accepts long format (week,region,price) or
+   * wide format with one column per region (week,national,east_coast,...).
+   * Rows for a week/region already stored are overwritten unless `replace` drops everything first.
+   */
+  async importCsv(csv: string, { replace = false }: { replace?: boolean } = {}): Promise<FuelImportResult> {
+    const { prices: parsed, skipped } = parseDieselCsv(csv)
+    if (parsed.length === 0) {
+      throw new Error(`Invalid diesel price CSV: no rows could be read${skipped.length > 0 ? ` (${skipped[0]})` : ''}`)
+    }
+
+    const merged = new Map<string, DieselPrice>()
+    for (const price of replace ? parsed : [...await this.getPrices(), ...parsed]) {
+      merged.set(`${price.weekOf}:${price.region}`, price)
+    }
+
+    // Keep the most recent weeks of each region, oldest first
+    const prices: DieselPrice[] = []
+    for (const region of FUEL_REGIONS) {
+      const rows = [...merged.values()]
+        .filter(price => price.region === region)
+        .sort((a, b) => a.weekOf.localeCompare(b.weekOf))
+      prices.push(...rows.slice(-HISTORY_WEEKS))
+    }
+    prices.sort((a, b) => a.weekOf.localeCompare(b.weekOf) || FUEL_REGIONS.indexOf(a.region) - FUEL_REGIONS.indexOf(b.region))
+
+    await kv.set(KEYS.FUEL_PRICES, { prices, updatedAt: new Date().toISOString() } satisfies StoredPrices)
+    console.log(`⛽ Imported ${parsed.length} diesel prices (${skipped.length} skipped, ${prices.length} stored)`)
+
+    return {
+      imported: parsed.length,
+      skipped,
+      total: prices.length,
+      latestWeek: prices.length > 0 ? prices[prices.length - 1].weekOf : null
+    }
+  }
+
+  /**
+   * Replace the surcharge ladder. Bands must not overlap and each sets
+   * either centsPerMile or pct.
+   */
+  async setLadder(bands: unknown): Promise<SurchargeBand[]> {
+    const ladder = validateLadder(bands)
+    await kv.set(KEYS.FUEL_LADDER, { ladder, updatedAt: new Date().toISOString() } satisfies StoredLadder)
+    console.log(`⛽ Fuel surcharge ladder updated (${ladder.length} bands)`)
+    return ladder
+  }
+
+  /**
+   * Drop a custom ladder and go back to DEFAULT_FUEL_LADDER
+   */
+  async resetLadder(): Promise<void> {
+    await kv.del(KEYS.FUEL_LADDER)
+  }
+
+  // Latest week for the region, falling back to the national average
+  private resolve(region: FuelRegion, prices: DieselPrice[], ladder: SurchargeBand[]): FuelSurcharge | null {
+    const latest = findLatest(prices, region) ?? findLatest(prices, 'national')
+    if (!latest) return null
+
+    const band = ladder.find(b => latest.pricePerGallon >= b.minPrice && (b.maxPrice === null || latest.pricePerGallon < b.maxPrice))
+    if (!band) {
+      console.warn(`⚠️ No fuel surcharge band covers $${latest.pricePerGallon}/gal`)
+      return null
+    }
+
+    const ageDays = (Date.now() - new Date(`${latest.weekOf}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000)
+
+    return {
+      region: latest.region,
+      weekOf: latest.weekOf,
+      pricePerGallon: latest.pricePerGallon,
+      band,
+      stale: ageDays > MAX_AGE_DAYS
+    }
+  }
+}
+
+function findLatest(prices: DieselPrice[], region: FuelRegion): DieselPrice | null {
+  let latest: DieselPrice | null = null
+  for (const price of prices) {
+    if (price.region === region && (!latest || price.weekOf > latest.weekOf)) latest = price
+  }
+  return latest
+}
+
+/**
+ * Parse a diesel price CSV into rows. Never throws - unreadable rows are reported in `skipped`.
+ */
+export function parseDieselCsv(csv: string): { prices: DieselPrice[]; skipped: string[] } {
+  const prices: DieselPrice[] = []
+  const skipped: string[] = []
+
+  const lines = csv.split(/\r?\n/)
+    .map((text, index) => ({ text: text.trim(), line: index + 1 }))
+    .filter(({ text }) => text.length > 0 && !text.startsWith('#'))
+
+  if (lines.length === 0) return { prices, skipped: ['empty file'] }
+
+  const header = splitRow(lines[0].text).map(normalizeHeader)
+  const dateColumn = header.findIndex(name => DATE_COLUMNS.includes(name))
+  if (dateColumn === -1) {
+    return { prices, skipped: [`line ${lines[0].line}: header has no week or date column`] }
+  }
+
+  // Long format names the region per row; wide format has a price column per region
+  const regionColumn = header.indexOf('region')
+  const priceColumn = header.findIndex(name => PRICE_COLUMNS.includes(name))
+  const regionColumns = header
+    .map((name, index) => ({ region: REGION_ALIASES[name], index }))
+    .filter((column): column is { region: FuelRegion; index: number } => !!column.region)
+
+  if (priceColumn === -1 && regionColumns.length === 0) {
+    return { prices, skipped: [`line ${lines[0].line}: header has no price or region columns`] }
+  }
+
+  for (const { text, line } of lines.slice(1)) {
+    const cells = splitRow(text)
+    const weekOf = parseDate(cells[dateColumn] ?? '')
+    if (!weekOf) {
+      skipped.push(`line ${line}: "${cells[dateColumn] ?? ''}" is not a date`)
+      continue
+    }
+
+    const columns = priceColumn !== -1
+      ? [{ region: regionColumn === -1 ? 'national' as FuelRegion : REGION_ALIASES[normalizeHeader(cells[regionColumn] ?? '')], index: priceColumn }]
+      : regionColumns
+
+    for (const { region, index } of columns) {
+      const raw = cells[index] ?? ''
+      if (!region) {
+        skipped.push(`line ${line}: unknown region "${cells[regionColumn]}"`)
+        continue
+      }
+      if (raw === '') continue   // Wide exports leave regions blank for some weeks
+
+      const pricePerGallon = parseFloat(raw.replace(/^\$/, ''))
+      if (!isFinite(pricePerGallon) || pricePerGallon <= 0 || pricePerGallon > 20) {
+        skipped.push(`line ${line}: "${raw}" is not a diesel price`)
+        continue
+      }
+      prices.push({ weekOf, region, pricePerGallon })
+    }
+  }
+
+  return { prices, skipped }
+}
+
+function validateLadder(bands: unknown): SurchargeBand[] {
+  if (!Array.isArray(bands) || bands.length === 0) {
+    throw new Error('Invalid surcharge ladder: expected a non-empty array of bands')
+  }
+
+  const ladder = bands.map((raw, index): SurchargeBand => {
+    const band = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>
+    const minPrice = band.minPrice
+    const maxPrice = band.maxPrice ?? null
+    const centsPerMile = band.centsPerMile
+    const pct = band.pct
+
+    if (typeof minPrice !== 'number' || minPrice < 0) {
+      throw new Error(`Invalid surcharge ladder: band ${index + 1} needs a non-negative minPrice`)
+    }
+    if (maxPrice !== null && (typeof maxPrice !== 'number' || maxPrice <= minPrice)) {
+      throw new Error(`Invalid surcharge ladder: band ${index + 1} maxPrice must be above minPrice or null`)
+    }
+    if ((centsPerMile === undefined) === (pct === undefined)) {
+      throw new Error(`Invalid surcharge ladder: band ${index + 1} must set exactly one of centsPerMile or pct`)
+    }
+    const amount = centsPerMile ?? pct
+    if (typeof amount !== 'number' || amount < 0) {
+      throw new Error(`Invalid surcharge ladder: band ${index + 1} surcharge must be a non-negative number`)
+    }
+
+    return centsPerMile !== undefined
+      ? { minPrice, maxPrice: maxPrice as number | null, centsPerMile: amount }
+      : { minPrice, maxPrice: maxPrice as number | null, pct: amount }
+  }).sort((a, b) => a.minPrice - b.minPrice)
+
+  for (let i = 1; i < ladder.length; i++) {
+    const previous = ladder[i - 1]
+    if (previous.maxPrice === null || previous.maxPrice > ladder[i].minPrice) {
+      throw new Error(`Invalid surcharge ladder: bands starting at $${previous.minPrice} and $${ladder[i].minPrice} overlap`)
+    }
+  }
+
+  return ladder
+}
+
+function splitRow(text: string): string[] {
+  return text.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim())
+}
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '')
+}
+
+// YYYY-MM-DD or M/D/YYYY
+function parseDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  const parts = iso ? [iso[1], iso[2], iso[3]] : us ? [us[3], us[1], us[2]] : null
+  if (!parts) return null
+
+  const [year, month, day] = parts
+
+  const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`
+  const parsed = new Date(`${date}T00:00:00Z`)
+  return isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date ? null : date
+}
+
+// Export singleton instance
+export const fuelSurcharge = new FuelSurchargeService()
@@ -0,0 +1,56 @@
+// /lib/services/freight/lane-distance.test.ts
+// Offline lane miles from the bundled postal centroids, and the error for a place it cannot find
+// Runs against the in-memory KV, flushed before each test
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { kv } from '@/lib/storage/kv'
+import type { MemoryKV } from '@/lib/storage/memory-kv'
+import { haversineMiles, laneDistance } from './lane-distance'
+
+const CHICAGO = { city: null, state: null, zip: '60607' }
+const DALLAS = { city: 'Dallas', state: 'TX', zip: null }
+
+describe('LaneDistanceService.measure', () => {
+  beforeEach(async () => {
+    await (kv as MemoryKV).flushall()
+  })
+
+  it('measures a lane between centroids and applies the circuity factor', async () => {
+    const result = await laneDistance.measure(CHICAGO, DALLAS)
+    if (!result.ok) throw new Error(result.error.message)
+
+    // Chicago (41.88, -87.63) to Dallas (32.78, -96.80) is 805 miles as the crow flies
+    expect(result.estimate).toMatchObject({
+      straightLineMiles: 805,
+      circuityFactor: 1.2,
+      miles: 966,
+      source: 'postal-centroid',
+      origin: { label: 'Chicago, IL', state: 'IL', precision: 'postal' },
+      destination: { label: 'Dallas, TX', state: 'TX', precision: 'city' }
+    })
+    expect(result.cached).toBe(false)
+
+    const again = await laneDistance.measure(CHICAGO, DALLAS)
+    expect(again).toMatchObject({ ok: true, cached: true, estimate: { miles: 966 } })
+  })
+
+  it('reports a ZIP it cannot place instead of guessing', async () => {
+    const result = await laneDistance.measure({ city: null, state: null, zip: '00012' }, DALLAS)
+
+    expect(result).toEqual({
+      ok: false,
+      error: {
+        code: 'unresolved_location',
+        message: 'Unresolved location: could not place origin "00012" - check the ZIP or city/state',
+        locations: ['origin']
+      }
+    })
+  })
+})
+
+describe('haversineMiles', () => {
+  it('is zero for the same point and symmetric', () => {
+    expect(haversineMiles([41.88, -87.63], [41.88, -87.63])).toBe(0)
+    expect(haversineMiles([41.88, -87.63], [32.78, -96.8])).toBeCloseTo(haversineMiles([32.78, -96.8], [41.88, -87.63]), 6)
+  })
+})
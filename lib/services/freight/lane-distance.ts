@@ -0,0 +1,223 @@
+// /lib/services/freight/lane-distance.ts
+// Offline lane distances - no map APIs are reachable from the processing environment
+// Resolves ZIP, postal code or city/state against the bundled centroid dataset and applies a circuity factor
+
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import { formatLocation, type FreightLocation } from './freight-request'
+import { getPostalCentroids, POSTAL_DATASET_VERSION, STATE_CENTROIDS, type PostalCentroid } from './postal-centroids'
+
+export type LocationPrecision = 'postal' | 'city' | 'state'
+
+export interface ResolvedLocation {
+  label: string              // Dataset name, e.g. "Dallas, TX"
+  state: string
+  lat: number
+  lon: number
+  precision: LocationPrecision
+}
+
+export interface MileageEstimate {
+  miles: number
+  straightLineMiles: number
+  circuityFactor: number
+  source: 'postal-centroid' | 'state-centroid'
+  origin: ResolvedLocation
+  destination: ResolvedLocation
+}
+
+/**
+ * A lane endpoint the dataset cannot place. Thrown by the processor so the
+ * email goes to manual review instead of being priced on a guessed distance.
+ */
+export interface UnresolvedLocationError {
+  code: 'unresolved_location'
+  message: string
+  locations: ('origin' | 'destination')[]
+}
+
+export type LaneDistanceResult =
+  | { ok: true; estimate: MileageEstimate; cached: boolean }
+  | { ok: false; error: UnresolvedLocationError }
+
+interface CachedLane {
+  straightLineMiles: number
+  origin: ResolvedLocation
+  destination: ResolvedLocation
+}
+
+// Road miles run longer than the straight line between two points
+const CIRCUITY_FACTOR = parseFloat(process.env.MILEAGE_CIRCUITY_FACTOR || '1.2')
+
+// State centroids can be hundreds of miles off - only used when explicitly allowed
+const STATE_FALLBACK = process.env.MILEAGE_STATE_FALLBACK === 'true'
+
+const CACHE_TTL_SECONDS = parseInt(process.env.MILEAGE_CACHE_TTL_SECONDS || String(30 * 24 * 60 * 60))
+
+const EARTH_RADIUS_MILES = 3958.8
+
+class LaneDistanceService {
+  private byPrefix: Map<string, PostalCentroid> | null = null
+  private byCity: Map<string, PostalCentroid[]> | null = null
+
+  /**
+   * Place a location on the map. A ZIP or postal code wins unless it contradicts
+   * the stated state, then city/state, then (if enabled) the state centroid.
+   */
+  resolve(location: FreightLocation): ResolvedLocation | null {
+    const state = location.state?.toUpperCase() ?? null
+
+    const postal = location.zip ? this.lookupPostal(location.zip) : null
+    if (postal && (!state || postal.state === state)) return toResolved(postal, 'postal')
+
+    if (location.city) {
+      const matches = (this.getCityIndex().get(normalizeCity(location.city)) ?? [])
+        .filter(centroid => !state || centroid.state === state)
+      // Without a state a city name is only usable when it is unique
+      if (matches.length === 1 || (state && matches.length > 0)) return toResolved(matches[0], 'city')
+    }
+
+    if (postal) return toResolved(postal, 'postal')
+
+    if (STATE_FALLBACK && state && STATE_CENTROIDS[state]) {
+      const [lat, lon] = STATE_CENTROIDS[state]
+      return { label: state, state, lat, lon, precision: 'state' }
+    }
+
+    return null
+  }
+
+  /**
+   * Road-mile estimate for a lane, read through the KV cache
+   */
+  async measure(origin: FreightLocation, destination: FreightLocation): Promise<LaneDistanceResult> {
+    const cacheKey = KEYS.LANE_DISTANCE(`${POSTAL_DATASET_VERSION}:${locationKey(origin)}>${locationKey(destination)}`)
+
+    const cached = await kv.get<CachedLane>(cacheKey)
+    if (cached) {
+      return { ok: true, estimate: this.toEstimate(cached), cached: true }
+    }
+
+    const from = this.resolve(origin)
+    const to = this.resolve(destination)
+    if (!from || !to) {
+      const locations: UnresolvedLocationError['locations'] = []
+      if (!from) locations.push('origin')
+      if (!to) locations.push('destination')
+
+      const described = locations
+        .map(side => `${side} "${formatLocation(side === 'origin' ? origin : destination)}"`)
+        .join(' and ')
+      return {
+        ok: false,
+        error: {
+          code: 'unresolved_location',
+          message: `Unresolved location: could not place ${described} - check the ZIP or city/state`,
+          locations
+        }
+      }
+    }
+
+    const lane: CachedLane = {
+      straightLineMiles: Math.round(haversineMiles([from.lat, from.lon], [to.lat, to.lon])),
+      origin: from,
+      destination: to
+    }
+
+    // State-level guesses are not worth remembering
+    if (from.precision !== 'state' && to.precision !== 'state') {
+      await kv.set(cacheKey, lane, { ex: CACHE_TTL_SECONDS })
+    }
+
+    return { ok: true, estimate: this.toEstimate(lane), cached: false }
+  }
+
+  // Circuity is applied on read so changing MILEAGE_CIRCUITY_FACTOR needs no cache flush
+  private toEstimate(lane: CachedLane): MileageEstimate {
+    const stateLevel = lane.origin.precision === 'state' || lane.destination.precision === 'state'
+    return {
+      miles: Math.round(lane.straightLineMiles * CIRCUITY_FACTOR),
+      straightLineMiles: lane.straightLineMiles,
+      circuityFactor: CIRCUITY_FACTOR,
+      source: stateLevel ? 'state-centroid' : 'postal-centroid',
+      origin: lane.origin,
+      destination: lane.destination
+    }
+  }
+
+  // ZIP3 for US ZIPs; longest matching prefix (FSA, then shorter) for Canadian postal codes
+  private lookupPostal(zip: string): PostalCentroid | null {
+    const code = zip.toUpperCase().replace(/\s+/g, '')
+    const index = this.getPrefixIndex()
+
+    if (/^\d{5}/.test(code)) return index.get(code.slice(0, 3)) ?? null
+    if (/^[A-Z]\d[A-Z]/.test(code)) {
+      return index.get(code.slice(0, 3)) ?? index.get(code.slice(0, 2)) ?? index.get(code.slice(0, 1)) ?? null
+    }
+    return null
+  }
+
+  private getPrefixIndex(): Map<string, PostalCentroid> {
+    if (!this.byPrefix) {
+      this.byPrefix = new Map()
+      for (const centroid of getPostalCentroids()) {
+        for (const prefix of centroid.prefixes) {
+          // Aliases repeat the prefixes - the first (primary) name keeps them
+          if (!this.byPrefix.has(prefix)) this.byPrefix.set(prefix, centroid)
+        }
+      }
+    }
+    return this.byPrefix
+  }
+
+  private getCityIndex(): Map<string, PostalCentroid[]> {
+    if (!this.byCity) {
+      this.byCity = new Map()
+      for (const centroid of getPostalCentroids()) {
+        const key = normalizeCity(centroid.city)
+        this.byCity.set(key, [...(this.byCity.get(key) ?? []), centroid])
+      }
+    }
+    return this.byCity
+  }
+}
+
+export function haversineMiles([lat1, lon1]: [number, number], [lat2, lon2]: [number, number]): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(lat2 - lat1)
+  const dLon = toRadians(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a))
+}
+
+function toResolved(centroid: PostalCentroid, precision: LocationPrecision): ResolvedLocation {
+  return {
+    label: `${centroid.city}, ${centroid.state}`,
+    state: centroid.state,
+    lat: centroid.lat,
+    lon: centroid.lon,
+    precision
+  }
+}
+
+// "St. Louis", "Saint Louis" and "ST LOUIS" are the same place
+function normalizeCity(city: string): string {
+  return city
+    .toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[.']/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\bsaint\b/g, 'st')
+    .replace(/\bft\b/g, 'fort')
+    .replace(/\bmount\b/g, 'mt')
+    .trim()
+}
+
+function locationKey(location: FreightLocation): string {
+  return [location.zip?.toUpperCase().replace(/\s+/g, '') ?? '', normalizeCity(location.city ?? ''), location.state?.toUpperCase() ?? '']
+    .join('|')
+}
+
+// Export singleton instance
+export const laneDistance = new LaneDistanceService()
@@ -0,0 +1,674 @@
+// /lib/services/freight/postal-centroids.ts
+// Bundled US/Canada postal centroid dataset for offline lane distances
+// One row per freight market: name (;aliases) | state | lat | lon | ZIP3 prefixes or Canadian FSA prefixes
+
+// Bump when the rows change - cached lane distances are keyed by it
+export const POSTAL_DATASET_VERSION = '2026.10'
+
+export interface PostalCentroid {
+  city: string
+  state: string
+  lat: number
+  lon: number
+  prefixes: string[]   // Three-digit ZIP prefixes, or 1-3 character Canadian postal prefixes
+  country: 'US' | 'CA'
+}
+
+const CANADIAN_PROVINCES = new Set(['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'])
+
+const DATA = `
+Springfield;Chicopee;Holyoke|MA|42.10|-72.59|010 011 013
+Pittsfield|MA|42.45|-73.25|012
+Worcester;Fitchburg|MA|42.26|-71.80|014 015 016
+Framingham|MA|42.28|-71.42|017
+Lowell;Woburn;Lawrence|MA|42.64|-71.32|018
+Lynn;Salem;Peabody|MA|42.47|-70.95|019
+Brockton;Taunton|MA|42.08|-71.02|020 023
+Boston;Cambridge;Somerville;Quincy;Newton|MA|42.36|-71.06|021 022 024
+Hyannis;Buzzards Bay|MA|41.65|-70.29|025 026
+New Bedford;Fall River|MA|41.64|-70.93|027
+Providence;Warwick;Cranston;Pawtucket|RI|41.82|-71.41|028 029
+Manchester;Nashua|NH|42.99|-71.45|030 031
+Concord|NH|43.21|-71.54|032 033
+Keene|NH|42.93|-72.28|034 036
+Lebanon|NH|43.64|-72.25|035 037
+Portsmouth;Dover|NH|43.07|-70.76|038
+Portland;South Portland;Westbrook|ME|43.66|-70.26|039 040 041
+Lewiston;Auburn|ME|44.10|-70.21|042
+Augusta;Waterville|ME|44.31|-69.78|043 049
+Bangor|ME|44.80|-68.77|044 045 046 048
+Presque Isle;Houlton|ME|46.68|-68.02|047
+White River Junction|VT|43.65|-72.32|050 051
+Bennington;Brattleboro|VT|42.88|-73.20|052 053
+Burlington;South Burlington;Essex Junction|VT|44.48|-73.21|054 056
+Rutland|VT|43.61|-72.97|057
+St Johnsbury|VT|44.42|-72.02|058
+Hartford;East Hartford;New Britain|CT|41.76|-72.68|060 061 062
+New London;Norwich|CT|41.36|-72.10|063
+New Haven;Meriden|CT|41.31|-72.92|064 065
+Bridgeport|CT|41.19|-73.20|066
+Waterbury|CT|41.56|-73.05|067
+Stamford;Norwalk;Greenwich|CT|41.05|-73.54|068 069
+Newark;Secaucus;Kearny|NJ|40.74|-74.17|070 071
+Elizabeth;Linden|NJ|40.66|-74.21|072
+Jersey City;Bayonne;Hoboken|NJ|40.73|-74.08|073
+Paterson;Clifton;Wayne|NJ|40.92|-74.17|074 075
+Hackensack;Teterboro|NJ|40.89|-74.04|076
+Red Bank;Freehold|NJ|40.35|-74.06|077
+Dover;Parsippany|NJ|40.88|-74.56|078 079
+Camden;Cherry Hill|NJ|39.93|-75.12|080 081
+Atlantic City|NJ|39.36|-74.42|082 084
+Vineland;Bridgeton|NJ|39.49|-75.03|083
+Trenton;Hamilton|NJ|40.22|-74.76|085 086
+Toms River;Lakewood|NJ|39.95|-74.20|087
+New Brunswick;Edison;Piscataway;Cranbury|NJ|40.49|-74.45|088 089
+New York;Manhattan;NYC|NY|40.71|-74.01|100 101 102
+Staten Island|NY|40.58|-74.15|103
+Bronx|NY|40.84|-73.87|104
+White Plains;Yonkers;New Rochelle|NY|41.03|-73.76|105 106 107 108
+Queens;Jamaica;Flushing;Long Island City|NY|40.73|-73.79|110 111 113 114 116
+Brooklyn|NY|40.68|-73.94|112
+Hicksville;Hempstead;Garden City|NY|40.77|-73.53|115 117 118
+Riverhead|NY|40.92|-72.66|119
+Albany;Schenectady;Troy|NY|42.65|-73.75|120 121 122 123
+Kingston|NY|41.93|-74.00|124
+Poughkeepsie;Newburgh|NY|41.70|-73.92|125 126 127
+Glens Falls|NY|43.31|-73.64|128
+Plattsburgh|NY|44.70|-73.45|129
+Syracuse|NY|43.05|-76.15|130 131 132
+Utica|NY|43.10|-75.23|133 134 135
+Watertown|NY|43.97|-75.91|136
+Binghamton|NY|42.10|-75.91|137 138 139
+Buffalo|NY|42.89|-78.88|140 141 142
+Niagara Falls|NY|43.09|-79.06|143
+Rochester|NY|43.16|-77.61|144 145 146
+Jamestown|NY|42.10|-79.24|147
+Elmira|NY|42.09|-76.81|148 149
+Pittsburgh|PA|40.44|-79.99|150 151 152 153 154 156
+Johnstown|PA|40.33|-78.92|155 157 159
+DuBois|PA|41.12|-78.76|158
+New Castle|PA|41.00|-80.35|160 161
+Kittanning|PA|40.82|-79.52|162
+Oil City|PA|41.43|-79.71|163
+Erie|PA|42.13|-80.09|164 165
+Altoona|PA|40.52|-78.39|166
+Bradford|PA|41.96|-78.64|167
+State College|PA|40.79|-77.86|168
+Wellsboro|PA|41.75|-77.30|169
+Harrisburg;Carlisle;Mechanicsburg|PA|40.27|-76.88|170 171
+Chambersburg|PA|39.94|-77.66|172
+York|PA|39.96|-76.73|173 174
+Lancaster|PA|40.04|-76.31|175 176
+Williamsport|PA|41.24|-77.00|177
+Sunbury|PA|40.86|-76.79|178
+Pottsville|PA|40.69|-76.20|179
+Allentown;Bethlehem;Easton|PA|40.60|-75.49|180 181
+Hazleton|PA|40.96|-75.97|182
+East Stroudsburg|PA|41.00|-75.18|183
+Scranton|PA|41.41|-75.66|184 185
+Wilkes-Barre|PA|41.25|-75.88|186 187
+Montrose|PA|41.83|-75.88|188
+Doylestown|PA|40.31|-75.13|189
+Philadelphia|PA|39.95|-75.17|190 191
+Paoli;King of Prussia;Norristown|PA|40.10|-75.38|193 194
+Reading|PA|40.34|-75.93|195 196
+Wilmington;Newark|DE|39.74|-75.55|197 198
+Dover|DE|39.16|-75.52|199
+Washington|DC|38.91|-77.04|200 202 203 204 205
+Silver Spring;Bethesda;Rockville;Landover|MD|38.99|-77.03|206 207 208 209
+Baltimore|MD|39.29|-76.61|210 211 212
+Annapolis|MD|38.98|-76.49|214
+Cumberland|MD|39.65|-78.76|215
+Easton|MD|38.77|-76.08|216
+Frederick;Hagerstown|MD|39.41|-77.41|217
+Salisbury|MD|38.36|-75.60|218
+Elkton|MD|39.61|-75.83|219
+Fairfax;Arlington;Alexandria;Dulles;Manassas|VA|38.85|-77.20|220 221 222 223
+Fredericksburg|VA|38.30|-77.46|224 225
+Winchester|VA|39.19|-78.16|226
+Culpeper|VA|38.47|-78.00|227
+Harrisonburg|VA|38.45|-78.87|228
+Charlottesville|VA|38.03|-78.48|229
+Richmond;Petersburg|VA|37.54|-77.44|230 231 232 238
+Norfolk;Virginia Beach;Chesapeake;Portsmouth|VA|36.85|-76.29|233 234 235 237
+Newport News;Hampton|VA|37.09|-76.47|236
+Farmville|VA|37.30|-78.39|239
+Roanoke;Salem|VA|37.27|-79.94|240 241
+Abingdon;Bristol|VA|36.71|-81.97|242
+Pulaski|VA|37.05|-80.78|243
+Staunton|VA|38.15|-79.07|244
+Lynchburg|VA|37.41|-79.14|245
+Grundy|VA|37.28|-82.10|246
+Bluefield|WV|37.27|-81.22|247 248
+Lewisburg|WV|37.80|-80.45|249
+Charleston|WV|38.35|-81.63|250 251 252 253
+Martinsburg|WV|39.46|-77.96|254
+Huntington|WV|38.42|-82.45|255 256 257
+Beckley|WV|37.78|-81.19|258 259
+Wheeling|WV|40.06|-80.72|260
+Parkersburg|WV|39.27|-81.56|261
+Clarksburg|WV|39.28|-80.34|262 263 264
+Morgantown|WV|39.63|-79.96|265
+Gassaway|WV|38.67|-80.77|266
+Romney|WV|39.34|-78.76|267 268
+Winston-Salem|NC|36.10|-80.24|270 271
+Greensboro;High Point|NC|36.07|-79.79|272 273 274
+Raleigh;Cary|NC|35.78|-78.64|275 276
+Durham;Chapel Hill|NC|35.99|-78.90|277
+Rocky Mount;Wilson|NC|35.94|-77.79|278
+Elizabeth City|NC|36.29|-76.25|279
+Charlotte;Concord;Gastonia|NC|35.23|-80.84|280 281 282
+Fayetteville|NC|35.05|-78.88|283
+Wilmington|NC|34.23|-77.94|284
+Kinston;Greenville|NC|35.26|-77.58|285
+Hickory|NC|35.73|-81.34|286
+Asheville|NC|35.60|-82.55|287 288 289
+Columbia|SC|34.00|-81.03|290 291 292
+Spartanburg|SC|34.95|-81.93|293
+Charleston;North Charleston|SC|32.78|-79.93|294
+Florence|SC|34.20|-79.76|295
+Greenville|SC|34.85|-82.40|296
+Rock Hill|SC|34.92|-81.03|297
+Aiken|SC|33.56|-81.72|298
+Beaufort|SC|32.43|-80.67|299
+Atlanta;Marietta;Norcross;McDonough|GA|33.75|-84.39|300 301 302 303
+Swainsboro|GA|32.60|-82.33|304
+Gainesville|GA|34.30|-83.82|305
+Athens|GA|33.96|-83.38|306
+Dalton|GA|34.77|-84.97|307
+Augusta|GA|33.47|-81.97|308 309
+Macon;Warner Robins|GA|32.84|-83.63|310 312
+Savannah;Pooler|GA|32.08|-81.09|313 314
+Waycross|GA|31.21|-82.35|315
+Valdosta|GA|30.83|-83.28|316
+Albany|GA|31.58|-84.16|317 398
+Columbus|GA|32.46|-84.99|318 319
+Jacksonville|FL|30.33|-81.66|320 322
+Daytona Beach|FL|29.21|-81.02|321
+Tallahassee|FL|30.44|-84.28|323
+Panama City|FL|30.16|-85.66|324
+Pensacola|FL|30.42|-87.22|325
+Gainesville;Ocala|FL|29.65|-82.32|326 344
+Orlando;Kissimmee;Sanford|FL|28.54|-81.38|327 328 347
+Melbourne|FL|28.08|-80.61|329
+Miami;Hialeah;Doral|FL|25.76|-80.19|330 331 332
+Fort Lauderdale|FL|26.12|-80.14|333
+West Palm Beach|FL|26.72|-80.05|334
+Tampa;Brandon|FL|27.95|-82.46|335 336 346
+St Petersburg;Clearwater|FL|27.77|-82.64|337
+Lakeland|FL|28.04|-81.95|338
+Fort Myers|FL|26.64|-81.87|339
+Naples|FL|26.14|-81.79|341
+Sarasota;Bradenton|FL|27.34|-82.53|342
+Fort Pierce|FL|27.45|-80.33|349
+Birmingham|AL|33.52|-86.80|350 351 352
+Tuscaloosa|AL|33.21|-87.57|354
+Jasper|AL|33.83|-87.28|355
+Decatur|AL|34.61|-86.98|356
+Huntsville|AL|34.73|-86.59|357 358
+Gadsden|AL|34.01|-86.01|359
+Montgomery|AL|32.37|-86.30|360 361
+Anniston|AL|33.66|-85.83|362
+Dothan|AL|31.22|-85.39|363
+Evergreen|AL|31.43|-86.96|364
+Mobile|AL|30.69|-88.04|365 366
+Selma|AL|32.41|-87.02|367
+Auburn;Opelika|AL|32.61|-85.48|368
+Nashville;La Vergne;Lebanon|TN|36.16|-86.78|370 371 372
+Chattanooga|TN|35.05|-85.31|373 374
+Johnson City;Kingsport;Bristol|TN|36.31|-82.35|376
+Knoxville|TN|35.96|-83.92|377 378 379
+Memphis|TN|35.15|-90.05|375 380 381
+McKenzie|TN|36.13|-88.52|382
+Jackson|TN|35.61|-88.81|383
+Columbia|TN|35.62|-87.04|384
+Cookeville|TN|36.16|-85.50|385
+Southaven;Olive Branch|MS|34.99|-90.01|386
+Greenville|MS|33.41|-91.06|387
+Tupelo|MS|34.26|-88.70|388
+Clarksdale|MS|34.20|-90.57|389
+Jackson|MS|32.30|-90.18|390 391 392
+Meridian|MS|32.36|-88.70|393
+Hattiesburg|MS|31.33|-89.29|394
+Gulfport;Biloxi|MS|30.37|-89.09|395
+McComb|MS|31.24|-90.45|396
+Columbus|MS|33.50|-88.43|397
+Louisville|KY|38.25|-85.76|400 401 402
+Lexington|KY|38.04|-84.50|403 404 405
+Frankfort|KY|38.20|-84.87|406
+London;Corbin|KY|37.13|-84.08|407 408 409
+Covington;Florence;Hebron|KY|39.08|-84.51|410
+Ashland|KY|38.48|-82.64|411 412
+Campton|KY|37.73|-83.55|413 414
+Pikeville|KY|37.48|-82.52|415 416
+Hazard|KY|37.25|-83.19|417 418
+Paducah|KY|37.08|-88.60|420
+Bowling Green|KY|36.99|-86.44|421 422
+Owensboro|KY|37.77|-87.11|423
+Henderson|KY|37.84|-87.59|424
+Somerset|KY|37.09|-84.60|425 426
+Elizabethtown|KY|37.69|-85.86|427
+Columbus|OH|39.96|-83.00|430 431 432
+Marion|OH|40.59|-83.13|433
+Toledo|OH|41.65|-83.54|434 435 436
+Zanesville|OH|39.94|-82.01|437 438
+Steubenville|OH|40.36|-80.61|439
+Cleveland|OH|41.50|-81.69|440 441
+Akron|OH|41.08|-81.52|442 443
+Youngstown|OH|41.10|-80.65|444 445
+Canton|OH|40.80|-81.38|446 447
+Mansfield|OH|40.76|-82.52|448 449
+Cincinnati|OH|39.10|-84.51|450 451 452
+Dayton|OH|39.76|-84.19|453 454
+Springfield|OH|39.92|-83.81|455
+Chillicothe|OH|39.33|-82.98|456
+Athens|OH|39.33|-82.10|457
+Lima|OH|40.74|-84.11|458
+Indianapolis;Plainfield;Greenwood|IN|39.77|-86.16|460 461 462
+Gary;Hammond|IN|41.59|-87.35|463 464
+South Bend;Elkhart|IN|41.68|-86.25|465 466
+Fort Wayne|IN|41.08|-85.14|467 468
+Kokomo|IN|40.49|-86.13|469
+Lawrenceburg|IN|39.09|-84.85|470
+Jeffersonville;New Albany|IN|38.29|-85.74|471
+Columbus|IN|39.20|-85.92|472
+Muncie|IN|40.19|-85.39|473
+Bloomington|IN|39.17|-86.53|474
+Washington|IN|38.66|-87.17|475
+Evansville|IN|37.97|-87.57|476 477
+Terre Haute|IN|39.47|-87.41|478
+Lafayette|IN|40.42|-86.88|479
+Detroit;Dearborn;Royal Oak;Livonia;Warren|MI|42.33|-83.05|480 481 482 483
+Flint|MI|43.01|-83.69|484 485
+Saginaw;Bay City|MI|43.42|-83.95|486 487
+Lansing|MI|42.73|-84.56|488 489
+Kalamazoo;Battle Creek|MI|42.29|-85.59|490 491
+Jackson|MI|42.25|-84.40|492
+Grand Rapids;Holland|MI|42.96|-85.67|493 494 495
+Traverse City|MI|44.76|-85.62|496
+Gaylord|MI|45.03|-84.67|497
+Marquette;Iron Mountain|MI|46.54|-87.40|498 499
+Des Moines;Ankeny|IA|41.59|-93.62|500 501 502 503
+Mason City|IA|43.15|-93.20|504
+Fort Dodge|IA|42.50|-94.17|505
+Waterloo;Cedar Falls|IA|42.49|-92.34|506 507
+Creston|IA|41.06|-94.36|508
+Sioux City|IA|42.50|-96.40|510 511
+Sheldon|IA|43.18|-95.86|512
+Spencer|IA|43.14|-95.14|513
+Carroll|IA|42.07|-94.87|514
+Council Bluffs|IA|41.26|-95.86|515 516
+Dubuque|IA|42.50|-90.66|520
+Decorah|IA|43.30|-91.79|521
+Cedar Rapids;Iowa City|IA|41.98|-91.67|522 523 524
+Ottumwa|IA|41.02|-92.41|525
+Burlington|IA|40.81|-91.11|526
+Davenport;Bettendorf|IA|41.52|-90.58|527 528
+Milwaukee;Waukesha;Racine;Kenosha|WI|43.04|-87.91|530 531 532 534
+Madison|WI|43.07|-89.40|535 537
+Lancaster|WI|42.85|-90.71|538
+Portage|WI|43.54|-89.46|539
+Hudson;River Falls|WI|44.97|-92.76|540
+Green Bay|WI|44.51|-88.01|541 542 543
+Wausau|WI|44.96|-89.63|544
+Rhinelander|WI|45.64|-89.41|545
+La Crosse|WI|43.80|-91.24|546
+Eau Claire|WI|44.81|-91.50|547
+Spooner|WI|45.82|-91.89|548
+Oshkosh;Appleton;Fond du Lac|WI|44.02|-88.54|549
+St Paul|MN|44.95|-93.09|550 551
+Minneapolis;Bloomington;Eagan;Shakopee|MN|44.98|-93.27|553 554 555
+Duluth|MN|46.79|-92.10|556 557 558
+Rochester|MN|44.02|-92.46|559
+Mankato|MN|44.16|-94.00|560
+Windom|MN|43.87|-95.12|561
+Willmar|MN|45.12|-95.04|562
+St Cloud|MN|45.56|-94.16|563
+Brainerd|MN|46.36|-94.20|564
+Detroit Lakes|MN|46.82|-95.85|565
+Bemidji|MN|47.47|-94.88|566
+Thief River Falls|MN|48.12|-96.18|567
+Sioux Falls|SD|43.54|-96.73|570 571
+Watertown|SD|44.90|-97.12|572
+Mitchell|SD|43.71|-98.03|573
+Aberdeen|SD|45.46|-98.49|574
+Pierre|SD|44.37|-100.35|575
+Mobridge|SD|45.54|-100.43|576
+Rapid City|SD|44.08|-103.23|577
+Fargo;West Fargo|ND|46.88|-96.79|580 581
+Grand Forks|ND|47.93|-97.03|582
+Devils Lake|ND|48.11|-98.86|583
+Jamestown|ND|46.91|-98.71|584
+Bismarck;Mandan|ND|46.81|-100.78|585
+Dickinson|ND|46.88|-102.79|586
+Minot|ND|48.23|-101.30|587
+Williston|ND|48.15|-103.62|588
+Billings|MT|45.78|-108.50|590 591
+Wolf Point|MT|48.09|-105.64|592
+Miles City|MT|46.41|-105.84|593
+Great Falls|MT|47.50|-111.30|594
+Havre|MT|48.55|-109.68|595
+Helena|MT|46.59|-112.04|596
+Butte;Bozeman|MT|46.00|-112.53|597
+Missoula|MT|46.87|-113.99|598
+Kalispell|MT|48.20|-114.31|599
+Chicago;Elk Grove Village;Joliet;Schaumburg;Cicero|IL|41.88|-87.63|600 601 602 603 604 606 607 608
+Aurora;Naperville|IL|41.76|-88.32|605
+Kankakee|IL|41.12|-87.86|609
+Rockford|IL|42.27|-89.09|610 611
+Rock Island;Moline|IL|41.51|-90.58|612
+La Salle|IL|41.33|-89.09|613
+Galesburg|IL|40.95|-90.37|614
+Peoria|IL|40.69|-89.59|615 616
+Bloomington;Normal|IL|40.48|-88.99|617
+Champaign;Urbana|IL|40.12|-88.24|618 619
+East St Louis;Edwardsville;Belleville|IL|38.62|-90.15|620 622
+Quincy|IL|39.94|-91.41|623
+Effingham|IL|39.12|-88.54|624
+Springfield|IL|39.80|-89.64|625 626 627
+Centralia|IL|38.53|-89.13|628
+Carbondale|IL|37.73|-89.22|629
+St Louis;St Charles|MO|38.63|-90.20|630 631 633
+Hannibal|MO|39.71|-91.36|634
+Kirksville|MO|40.19|-92.58|635
+Park Hills|MO|37.85|-90.52|636
+Cape Girardeau|MO|37.31|-89.52|637
+Sikeston|MO|36.88|-89.59|638
+Poplar Bluff|MO|36.76|-90.39|639
+Kansas City;Independence;North Kansas City|MO|39.10|-94.58|640 641
+St Joseph|MO|39.77|-94.85|644 645
+Chillicothe|MO|39.80|-93.55|646
+Harrisonville|MO|38.65|-94.35|647
+Joplin|MO|37.08|-94.51|648
+Jefferson City|MO|38.58|-92.17|650 651
+Columbia|MO|38.95|-92.33|652
+Sedalia|MO|38.70|-93.23|653
+Rolla|MO|37.95|-91.77|654 655
+Springfield|MO|37.21|-93.29|656 657 658
+Kansas City;Overland Park;Olathe;Lenexa|KS|39.11|-94.63|660 661 662
+Topeka|KS|39.05|-95.68|664 665 666 668
+Fort Scott|KS|37.84|-94.71|667
+Wichita|KS|37.69|-97.34|670 671 672
+Independence|KS|37.22|-95.71|673
+Salina|KS|38.84|-97.61|674
+Hutchinson|KS|38.06|-97.93|675
+Hays|KS|38.88|-99.33|676
+Colby|KS|39.40|-101.05|677
+Dodge City|KS|37.75|-100.02|678
+Liberal|KS|37.04|-100.92|679
+Omaha|NE|41.26|-95.93|680 681
+Lincoln|NE|40.81|-96.68|683 684 685
+Norfolk|NE|42.03|-97.42|686 687
+Grand Island|NE|40.92|-98.34|688
+Hastings|NE|40.59|-98.39|689
+McCook|NE|40.20|-100.63|690
+North Platte|NE|41.12|-100.77|691
+Valentine|NE|42.87|-100.55|692
+Scottsbluff|NE|41.87|-103.66|693
+New Orleans;Metairie;Kenner|LA|29.95|-90.07|700 701
+Houma;Thibodaux|LA|29.60|-90.72|703
+Hammond|LA|30.50|-90.46|704
+Lafayette|LA|30.22|-92.02|705
+Lake Charles|LA|30.23|-93.22|706
+Baton Rouge|LA|30.45|-91.15|707 708
+Shreveport;Bossier City|LA|32.53|-93.75|710 711
+Monroe|LA|32.51|-92.12|712
+Alexandria|LA|31.31|-92.45|713 714
+Pine Bluff|AR|34.23|-92.00|716
+Camden|AR|33.58|-92.83|717
+Texarkana|AR|33.44|-94.04|718
+Hot Springs|AR|34.50|-93.06|719
+Little Rock;North Little Rock;Conway|AR|34.75|-92.29|720 721 722
+West Memphis|AR|35.15|-90.18|723
+Jonesboro|AR|35.84|-90.70|724
+Batesville|AR|35.77|-91.64|725
+Harrison|AR|36.23|-93.11|726
+Fayetteville;Springdale;Rogers;Bentonville|AR|36.06|-94.16|727
+Russellville|AR|35.28|-93.13|728
+Fort Smith|AR|35.39|-94.40|729
+Oklahoma City;Edmond;Norman|OK|35.47|-97.52|730 731
+Ardmore|OK|34.17|-97.14|734
+Lawton|OK|34.60|-98.39|735
+Clinton|OK|35.52|-98.97|736
+Enid|OK|36.40|-97.88|737
+Woodward|OK|36.43|-99.39|738
+Guymon|OK|36.68|-101.48|739
+Tulsa;Broken Arrow|OK|36.15|-95.99|740 741 743
+Muskogee|OK|35.75|-95.37|744
+McAlester|OK|34.93|-95.77|745
+Ponca City|OK|36.71|-97.09|746
+Durant|OK|33.99|-96.37|747
+Shawnee|OK|35.33|-96.93|748
+Poteau|OK|35.05|-94.62|749
+Dallas;Irving;Garland;Plano;Mesquite;Grand Prairie|TX|32.78|-96.80|750 751 752 753
+Greenville|TX|33.14|-96.11|754
+Texarkana|TX|33.43|-94.05|755
+Longview|TX|32.50|-94.74|756
+Tyler|TX|32.35|-95.30|757
+Palestine|TX|31.76|-95.63|758
+Lufkin|TX|31.34|-94.73|759
+Fort Worth;Arlington;Alliance|TX|32.76|-97.33|760 761
+Denton|TX|33.21|-97.13|762
+Wichita Falls|TX|33.91|-98.49|763
+Eastland|TX|32.40|-98.82|764
+Temple;Killeen|TX|31.10|-97.34|765
+Waco|TX|31.55|-97.15|766 767
+Brownwood|TX|31.71|-98.99|768
+San Angelo|TX|31.46|-100.44|769
+Houston;Pasadena;Baytown;Katy;Sugar Land|TX|29.76|-95.37|770 771 772 774 775
+Conroe;Huntsville|TX|30.31|-95.46|773
+Beaumont;Port Arthur|TX|30.08|-94.13|776 777
+Bryan;College Station|TX|30.67|-96.37|778
+Victoria|TX|28.81|-97.00|779
+San Antonio;New Braunfels|TX|29.42|-98.49|780 781 782
+Corpus Christi|TX|27.80|-97.40|783 784
+McAllen;Pharr;Edinburg;Hidalgo|TX|26.20|-98.23|785
+Austin;Round Rock;San Marcos|TX|30.27|-97.74|786 787
+Uvalde;Del Rio|TX|29.21|-99.79|788
+Giddings|TX|30.18|-96.94|789
+Amarillo|TX|35.22|-101.83|790 791
+Childress|TX|34.43|-100.20|792
+Lubbock|TX|33.58|-101.85|793 794
+Abilene|TX|32.45|-99.73|795 796
+Midland;Odessa|TX|32.00|-102.08|797
+El Paso|TX|31.76|-106.49|798 799
+Laredo|TX|27.51|-99.51|
+Brownsville|TX|25.90|-97.50|
+Denver;Aurora;Commerce City;Lakewood|CO|39.74|-104.99|800 801 802 804
+Boulder|CO|40.01|-105.27|803
+Fort Collins;Loveland;Longmont|CO|40.59|-105.08|805
+Greeley|CO|40.42|-104.71|806
+Fort Morgan;Sterling|CO|40.25|-103.80|807
+Colorado Springs|CO|38.83|-104.82|808 809
+Pueblo|CO|38.25|-104.61|810
+Alamosa|CO|37.47|-105.87|811
+Salida|CO|38.53|-106.00|812
+Durango|CO|37.28|-107.88|813
+Grand Junction|CO|39.06|-108.55|814 815
+Glenwood Springs|CO|39.55|-107.32|816
+Cheyenne|WY|41.14|-104.82|820 822
+Cody|WY|44.53|-109.06|821
+Rawlins|WY|41.79|-107.24|823
+Worland|WY|44.02|-107.96|824
+Riverton|WY|43.02|-108.38|825
+Casper|WY|42.87|-106.31|826
+Gillette|WY|44.29|-105.50|827
+Sheridan|WY|44.80|-106.96|828
+Rock Springs|WY|41.59|-109.20|829 830 831
+Pocatello|ID|42.87|-112.45|832
+Twin Falls|ID|42.56|-114.46|833
+Idaho Falls|ID|43.49|-112.03|834
+Lewiston|ID|46.42|-117.02|835
+Boise;Nampa;Meridian|ID|43.62|-116.20|836 837
+Coeur d'Alene;Post Falls|ID|47.68|-116.78|838
+Salt Lake City;West Valley City;Sandy|UT|40.76|-111.89|840 841
+Ogden|UT|41.22|-111.97|843 844
+Price|UT|39.60|-110.81|845
+Provo;Orem|UT|40.23|-111.66|846 847
+St George|UT|37.10|-113.58|
+Phoenix;Mesa;Tempe;Chandler;Glendale;Goodyear|AZ|33.45|-112.07|850 852 853
+Globe|AZ|33.39|-110.79|855
+Tucson|AZ|32.22|-110.97|856 857
+Show Low|AZ|34.25|-110.03|859
+Flagstaff|AZ|35.20|-111.65|860
+Prescott|AZ|34.54|-112.47|863
+Kingman|AZ|35.19|-114.05|864
+Chambers|AZ|35.18|-109.43|865
+Yuma|AZ|32.69|-114.63|
+Nogales|AZ|31.34|-110.94|
+Albuquerque;Rio Rancho|NM|35.08|-106.65|870 871
+Gallup|NM|35.53|-108.74|873
+Farmington|NM|36.73|-108.22|874
+Santa Fe|NM|35.69|-105.94|875
+Las Vegas|NM|35.59|-105.22|877
+Socorro|NM|34.06|-106.89|878
+Truth or Consequences|NM|33.13|-107.25|879
+Las Cruces;Santa Teresa|NM|32.32|-106.76|880
+Clovis|NM|34.40|-103.21|881
+Roswell|NM|33.39|-104.52|882
+Carrizozo|NM|33.64|-105.88|883
+Tucumcari|NM|35.17|-103.72|884
+Las Vegas;Henderson;North Las Vegas|NV|36.17|-115.14|889 890 891
+Ely|NV|39.25|-114.89|893
+Reno;Sparks;McCarran|NV|39.53|-119.81|894 895
+Carson City|NV|39.16|-119.77|897
+Elko|NV|40.83|-115.76|898
+Los Angeles;Vernon;Commerce;Inglewood;Torrance;Carson|CA|34.05|-118.24|900 901 902 903 904 905 918
+Long Beach;Whittier;Compton|CA|33.77|-118.19|906 907 908
+Pasadena;Glendale|CA|34.15|-118.14|910 911 912
+Van Nuys;Burbank;North Hollywood;Santa Clarita|CA|34.19|-118.45|913 914 915 916
+Ontario;Pomona;City of Industry;Chino|CA|34.06|-117.65|917
+San Diego;Otay Mesa;Chula Vista|CA|32.72|-117.16|919 920 921
+Palm Springs;Indio|CA|33.83|-116.55|922
+San Bernardino;Fontana;Rialto;Redlands|CA|34.11|-117.29|923 924
+Riverside;Moreno Valley;Perris;Corona|CA|33.95|-117.40|925
+Santa Ana;Anaheim;Irvine|CA|33.75|-117.87|926 927 928
+Oxnard;Ventura|CA|34.20|-119.18|930
+Santa Barbara|CA|34.42|-119.70|931
+Bakersfield|CA|35.37|-119.02|932 933
+San Luis Obispo;Santa Maria|CA|35.28|-120.66|934
+Lancaster;Palmdale;Mojave|CA|34.70|-118.14|935
+Fresno|CA|36.74|-119.79|936 937 938
+Salinas;Monterey|CA|36.68|-121.66|939
+San Francisco;South San Francisco|CA|37.77|-122.42|940 941
+Palo Alto;San Mateo;Redwood City|CA|37.44|-122.14|943 944
+Oakland;Hayward;Fremont;Richmond|CA|37.80|-122.27|945 946 947 948
+San Rafael|CA|37.97|-122.53|949
+San Jose;Santa Clara;Sunnyvale|CA|37.34|-121.89|950 951
+Stockton;Tracy;Lathrop|CA|37.96|-121.29|952
+Modesto|CA|37.64|-121.00|953
+Santa Rosa|CA|38.44|-122.71|954
+Eureka|CA|40.80|-124.16|955
+Sacramento;West Sacramento|CA|38.58|-121.49|942 956 957 958
+Marysville;Chico|CA|39.15|-121.59|959
+Redding|CA|40.59|-122.39|960
+Truckee|CA|39.33|-120.18|961
+Honolulu|HI|21.31|-157.86|967 968
+Portland;Gresham;Hillsboro|OR|45.52|-122.68|970 971 972
+Salem|OR|44.94|-123.04|973
+Eugene|OR|44.05|-123.09|974
+Medford|OR|42.33|-122.87|975
+Klamath Falls|OR|42.22|-121.78|976
+Bend|OR|44.06|-121.31|977
+Pendleton;Hermiston|OR|45.67|-118.79|978
+Ontario|OR|44.03|-116.96|979
+Seattle;Bellevue;Kent;Renton|WA|47.61|-122.33|980 981
+Everett|WA|47.98|-122.20|982
+Tacoma;Fife;Puyallup|WA|47.25|-122.44|983 984
+Olympia|WA|47.04|-122.90|985
+Vancouver|WA|45.64|-122.66|986
+Wenatchee|WA|47.42|-120.31|988
+Yakima|WA|46.60|-120.51|989
+Spokane|WA|47.66|-117.43|990 991 992
+Pasco;Kennewick;Richland|WA|46.24|-119.10|993
+Clarkston|WA|46.42|-117.05|994
+Anchorage|AK|61.22|-149.90|995 996
+Fairbanks|AK|64.84|-147.72|997
+Juneau|AK|58.30|-134.42|998
+Ketchikan|AK|55.34|-131.64|999
+Toronto;Scarborough;Etobicoke;North York|ON|43.65|-79.38|M
+Mississauga|ON|43.59|-79.64|L4T L4V L4W L4X L4Y L4Z L5A L5B L5C L5E L5G L5H L5J L5K L5L L5M L5N L5R L5S L5T L5V L5W
+Brampton|ON|43.73|-79.76|L6P L6R L6S L6T L6V L6W L6X L6Y L6Z L7A
+Hamilton;Burlington|ON|43.26|-79.87|L7L L7M L7N L7P L7R L7S L7T L8 L9A L9B L9C L9G L9H L9K
+Oshawa;Whitby|ON|43.90|-78.86|L1G L1H L1J L1K L1L L1M L1N L1P L1R
+Barrie|ON|44.39|-79.69|L4M L4N L9J L9S
+London|ON|42.98|-81.25|N5V N5W N5X N5Y N5Z N6
+Windsor|ON|42.31|-83.04|N8 N9
+Kitchener;Waterloo;Cambridge|ON|43.45|-80.49|N1R N1S N1T N2
+Ottawa|ON|45.42|-75.70|K1 K2
+Kingston|ON|44.23|-76.49|K7K K7L K7M K7N K7P
+Sudbury|ON|46.49|-80.99|P3
+Thunder Bay|ON|48.38|-89.25|P7
+Montreal;Dorval;Saint-Laurent|QC|45.50|-73.57|H
+Laval|QC|45.61|-73.71|H7
+Quebec City;Quebec|QC|46.81|-71.21|G1 G2 G3
+Sherbrooke|QC|45.40|-71.89|J1
+Gatineau|QC|45.48|-75.70|J8 J9
+Trois-Rivieres|QC|46.34|-72.54|G8 G9
+Vancouver;Burnaby;Delta;Richmond|BC|49.28|-123.12|V5 V6 V7 V4
+Surrey;Langley|BC|49.19|-122.85|V3
+Abbotsford|BC|49.05|-122.31|V2S V2T V4X
+Kelowna|BC|49.89|-119.50|V1W V1X V1Y V1Z
+Kamloops|BC|50.67|-120.33|V2B V2C V2E V2H
+Prince George|BC|53.92|-122.75|V2K V2L V2M V2N
+Victoria|BC|48.43|-123.37|V8 V9A V9B V9C
+Calgary|AB|51.05|-114.07|T2 T3
+Edmonton|AB|53.55|-113.49|T5 T6
+Red Deer|AB|52.27|-113.81|T4N T4P T4R
+Lethbridge|AB|49.69|-112.84|T1H T1J T1K
+Grande Prairie|AB|55.17|-118.80|T8V T8W T8X
+Winnipeg|MB|49.90|-97.14|R2 R3
+Brandon|MB|49.85|-99.95|R7A R7B R7C
+Regina|SK|50.45|-104.61|S4
+Saskatoon|SK|52.13|-106.67|S7
+Halifax;Dartmouth|NS|44.65|-63.58|B3
+Moncton;Dieppe|NB|46.09|-64.78|E1A E1B E1C E1E E1G
+Saint John|NB|45.27|-66.06|E2
+Fredericton|NB|45.96|-66.64|E3A E3B E3C E3E E3G
+St John's|NL|47.56|-52.71|A1
+Charlottetown|PE|46.24|-63.13|C1A
+`
+
+// Geographic centroids [lat, lon] of states and provinces - only used when
+// MILEAGE_STATE_FALLBACK allows pricing a lane from its state alone
+export const STATE_CENTROIDS: Record<string, [number, number]> = {
+  AL: [32.8, -86.8], AK: [64.2, -152.5], AZ: [34.2, -111.7], AR: [34.9, -92.4], CA: [37.2, -119.4],
+  CO: [39.0, -105.5], CT: [41.6, -72.7], DE: [39.0, -75.5], DC: [38.9, -77.0], FL: [28.6, -82.4],
+  GA: [32.7, -83.4], HI: [20.3, -156.4], ID: [44.4, -114.6], IL: [40.0, -89.2], IN: [39.9, -86.3],
+  IA: [42.1, -93.5], KS: [38.5, -98.4], KY: [37.5, -85.3], LA: [31.1, -92.0], ME: [45.4, -69.2],
+  MD: [39.0, -76.8], MA: [42.3, -71.8], MI: [44.3, -85.4], MN: [46.3, -94.3], MS: [32.7, -89.7],
+  MO: [38.4, -92.5], MT: [47.0, -109.6], NE: [41.5, -99.8], NV: [39.3, -116.6], NH: [43.7, -71.6],
+  NJ: [40.2, -74.7], NM: [34.4, -106.1], NY: [42.9, -75.5], NC: [35.6, -79.4], ND: [47.5, -100.5],
+  OH: [40.3, -82.8], OK: [35.6, -97.5], OR: [43.9, -120.6], PA: [40.9, -77.8], RI: [41.7, -71.5],
+  SC: [33.9, -80.9], SD: [44.4, -100.2], TN: [35.9, -86.4], TX: [31.5, -99.3], UT: [39.3, -111.7],
+  VT: [44.1, -72.7], VA: [37.5, -78.9], WA: [47.4, -120.5], WV: [38.6, -80.6], WI: [44.6, -89.9],
+  WY: [43.0, -107.6],
+  AB: [55.0, -115.0], BC: [53.7, -127.6], MB: [53.8, -98.8], NB: [46.5, -66.2], NS: [45.0, -63.0],
+  ON: [50.0, -85.0], QC: [52.9, -73.5], SK: [54.0, -106.0]
+}
+
+let centroids: PostalCentroid[] | null = null
+
+/**
+ * Parsed dataset rows - one entry per name, so aliases share coordinates
+ */
+export function getPostalCentroids(): PostalCentroid[] {
+  if (centroids) return centroids
+
+  centroids = []
+  for (const row of DATA.split('\n')) {
+    if (!row.trim()) continue
+    const [names, state, lat, lon, prefixes] = row.split('|')
+    for (const city of names.split(';')) {
+      centroids.push({
+        city,
+        state,
+        lat: parseFloat(lat),
+        lon: parseFloat(lon),
+        prefixes: prefixes ? prefixes.split(' ').filter(Boolean) : [],
+        country: CANADIAN_PROVINCES.has(state) ? 'CA' : 'US'
+      })
+    }
+  }
+  return centroids
+}
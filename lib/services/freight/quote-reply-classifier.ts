@@ -0,0 +1,123 @@
+// /lib/services/freight/quote-reply-classifier.ts
+// Shipper replies on a thread that already carries a sent quote
+// Classifies the intent (accept, decline, counter-offer, question) and moves the Quote through its lifecycle
+
+import type { ProcessedEmail } from '@/lib/kv-client'
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import { findRepliedEmail } from '../email/email-threading'
+import { llmFactory, type LLMProviderName, type LLMSelection } from '../llm/llm-factory'
+import type { LLMExtractionResponse } from '../llm/llm-service'
+import { quoteService, type Quote, type QuoteStatus } from './quote-service'
+import { validateQuoteReply, QUOTE_REPLY_TARGET_STATUS, type QuoteReply } from './quote-reply'
+
+export interface QuoteReplyResult {
+  reply: QuoteReply
+  tokenUsage: LLMExtractionResponse['tokenUsage']
+  provider?: LLMProviderName    // Who answered - a fallback when the selected model failed
+}
+
+// Below this the intent is recorded but the quote is left for a human to move
+const MIN_CONFIDENCE = parseFloat(process.env.QUOTE_REPLY_MIN_CONFIDENCE || '0.7')
+
+// A sent quote can be answered; an expired one is found so a late "booked" still reaches review
+const ANSWERABLE: QuoteStatus[] = ['sent', 'expired']
+
+class QuoteReplyClassifier {
+  private enabled: boolean
+
+  constructor() {
+    this.enabled = process.env.QUOTE_REPLY_DETECTION !== 'false'
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /**
+   * The quote this email answers: the quote on the reply its In-Reply-To/References point at,
+   * else the newest sent (or since expired) quote on its thread, issued for an earlier email.
+   * Reruns stay on the quote they answered first.
+   */
+  async findQuote(email: ProcessedEmail): Promise<Quote | null> {
+    if (email.quoteReply) {
+      return quoteService.get(email.quoteReply.quoteId)
+    }
+
+    const answered = await findRepliedEmail(email)
+    if (answered?.quoteId) {
+      const quote = await quoteService.get(answered.quoteId)
+      if (quote && ANSWERABLE.includes(quote.status)) return quote
+    }
+    if (!email.threadId) return null
+
+    const ids = await kv.zrange<string[]>(KEYS.QUOTES_BY_THREAD(email.threadId), 0, -1, { rev: true })
+    const receivedAt = new Date(email.receivedAt).getTime()
+
+    for (const id of ids) {
+      const quote = await quoteService.get(String(id))
+      if (!quote || quote.emailId === email.id || !ANSWERABLE.includes(quote.status)) continue
+      // Mail that predates the quote cannot be answering it
+      if (receivedAt <= new Date(quote.sentAt || quote.createdAt).getTime()) continue
+      return quote
+    }
+    return null
+  }
+
+  /**
+   * Run the classification call. LLM errors propagate so the processor's retry
+   * policy applies; output that fails validation falls back to 'other'.
+   */
+  async classify(email: ProcessedEmail, quote: Quote, llm?: LLMSelection): Promise<QuoteReplyResult> {
+    const response = await llmFactory.getService(llm).classifyQuoteReply(email, quote)
+    const { intent, confidence, counterOffer, summary, issues } = validateQuoteReply(response.data)
+
+    const reply: QuoteReply = {
+      quoteId: quote.id,
+      intent,
+      confidence,
+      counterOffer,
+      summary,
+      lane: `${quote.origin} -> ${quote.destination}`,
+      quoteTotal: quote.total,
+      quoteStatus: quote.status,
+      issues,
+      model: response.model,
+      classifiedAt: new Date().toISOString()
+    }
+
+    console.log(`📨 Quote reply for ${email.id} on ${quote.id}:`, {
+      intent,
+      confidence,
+      counterOffer,
+      issues: issues.length,
+      tokens: response.tokenUsage.total
+    })
+
+    return { reply, tokenUsage: response.tokenUsage, provider: response.provider }
+  }
+
+  /**
+   * Move the quote for a confident accept or decline of a sent quote. Counter-offers
+   * are noted on the quote's history and left open for a human to answer.
+   */
+  async apply(email: ProcessedEmail, quote: Quote, reply: QuoteReply): Promise<QuoteReply> {
+    const target = QUOTE_REPLY_TARGET_STATUS[reply.intent]
+
+    if (target && quote.status === 'sent' && reply.confidence >= MIN_CONFIDENCE) {
+      const updated = await quoteService.update(quote.id, { status: target, by: email.from, note: reply.summary || undefined })
+      console.log(`🧾 Quote ${quote.id} ${target} by ${email.from}`)
+      return { ...reply, quoteStatus: updated.status }
+    }
+
+    if (reply.intent === 'counter_offer' && quote.status === 'sent') {
+      const amount = reply.counterOffer !== null ? `$${reply.counterOffer.toLocaleString('en-US')}` : 'no amount given'
+      await quoteService.update(quote.id, { by: email.from, note: `Counter-offer (${amount}): ${reply.summary}` })
+    }
+
+    return { ...reply, quoteStatus: quote.status }
+  }
+}
+
+// Export singleton instance
+export const quoteReplyClassifier = new QuoteReplyClassifier()
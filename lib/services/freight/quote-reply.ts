@@ -0,0 +1,64 @@
+// /lib/services/freight/quote-reply.ts
+// Typed intent of a shipper's reply to a quote we sent
+// Validates the classification call's JSON; the classifier itself lives in quote-reply-classifier.ts
+
+import type { QuoteStatus } from './quote-service'
+
+export const QUOTE_REPLY_INTENTS = ['accept', 'decline', 'counter_offer', 'question', 'other'] as const
+
+export type QuoteReplyIntent = typeof QUOTE_REPLY_INTENTS[number]
+
+// The quote status a confident reply moves a sent quote to
+export const QUOTE_REPLY_TARGET_STATUS: Partial<Record<QuoteReplyIntent, QuoteStatus>> = {
+  accept: 'accepted',
+  decline: 'declined'
+}
+
+export interface QuoteReply {
+  quoteId: string
+  intent: QuoteReplyIntent
+  confidence: number            // 0-1, as reported by the model
+  counterOffer: number | null   // All-in amount the sender proposed, if any
+  summary: string               // One line for the reviewer
+  lane: string                  // "Dallas, TX -> Atlanta, GA" - context for the reply prompt
+  quoteTotal: number
+  quoteStatus: QuoteStatus      // Quote status once the reply was applied
+  issues: string[]
+  model: string
+  classifiedAt: string
+}
+
+/**
+ * Check raw model output against the schema. Never throws - anything unusable
+ * becomes intent 'other' with zero confidence and is reported in `issues`.
+ */
+export function validateQuoteReply(raw: unknown): Pick<QuoteReply, 'intent' | 'confidence' | 'counterOffer' | 'summary' | 'issues'> {
+  const issues: string[] = []
+  const data = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, unknown> : {}
+  if (data !== raw) issues.push('Classification output is not an object')
+
+  // An unusable intent keeps zero confidence whatever the model reported
+  let intent: QuoteReplyIntent = 'other'
+  let confidence = 0
+  if ((QUOTE_REPLY_INTENTS as readonly unknown[]).includes(data.intent)) {
+    intent = data.intent as QuoteReplyIntent
+    if (typeof data.confidence === 'number' && data.confidence >= 0 && data.confidence <= 1) {
+      confidence = Math.round(data.confidence * 100) / 100
+    } else {
+      issues.push(`confidence: expected number between 0 and 1, got ${JSON.stringify(data.confidence)}`)
+    }
+  } else {
+    issues.push(`intent: unknown value ${JSON.stringify(data.intent)}`)
+  }
+
+  let counterOffer: number | null = null
+  if (typeof data.counter_offer === 'number' && data.counter_offer > 0) {
+    counterOffer = Math.round(data.counter_offer * 100) / 100
+  } else if (data.counter_offer != null) {
+    issues.push(`counter_offer: expected positive number, got ${JSON.stringify(data.counter_offer)}`)
+  }
+
+  const summary = typeof data.summary === 'string' ? data.summary.trim() : ''
+
+  return { intent, confidence, counterOffer, summary, issues }
+}
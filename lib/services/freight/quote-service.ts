@@ -0,0 +1,258 @@
+// /lib/services/freight/quote-service.ts
+// First-class quote records issued from rate engine prices
+// Numbered, time-limited and tracked through draft → sent → accepted/declined/expired
+
+import { format } from 'date-fns'
+import { type ProcessedEmail } from '@/lib/kv-client'
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import { formatLocation, type EquipmentType, type FreightRequest } from './freight-request'
+import type { RateLineItem, RateQuote } from './rate-engine'
+
+export const QUOTE_STATUSES = ['draft', 'sent', 'accepted', 'declined', 'expired'] as const
+
+export type QuoteStatus = typeof QUOTE_STATUSES[number]
+
+export interface QuoteEvent {
+  status: QuoteStatus
+  at: string
+  by: string
+  note?: string
+}
+
+export interface Quote {
+  id: string                 // Quote number, e.g. Q-2610-00042
+  emailId: string
+  threadId: string
+  customer: string           // Sender the quote was prepared for
+  origin: string
+  destination: string
+  miles: number
+  equipmentType: EquipmentType
+  lineItems: RateLineItem[]
+  total: number
+  cost: number
+  margin: number
+  marginPct: number
+  currency: 'USD'
+  validUntil: string
+  status: QuoteStatus
+  history: QuoteEvent[]
+  createdAt: string
+  updatedAt: string
+  sentAt?: string
+}
+
+export interface QuoteUpdate {
+  status?: QuoteStatus
+  validUntil?: string
+  by?: string
+  note?: string
+}
+
+export interface QuoteListOptions {
+  status?: QuoteStatus
+  emailId?: string
+  limit?: number
+  offset?: number
+}
+
+export const SYSTEM_AUTHOR = 'system'
+
+const NUMBER_PREFIX = process.env.QUOTE_NUMBER_PREFIX || 'Q'
+
+const VALID_DAYS = parseInt(process.env.QUOTE_VALID_DAYS || '7')
+
+// Accepted and declined are final; an expired quote can be re-issued once its date is extended
+const TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  draft: ['sent', 'expired'],
+  sent: ['accepted', 'declined', 'expired'],
+  expired: ['draft', 'sent'],
+  accepted: [],
+  declined: []
+}
+
+class QuoteService {
+  /**
+   * Issue a draft quote for an email's rate engine price. Re-processing an email
+   * re-prices its existing draft in place so the number stays stable.
+   */
+  async createDraft(email: ProcessedEmail, request: FreightRequest, rateQuote: RateQuote): Promise<Quote> {
+    const existing = email.quoteId ? await this.get(email.quoteId) : null
+    const now = new Date().toISOString()
+
+    const pricing = {
+      origin: formatLocation(request.origin),
+      destination: formatLocation(request.destination),
+      miles: rateQuote.miles,
+      equipmentType: rateQuote.equipmentType,
+      lineItems: rateQuote.lineItems,
+      total: rateQuote.total,
+      cost: rateQuote.cost,
+      margin: rateQuote.margin,
+      marginPct: rateQuote.marginPct,
+      currency: rateQuote.currency,
+      validUntil: this.computeValidUntil(request),
+      updatedAt: now
+    }
+
+    if (existing?.status === 'draft') {
+      const repriced: Quote = { ...existing, ...pricing }
+      await kv.set(KEYS.QUOTE(repriced.id), repriced)
+      console.log(`🧾 Re-priced draft quote ${repriced.id}: $${repriced.total}`)
+      return repriced
+    }
+
+    const quote: Quote = {
+      id: await this.nextNumber(),
+      emailId: email.id,
+      threadId: email.threadId,
+      customer: email.from,
+      ...pricing,
+      status: 'draft',
+      history: [{ status: 'draft', at: now, by: SYSTEM_AUTHOR }],
+      createdAt: now
+    }
+
+    await Promise.all([
+      kv.set(KEYS.QUOTE(quote.id), quote),
+      kv.zadd(KEYS.QUOTES_BY_CREATED, { score: Date.now(), member: quote.id }),
+      kv.zadd(KEYS.QUOTES_BY_THREAD(quote.threadId), { score: Date.now(), member: quote.id })
+    ])
+    console.log(`🧾 Issued quote ${quote.id} for ${email.id}: $${quote.total}, valid until ${quote.validUntil}`)
+    return quote
+  }
+
+  async get(id: string): Promise<Quote | null> {
+    const quote = await kv.get<Quote>(KEYS.QUOTE(id))
+    return quote ? this.expireIfDue(quote) : null
+  }
+
+  /**
+   * Newest first
+   */
+  async list(options: QuoteListOptions = {}): Promise<{ quotes: Quote[]; total: number }> {
+    const { status, emailId, limit = 50, offset = 0 } = options
+    const ids = await kv.zrange<string[]>(KEYS.QUOTES_BY_CREATED, 0, -1, { rev: true })
+
+    const loaded = await Promise.all(ids.map(id => this.get(String(id))))
+    const matching = loaded.filter((quote): quote is Quote =>
+      quote !== null &&
+      (!status || quote.status === status) &&
+      (!emailId || quote.emailId === emailId)
+    )
+
+    return {
+      quotes: matching.slice(offset, offset + limit),
+      total: matching.length
+    }
+  }
+
+  /**
+   * Change status and/or valid-until date. Throws on unknown quotes and
+   * transitions the lifecycle does not allow.
+   */
+  async update(id: string, update: QuoteUpdate): Promise<Quote> {
+    const quote = await this.get(id)
+    if (!quote) {
+      throw new Error(`Quote ${id} not found`)
+    }
+
+    const now = new Date().toISOString()
+    const by = update.by || SYSTEM_AUTHOR
+    let next: Quote = { ...quote, updatedAt: now }
+
+    if (update.validUntil !== undefined) {
+      const validUntil = new Date(update.validUntil)
+      if (isNaN(validUntil.getTime())) {
+        throw new Error(`Cannot update quote: "${update.validUntil}" is not a valid date`)
+      }
+      if (quote.status === 'accepted' || quote.status === 'declined') {
+        throw new Error(`Cannot change valid-until date of a quote that is ${quote.status}`)
+      }
+      next.validUntil = validUntil.toISOString()
+    }
+
+    if (update.status !== undefined && update.status !== quote.status) {
+      if (!TRANSITIONS[quote.status].includes(update.status)) {
+        throw new Error(`Cannot move quote from ${quote.status} to ${update.status}`)
+      }
+      if ((update.status === 'draft' || update.status === 'sent') && new Date(next.validUntil).getTime() <= Date.now()) {
+        throw new Error(`Cannot move quote to ${update.status}: valid-until date has passed`)
+      }
+      next = this.withStatus(next, update.status, by, update.note)
+    } else if (update.note) {
+      next.history = [...next.history, { status: next.status, at: now, by, note: update.note }]
+    }
+
+    await kv.set(KEYS.QUOTE(id), next)
+    return next
+  }
+
+  /**
+   * Record delivery of the reply carrying the quote - a no-op unless it is still a draft
+   */
+  async markSent(id: string): Promise<void> {
+    const quote = await this.get(id)
+    if (!quote || quote.status !== 'draft') return
+
+    await kv.set(KEYS.QUOTE(id), this.withStatus({ ...quote, updatedAt: new Date().toISOString() }, 'sent', SYSTEM_AUTHOR))
+    console.log(`🧾 Quote ${id} sent`)
+  }
+
+  /**
+   * Make sure the reply names an open quote - appends a reference line unless the number is already there
+   */
+  stampContent(quote: Quote, content: string): string {
+    if (content.includes(quote.id) || (quote.status !== 'draft' && quote.status !== 'sent')) return content
+    return `${content.trimEnd()}\n\n**Quote ${quote.id}** · ${this.formatTotal(quote)} all-in · valid until ${format(new Date(quote.validUntil), 'MMM d, yyyy')}`
+  }
+
+  formatTotal(quote: Quote): string {
+    return quote.total.toLocaleString('en-US', { style: 'currency', currency: quote.currency })
+  }
+
+  // Quotes lapse lazily - the first read after valid-until persists the change
+  private async expireIfDue(quote: Quote): Promise<Quote> {
+    if ((quote.status !== 'draft' && quote.status !== 'sent') || new Date(quote.validUntil).getTime() > Date.now()) {
+      return quote
+    }
+
+    const expired = this.withStatus({ ...quote, updatedAt: new Date().toISOString() }, 'expired', SYSTEM_AUTHOR)
+    await kv.set(KEYS.QUOTE(quote.id), expired)
+    console.log(`🧾 Quote ${quote.id} expired`)
+    return expired
+  }
+
+  private withStatus(quote: Quote, status: QuoteStatus, by: string, note?: string): Quote {
+    const at = quote.updatedAt
+    return {
+      ...quote,
+      status,
+      sentAt: status === 'sent' ? at : quote.sentAt,
+      history: [...quote.history, { status, at, by, ...(note ? { note } : {}) }]
+    }
+  }
+
+  // QUOTE_VALID_DAYS from now, but never past the end of the requested pickup day
+  private computeValidUntil(request: FreightRequest): string {
+    const validUntil = Date.now() + VALID_DAYS * 24 * 60 * 60 * 1000
+
+    const pickup = request.pickupWindow.latest || request.pickupWindow.earliest
+    if (pickup) {
+      const pickupEnd = new Date(pickup.length > 10 ? pickup : `${pickup}T23:59:59Z`).getTime()
+      if (pickupEnd > Date.now() && pickupEnd < validUntil) return new Date(pickupEnd).toISOString()
+    }
+
+    return new Date(validUntil).toISOString()
+  }
+
+  // Q-YYMM-00042 - the sequence is global so numbers never repeat across months
+  private async nextNumber(): Promise<string> {
+    const sequence = await kv.incr(KEYS.QUOTE_SEQUENCE)
+    return `${NUMBER_PREFIX}-${format(new Date(), 'yyMM')}-${String(sequence).padStart(5, '0')}`
+  }
+}
+
+// Export singleton instance
+export const quoteService = new QuoteService()
@@ -0,0 +1,114 @@
+// /lib/services/freight/rate-engine.test.ts
+// Lane pricing from the default rate tables: linehaul, minimum charge, fuel and margin
+// Mileage and fuel basis are built by hand, so nothing is read from KV
+
+import { describe, expect, it } from 'vitest'
+import type { FreightRequest } from './freight-request'
+import type { FuelSurcharge } from './fuel-surcharge'
+import type { MileageEstimate } from './lane-distance'
+import { rateEngine, type RateQuote } from './rate-engine'
+
+function request(overrides: Partial<FreightRequest> = {}): FreightRequest {
+  return {
+    origin: { city: 'Chicago', state: 'IL', zip: null },
+    destination: { city: 'Dallas', state: 'TX', zip: null },
+    pickupWindow: { earliest: '2026-10-20', latest: null },
+    deliveryWindow: { earliest: null, latest: null },
+    equipmentType: 'dry_van',
+    weightLbs: 40000,
+    commodity: null,
+    pieceCount: null,
+    hazmat: false,
+    accessorials: [],
+    ...overrides
+  }
+}
+
+function mileage(miles: number, originState = 'IL', destinationState = 'TX'): MileageEstimate {
+  const place = (state: string) => ({ label: state, state, lat: 0, lon: 0, precision: 'city' as const })
+  return {
+    miles,
+    straightLineMiles: Math.round(miles / 1.2),
+    circuityFactor: 1.2,
+    source: 'postal-centroid',
+    origin: place(originState),
+    destination: place(destinationState)
+  }
+}
+
+function fuel(band: FuelSurcharge['band']): FuelSurcharge {
+  return { region: 'midwest', weekOf: '2026-10-12', pricePerGallon: 3.8, band, stale: false }
+}
+
+function priced(...args: Parameters<typeof rateEngine.quote>): RateQuote {
+  const result = rateEngine.quote(...args)
+  if (!result.ok) throw new Error(result.reason)
+  return result.quote
+}
+
+function amount(quote: RateQuote, code: string): number | undefined {
+  return quote.lineItems.find(item => item.code === code)?.amount
+}
+
+describe('RateEngine.quote', () => {
+  it('charges linehaul per mile from the national dry van rate', () => {
+    const quote = priced(request(), mileage(1000))
+
+    expect(quote).toMatchObject({
+      originRegion: 'midwest',
+      destinationRegion: 'south_central',
+      laneKey: '*:*:dry_van',
+      ratePerMile: 2.1,
+      minimumApplied: false,
+      // 2,100 linehaul + 550 flat fuel at $0.55/mile before any ladder is imported
+      cost: 2650,
+      fuelSurchargePerMile: 0.55
+    })
+  })
+
+  it('uses the most specific lane entry', () => {
+    const quote = priced(request(), mileage(800, 'IL', 'NY'))
+    expect(quote).toMatchObject({ laneKey: 'midwest:northeast:dry_van', ratePerMile: 2.3 })
+  })
+
+  it('charges the minimum on a short haul', () => {
+    const quote = priced(request(), mileage(100))
+
+    expect(quote.minimumApplied).toBe(true)
+    expect(quote.minimumCharge).toBe(450)
+    // 100 miles x $2.10 = $210 is under the $450 minimum
+    expect(quote.cost).toBe(450 + 55)
+  })
+
+  it('adds the margin on the whole cost and folds it into linehaul', () => {
+    const quote = priced(request({ accessorials: ['liftgate'] }), mileage(1000))
+
+    expect(quote.cost).toBe(2800)
+    expect(quote.marginPct).toBe(15)
+    expect(quote.margin).toBe(420)
+    expect(amount(quote, 'linehaul')).toBe(2520)
+    expect(amount(quote, 'fuel')).toBe(550)
+    expect(amount(quote, 'liftgate')).toBe(150)
+    expect(quote.total).toBe(3220)
+  })
+
+  it('charges a cents-per-mile fuel band on the miles', () => {
+    const quote = priced(request(), mileage(1000), fuel({ minPrice: 3.75, maxPrice: 4, centsPerMile: 56 }))
+
+    expect(amount(quote, 'fuel')).toBe(560)
+    expect(quote.fuelSurchargePerMile).toBe(0.56)
+    expect(quote.fuelBasis?.band.centsPerMile).toBe(56)
+  })
+
+  it('charges a percentage fuel band on linehaul, after the minimum', () => {
+    const band = { minPrice: 3.75, maxPrice: 4, pct: 20 }
+
+    expect(amount(priced(request(), mileage(1000), fuel(band)), 'fuel')).toBe(420)
+    expect(amount(priced(request(), mileage(100), fuel(band)), 'fuel')).toBe(90)
+  })
+
+  it('refuses to price a lane outside the priced regions', () => {
+    const result = rateEngine.quote(request(), mileage(1000, 'IL', 'PR'))
+    expect(result).toEqual({ ok: false, reason: 'Origin or destination state is not in a priced region' })
+  })
+})
@@ -0,0 +1,199 @@
+// /lib/services/freight/rate-engine.ts
+// Deterministic lane pricing computed from an extracted FreightRequest
+// The reply prompt presents these numbers as authoritative - the LLM never prices on its own
+
+import type { Accessorial, EquipmentType, FreightRequest } from './freight-request'
+import type { FuelSurcharge } from './fuel-surcharge'
+import type { MileageEstimate } from './lane-distance'
+import { DEFAULT_RATE_CONFIG, REGION_BY_STATE, type RateConfig, type Region } from './rate-tables'
+
+export interface RateLineItem {
+  code: 'linehaul' | 'fuel' | 'hazmat' | Accessorial
+  label: string
+  amount: number
+}
+
+export interface RateQuote {
+  originRegion: Region
+  destinationRegion: Region
+  equipmentType: EquipmentType
+  laneKey: string              // Rate table entry that matched
+  miles: number
+  milesSource: MileageEstimate['source']
+  ratePerMile: number
+  minimumCharge: number
+  minimumApplied: boolean
+  fuelSurchargePerMile: number   // Effective rate, whatever the basis
+  fuelBasis: FuelSurcharge | null  // Diesel week and ladder band used; null for the flat fallback
+  cost: number                 // Carrier-side cost before margin
+  marginPct: number
+  margin: number
+  lineItems: RateLineItem[]    // Customer-facing; margin is folded into linehaul
+  total: number
+  currency: 'USD'
+  computedAt: string
+}
+
+export type RateQuoteResult =
+  | { ok: true; quote: RateQuote }
+  | { ok: false; reason: string }
+
+const ACCESSORIAL_LABELS: Record<Accessorial, string> = {
+  liftgate: 'Liftgate',
+  residential: 'Residential delivery',
+  inside_delivery: 'Inside delivery',
+  appointment: 'Appointment',
+  limited_access: 'Limited access',
+  driver_assist: 'Driver assist',
+  team: 'Team drivers',
+  tarps: 'Tarps',
+  pallet_jack: 'Pallet jack',
+  detention: 'Detention',
+  lumper: 'Lumper',
+  other: 'Other'
+}
+
+class RateEngine {
+  private config: RateConfig
+
+  constructor() {
+    this.config = {
+      ...DEFAULT_RATE_CONFIG,
+      laneRates: { ...DEFAULT_RATE_CONFIG.laneRates },
+      accessorialFees: { ...DEFAULT_RATE_CONFIG.accessorialFees }
+    }
+
+    // RATE_CONFIG='{"marginPct":18,"laneRates":{"*:*:dry_van":{...}}}' overrides per key
+    if (process.env.RATE_CONFIG) {
+      try {
+        const overrides = JSON.parse(process.env.RATE_CONFIG) as Partial<RateConfig>
+        this.config = {
+          ...this.config,
+          ...overrides,
+          laneRates: { ...this.config.laneRates, ...overrides.laneRates },
+          accessorialFees: { ...this.config.accessorialFees, ...overrides.accessorialFees }
+        }
+      } catch (error) {
+        console.warn('⚠️ Invalid RATE_CONFIG, using defaults:', error)
+      }
+    }
+
+    if (process.env.RATE_MARGIN_PCT) {
+      this.config.marginPct = parseFloat(process.env.RATE_MARGIN_PCT)
+    }
+  }
+
+  getConfig(): RateConfig {
+    return this.config
+  }
+
+  getRegion(state: string | null): Region | null {
+    return state ? REGION_BY_STATE[state] ?? null : null
+  }
+
+  /**
+   * Price a request over a measured lane. Fails (with a reason) rather than guessing
+   * when the region or equipment cannot be resolved. `fuel` comes from the fuel surcharge
+   * schedule; without it fuel is charged at the flat fuelSurchargePerMile.
+   */
+  quote(request: FreightRequest, mileage: MileageEstimate, fuel: FuelSurcharge | null = null): RateQuoteResult {
+    // Resolved states cover requests that only gave a ZIP
+    const originRegion = this.getRegion(mileage.origin.state)
+    const destinationRegion = this.getRegion(mileage.destination.state)
+    if (!originRegion || !destinationRegion) {
+      return { ok: false, reason: 'Origin or destination state is not in a priced region' }
+    }
+
+    const equipmentType = request.equipmentType
+    if (!equipmentType) {
+      return { ok: false, reason: 'Equipment type is unknown' }
+    }
+
+    const lane = this.findLaneRate(originRegion, destinationRegion, equipmentType)
+    if (!lane) {
+      return { ok: false, reason: `No rate table entry for ${equipmentType.replace(/_/g, ' ')}` }
+    }
+
+    const { ratePerMile, minimumCharge } = lane.rate
+    const linehaul = Math.max(mileage.miles * ratePerMile, minimumCharge)
+    const fuelCharge = this.fuelCharge(fuel, mileage.miles, linehaul)
+
+    const extras: RateLineItem[] = []
+    for (const accessorial of request.accessorials) {
+      const fee = this.config.accessorialFees[accessorial]
+      const amount = (fee?.flat || 0) + (fee?.perMile || 0) * mileage.miles
+      if (amount > 0) {
+        extras.push({ code: accessorial, label: ACCESSORIAL_LABELS[accessorial], amount: roundMoney(amount) })
+      }
+    }
+    if (request.hazmat && this.config.hazmatFee > 0) {
+      extras.push({ code: 'hazmat', label: 'Hazmat', amount: roundMoney(this.config.hazmatFee) })
+    }
+
+    const cost = roundMoney(linehaul + fuelCharge + extras.reduce((sum, item) => sum + item.amount, 0))
+    const margin = roundMoney(cost * (this.config.marginPct / 100))
+
+    const lineItems: RateLineItem[] = [
+      { code: 'linehaul', label: 'Linehaul', amount: roundMoney(linehaul + margin) },
+      { code: 'fuel', label: 'Fuel surcharge', amount: roundMoney(fuelCharge) },
+      ...extras
+    ]
+
+    return {
+      ok: true,
+      quote: {
+        originRegion,
+        destinationRegion,
+        equipmentType,
+        laneKey: lane.key,
+        miles: mileage.miles,
+        milesSource: mileage.source,
+        ratePerMile,
+        minimumCharge,
+        minimumApplied: mileage.miles * ratePerMile < minimumCharge,
+        fuelSurchargePerMile: mileage.miles > 0 ? roundMoney(fuelCharge / mileage.miles) : this.config.fuelSurchargePerMile,
+        fuelBasis: fuel,
+        cost,
+        marginPct: this.config.marginPct,
+        margin,
+        lineItems,
+        total: roundMoney(lineItems.reduce((sum, item) => sum + item.amount, 0)),
+        currency: 'USD',
+        computedAt: new Date().toISOString()
+      }
+    }
+  }
+
+  // Ladder bands charge per mile or as a percentage of linehaul
+  private fuelCharge(fuel: FuelSurcharge | null, miles: number, linehaul: number): number {
+    if (!fuel) return miles * this.config.fuelSurchargePerMile
+    if (fuel.band.pct !== undefined) return linehaul * (fuel.band.pct / 100)
+    return miles * ((fuel.band.centsPerMile ?? 0) / 100)
+  }
+
+  // Most specific entry wins: exact lane, then outbound, inbound, national
+  private findLaneRate(
+    origin: Region,
+    destination: Region,
+    equipment: EquipmentType
+  ): { key: string; rate: RateConfig['laneRates'][string] } | null {
+    const candidates = [
+      `${origin}:${destination}:${equipment}`,
+      `${origin}:*:${equipment}`,
+      `*:${destination}:${equipment}`,
+      `*:*:${equipment}`
+    ]
+    for (const key of candidates) {
+      const rate = this.config.laneRates[key]
+      if (rate) return { key, rate }
+    }
+    return null
+  }
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+// Export singleton instance
+export const rateEngine = new RateEngine()
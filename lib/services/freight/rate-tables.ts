@@ -0,0 +1,105 @@
+// /lib/services/freight/rate-tables.ts
+// Default pricing tables for the rate engine: regions, lane rates, fees and margin
+// Overridable per key with the RATE_CONFIG environment variable (JSON)
+
+import type { Accessorial, EquipmentType } from './freight-request'
+
+export type Region =
+  | 'northeast' | 'southeast' | 'midwest' | 'south_central'
+  | 'mountain' | 'west_coast' | 'pacific_northwest' | 'canada'
+
+export interface LaneRate {
+  ratePerMile: number
+  minimumCharge: number
+}
+
+export interface AccessorialFee {
+  flat?: number
+  perMile?: number
+}
+
+// One rung of the fuel surcharge ladder - a diesel price band and what it adds
+export interface SurchargeBand {
+  minPrice: number          // $/gal, inclusive
+  maxPrice: number | null   // $/gal, exclusive; null for the top band
+  centsPerMile?: number
+  pct?: number              // Percent of linehaul
+}
+
+export interface RateConfig {
+  // Keys are `${originRegion}:${destinationRegion}:${equipment}`; either region may be '*'
+  laneRates: Record<string, LaneRate>
+  fuelSurchargePerMile: number   // Fallback until a diesel price index has been imported
+  accessorialFees: Partial<Record<Accessorial, AccessorialFee>>
+  hazmatFee: number
+  marginPct: number
+}
+
+export const REGION_BY_STATE: Record<string, Region> = {
+  ME: 'northeast', NH: 'northeast', VT: 'northeast', MA: 'northeast', RI: 'northeast', CT: 'northeast',
+  NY: 'northeast', NJ: 'northeast', PA: 'northeast', DE: 'northeast', MD: 'northeast', DC: 'northeast',
+  VA: 'southeast', WV: 'southeast', NC: 'southeast', SC: 'southeast', GA: 'southeast', FL: 'southeast',
+  AL: 'southeast', MS: 'southeast', TN: 'southeast', KY: 'southeast',
+  OH: 'midwest', MI: 'midwest', IN: 'midwest', IL: 'midwest', WI: 'midwest', MN: 'midwest',
+  IA: 'midwest', MO: 'midwest', ND: 'midwest', SD: 'midwest', NE: 'midwest', KS: 'midwest',
+  TX: 'south_central', OK: 'south_central', AR: 'south_central', LA: 'south_central', NM: 'south_central',
+  CO: 'mountain', UT: 'mountain', WY: 'mountain', MT: 'mountain', ID: 'mountain', NV: 'mountain', AZ: 'mountain',
+  CA: 'west_coast', HI: 'west_coast',
+  OR: 'pacific_northwest', WA: 'pacific_northwest', AK: 'pacific_northwest',
+  AB: 'canada', BC: 'canada', MB: 'canada', NB: 'canada', NS: 'canada', ON: 'canada', QC: 'canada', SK: 'canada'
+}
+
+export const DEFAULT_RATE_CONFIG: RateConfig = {
+  laneRates: {
+    // National baseline per equipment type
+    '*:*:dry_van': { ratePerMile: 2.10, minimumCharge: 450 },
+    '*:*:reefer': { ratePerMile: 2.50, minimumCharge: 550 },
+    '*:*:flatbed': { ratePerMile: 2.60, minimumCharge: 600 },
+    '*:*:step_deck': { ratePerMile: 2.85, minimumCharge: 650 },
+    '*:*:conestoga': { ratePerMile: 2.95, minimumCharge: 650 },
+    '*:*:lowboy': { ratePerMile: 4.00, minimumCharge: 1200 },
+    '*:*:power_only': { ratePerMile: 1.85, minimumCharge: 400 },
+    '*:*:box_truck': { ratePerMile: 1.60, minimumCharge: 300 },
+    '*:*:hotshot': { ratePerMile: 1.90, minimumCharge: 350 },
+    '*:*:tanker': { ratePerMile: 3.10, minimumCharge: 750 },
+    '*:*:intermodal': { ratePerMile: 1.70, minimumCharge: 600 },
+
+    // Outbound California and inbound Florida are headhaul markets
+    'west_coast:*:dry_van': { ratePerMile: 2.45, minimumCharge: 500 },
+    'west_coast:*:reefer': { ratePerMile: 2.90, minimumCharge: 600 },
+    '*:southeast:reefer': { ratePerMile: 2.65, minimumCharge: 550 },
+    'southeast:*:dry_van': { ratePerMile: 1.85, minimumCharge: 450 },
+    'midwest:northeast:dry_van': { ratePerMile: 2.30, minimumCharge: 450 },
+    'south_central:midwest:flatbed': { ratePerMile: 2.75, minimumCharge: 600 }
+  },
+  fuelSurchargePerMile: 0.55,
+  accessorialFees: {
+    liftgate: { flat: 150 },
+    residential: { flat: 125 },
+    inside_delivery: { flat: 175 },
+    appointment: { flat: 50 },
+    limited_access: { flat: 125 },
+    driver_assist: { flat: 100 },
+    team: { perMile: 0.35 },
+    tarps: { flat: 100 },
+    pallet_jack: { flat: 75 },
+    detention: { flat: 0 },   // Billed per hour after the fact, not quoted up front
+    lumper: { flat: 0 }
+  },
+  hazmatFee: 250,
+  marginPct: 15
+}
+
+// Cents per mile by weekly diesel price - replaced by uploading a ladder to /api/fuel
+export const DEFAULT_FUEL_LADDER: SurchargeBand[] = [
+  { minPrice: 0, maxPrice: 3.00, centsPerMile: 40 },
+  { minPrice: 3.00, maxPrice: 3.25, centsPerMile: 44 },
+  { minPrice: 3.25, maxPrice: 3.50, centsPerMile: 48 },
+  { minPrice: 3.50, maxPrice: 3.75, centsPerMile: 52 },
+  { minPrice: 3.75, maxPrice: 4.00, centsPerMile: 56 },
+  { minPrice: 4.00, maxPrice: 4.25, centsPerMile: 60 },
+  { minPrice: 4.25, maxPrice: 4.50, centsPerMile: 64 },
+  { minPrice: 4.50, maxPrice: 4.75, centsPerMile: 68 },
+  { minPrice: 4.75, maxPrice: 5.00, centsPerMile: 72 },
+  { minPrice: 5.00, maxPrice: null, centsPerMile: 78 }
+]
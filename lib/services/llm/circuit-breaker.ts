@@ -0,0 +1,165 @@
+// /lib/services/llm/circuit-breaker.ts
+// Circuit breaker per LLM model - opens after consecutive failures, half-opens for a single trial call once the cooldown passes
+// State lives in KV next to the rate limits so every worker instance skips the same broken model
+
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import type { LLMProviderName } from './llm-factory'
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number    // Consecutive failures that open the circuit
+  cooldownMs: number          // How long it stays open before a trial call
+}
+
+export interface CircuitStatus {
+  provider: LLMProviderName
+  model: string
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt?: string
+  retryAt?: string            // When an open circuit half-opens
+  lastError?: string
+  lastFailureAt?: string
+}
+
+export interface CircuitCheck {
+  allowed: boolean
+  state: CircuitState
+  retryAfterMs: number
+}
+
+interface CircuitRecord {
+  failures: number
+  openedAt?: number
+  probeUntil?: number         // A half-open trial call is in flight until then
+  lastError?: string
+  lastFailureAt?: number
+}
+
+class CircuitBreaker {
+  // Serializes read-modify-write of circuit state within this instance
+  private pending: Promise<unknown> = Promise.resolve()
+
+  /**
+   * LLM_CIRCUIT_FAILURE_THRESHOLD (default 5) and LLM_CIRCUIT_COOLDOWN_MS (default 60s)
+   */
+  getConfig(): CircuitBreakerConfig {
+    return {
+      failureThreshold: Math.max(1, parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5')),
+      cooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '60000')
+    }
+  }
+
+  /**
+   * May this model be called now? A half-open circuit lets one trial call through
+   * and turns the rest away until that call reports back.
+   */
+  async allow(provider: LLMProviderName, model: string): Promise<CircuitCheck> {
+    let check: CircuitCheck = { allowed: true, state: 'closed', retryAfterMs: 0 }
+
+    await this.update(provider, model, record => {
+      const now = Date.now()
+      const state = this.stateOf(record, now)
+
+      if (state === 'closed') return record
+      if (state === 'open') {
+        check = { allowed: false, state, retryAfterMs: record!.openedAt! + this.getConfig().cooldownMs - now }
+        return record
+      }
+
+      if (record!.probeUntil && record!.probeUntil > now) {
+        check = { allowed: false, state, retryAfterMs: record!.probeUntil - now }
+        return record
+      }
+
+      // The trial call gets as long as a cooldown to answer before another one is allowed
+      check = { allowed: true, state, retryAfterMs: 0 }
+      return { ...record!, probeUntil: now + this.getConfig().cooldownMs }
+    })
+
+    return check
+  }
+
+  /**
+   * The model answered - close its circuit and forget earlier failures
+   */
+  async recordSuccess(provider: LLMProviderName, model: string): Promise<void> {
+    await this.update(provider, model, record => {
+      if (record && this.stateOf(record, Date.now()) !== 'closed') {
+        console.log(`🟢 Circuit closed for ${provider}/${model}`)
+      }
+      return null
+    })
+  }
+
+  /**
+   * The model failed after its own retries. Opens the circuit at the threshold,
+   * or straight away when the half-open trial call is what failed.
+   */
+  async recordFailure(provider: LLMProviderName, model: string, error: string): Promise<void> {
+    const { failureThreshold } = this.getConfig()
+
+    await this.update(provider, model, record => {
+      const now = Date.now()
+      const state = this.stateOf(record, now)
+      const failures = (record?.failures || 0) + 1
+      const next: CircuitRecord = { failures, lastError: error, lastFailureAt: now }
+
+      if (state === 'open') {
+        // A call that started before the circuit opened - keep the original timer
+        return { ...next, openedAt: record!.openedAt }
+      }
+      if (state === 'half-open' || failures >= failureThreshold) {
+        console.log(`🔴 Circuit open for ${provider}/${model} after ${failures} consecutive failures: ${error}`)
+        return { ...next, openedAt: now }
+      }
+      return next
+    })
+  }
+
+  async getStatus(provider: LLMProviderName, model: string): Promise<CircuitStatus> {
+    const record = await kv.get<CircuitRecord>(KEYS.CIRCUIT(provider, model))
+    const state = this.stateOf(record, Date.now())
+    const iso = (time?: number) => time ? new Date(time).toISOString() : undefined
+
+    return {
+      provider,
+      model,
+      state,
+      consecutiveFailures: record?.failures || 0,
+      openedAt: state !== 'closed' ? iso(record?.openedAt) : undefined,
+      retryAt: state === 'open' ? iso(record!.openedAt! + this.getConfig().cooldownMs) : undefined,
+      lastError: record?.lastError,
+      lastFailureAt: iso(record?.lastFailureAt)
+    }
+  }
+
+  // Open until the cooldown has passed since opening, then half-open until a call reports back
+  private stateOf(record: CircuitRecord | null, now: number): CircuitState {
+    if (!record?.openedAt) return 'closed'
+    return now < record.openedAt + this.getConfig().cooldownMs ? 'open' : 'half-open'
+  }
+
+  // Returning null removes the record - a closed circuit with no failures
+  private update(provider: LLMProviderName, model: string, fn: (record: CircuitRecord | null) => CircuitRecord | null): Promise<void> {
+    const run = this.pending.then(async () => {
+      const key = KEYS.CIRCUIT(provider, model)
+      const record = await kv.get<CircuitRecord>(key)
+      const next = fn(record)
+
+      if (next === record) return
+      if (next) {
+        await kv.set(key, next)
+      } else if (record) {
+        await kv.del(key)
+      }
+    })
+    this.pending = run.catch(() => undefined)
+    return run
+  }
+}
+
+// Export singleton instance
+export const circuitBreaker = new CircuitBreaker()
@@ -1,13 +1,21 @@
 // /lib/services/llm-factory.ts
-// Factory pattern for selecting the appropriate LLM service
-// Automatically routes to GPT-4 or GPT-5 based on model configuration
+// Registry of LLM providers behind ILLMService - OpenAI, Anthropic, any OpenAI-compatible endpoint, and a scripted mock
+// Provider and model can be chosen per request; LLM_PROVIDER and each provider's *_MODEL are the defaults
+// Calls fall back along LLM_FALLBACK_CHAIN when a model fails or its circuit breaker is open
 
-import { llmService } from './llm-service'
-import { llmGPT4Service } from './llm-service-gpt-4'
+import { LLMService, type LLMExtractionResponse, type ReplyOptions } from './llm-service'
+import { LLMGPT4Service } from './llm-service-gpt-4'
+import { LLMAnthropicService } from './llm-service-anthropic'
+import { LLMMockService } from './llm-service-mock'
+import { llmFixtures } from './llm-fixtures'
+import { FallbackLLMService } from './llm-fallback'
+import { circuitBreaker, type CircuitStatus } from './circuit-breaker'
 import { ProcessedEmail } from '@/lib/kv-client'
+import type { Quote } from '../freight/quote-service'
+import type { ThreadContext } from '../email/thread-context'
 
 export interface ILLMService {
-  processEmail(email: ProcessedEmail): Promise<{
+  processEmail(email: ProcessedEmail, thread?: ThreadContext | null, options?: ReplyOptions): Promise<{
     content: string
     tokenUsage: {
       prompt: number
@@ -19,75 +27,268 @@ export interface ILLMService {
     category?: string
     priority?: number
     sentiment?: string
+    provider?: LLMProviderName    // Set by the fallback chain - who actually answered
   }>
+  extractFreightRequest(email: ProcessedEmail): Promise<LLMExtractionResponse>
+  classifyQuoteReply(email: ProcessedEmail, quote: Quote): Promise<LLMExtractionResponse>
   calculateCost(tokenUsage: { prompt: number; completion: number; total: number }): number
   testConnection(): Promise<{ success: boolean; message: string; model?: string }>
 }
 
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'openai-compatible', 'mock'] as const
+
+export type LLMProviderName = typeof LLM_PROVIDERS[number]
+
+// Which provider and model to run - either may be left out to use the configured default
+export interface LLMSelection {
+  provider?: LLMProviderName
+  model?: string
+}
+
+export interface LLMProviderInfo {
+  name: LLMProviderName
+  defaultModel: string
+  baseUrl: string
+  configured: boolean
+  requiredEnv: string     // What to set to configure it
+  isDefault: boolean
+}
+
+interface LLMProvider {
+  requiredEnv: string
+  defaultModel(): string
+  baseUrl(): string
+  maxTokens(model: string): number    // Reply output cap when the route sets none
+  isConfigured(): boolean
+  create(model: string): ILLMService
+}
+
+// Services only run behind FallbackLLMService, so a 429 or 5xx is thrown on the first attempt -
+// the fallback chain, circuit breaker and retry policy do the backoff instead of the adapter sleeping
+const CHAIN_ATTEMPTS = 1
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  openai: {
+    requiredEnv: 'OPENAI_API_KEY',
+    defaultModel: () => process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    baseUrl: () => process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    maxTokens: model => parseInt(process.env.OPENAI_MAX_TOKENS || (model.includes('gpt-5') ? '1000' : '500')),
+    isConfigured: () => !!process.env.OPENAI_API_KEY,
+    // GPT-5 models answer on the Responses API, everything else on Chat Completions
+    create: model => model.includes('gpt-5')
+      ? new LLMService({ model, maxRetries: CHAIN_ATTEMPTS })
+      : new LLMGPT4Service({ model, maxRetries: CHAIN_ATTEMPTS })
+  },
+  anthropic: {
+    requiredEnv: 'ANTHROPIC_API_KEY',
+    defaultModel: () => process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+    baseUrl: () => process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+    maxTokens: () => parseInt(process.env.ANTHROPIC_MAX_TOKENS || '1000'),
+    isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+    create: model => new LLMAnthropicService({ model, maxRetries: CHAIN_ATTEMPTS })
+  },
+  // A local Ollama (http://localhost:11434/v1), vLLM or any other Chat Completions server
+  'openai-compatible': {
+    requiredEnv: 'OPENAI_COMPATIBLE_BASE_URL',
+    defaultModel: () => process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+    baseUrl: () => process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+    maxTokens: () => parseInt(process.env.OPENAI_COMPATIBLE_MAX_TOKENS || '1000'),
+    isConfigured: () => !!process.env.OPENAI_COMPATIBLE_BASE_URL,
+    create: model => new LLMGPT4Service({
+      provider: 'openai-compatible',
+      model,
+      baseUrl: PROVIDERS['openai-compatible'].baseUrl(),
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+      maxTokens: PROVIDERS['openai-compatible'].maxTokens(model),
+      maxRetries: CHAIN_ATTEMPTS
+    })
+  },
+  // Scripted answers and simulated failures from LLM_MOCK_SCRIPT - no network, no cost
+  mock: {
+    requiredEnv: 'LLM_MOCK_SCRIPT',
+    defaultModel: () => process.env.LLM_MOCK_MODEL || 'mock',
+    baseUrl: () => '',
+    // Scripted answers have no output to budget for
+    maxTokens: () => 0,
+    isConfigured: () => true,
+    create: model => new LLMMockService({ model })
+  }
+}
+
 class LLMFactory {
-  private service: ILLMService | null = null
-  private modelType: 'gpt-4' | 'gpt-5' | 'unknown' = 'unknown'
-
-  constructor() {
-    this.initializeService()
-  }
-
-  private initializeService() {
-    const model = process.env.OPENAI_MODEL || 'gpt-4o-mini'
-    
-    // Determine which service to use based on model name
-    if (model.includes('gpt-5')) {
-      console.log('🤖 Using GPT-5 service for model:', model)
-      this.modelType = 'gpt-5'
-      this.service = llmService
-    } else if (model.includes('gpt-4')) {
-      console.log('🤖 Using GPT-4 service for model:', model)
-      this.modelType = 'gpt-4'
-      this.service = llmGPT4Service
-    } else {
-      // Default to GPT-4 service for unknown models
-      console.warn(`⚠️ Unknown model type: ${model}, defaulting to GPT-4 service`)
-      this.modelType = 'gpt-4'
-      this.service = llmGPT4Service
+  // One service per provider and model, built on first use
+  private services = new Map<string, ILLMService>()
+  // One fallback chain per selected provider and model
+  private chains = new Map<string, ILLMService>()
+
+  /**
+   * Get the service for a provider and model - the configured default when none is given.
+   * Calls go to the selected model first and then down the fallback chain.
+   */
+  getService(selection?: LLMSelection): ILLMService {
+    const { provider, model } = this.resolve(selection)
+    const key = `${provider}:${model}`
+
+    let chain = this.chains.get(key)
+    if (!chain) {
+      const entries = this.getFallbackChain({ provider, model })
+      console.log(`🔗 LLM chain for ${key}:`, entries.map(entry => `${entry.provider}:${entry.model}`).join(' -> '))
+      chain = new FallbackLLMService(entries.map(entry => ({ ...entry, service: this.getModelService(entry) })))
+      this.chains.set(key, chain)
     }
+    return chain
   }
 
   /**
-   * Get the appropriate LLM service
+   * The selected model followed by the configured LLM_FALLBACK_CHAIN, e.g.
+   * "gpt-4o,anthropic:claude-haiku-4-5" - entries are provider:model, a provider alone
+   * (its default model), or a model alone (on the selected provider). Fallbacks whose
+   * provider is not configured are left out.
    */
-  getService(): ILLMService {
-    if (!this.service) {
-      this.initializeService()
+  getFallbackChain(selection?: LLMSelection): Required<LLMSelection>[] {
+    const primary = this.resolve(selection)
+    const chain: Required<LLMSelection>[] = [primary]
+
+    for (const entry of (process.env.LLM_FALLBACK_CHAIN || '').split(',').map(part => part.trim()).filter(Boolean)) {
+      // Split on the first colon only - local model names carry tags like llama3.1:8b
+      const colon = entry.indexOf(':')
+      const head = colon === -1 ? entry : entry.slice(0, colon)
+      const fallback = this.isProvider(head)
+        ? this.resolve({ provider: head, model: colon === -1 ? undefined : entry.slice(colon + 1) })
+        : { provider: primary.provider, model: entry }
+
+      if (!PROVIDERS[fallback.provider].isConfigured() && llmFixtures.getMode() !== 'replay') continue
+      if (chain.some(existing => existing.provider === fallback.provider && existing.model === fallback.model)) continue
+      chain.push(fallback)
     }
-    return this.service!
+    return chain
   }
 
   /**
-   * Get the model type being used
+   * Circuit breaker state for every model in the chain
    */
-  getModelType(): 'gpt-4' | 'gpt-5' | 'unknown' {
-    return this.modelType
+  async getCircuits(selection?: LLMSelection): Promise<CircuitStatus[]> {
+    return Promise.all(this.getFallbackChain(selection).map(({ provider, model }) => circuitBreaker.getStatus(provider, model)))
   }
 
   /**
-   * Process an email using the appropriate service
+   * Fill in the defaults: LLM_PROVIDER (else openai), then that provider's configured model
    */
-  async processEmail(email: ProcessedEmail) {
-    return this.getService().processEmail(email)
+  resolve(selection?: LLMSelection): Required<LLMSelection> {
+    const provider = selection?.provider || this.getDefaultProvider()
+    return {
+      provider,
+      model: selection?.model || PROVIDERS[provider].defaultModel()
+    }
+  }
+
+  isProvider(name: unknown): name is LLMProviderName {
+    return typeof name === 'string' && (LLM_PROVIDERS as readonly string[]).includes(name)
   }
 
   /**
-   * Calculate cost using the appropriate pricing model
+   * Read { provider, model } from a request body. Null when the provider is not one we know.
    */
-  calculateCost(tokenUsage: { prompt: number; completion: number; total: number }): number {
-    return this.getService().calculateCost(tokenUsage)
+  parseSelection(input: { provider?: unknown; model?: unknown }): LLMSelection | null {
+    const provider = input.provider || undefined
+    if (provider !== undefined && !this.isProvider(provider)) return null
+
+    return {
+      provider,
+      model: typeof input.model === 'string' && input.model.trim() ? input.model.trim() : undefined
+    }
   }
 
   /**
-   * Test the connection
+   * Does the selected provider have what it needs to be called (API key or base URL)?
+   * Replaying fixtures needs neither.
    */
-  async testConnection() {
-    return this.getService().testConnection()
+  isConfigured(selection?: LLMSelection): boolean {
+    return this.getProviderInfo(selection).configured
+  }
+
+  getProviders(): LLMProviderInfo[] {
+    return LLM_PROVIDERS.map(name => this.getProviderInfo({ provider: name }))
+  }
+
+  getProviderInfo(selection?: LLMSelection): LLMProviderInfo {
+    const { provider } = this.resolve(selection)
+    return {
+      name: provider,
+      defaultModel: PROVIDERS[provider].defaultModel(),
+      baseUrl: PROVIDERS[provider].baseUrl(),
+      configured: PROVIDERS[provider].isConfigured() || llmFixtures.getMode() === 'replay',
+      requiredEnv: PROVIDERS[provider].requiredEnv,
+      isDefault: provider === this.getDefaultProvider()
+    }
+  }
+
+  /**
+   * Get the OpenAI API family behind the selection - 'unknown' for other providers
+   */
+  getModelType(selection?: LLMSelection): 'gpt-4' | 'gpt-5' | 'unknown' {
+    const { provider, model } = this.resolve(selection)
+    if (provider !== 'openai') return 'unknown'
+    return model.includes('gpt-5') ? 'gpt-5' : 'gpt-4'
+  }
+
+  /**
+   * Reply output cap the selected model runs with when its route does not set one
+   */
+  getMaxTokens(selection?: LLMSelection): number {
+    const { provider, model } = this.resolve(selection)
+    return PROVIDERS[provider].maxTokens(model)
+  }
+
+  /**
+   * Provider behind the selected service - keys rate limits and cost tracking
+   */
+  getProvider(selection?: LLMSelection): LLMProviderName {
+    return this.resolve(selection).provider
+  }
+
+  /**
+   * Process an email using the selected service
+   */
+  async processEmail(email: ProcessedEmail, selection?: LLMSelection) {
+    return this.getService(selection).processEmail(email)
+  }
+
+  /**
+   * Calculate cost using the selected model's pricing
+   */
+  calculateCost(tokenUsage: { prompt: number; completion: number; total: number }, selection?: LLMSelection): number {
+    return this.getModelService(this.resolve(selection)).calculateCost(tokenUsage)
+  }
+
+  /**
+   * Test the connection to the selected model itself, without falling back
+   */
+  async testConnection(selection?: LLMSelection) {
+    return this.getModelService(this.resolve(selection)).testConnection()
+  }
+
+  // The service for exactly this provider and model
+  private getModelService({ provider, model }: Required<LLMSelection>): ILLMService {
+    const key = `${provider}:${model}`
+
+    let service = this.services.get(key)
+    if (!service) {
+      console.log(`🤖 Using ${provider} service for model:`, model)
+      // Every service sits behind the fixture recorder, which passes calls through unless LLM_FIXTURE_MODE is set
+      service = llmFixtures.wrap(PROVIDERS[provider].create(model), { provider, model })
+      this.services.set(key, service)
+    }
+    return service
+  }
+
+  private getDefaultProvider(): LLMProviderName {
+    const configured = process.env.LLM_PROVIDER
+    if (!configured) return 'openai'
+    if (this.isProvider(configured)) return configured
+
+    console.warn(`⚠️ Unknown LLM_PROVIDER: ${configured}, defaulting to openai`)
+    return 'openai'
   }
 }
 
@@ -95,4 +296,4 @@ class LLMFactory {
 export const llmFactory = new LLMFactory()
 
 // Export for backward compatibility
-export const getLLMService = () => llmFactory.getService()
\ No newline at end of file
+export const getLLMService = () => llmFactory.getService()
@@ -0,0 +1,63 @@
+// /lib/services/llm/llm-fallback.test.ts
+// Fallback chain failures - a throttled model earlier in the chain is paused even when a later one fails too
+// LLM_FALLBACK_CHAIN is set before anything is imported; the chain is two mock models
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ProcessedEmail } from '@/lib/kv-client'
+import { kv } from '@/lib/storage/kv'
+import type { MemoryKV } from '@/lib/storage/memory-kv'
+import { llmFactory } from './llm-factory'
+import { mockLLMScript } from './llm-service-mock'
+import { rateLimiter } from './rate-limiter'
+
+vi.hoisted(() => {
+  process.env.LLM_FALLBACK_CHAIN = 'mock:backup'
+})
+
+const email = {
+  id: 'chain-1',
+  from: 'Dana Shipper <dana@shipper.test>',
+  subject: 'Carrier question',
+  body: 'Do you run trucks out of the Midwest?',
+  date: '2026-10-01T10:00:00Z'
+} as ProcessedEmail
+
+describe('FallbackLLMService', () => {
+  beforeEach(async () => {
+    await (kv as MemoryKV).flushall()
+  })
+
+  afterEach(() => {
+    mockLLMScript.reset()
+  })
+
+  it('pauses a rate-limited model when the next one in the chain fails another way', async () => {
+    mockLLMScript.load({
+      rules: [
+        { model: 'mock', error: { code: 'rate_limit', message: 'Simulated 429', retryAfter: 90 } },
+        { model: 'backup', error: { code: 'timeout', message: 'Simulated slow provider' } }
+      ]
+    })
+
+    const service = llmFactory.getService({ provider: 'mock', model: 'mock' })
+
+    // The caller sees the last model's error...
+    await expect(service.processEmail(email)).rejects.toMatchObject({ code: 'timeout', provider: 'mock' })
+
+    // ...and the throttled model is still held off for its retry-after
+    const permit = await rateLimiter.check('mock', 0)
+    expect(permit.allowed).toBe(false)
+    expect(permit.retryAfterMs).toBeGreaterThan(80_000)
+  })
+
+  it('answers from the next model without pausing anything when the first one times out', async () => {
+    mockLLMScript.load({
+      rules: [{ model: 'mock', error: { code: 'timeout', message: 'Simulated slow provider' } }]
+    })
+
+    const response = await llmFactory.getService({ provider: 'mock', model: 'mock' }).processEmail(email)
+
+    expect(response.model).toBe('backup')
+    expect((await rateLimiter.check('mock', 0)).allowed).toBe(true)
+  })
+})
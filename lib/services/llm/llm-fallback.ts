@@ -0,0 +1,99 @@
+// /lib/services/llm/llm-fallback.ts
+// Fallback chain over LLM models - each call goes to the first model whose circuit is not open,
+// and falls through to the next one when a model fails - adapters behind it throw on the first 429 or 5xx
+
+import { ProcessedEmail } from '@/lib/kv-client'
+import { circuitBreaker } from './circuit-breaker'
+import { rateLimiter } from './rate-limiter'
+import type { ILLMService, LLMProviderName } from './llm-factory'
+import type { LLMError, ReplyOptions } from './llm-service'
+import type { Quote } from '../freight/quote-service'
+import type { ThreadContext } from '../email/thread-context'
+
+export interface FallbackEntry {
+  provider: LLMProviderName
+  model: string
+  service: ILLMService
+}
+
+// Failures that say something about the model rather than the email - these move on to the next model
+const FALLBACK_CODES: LLMError['code'][] = ['rate_limit', 'api_error', 'timeout', 'empty_response']
+
+export class FallbackLLMService implements ILLMService {
+  constructor(private chain: FallbackEntry[]) {}
+
+  async processEmail(email: ProcessedEmail, thread?: ThreadContext | null, options?: ReplyOptions) {
+    return this.run('reply', email, service => service.processEmail(email, thread, options))
+  }
+
+  async extractFreightRequest(email: ProcessedEmail) {
+    return this.run('extraction', email, service => service.extractFreightRequest(email))
+  }
+
+  async classifyQuoteReply(email: ProcessedEmail, quote: Quote) {
+    return this.run('classification', email, service => service.classifyQuoteReply(email, quote))
+  }
+
+  // Priced as the first model - callers that know who answered ask the factory for that model
+  calculateCost(tokenUsage: { prompt: number; completion: number; total: number }): number {
+    return this.chain[0].service.calculateCost(tokenUsage)
+  }
+
+  async testConnection() {
+    return this.chain[0].service.testConnection()
+  }
+
+  private async run<T extends { model: string }>(
+    operation: string,
+    email: ProcessedEmail,
+    call: (service: ILLMService) => Promise<T>
+  ): Promise<T & { provider: LLMProviderName }> {
+    let lastError: unknown = null
+    let retryAfterMs: number | null = null
+
+    for (const [index, { provider, model, service }] of this.chain.entries()) {
+      const check = await circuitBreaker.allow(provider, model)
+      if (!check.allowed) {
+        console.log(`⏭️ Skipping ${provider}/${model} for ${operation} of ${email.id}: circuit ${check.state}`)
+        retryAfterMs = Math.min(retryAfterMs ?? check.retryAfterMs, check.retryAfterMs)
+        continue
+      }
+
+      try {
+        const response = await call(service)
+        await circuitBreaker.recordSuccess(provider, model)
+        if (index > 0) {
+          console.log(`↪️ ${operation} of ${email.id} answered by fallback ${provider}/${model}`)
+        }
+        return { ...response, provider }
+      } catch (error) {
+        const code = (error as LLMError)?.code
+        // Callers pause and charge the provider that failed, not the one they asked for
+        if (code) (error as LLMError).provider = provider
+        // The request itself is bad - another model will not fix it, and this one is healthy
+        if (code && !FALLBACK_CODES.includes(code)) throw error
+
+        // Only the last error reaches the caller - a throttled provider earlier in the chain is paused here
+        if (code === 'rate_limit') {
+          const retryAfter = (error as LLMError).retryAfter
+          await rateLimiter.pause(provider, retryAfter ? retryAfter * 1000 : 60_000)
+        }
+
+        const message = (error as LLMError)?.message || (error instanceof Error ? error.message : String(error))
+        await circuitBreaker.recordFailure(provider, model, message)
+        console.warn(`⚠️ ${provider}/${model} failed ${operation} of ${email.id} (${code || 'unknown'}): ${message}`)
+        lastError = error
+      }
+    }
+
+    if (lastError) throw lastError
+
+    // Every circuit is open - come back when the first one half-opens
+    const error: LLMError = {
+      code: 'api_error',
+      message: `No LLM model available: circuit open for ${this.chain.map(entry => `${entry.provider}/${entry.model}`).join(', ')}`,
+      retryAfter: Math.max(1, Math.ceil((retryAfterMs ?? 0) / 1000))
+    }
+    throw error
+  }
+}
@@ -0,0 +1,199 @@
+// /lib/services/llm/llm-fixtures.ts
+// Record/replay of LLM calls - LLM_FIXTURE_MODE=record saves every call and its answer to disk,
+// replay answers from those files without a provider, so production failures reproduce offline
+
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import type { ProcessedEmail } from '@/lib/kv-client'
+import type { ILLMService, LLMProviderName } from './llm-factory'
+import type { LLMError, ReplyOptions } from './llm-service'
+import type { MockLLMOperation } from './llm-service-mock'
+import type { Quote } from '../freight/quote-service'
+import type { ThreadContext } from '../email/thread-context'
+
+export type LLMFixtureMode = 'off' | 'record' | 'replay'
+
+export interface LLMFixture {
+  key: string
+  operation: MockLLMOperation
+  provider: LLMProviderName
+  model: string
+  recordedAt: string
+  request: {
+    emailId: string
+    from: string
+    subject: string
+    body: string
+    quoteId?: string
+    thread?: { summary: string | null; turns: string[] }
+    options?: ReplyOptions
+  }
+  response?: unknown          // What the service returned
+  error?: LLMError            // Or the failure it threw
+}
+
+// Everything besides the email that shapes the answer
+interface FixtureContext {
+  quote?: Quote
+  thread?: ThreadContext | null
+  options?: ReplyOptions
+}
+
+interface FixtureSource {
+  provider: LLMProviderName
+  model: string
+}
+
+class LLMFixtureStore {
+  private mode: LLMFixtureMode
+  private directory: string
+
+  constructor() {
+    const mode = process.env.LLM_FIXTURE_MODE
+    this.mode = mode === 'record' || mode === 'replay' ? mode : 'off'
+    this.directory = path.resolve(process.env.LLM_FIXTURE_DIR || '.llm-fixtures')
+
+    if (this.mode !== 'off') {
+      console.log(`📼 LLM fixtures: ${this.mode} in ${this.directory}`)
+    }
+  }
+
+  getMode(): LLMFixtureMode {
+    return this.mode
+  }
+
+  /**
+   * Switch mode at runtime - services already handed out follow along
+   */
+  configure(mode: LLMFixtureMode, directory?: string): void {
+    this.mode = mode
+    if (directory) this.directory = path.resolve(directory)
+  }
+
+  getDirectory(): string {
+    return this.directory
+  }
+
+  /**
+   * Put a provider's service behind the recorder; with fixtures off it is called as-is
+   */
+  wrap(service: ILLMService, source: FixtureSource): ILLMService {
+    return new FixtureLLMService(service, source, this)
+  }
+
+  /**
+   * Same operation on the same email content and context gives the same key, whatever provider answered
+   */
+  buildRequest(operation: MockLLMOperation, email: ProcessedEmail, extra: FixtureContext = {}): { key: string; request: LLMFixture['request'] } {
+    const content = {
+      from: email.from,
+      subject: email.subject,
+      body: email.body || email.snippet,
+      ...(extra.quote ? { quoteId: extra.quote.id } : {}),
+      ...(extra.thread ? { thread: { summary: extra.thread.summary, turns: extra.thread.turns.map(turn => turn.content) } } : {}),
+      ...(extra.options && Object.keys(extra.options).length > 0 ? { options: extra.options } : {})
+    }
+
+    // The email ID stays out of the key so a re-ingested copy of the email still replays
+    const key = createHash('sha256').update(JSON.stringify({ operation, ...content })).digest('hex').slice(0, 16)
+    return { key, request: { emailId: email.id, ...content } }
+  }
+
+  async save(fixture: LLMFixture): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(this.filePath(fixture.operation, fixture.key), JSON.stringify(fixture, null, 2), 'utf-8')
+    console.log(`📼 Recorded ${fixture.operation} for ${fixture.request.emailId} (${fixture.key})`)
+  }
+
+  async load(operation: MockLLMOperation, key: string): Promise<LLMFixture | null> {
+    try {
+      return JSON.parse(await readFile(this.filePath(operation, key), 'utf-8')) as LLMFixture
+    } catch {
+      return null
+    }
+  }
+
+  private filePath(operation: MockLLMOperation, key: string): string {
+    return path.join(this.directory, `${operation}-${key}.json`)
+  }
+}
+
+/**
+ * ILLMService decorator: records the inner service's answers, or replays them instead of calling it
+ */
+class FixtureLLMService implements ILLMService {
+  constructor(
+    private inner: ILLMService,
+    private source: FixtureSource,
+    private fixtures: LLMFixtureStore
+  ) {}
+
+  async processEmail(email: ProcessedEmail, thread?: ThreadContext | null, options?: ReplyOptions) {
+    return this.run('reply', email, { thread, options }, () => this.inner.processEmail(email, thread, options))
+  }
+
+  async extractFreightRequest(email: ProcessedEmail) {
+    return this.run('extract', email, {}, () => this.inner.extractFreightRequest(email))
+  }
+
+  async classifyQuoteReply(email: ProcessedEmail, quote: Quote) {
+    return this.run('classify', email, { quote }, () => this.inner.classifyQuoteReply(email, quote))
+  }
+
+  calculateCost(tokenUsage: { prompt: number; completion: number; total: number }): number {
+    return this.inner.calculateCost(tokenUsage)
+  }
+
+  async testConnection() {
+    if (this.fixtures.getMode() === 'replay') {
+      return { success: true, message: `Replaying fixtures from ${this.fixtures.getDirectory()}`, model: this.source.model }
+    }
+    return this.inner.testConnection()
+  }
+
+  private async run<T>(
+    operation: MockLLMOperation,
+    email: ProcessedEmail,
+    extra: FixtureContext,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const mode = this.fixtures.getMode()
+    if (mode === 'off') return call()
+
+    const { key, request } = this.fixtures.buildRequest(operation, email, extra)
+
+    if (mode === 'replay') {
+      const fixture = await this.fixtures.load(operation, key)
+      if (!fixture) {
+        // Not retryable - replaying again will not make the recording appear
+        throw { code: 'invalid_request', message: `No recorded LLM fixture for ${operation} of ${email.id} (${key})` }
+      }
+      console.log(`📼 Replaying ${operation} for ${email.id} from ${fixture.provider}/${fixture.model}`)
+      if (fixture.error) throw fixture.error
+      return fixture.response as T
+    }
+
+    const fixture: LLMFixture = {
+      key,
+      operation,
+      provider: this.source.provider,
+      model: this.source.model,
+      recordedAt: new Date().toISOString(),
+      request
+    }
+
+    try {
+      const response = await call()
+      await this.fixtures.save({ ...fixture, response })
+      return response
+    } catch (error) {
+      // Failures are recorded too - they are what we most want to reproduce
+      await this.fixtures.save({ ...fixture, error: error as LLMError })
+      throw error
+    }
+  }
+}
+
+// Export singleton instance
+export const llmFixtures = new LLMFixtureStore()
@@ -2,19 +2,124 @@
 // Centralized prompts for LLM services
 // Separating prompts from code for better maintainability
 
+import { EQUIPMENT_TYPES, ACCESSORIALS, QUOTE_FIELD_LABELS, formatLocation, type FreightExtraction } from '../freight/freight-request'
+import type { RateQuote } from '../freight/rate-engine'
+import type { Quote } from '../freight/quote-service'
+import { QUOTE_REPLY_INTENTS, type QuoteReply } from '../freight/quote-reply'
+import type { ThreadContext } from '../email/thread-context'
+
+// Reply styles the model router can pick (lib/services/llm/model-router.ts)
+export const PROMPT_VARIANTS = ['standard', 'brief', 'detailed'] as const
+
+export type PromptVariant = typeof PROMPT_VARIANTS[number]
+
+// Added after the system prompt for every variant but 'standard'
+const VARIANT_INSTRUCTIONS: Record<PromptVariant, string> = {
+  standard: '',
+  brief: `
+Reply style for this email:
+-It is a short acknowledgement or courtesy note. Answer in one or two sentences.
+-No headings, bullets or tables, and do not repeat details from earlier in the thread unless asked.
+`,
+  detailed: `
+Reply style for this email:
+-It is a complex request (several stops, attachments or many details). The 100-word aim does not apply.
+-Work through every stop and requirement in order, and list anything missing or unclear as questions.
+-Use a table for stops, dates and equipment when there is more than one.
+`
+}
+
+// Placeholders a system prompt template can use as {{name}} (lib/services/llm/prompt-registry.ts)
+// Each template version stores its own values for these
+export const PROMPT_VARIABLES = ['companyName', 'agentPersona', 'signature', 'pricingTerms'] as const
+
+// Placeholders filled from the email being answered each time the prompt is rendered - never stored
+export const EMAIL_PROMPT_VARIABLES = ['rateContext'] as const
+
+export type PromptVariable = typeof PROMPT_VARIABLES[number]
+
+export type EmailPromptVariable = typeof EMAIL_PROMPT_VARIABLES[number]
+
+export type PromptVariables = Record<PromptVariable, string>
+
+export type EmailPromptVariables = Record<EmailPromptVariable, string>
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g
+
 export interface EmailContext {
   from: string
   subject: string
   receivedAt: string
   body: string
+  extraction?: FreightExtraction
+  rateQuote?: RateQuote | null
+  quoteReply?: QuoteReply
 }
 
 export class LLMPrompts {
   /**
-   * Get the system prompt for Amara QUO
+   * Get the built-in system prompt for Amara QUO, in the reply style the route chose.
+   * Replies use the published template from the prompt registry; this is what it starts from.
    */
-  static getSystemPrompt(): string {
-    return `You are Fred, an AI assistant for freight / logistics.
+  static getSystemPrompt(variant: PromptVariant = 'standard', email?: Pick<EmailContext, 'extraction' | 'rateQuote'>): string {
+    return this.renderTemplate(this.getDefaultTemplate(variant), { ...this.getDefaultVariables(), ...this.getEmailVariables(email) })
+  }
+
+  /**
+   * Built-in system prompt template for a reply style, with {{variable}} placeholders
+   */
+  static getDefaultTemplate(variant: PromptVariant = 'standard'): string {
+    return this.getBaseTemplate() + VARIANT_INSTRUCTIONS[variant]
+  }
+
+  /**
+   * Values for the built-in template - PROMPT_COMPANY_NAME, PROMPT_AGENT_PERSONA,
+   * PROMPT_SIGNATURE and PROMPT_PRICING_TERMS override them
+   */
+  static getDefaultVariables(): PromptVariables {
+    const companyName = process.env.PROMPT_COMPANY_NAME || 'Amara QUO'
+    const validDays = parseInt(process.env.QUOTE_VALID_DAYS || '7')
+
+    return {
+      companyName,
+      agentPersona: process.env.PROMPT_AGENT_PERSONA || 'Fred, an AI assistant for freight / logistics',
+      signature: process.env.PROMPT_SIGNATURE || `Fred\n${companyName}`,
+      pricingTerms: process.env.PROMPT_PRICING_TERMS || `Prices are all-in USD with fuel surcharge included. Quotes stay valid for ${validDays} days.`
+    }
+  }
+
+  /**
+   * Values taken from the email being answered: {{rateContext}} is its rate engine
+   * pricing, fuel surcharge basis included - empty when the email is not a freight request
+   */
+  static getEmailVariables(email?: Pick<EmailContext, 'extraction' | 'rateQuote'>): EmailPromptVariables {
+    return {
+      rateContext: email ? this.formatPricingSection(email) : ''
+    }
+  }
+
+  /**
+   * Fill a template's {{variable}} placeholders. Unknown placeholders are left as written.
+   */
+  static renderTemplate(template: string, variables: PromptVariables & EmailPromptVariables): string {
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      this.isVariable(name) ? variables[name] : placeholder)
+  }
+
+  /**
+   * Placeholders in a template that are not one of PROMPT_VARIABLES or EMAIL_PROMPT_VARIABLES
+   */
+  static findUnknownVariables(template: string): string[] {
+    const names = Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1])
+    return Array.from(new Set(names.filter(name => !this.isVariable(name))))
+  }
+
+  private static isVariable(name: string): name is PromptVariable | EmailPromptVariable {
+    return (PROMPT_VARIABLES as readonly string[]).includes(name) || (EMAIL_PROMPT_VARIABLES as readonly string[]).includes(name)
+  }
+
+  private static getBaseTemplate(): string {
+    return `You are {{agentPersona}} at {{companyName}}.
 Your role is to analyze shipper requests, generate quotes, and provide market-aware insights.
 Always be concise, professional, and approachable. Aim for under 100 words unless detail is required.
 
@@ -26,9 +131,22 @@ Content rules:
 -Highlight key numbers, lanes, and risks in bold.
 -Use markdown with bullets or tables to make info easy to scan.
 -When uncertainty exists, state assumptions clearly.
+-End every reply with this signature:
+{{signature}}
 
+Conversation:
+-Earlier emails in the thread and the replies we sent come before the current email. Stay consistent with what was already said and quoted.
+-Older messages may be given as a condensed summary instead of in full.
+
+Pricing rules:
+-{{pricingTerms}}
+-Only quote the numbers given in the PRICING section below. They come from our rate engine and are final.
+-Never invent, estimate, round differently or adjust a price. If there is no PRICING section, or it says no rate is available, do not state any new dollar amount - only repeat prices already quoted earlier in the thread.
+-Never make up a quote number or validity date - a reference line with both is added to your reply automatically.
+-Never mention margin, carrier cost or how the linehaul was calculated. The fuel surcharge basis may be cited if the sender asks about fuel.
+{{rateContext}}
 Focus areas:
--Provide quotes aligned with market rates and margin protection.
+-Present quotes clearly: all-in total first, then the line items.
 -Suggest adjustments based on real-time market factors (capacity, fuel, seasonality).
 -Flag risks (compliance, carrier reliability, thin margins).
 -Respond to email/shipper tone appropriately (urgent, exploratory, transactional).
@@ -45,10 +163,96 @@ Received: ${new Date(email.receivedAt).toLocaleString()}
 
 Message:
 ${email.body}
-
+${this.formatQuoteReplySection(email)}
 Please analyze this email and provide an appropriate response.`
   }
 
+  /**
+   * Earlier turns of the thread as chat messages - the shipper's emails as user turns,
+   * our sent replies as assistant turns, older turns condensed into one summary message
+   */
+  static formatThreadHistory(thread: ThreadContext | null | undefined): { role: 'system' | 'user' | 'assistant'; content: string }[] {
+    if (!thread) return []
+
+    const messages: { role: 'system' | 'user' | 'assistant'; content: string }[] = []
+    if (thread.summary) {
+      messages.push({ role: 'system', content: `Earlier in this email thread (condensed):\n${thread.summary}` })
+    }
+
+    for (const turn of thread.turns) {
+      messages.push(turn.role === 'inbound'
+        ? { role: 'user', content: `From: ${turn.from}\nReceived: ${new Date(turn.at).toLocaleString()}\n\nMessage:\n${turn.content}` }
+        : { role: 'assistant', content: turn.content })
+    }
+
+    return messages
+  }
+
+  /**
+   * Authoritative rate engine numbers for the reply, or what is missing to price the load -
+   * the system prompt's {{rateContext}}
+   */
+  static formatPricingSection(email: Pick<EmailContext, 'extraction' | 'rateQuote'>): string {
+    if (!email.extraction?.isFreightRequest) return ''
+
+    const { request, missingFields } = email.extraction
+    const quote = email.rateQuote
+    const money = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+    if (!quote) {
+      const missing = missingFields.length > 0
+        ? `Ask the sender for: ${missingFields.map(field => QUOTE_FIELD_LABELS[field]).join(', ')}.`
+        : 'Tell the sender a team member will follow up with pricing.'
+      return `
+PRICING (authoritative):
+No rate is available for this request. Do not quote any price. ${missing}
+`
+    }
+
+    const lines = quote.lineItems.map(item => `- ${item.label}: ${money(item.amount)}`).join('\n')
+    const fuel = quote.fuelBasis
+    const fuelLine = fuel
+      ? `\nFuel surcharge basis: diesel ${money(fuel.pricePerGallon)}/gal (${fuel.region.replace(/_/g, ' ')} average, week of ${fuel.weekOf}) = ${fuel.band.pct !== undefined ? `${fuel.band.pct}% of linehaul` : `${fuel.band.centsPerMile} cents/mile`}`
+      : ''
+    return `
+PRICING (authoritative - use these exact numbers):
+Lane: ${formatLocation(request.origin)} -> ${formatLocation(request.destination)} (${quote.miles} miles, ${quote.equipmentType.replace(/_/g, ' ')})
+${lines}${fuelLine}
+All-in total: ${money(quote.total)} ${quote.currency}
+`
+  }
+
+  /**
+   * How to answer a reply to a quote we already sent - the intent was classified beforehand
+   */
+  static formatQuoteReplySection(email: Pick<EmailContext, 'quoteReply'>): string {
+    const reply = email.quoteReply
+    if (!reply) return ''
+
+    const total = `$${reply.quoteTotal.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    let instruction: string
+    if (reply.intent === 'accept' && reply.quoteStatus === 'accepted') {
+      instruction = 'The sender ACCEPTED the quote. Confirm the booking, thank them and say a rate confirmation will follow shortly. Do not re-quote.'
+    } else if (reply.intent === 'decline' && reply.quoteStatus === 'declined') {
+      instruction = 'The sender DECLINED the quote. Acknowledge it politely and invite them to send future loads. Do not offer a new price.'
+    } else if (reply.intent === 'counter_offer') {
+      const amount = reply.counterOffer !== null ? ` of $${reply.counterOffer.toLocaleString('en-US')}` : ''
+      instruction = `The sender made a COUNTER-OFFER${amount}. Do not accept, reject or counter it. Thank them and say a team member will review it and come back shortly.`
+    } else if (reply.intent === 'accept' || reply.intent === 'decline') {
+      instruction = reply.quoteStatus === 'expired'
+        ? 'The sender answered a quote that has EXPIRED. Do not confirm anything - say a team member will confirm current pricing.'
+        : 'The sender seems to be answering the quote, but it is not certain. Do not confirm a booking - ask them to confirm how they would like to proceed.'
+    } else {
+      instruction = 'Answer their question using the quoted details. Do not change the price or quote a new one.'
+    }
+
+    return `
+QUOTE REPLY (authoritative):
+This email replies to quote ${reply.quoteId} (${reply.lane}, ${total} all-in).
+${instruction}
+`
+  }
+
   /**
    * Get structured output schema for GPT-4 models
    */
@@ -100,6 +304,180 @@ Please analyze this email and provide an appropriate response.`
     }
   }
 
+  /**
+   * System prompt for the freight-request extraction step
+   */
+  static getFreightExtractionPrompt(): string {
+    return `You extract shipment details from emails sent to a freight brokerage.
+Return only what the sender actually states or clearly implies. Use null for anything unknown - never guess.
+
+Rules:
+-is_freight_request is true only when the sender wants a load moved or quoted.
+-States are two-letter codes (TX, ON). ZIPs are five digits.
+-Dates are ISO 8601 (YYYY-MM-DD, or YYYY-MM-DDTHH:mm when a time is given). Resolve relative dates ("next Tuesday") against the received date.
+-A single date goes in both earliest and latest.
+-Weight is total pounds; convert kg or tons.
+-hazmat is true only when hazardous materials, UN numbers or placards are mentioned.
+-Only list accessorials that are requested or required.
+`
+  }
+
+  /**
+   * Format email content for extraction - the received date anchors relative dates
+   */
+  static formatEmailForExtraction(email: EmailContext): string {
+    return `From: ${email.from}
+Subject: ${email.subject}
+Received: ${new Date(email.receivedAt).toISOString()}
+
+Message:
+${email.body}`
+  }
+
+  /**
+   * Strict JSON schema for FreightRequest extraction (Chat Completions response_format shape)
+   */
+  static getFreightRequestSchema() {
+    const nullableString = (description: string) => ({ type: ["string", "null"], description })
+    const location = (description: string) => ({
+      type: "object",
+      description,
+      properties: {
+        city: nullableString("City name"),
+        state: nullableString("Two-letter state or province code"),
+        zip: nullableString("Five-digit ZIP or postal code")
+      },
+      required: ["city", "state", "zip"],
+      additionalProperties: false
+    })
+    const window = (description: string) => ({
+      type: "object",
+      description,
+      properties: {
+        earliest: nullableString("Earliest ISO 8601 date or date-time"),
+        latest: nullableString("Latest ISO 8601 date or date-time")
+      },
+      required: ["earliest", "latest"],
+      additionalProperties: false
+    })
+
+    return {
+      type: "json_schema",
+      json_schema: {
+        name: "freight_request",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            is_freight_request: {
+              type: "boolean",
+              description: "Whether the sender is asking to move or quote a shipment"
+            },
+            origin: location("Pickup location"),
+            destination: location("Delivery location"),
+            pickup_window: window("When the load can be picked up"),
+            delivery_window: window("When the load must be delivered"),
+            equipment_type: {
+              type: ["string", "null"],
+              enum: [...EQUIPMENT_TYPES, null],
+              description: "Trailer or truck type required"
+            },
+            weight_lbs: {
+              type: ["number", "null"],
+              description: "Total weight in pounds"
+            },
+            commodity: nullableString("What is being shipped"),
+            piece_count: {
+              type: ["integer", "null"],
+              description: "Number of pallets, crates or pieces"
+            },
+            hazmat: {
+              type: "boolean",
+              description: "Whether the load contains hazardous materials"
+            },
+            accessorials: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: [...ACCESSORIALS]
+              },
+              description: "Extra services requested"
+            }
+          },
+          required: [
+            "is_freight_request", "origin", "destination", "pickup_window", "delivery_window",
+            "equipment_type", "weight_lbs", "commodity", "piece_count", "hazmat", "accessorials"
+          ],
+          additionalProperties: false
+        }
+      }
+    }
+  }
+
+  /**
+   * System prompt for classifying a reply to a quote we sent
+   */
+  static getQuoteReplyPrompt(): string {
+    return `You classify replies from shippers to a freight quote a brokerage sent them.
+Judge only what the sender says in this message - quoted earlier messages are context, not their answer.
+
+Intents:
+-accept: they agree to the quoted price and want the load booked ("booked", "let's do it", "send the rate con").
+-decline: they turn the quote down or have covered the load elsewhere.
+-counter_offer: they propose a different price or ask for a lower rate. Put the all-in amount they name in counter_offer.
+-question: they ask about the quote (timing, equipment, accessorials, fuel) without committing.
+-other: anything else.
+
+counter_offer is null unless the sender names a price. confidence is 0-1; use below 0.7 when the message is ambiguous.
+summary is one short sentence for the team describing what the sender wants.`
+  }
+
+  /**
+   * Reply plus the quote it answers, for the classification step
+   */
+  static formatQuoteReplyForClassification(email: EmailContext, quote: Pick<Quote, 'id' | 'origin' | 'destination' | 'total' | 'validUntil'>): string {
+    return `Quote ${quote.id}: ${quote.origin} -> ${quote.destination}, $${quote.total.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} all-in, valid until ${new Date(quote.validUntil).toISOString()}
+
+${this.formatEmailForExtraction(email)}`
+  }
+
+  /**
+   * Strict JSON schema for quote reply classification (Chat Completions response_format shape)
+   */
+  static getQuoteReplySchema() {
+    return {
+      type: "json_schema",
+      json_schema: {
+        name: "quote_reply",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            intent: {
+              type: "string",
+              enum: [...QUOTE_REPLY_INTENTS],
+              description: "What the sender wants to do with the quote"
+            },
+            confidence: {
+              type: "number",
+              description: "Confidence in the intent, 0-1"
+            },
+            counter_offer: {
+              type: ["number", "null"],
+              description: "All-in USD amount the sender proposes, if any"
+            },
+            summary: {
+              type: "string",
+              description: "One short sentence describing the reply"
+            }
+          },
+          required: ["intent", "confidence", "counter_offer", "summary"],
+          additionalProperties: false
+        }
+      }
+    }
+  }
+
   /**
    * Get a simplified prompt for testing
    */
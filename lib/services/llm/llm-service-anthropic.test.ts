@@ -0,0 +1,70 @@
+// /lib/services/llm/llm-service-anthropic.test.ts
+// Claude replies come back classified like OpenAI structured output
+// fetch is stubbed, so nothing reaches the Anthropic API
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { ProcessedEmail } from '@/lib/kv-client'
+import { LLMAnthropicService } from './llm-service-anthropic'
+
+const email = {
+  id: 'late-1',
+  from: 'Dana Shipper <dana@shipper.test>',
+  subject: 'Load 4411 delivered two days late',
+  body: 'Our load was delivered two days late and the receiver charged us for it.',
+  date: '2026-10-01T10:00:00Z'
+} as ProcessedEmail
+
+function stubMessagesAPI(content: unknown[]) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+    model: 'claude-sonnet-4-5',
+    content,
+    stop_reason: 'tool_use',
+    usage: { input_tokens: 120, output_tokens: 40 }
+  }), { status: 200 }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+describe('LLMAnthropicService.processEmail', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('returns the reply with its category, priority and sentiment', async () => {
+    const fetchMock = stubMessagesAPI([{
+      type: 'tool_use',
+      name: 'email_response',
+      input: {
+        response: 'Sorry about the late delivery - we are looking into it.',
+        category: 'complaint',
+        priority: 4,
+        requires_followup: true,
+        sentiment: 'negative',
+        suggested_actions: ['Call the carrier']
+      }
+    }])
+    const service = new LLMAnthropicService({ apiKey: 'test', baseUrl: 'http://anthropic.test', maxRetries: 1 })
+
+    const result = await service.processEmail(email)
+
+    expect(result).toMatchObject({
+      content: 'Sorry about the late delivery - we are looking into it.',
+      category: 'complaint',
+      priority: 4,
+      sentiment: 'negative',
+      tokenUsage: { prompt: 120, completion: 40, total: 160 }
+    })
+
+    // The reply tool is forced, so Claude cannot answer without classifying the email
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string)
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'email_response' })
+    expect(body.temperature).toBe(0.7)
+  })
+
+  it('treats a tool call without a reply as an empty response', async () => {
+    stubMessagesAPI([{ type: 'tool_use', name: 'email_response', input: { response: ' ', category: 'general' } }])
+    const service = new LLMAnthropicService({ apiKey: 'test', baseUrl: 'http://anthropic.test', maxRetries: 1 })
+
+    await expect(service.processEmail(email)).rejects.toMatchObject({ code: 'empty_response' })
+  })
+})
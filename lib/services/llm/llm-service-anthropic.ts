@@ -0,0 +1,424 @@
+// /lib/services/llm-service-anthropic.ts
+// Anthropic Messages API integration service
+// Replies and schema-constrained extraction go through a forced tool call - the tool's input is the JSON
+
+import { ProcessedEmail } from '@/lib/kv-client'
+import { LLMPrompts } from './llm-prompts'
+import type { LLMError, LLMExtractionResponse, LLMResponse, ReplyOptions } from './llm-service'
+import type { Quote } from '../freight/quote-service'
+import type { ThreadContext } from '../email/thread-context'
+
+export interface AnthropicServiceOptions {
+  apiKey: string
+  model: string
+  baseUrl: string
+  maxTokens: number
+  extractionMaxTokens: number
+  maxRetries: number
+}
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// Fields of LLMPrompts.getStructuredOutputSchema() a reply is returned with
+interface StructuredReply {
+  response: string
+  category: string
+  priority: number
+  sentiment: string
+}
+
+// A json_schema response format from LLMPrompts, as a tool the model must call
+interface SchemaTool {
+  name: string
+  description: string
+  input_schema: object
+}
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+export class LLMAnthropicService {
+  private apiKey: string
+  private model: string
+  private baseUrl: string
+  private maxTokens: number
+  private extractionMaxTokens: number
+  private maxRetries: number
+  private baseDelay: number = 1000
+
+  constructor(options: Partial<AnthropicServiceOptions> = {}) {
+    this.apiKey = options.apiKey ?? process.env.ANTHROPIC_API_KEY ?? ''
+    this.model = options.model || process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5'
+    this.baseUrl = (options.baseUrl || process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/+$/, '')
+    this.maxTokens = options.maxTokens ?? parseInt(process.env.ANTHROPIC_MAX_TOKENS || '1000')
+    this.maxRetries = options.maxRetries ?? 3
+    this.extractionMaxTokens = options.extractionMaxTokens ?? parseInt(process.env.EXTRACTION_MAX_TOKENS || '1000')
+
+    if (!this.apiKey) {
+      console.warn('⚠️ ANTHROPIC_API_KEY not configured')
+    }
+
+    console.log('🤖 Anthropic Service initialized:', {
+      model: this.model,
+      maxTokens: this.maxTokens,
+      hasApiKey: !!this.apiKey
+    })
+  }
+
+  /**
+   * Process an email with Claude, after the earlier turns of its thread when given
+   */
+  async processEmail(email: ProcessedEmail, thread?: ThreadContext | null, options: ReplyOptions = {}): Promise<LLMResponse & { category?: string; priority?: number; sentiment?: string }> {
+    const startTime = Date.now()
+
+    const messages = [
+      { role: 'system' as const, content: options.systemPrompt || LLMPrompts.getSystemPrompt(options.prompt, email) },
+      ...LLMPrompts.formatThreadHistory(thread),
+      { role: 'user' as const, content: LLMPrompts.formatEmailForProcessing({
+        from: email.from,
+        subject: email.subject,
+        receivedAt: email.receivedAt,
+        body: email.body || email.snippet,
+        extraction: email.extraction,
+        rateQuote: email.rateQuote,
+        quoteReply: email.quoteReply
+      }) }
+    ]
+
+    console.log('📝 Processing email with Claude:', email.subject)
+
+    try {
+      // The reply comes back with the same category, priority and sentiment as OpenAI structured
+      // output - the approval policy holds replies by category, so Claude must classify too
+      const tool = this.toSchemaTool(LLMPrompts.getStructuredOutputSchema(), 'Send the reply to this email, with how the email was classified')
+      const maxTokens = Math.max(options.maxTokens ?? this.maxTokens, 1000)
+      const response = await this.callMessagesAPI(messages, 1, tool, maxTokens, 0.7)
+      const structured = this.parseJSON(response.content) as Partial<StructuredReply> | null
+      const content = typeof structured?.response === 'string' ? structured.response : ''
+
+      if (!content.trim()) {
+        throw { code: 'empty_response', message: 'Received empty response from Claude' }
+      }
+
+      console.log('✅ Claude response received:', {
+        contentLength: content.length,
+        category: structured?.category,
+        priority: structured?.priority,
+        sentiment: structured?.sentiment,
+        tokens: response.tokenUsage
+      })
+
+      return {
+        ...response,
+        content,
+        category: structured?.category,
+        priority: structured?.priority,
+        sentiment: structured?.sentiment,
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      console.error('Claude processing failed:', error)
+      throw this.normalizeError(error)
+    }
+  }
+
+  /**
+   * Extract a FreightRequest as JSON under the strict schema
+   */
+  async extractFreightRequest(email: ProcessedEmail): Promise<LLMExtractionResponse> {
+    const startTime = Date.now()
+
+    const messages = [
+      { role: 'system' as const, content: LLMPrompts.getFreightExtractionPrompt() },
+      { role: 'user' as const, content: LLMPrompts.formatEmailForExtraction({
+        from: email.from,
+        subject: email.subject,
+        receivedAt: email.receivedAt,
+        body: email.body || email.snippet
+      }) }
+    ]
+
+    console.log('🔎 Extracting freight request with Claude:', email.subject)
+
+    try {
+      const tool = this.toSchemaTool(LLMPrompts.getFreightRequestSchema(), 'Record the freight request found in the email')
+      const response = await this.callMessagesAPI(messages, 1, tool)
+      return {
+        data: this.parseJSON(response.content),
+        tokenUsage: response.tokenUsage,
+        model: response.model,
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      console.error('Claude extraction failed:', error)
+      throw this.normalizeError(error)
+    }
+  }
+
+  /**
+   * Classify a reply to a quote we sent as JSON under the strict schema
+   */
+  async classifyQuoteReply(email: ProcessedEmail, quote: Quote): Promise<LLMExtractionResponse> {
+    const startTime = Date.now()
+
+    const messages = [
+      { role: 'system' as const, content: LLMPrompts.getQuoteReplyPrompt() },
+      { role: 'user' as const, content: LLMPrompts.formatQuoteReplyForClassification({
+        from: email.from,
+        subject: email.subject,
+        receivedAt: email.receivedAt,
+        body: email.body || email.snippet
+      }, quote) }
+    ]
+
+    console.log('📨 Classifying quote reply with Claude:', email.subject)
+
+    try {
+      const tool = this.toSchemaTool(LLMPrompts.getQuoteReplySchema(), 'Record how the sender answered the quote')
+      const response = await this.callMessagesAPI(messages, 1, tool)
+      return {
+        data: this.parseJSON(response.content),
+        tokenUsage: response.tokenUsage,
+        model: response.model,
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      console.error('Claude quote reply classification failed:', error)
+      throw this.normalizeError(error)
+    }
+  }
+
+  /**
+   * Call the Messages API - pass a tool to force a schema-constrained answer, returned as JSON text.
+   * Extraction and classification run deterministic under the extraction token limit.
+   */
+  private async callMessagesAPI(
+    messages: { role: 'system' | 'user' | 'assistant'; content: string }[],
+    attempt: number = 1,
+    tool?: SchemaTool,
+    maxTokens: number = tool ? this.extractionMaxTokens : this.maxTokens,
+    temperature: number = tool ? 0 : 0.7
+  ): Promise<LLMResponse> {
+    try {
+      const requestBody: Record<string, unknown> = {
+        model: this.model,
+        system: messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n'),
+        messages: this.toAnthropicMessages(messages),
+        max_tokens: maxTokens,
+        temperature
+      }
+      if (tool) {
+        requestBody.tools = [tool]
+        requestBody.tool_choice = { type: 'tool', name: tool.name }
+      }
+
+      console.log(`📤 Anthropic API call (attempt ${attempt}, model=${this.model})`)
+
+      const response = await fetch(`${this.baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify(requestBody)
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('❌ API Error:', response.status, errorText)
+
+        // Retry logic for rate limits
+        if (response.status === 429 && attempt < this.maxRetries) {
+          const retryAfter = parseInt(response.headers.get('retry-after') || '60')
+          console.log(`⏰ Rate limited, retrying in ${retryAfter}s`)
+          await this.delay(retryAfter * 1000)
+          return this.callMessagesAPI(messages, attempt + 1, tool, maxTokens, temperature)
+        }
+
+        // Retry for server errors, including 529 overloaded
+        if (response.status >= 500 && attempt < this.maxRetries) {
+          const delayMs = this.baseDelay * Math.pow(2, attempt - 1)
+          console.log(`⏰ Server error, retrying in ${delayMs}ms`)
+          await this.delay(delayMs)
+          return this.callMessagesAPI(messages, attempt + 1, tool, maxTokens, temperature)
+        }
+
+        throw {
+          code: response.status === 429 ? 'rate_limit' :
+                response.status >= 500 ? 'api_error' : 'invalid_request',
+          message: `Anthropic API error: ${response.status}`,
+          retryAfter: response.status === 429 ? parseInt(response.headers.get('retry-after') || '60') : undefined
+        }
+      }
+
+      const data = await response.json()
+      const blocks: { type: string; text?: string; input?: unknown }[] = data.content || []
+
+      const content = tool
+        ? JSON.stringify(blocks.find(block => block.type === 'tool_use')?.input ?? '')
+        : blocks.filter(block => block.type === 'text').map(block => block.text).join('')
+
+      if (!content || content === '""') {
+        console.error('❌ No content found in Anthropic response:', data.stop_reason)
+        throw { code: 'empty_response', message: `No content in Anthropic response (stop reason: ${data.stop_reason})` }
+      }
+
+      const prompt = (data.usage?.input_tokens || 0) + (data.usage?.cache_read_input_tokens || 0)
+      const completion = data.usage?.output_tokens || 0
+
+      return {
+        content,
+        tokenUsage: {
+          prompt,
+          completion,
+          total: prompt + completion
+        },
+        model: data.model || this.model,
+        processingTime: 0
+      }
+    } catch (error) {
+      if ((error as any).code) {
+        throw error
+      }
+
+      // Network error retry
+      if (attempt < this.maxRetries) {
+        const delayMs = this.baseDelay * Math.pow(2, attempt - 1)
+        console.log(`⏰ Network error, retrying in ${delayMs}ms`)
+        await this.delay(delayMs)
+        return this.callMessagesAPI(messages, attempt + 1, tool, maxTokens, temperature)
+      }
+
+      throw {
+        code: 'timeout',
+        message: 'Network error: ' + (error as Error).message
+      }
+    }
+  }
+
+  // System text moves to the top-level system field; turns must alternate and open with the user
+  private toAnthropicMessages(messages: { role: 'system' | 'user' | 'assistant'; content: string }[]): AnthropicMessage[] {
+    const turns: AnthropicMessage[] = []
+    for (const message of messages) {
+      if (message.role === 'system') continue
+      const last = turns[turns.length - 1]
+      if (last?.role === message.role) {
+        last.content = `${last.content}\n\n${message.content}`
+      } else {
+        turns.push({ role: message.role, content: message.content })
+      }
+    }
+
+    if (turns[0]?.role === 'assistant') {
+      turns.unshift({ role: 'user', content: '(Earlier message in this thread not available)' })
+    }
+    return turns
+  }
+
+  private toSchemaTool(format: { json_schema: { name: string; schema: object } }, description: string): SchemaTool {
+    return {
+      name: format.json_schema.name,
+      description,
+      input_schema: format.json_schema.schema
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION
+    }
+  }
+
+  private parseJSON(content: string): unknown {
+    try {
+      return JSON.parse(content)
+    } catch {
+      throw { code: 'empty_response', message: 'Tool output is not valid JSON' }
+    }
+  }
+
+  /**
+   * Normalize errors to standard format
+   */
+  private normalizeError(error: unknown): LLMError {
+    if (error && typeof error === 'object' && 'code' in error) {
+      return error as LLMError
+    }
+    return {
+      code: 'api_error',
+      message: error instanceof Error ? error.message : 'Unknown error occurred'
+    }
+  }
+
+  /**
+   * Delay utility for retries
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+  }
+
+  /**
+   * Calculate cost for Claude models
+   */
+  calculateCost(tokenUsage: { prompt: number; completion: number; total: number }): number {
+    // Claude pricing per 1M tokens
+    const costs: Record<string, { input: number; output: number }> = {
+      'opus': { input: 15.00, output: 75.00 },
+      'sonnet': { input: 3.00, output: 15.00 },
+      'haiku': { input: 0.80, output: 4.00 }
+    }
+
+    const tier = Object.keys(costs).find(key => this.model.includes(key)) || 'sonnet'
+    const pricing = costs[tier]
+
+    const promptCost = (tokenUsage.prompt / 1000000) * pricing.input
+    const completionCost = (tokenUsage.completion / 1000000) * pricing.output
+
+    return promptCost + completionCost
+  }
+
+  /**
+   * Test connection to the Anthropic API
+   */
+  async testConnection(): Promise<{ success: boolean; message: string; model?: string }> {
+    try {
+      if (!this.apiKey) {
+        return { success: false, message: 'API key not configured' }
+      }
+
+      const response = await fetch(`${this.baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          model: this.model,
+          system: LLMPrompts.getTestPrompt(),
+          messages: [
+            { role: 'user', content: 'Say "Hello, Claude connection test successful!"' }
+          ],
+          max_tokens: 20
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        return {
+          success: true,
+          message: 'Connection successful',
+          model: data.model || this.model
+        }
+      } else {
+        return {
+          success: false,
+          message: `Failed: ${response.status} - ${data.error?.message || 'Unknown error'}`
+        }
+      }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error: ${(error as Error).message}`
+      }
+    }
+  }
+}
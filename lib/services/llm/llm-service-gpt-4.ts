@@ -1,9 +1,13 @@
 // /lib/services/llm-service-gpt-4.ts
 // OpenAI GPT-4 integration service with structured outputs
-// Supports gpt-4o-mini and gpt-4o models
+// Supports gpt-4o-mini and gpt-4o models, and any OpenAI-compatible Chat Completions endpoint (Ollama, vLLM)
 
 import { ProcessedEmail } from '@/lib/kv-client'
 import { LLMPrompts } from './llm-prompts'
+import type { LLMExtractionResponse, ReplyOptions } from './llm-service'
+import type { LLMProviderName } from './llm-factory'
+import type { Quote } from '../freight/quote-service'
+import type { ThreadContext } from '../email/thread-context'
 
 export interface LLMResponse {
   content: string
@@ -25,6 +29,15 @@ export interface LLMError {
   retryAfter?: number
 }
 
+export interface ChatCompletionsServiceOptions {
+  provider: LLMProviderName       // 'openai', or 'openai-compatible' for a self-hosted endpoint
+  apiKey: string                  // Optional for self-hosted endpoints
+  model: string
+  baseUrl: string
+  maxTokens: number
+  maxRetries: number              // Attempts per call - 1 leaves backoff to the caller
+}
+
 interface StructuredResponse {
   response: string
   category: string
@@ -34,31 +47,39 @@ interface StructuredResponse {
   suggested_actions: string[]
 }
 
-class LLMGPT4Service {
+export class LLMGPT4Service {
+  private provider: LLMProviderName
   private apiKey: string
   private model: string
+  private baseUrl: string
   private maxTokens: number
+  private extractionMaxTokens: number
   private useStructuredOutput: boolean
-  private maxRetries: number = 3
+  private maxRetries: number
   private baseDelay: number = 1000
 
-  constructor() {
-    this.apiKey = process.env.OPENAI_API_KEY || ''
-    this.model = process.env.OPENAI_MODEL || 'gpt-4o-mini'
-    this.maxTokens = parseInt(process.env.OPENAI_MAX_TOKENS || '500')
+  constructor(options: Partial<ChatCompletionsServiceOptions> = {}) {
+    this.provider = options.provider || 'openai'
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY ?? ''
+    this.model = options.model || process.env.OPENAI_MODEL || 'gpt-4o-mini'
+    this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '')
+    this.maxTokens = options.maxTokens ?? parseInt(process.env.OPENAI_MAX_TOKENS || '500')
+    this.maxRetries = options.maxRetries ?? 3
+    this.extractionMaxTokens = parseInt(process.env.EXTRACTION_MAX_TOKENS || '1000')
     this.useStructuredOutput = process.env.USE_STRUCTURED_OUTPUT === 'true'
 
-    if (!this.apiKey) {
+    if (!this.apiKey && this.provider === 'openai') {
       console.warn('⚠️ OPENAI_API_KEY not configured')
     }
 
     // Validate model is GPT-4 series
-    if (!this.model.includes('gpt-4')) {
+    if (this.provider === 'openai' && !this.model.includes('gpt-4')) {
       console.warn(`⚠️ Model ${this.model} is not a GPT-4 series model. Use llm-service.ts for GPT-5 models.`)
     }
 
-    console.log('🤖 GPT-4 Service initialized:', {
+    console.log(`🤖 ${this.provider === 'openai' ? 'GPT-4' : 'OpenAI-compatible'} Service initialized:`, {
       model: this.model,
+      baseUrl: this.baseUrl,
       maxTokens: this.maxTokens,
       useStructuredOutput: this.useStructuredOutput,
       hasApiKey: !!this.apiKey
@@ -66,29 +87,33 @@ class LLMGPT4Service {
   }
 
   /**
-   * Process an email with GPT-4
+   * Process an email with GPT-4, after the earlier turns of its thread when given
    */
-  async processEmail(email: ProcessedEmail): Promise<LLMResponse> {
+  async processEmail(email: ProcessedEmail, thread?: ThreadContext | null, options: ReplyOptions = {}): Promise<LLMResponse> {
     const startTime = Date.now()
     
     // Use prompts from centralized location
-    const systemPrompt = LLMPrompts.getSystemPrompt()
+    const systemPrompt = options.systemPrompt || LLMPrompts.getSystemPrompt(options.prompt, email)
     const userContent = LLMPrompts.formatEmailForProcessing({
       from: email.from,
       subject: email.subject,
       receivedAt: email.receivedAt,
-      body: email.body || email.snippet
+      body: email.body || email.snippet,
+      extraction: email.extraction,
+      rateQuote: email.rateQuote,
+      quoteReply: email.quoteReply
     })
 
     const messages = [
       { role: 'system', content: systemPrompt },
+      ...LLMPrompts.formatThreadHistory(thread),
       { role: 'user', content: userContent }
     ]
 
     console.log('📝 Processing email with GPT-4:', email.subject)
 
     try {
-      const response = await this.callGPT4API(messages)
+      const response = await this.callGPT4API(messages, 1, undefined, options.maxTokens)
       
       if (!response.content || response.content.trim().length === 0) {
         throw { code: 'empty_response', message: 'Received empty response from GPT-4' }
@@ -112,34 +137,99 @@ class LLMGPT4Service {
   }
 
   /**
-   * Call GPT-4 Chat Completions API
+   * Extract a FreightRequest as JSON under the strict schema
    */
-  private async callGPT4API(messages: any[], attempt: number = 1): Promise<LLMResponse> {
+  async extractFreightRequest(email: ProcessedEmail): Promise<LLMExtractionResponse> {
+    const startTime = Date.now()
+
+    const messages = [
+      { role: 'system', content: LLMPrompts.getFreightExtractionPrompt() },
+      { role: 'user', content: LLMPrompts.formatEmailForExtraction({
+        from: email.from,
+        subject: email.subject,
+        receivedAt: email.receivedAt,
+        body: email.body || email.snippet
+      }) }
+    ]
+
+    console.log('🔎 Extracting freight request with GPT-4:', email.subject)
+
+    try {
+      const response = await this.callGPT4API(messages, 1, LLMPrompts.getFreightRequestSchema())
+      return {
+        data: this.parseJSON(response.content),
+        tokenUsage: response.tokenUsage,
+        model: response.model,
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      console.error('GPT-4 extraction failed:', error)
+      throw this.normalizeError(error)
+    }
+  }
+
+  /**
+   * Classify a reply to a quote we sent as JSON under the strict schema
+   */
+  async classifyQuoteReply(email: ProcessedEmail, quote: Quote): Promise<LLMExtractionResponse> {
+    const startTime = Date.now()
+
+    const messages = [
+      { role: 'system', content: LLMPrompts.getQuoteReplyPrompt() },
+      { role: 'user', content: LLMPrompts.formatQuoteReplyForClassification({
+        from: email.from,
+        subject: email.subject,
+        receivedAt: email.receivedAt,
+        body: email.body || email.snippet
+      }, quote) }
+    ]
+
+    console.log('📨 Classifying quote reply with GPT-4:', email.subject)
+
+    try {
+      const response = await this.callGPT4API(messages, 1, LLMPrompts.getQuoteReplySchema())
+      return {
+        data: this.parseJSON(response.content),
+        tokenUsage: response.tokenUsage,
+        model: response.model,
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      console.error('GPT-4 quote reply classification failed:', error)
+      throw this.normalizeError(error)
+    }
+  }
+
+  /**
+   * Call GPT-4 Chat Completions API - pass a response format to get schema-constrained JSON
+   */
+  private async callGPT4API(messages: any[], attempt: number = 1, responseFormat?: object, maxTokens: number = this.maxTokens): Promise<LLMResponse> {
     try {
       // Build request body based on configuration
       const requestBody: any = {
         model: this.model,
         messages: messages,
-        temperature: 0.7
+        temperature: responseFormat ? 0 : 0.7
       }
 
-      // Add structured output if enabled and model supports it
-      if (this.useStructuredOutput && this.supportsStructuredOutput()) {
+      if (responseFormat) {
+        // Extraction - deterministic output under the caller's schema
+        requestBody.response_format = responseFormat
+        requestBody.max_tokens = this.extractionMaxTokens
+      } else if (this.useStructuredOutput && this.supportsStructuredOutput()) {
+        // Add structured output if enabled and model supports it
         requestBody.response_format = LLMPrompts.getStructuredOutputSchema()
         // For structured outputs, we need higher token limit
-        requestBody.max_tokens = Math.max(this.maxTokens, 1000)
+        requestBody.max_tokens = Math.max(maxTokens, 1000)
       } else {
-        requestBody.max_tokens = this.maxTokens
+        requestBody.max_tokens = maxTokens
       }
 
-      console.log(`📤 GPT-4 API call (attempt ${attempt}, structured=${this.useStructuredOutput})`)
+      console.log(`📤 Chat Completions call to ${this.provider} (attempt ${attempt}, model=${this.model}, structured=${this.useStructuredOutput})`)
 
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
+        headers: this.headers(),
         body: JSON.stringify(requestBody)
       })
 
@@ -152,7 +242,7 @@ class LLMGPT4Service {
           const retryAfter = parseInt(response.headers.get('retry-after') || '60')
           console.log(`⏰ Rate limited, retrying in ${retryAfter}s`)
           await this.delay(retryAfter * 1000)
-          return this.callGPT4API(messages, attempt + 1)
+          return this.callGPT4API(messages, attempt + 1, responseFormat, maxTokens)
         }
 
         // Retry for server errors
@@ -160,13 +250,14 @@ class LLMGPT4Service {
           const delayMs = this.baseDelay * Math.pow(2, attempt - 1)
           console.log(`⏰ Server error, retrying in ${delayMs}ms`)
           await this.delay(delayMs)
-          return this.callGPT4API(messages, attempt + 1)
+          return this.callGPT4API(messages, attempt + 1, responseFormat, maxTokens)
         }
 
         throw {
           code: response.status === 429 ? 'rate_limit' : 
                 response.status >= 500 ? 'api_error' : 'invalid_request',
-          message: `GPT-4 API error: ${response.status}`
+          message: `${this.provider === 'openai' ? 'GPT-4' : 'OpenAI-compatible'} API error: ${response.status}`,
+          retryAfter: response.status === 429 ? parseInt(response.headers.get('retry-after') || '60') : undefined
         }
       }
 
@@ -178,7 +269,7 @@ class LLMGPT4Service {
       let priority: number | undefined
       let sentiment: string | undefined
 
-      if (this.useStructuredOutput && data.choices?.[0]?.message?.content) {
+      if (!responseFormat && this.useStructuredOutput && data.choices?.[0]?.message?.content) {
         try {
           const structured: StructuredResponse = JSON.parse(data.choices[0].message.content)
           content = structured.response
@@ -231,7 +322,7 @@ class LLMGPT4Service {
         const delayMs = this.baseDelay * Math.pow(2, attempt - 1)
         console.log(`⏰ Network error, retrying in ${delayMs}ms`)
         await this.delay(delayMs)
-        return this.callGPT4API(messages, attempt + 1)
+        return this.callGPT4API(messages, attempt + 1, responseFormat, maxTokens)
       }
       
       throw {
@@ -241,6 +332,14 @@ class LLMGPT4Service {
     }
   }
 
+  // Self-hosted endpoints usually run without a key
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+    }
+  }
+
   /**
    * Check if model supports structured outputs
    */
@@ -249,6 +348,14 @@ class LLMGPT4Service {
     return supportedModels.some(model => this.model.includes(model))
   }
 
+  private parseJSON(content: string): unknown {
+    try {
+      return JSON.parse(content)
+    } catch {
+      throw { code: 'empty_response', message: 'Extraction output is not valid JSON' }
+    }
+  }
+
   /**
    * Normalize errors to standard format
    */
@@ -273,6 +380,9 @@ class LLMGPT4Service {
    * Calculate cost for GPT-4 models
    */
   calculateCost(tokenUsage: { prompt: number; completion: number; total: number }): number {
+    // Self-hosted models have no per-token price
+    if (this.provider !== 'openai') return 0
+
     // GPT-4 pricing per 1K tokens (not 1M like GPT-5)
     const costs: Record<string, { input: number; output: number }> = {
       'gpt-4o': { input: 0.0025, output: 0.01 },          // $2.50/$10 per 1M
@@ -302,17 +412,14 @@ class LLMGPT4Service {
    */
   async testConnection(): Promise<{ success: boolean; message: string; model?: string }> {
     try {
-      if (!this.apiKey) {
+      if (!this.apiKey && this.provider === 'openai') {
         return { success: false, message: 'API key not configured' }
       }
 
       // Test with a simple completion
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
+        headers: this.headers(),
         body: JSON.stringify({
           model: this.model,
           messages: [
@@ -345,6 +452,3 @@ class LLMGPT4Service {
     }
   }
 }
-
-// Export singleton instance
-export const llmGPT4Service = new LLMGPT4Service()
\ No newline at end of file
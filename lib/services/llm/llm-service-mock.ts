@@ -0,0 +1,260 @@
+// /lib/services/llm-service-mock.ts
+// Deterministic LLM provider for running the pipeline without spending tokens
+// Scripted rules match on email ID or content and return a canned response or a simulated failure
+
+import { readFile } from 'fs/promises'
+import { ProcessedEmail } from '@/lib/kv-client'
+import type { LLMError, LLMExtractionResponse, LLMResponse } from './llm-service'
+import type { Quote } from '../freight/quote-service'
+import type { ThreadContext } from '../email/thread-context'
+
+export type MockLLMOperation = 'reply' | 'extract' | 'classify'
+
+// Every given field must match; text matches are case-insensitive substrings
+export interface MockLLMMatch {
+  emailId?: string
+  from?: string
+  subject?: string
+  contains?: string           // Subject or body
+}
+
+export interface MockLLMRule {
+  match?: MockLLMMatch        // Omitted: matches every call
+  operation?: MockLLMOperation
+  model?: string              // Only calls to this mock model - e.g. fail the primary to exercise the fallback chain
+  times?: number              // Applies to the first N matching calls, then later rules take over
+  delayMs?: number            // Wait before answering - with a 'timeout' error, a slow call that gives up
+  error?: {
+    code: LLMError['code']
+    message?: string
+    retryAfter?: number       // Seconds, as providers report it on rate limits
+  }
+  response?: {
+    content?: string          // Reply text; '' simulates an empty response
+    category?: string
+    priority?: number
+    sentiment?: string
+    data?: unknown            // Extraction or classification JSON
+    model?: string
+  }
+}
+
+export interface MockLLMScript {
+  rules: MockLLMRule[]
+}
+
+export interface MockServiceOptions {
+  model: string
+  scriptPath: string
+}
+
+// Default JSON when no rule supplies data - valid under the extraction and classification schemas
+const DEFAULT_DATA: Record<Exclude<MockLLMOperation, 'reply'>, unknown> = {
+  extract: {
+    is_freight_request: false,
+    origin: null,
+    destination: null,
+    pickup_window: null,
+    delivery_window: null,
+    equipment_type: null,
+    weight_lbs: null,
+    commodity: null,
+    piece_count: null,
+    hazmat: false,
+    accessorials: []
+  },
+  classify: {
+    intent: 'other',
+    confidence: 0.5,
+    counter_offer: null,
+    summary: 'Mock classification'
+  }
+}
+
+/**
+ * The active script, shared by every mock model. Set in code for tests, or read from
+ * LLM_MOCK_SCRIPT (a JSON file of { rules }) on each call so edits apply without a restart.
+ */
+class MockLLMScriptStore {
+  private script: MockLLMScript | null = null
+  private uses = new Map<MockLLMRule, number>()
+  // The parsed file, kept while its text is unchanged so `times` counts carry across calls
+  private fileScript: { text: string; script: MockLLMScript } | null = null
+
+  /**
+   * Replace the script and forget how often rules were used
+   */
+  load(script: MockLLMScript): void {
+    this.script = script
+    this.uses.clear()
+  }
+
+  /**
+   * Back to the LLM_MOCK_SCRIPT file, or the built-in answers when there is none
+   */
+  reset(): void {
+    this.script = null
+    this.uses.clear()
+  }
+
+  async find(operation: MockLLMOperation, email: ProcessedEmail, model: string, scriptPath: string): Promise<MockLLMRule | null> {
+    const script = this.script || await this.readFile(scriptPath)
+    if (!script) return null
+
+    for (const rule of script.rules) {
+      if (rule.operation && rule.operation !== operation) continue
+      if (rule.model && rule.model !== model) continue
+      if (!this.matches(rule.match, email)) continue
+
+      const used = this.uses.get(rule) || 0
+      if (rule.times !== undefined && used >= rule.times) continue
+
+      this.uses.set(rule, used + 1)
+      return rule
+    }
+    return null
+  }
+
+  private matches(match: MockLLMMatch | undefined, email: ProcessedEmail): boolean {
+    if (!match) return true
+    const includes = (text: string | undefined, part: string) => (text || '').toLowerCase().includes(part.toLowerCase())
+
+    if (match.emailId !== undefined && match.emailId !== email.id) return false
+    if (match.from !== undefined && !includes(email.from, match.from)) return false
+    if (match.subject !== undefined && !includes(email.subject, match.subject)) return false
+    if (match.contains !== undefined && !includes(`${email.subject}\n${email.body || email.snippet}`, match.contains)) return false
+    return true
+  }
+
+  private async readFile(scriptPath: string): Promise<MockLLMScript | null> {
+    if (!scriptPath) return null
+    try {
+      const text = await readFile(scriptPath, 'utf-8')
+      if (this.fileScript?.text !== text) {
+        const parsed = JSON.parse(text)
+        this.fileScript = { text, script: { rules: Array.isArray(parsed?.rules) ? parsed.rules : [] } }
+        this.uses.clear()
+      }
+      return this.fileScript.script
+    } catch (error) {
+      console.warn(`⚠️ Mock LLM script ${scriptPath} not usable:`, (error as Error).message)
+      return null
+    }
+  }
+}
+
+export class LLMMockService {
+  private model: string
+  private scriptPath: string
+
+  constructor(options: Partial<MockServiceOptions> = {}) {
+    this.model = options.model || process.env.LLM_MOCK_MODEL || 'mock'
+    this.scriptPath = options.scriptPath ?? process.env.LLM_MOCK_SCRIPT ?? ''
+
+    console.log('🤖 Mock LLM Service initialized:', {
+      model: this.model,
+      script: this.scriptPath || null
+    })
+  }
+
+  /**
+   * Scripted reply, or a short acknowledgement naming the subject
+   */
+  async processEmail(email: ProcessedEmail, thread?: ThreadContext | null): Promise<LLMResponse & { category?: string; priority?: number; sentiment?: string }> {
+    const startTime = Date.now()
+    const rule = await this.answer('reply', email)
+
+    const content = rule?.response?.content ??
+      `Thank you for your email regarding "${email.subject}". We have received it and will follow up shortly.`
+
+    if (!content.trim()) {
+      throw { code: 'empty_response', message: 'Received empty response from mock LLM' }
+    }
+
+    const prompt = this.estimateTokens(`${email.subject}\n${email.body || email.snippet}`) +
+      (thread?.estimatedTokens || 0)
+
+    return {
+      content,
+      tokenUsage: this.usage(prompt, content),
+      model: rule?.response?.model || this.model,
+      processingTime: Date.now() - startTime,
+      category: rule?.response?.category,
+      priority: rule?.response?.priority,
+      sentiment: rule?.response?.sentiment
+    }
+  }
+
+  /**
+   * Scripted extraction JSON, or "not a freight request"
+   */
+  async extractFreightRequest(email: ProcessedEmail): Promise<LLMExtractionResponse> {
+    return this.structured('extract', email)
+  }
+
+  /**
+   * Scripted classification JSON, or a low-confidence 'other'
+   */
+  async classifyQuoteReply(email: ProcessedEmail, quote: Quote): Promise<LLMExtractionResponse> {
+    console.log(`📨 Mock classification of reply to ${quote.id}`)
+    return this.structured('classify', email)
+  }
+
+  // Mock tokens cost nothing
+  calculateCost(): number {
+    return 0
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string; model?: string }> {
+    return { success: true, message: 'Mock provider - no connection needed', model: this.model }
+  }
+
+  private async structured(operation: 'extract' | 'classify', email: ProcessedEmail): Promise<LLMExtractionResponse> {
+    const startTime = Date.now()
+    const rule = await this.answer(operation, email)
+    const data = rule?.response?.data ?? DEFAULT_DATA[operation]
+
+    return {
+      data,
+      tokenUsage: this.usage(this.estimateTokens(email.body || email.snippet), JSON.stringify(data)),
+      model: rule?.response?.model || this.model,
+      processingTime: Date.now() - startTime
+    }
+  }
+
+  // Find the rule for this call and play out its delay and failure
+  private async answer(operation: MockLLMOperation, email: ProcessedEmail): Promise<MockLLMRule | null> {
+    const rule = await mockLLMScript.find(operation, email, this.model, this.scriptPath)
+    if (!rule) return null
+
+    if (rule.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, rule.delayMs))
+    }
+
+    if (rule.error) {
+      console.log(`🎭 Mock LLM ${operation} for ${email.id}: simulated ${rule.error.code}`)
+      const retryAfter = rule.error.code === 'rate_limit' ? rule.error.retryAfter ?? 60 : rule.error.retryAfter
+      const error: LLMError = {
+        code: rule.error.code,
+        message: rule.error.message || `Simulated ${rule.error.code} from mock LLM`,
+        ...(retryAfter !== undefined ? { retryAfter } : {})
+      }
+      throw error
+    }
+
+    return rule
+  }
+
+  private usage(prompt: number, output: string): LLMResponse['tokenUsage'] {
+    const completion = this.estimateTokens(output)
+    return { prompt, completion, total: prompt + completion }
+  }
+
+  // Roughly four characters per token, like the rate limiter's estimate
+  private estimateTokens(text: string): number {
+    return Math.ceil((text || '').length / 4)
+  }
+}
+
+// Export singleton instance
+export const mockLLMScript = new MockLLMScriptStore()
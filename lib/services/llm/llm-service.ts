@@ -3,7 +3,18 @@
 // Simplified implementation using Responses API
 
 import { ProcessedEmail } from '@/lib/kv-client'
-import { LLMPrompts } from './llm-prompts'
+import { LLMPrompts, type PromptVariant } from './llm-prompts'
+import type { LLMProviderName } from './llm-factory'
+import type { Quote } from '../freight/quote-service'
+import type { ThreadContext } from '../email/thread-context'
+
+export interface ResponsesServiceOptions {
+  apiKey: string
+  model: string
+  baseUrl: string
+  maxTokens: number
+  maxRetries: number
+}
 
 export interface LLMResponse {
   content: string
@@ -16,23 +27,45 @@ export interface LLMResponse {
   processingTime: number
 }
 
+export interface LLMExtractionResponse {
+  data: unknown   // Parsed JSON, validated by the caller
+  tokenUsage: LLMResponse['tokenUsage']
+  model: string
+  processingTime: number
+  provider?: LLMProviderName    // Set by the fallback chain - who actually answered
+}
+
+// Per-call settings for a reply, chosen by the model router (lib/services/llm/model-router.ts)
+// and the prompt registry (lib/services/llm/prompt-registry.ts)
+export interface ReplyOptions {
+  maxTokens?: number
+  prompt?: PromptVariant
+  systemPrompt?: string    // Rendered from the published template; the built-in prompt when left out
+}
+
 export interface LLMError {
   code: 'rate_limit' | 'api_error' | 'invalid_request' | 'timeout' | 'empty_response'
   message: string
   retryAfter?: number
+  provider?: LLMProviderName    // Set by the fallback chain - who failed
 }
 
-class LLMService {
+export class LLMService {
   private apiKey: string
   private model: string
+  private baseUrl: string
   private maxTokens: number
-  private maxRetries: number = 3
+  private extractionMaxTokens: number
+  private maxRetries: number
   private baseDelay: number = 1000
 
-  constructor() {
-    this.apiKey = process.env.OPENAI_API_KEY || ''
-    this.model = process.env.OPENAI_MODEL || 'gpt-5-nano'
-    this.maxTokens = parseInt(process.env.OPENAI_MAX_TOKENS || '1000')
+  constructor(options: Partial<ResponsesServiceOptions> = {}) {
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY ?? ''
+    this.model = options.model || process.env.OPENAI_MODEL || 'gpt-5-nano'
+    this.baseUrl = (options.baseUrl || process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '')
+    this.maxTokens = options.maxTokens ?? parseInt(process.env.OPENAI_MAX_TOKENS || '1000')
+    this.maxRetries = options.maxRetries ?? 3
+    this.extractionMaxTokens = parseInt(process.env.EXTRACTION_MAX_TOKENS || '1000')
 
     if (!this.apiKey) {
       console.warn('⚠️ OPENAI_API_KEY not configured')
@@ -51,29 +84,33 @@ class LLMService {
   }
   
   /**
-   * Process an email with GPT-5
+   * Process an email with GPT-5, after the earlier turns of its thread when given
    */
-  async processEmail(email: ProcessedEmail): Promise<LLMResponse> {
+  async processEmail(email: ProcessedEmail, thread?: ThreadContext | null, options: ReplyOptions = {}): Promise<LLMResponse> {
     const startTime = Date.now()
     
     // Use prompts from centralized location
-    const systemPrompt = LLMPrompts.getSystemPrompt()
+    const systemPrompt = options.systemPrompt || LLMPrompts.getSystemPrompt(options.prompt, email)
     const userContent = LLMPrompts.formatEmailForProcessing({
       from: email.from,
       subject: email.subject,
       receivedAt: email.receivedAt,
-      body: email.body || email.snippet
+      body: email.body || email.snippet,
+      extraction: email.extraction,
+      rateQuote: email.rateQuote,
+      quoteReply: email.quoteReply
     })
     
     const input = [
       { role: 'system', content: systemPrompt },
+      ...LLMPrompts.formatThreadHistory(thread),
       { role: 'user', content: userContent }
     ]
 
     console.log('📝 Processing email:', email.subject)
 
     try {
-      const response = await this.callGPT5(input)
+      const response = await this.callGPT5(input, 1, undefined, options.maxTokens)
       
       if (!response.content || response.content.trim().length === 0) {
         throw { code: 'empty_response', message: 'Received empty response from GPT-5' }
@@ -95,20 +132,94 @@ class LLMService {
   }
 
   /**
-   * Call GPT-5 Responses API
+   * Extract a FreightRequest as JSON under the strict schema
    */
-  private async callGPT5(input: any[], attempt: number = 1): Promise<LLMResponse> {
+  async extractFreightRequest(email: ProcessedEmail): Promise<LLMExtractionResponse> {
+    const startTime = Date.now()
+
+    const input = [
+      { role: 'system', content: LLMPrompts.getFreightExtractionPrompt() },
+      { role: 'user', content: LLMPrompts.formatEmailForExtraction({
+        from: email.from,
+        subject: email.subject,
+        receivedAt: email.receivedAt,
+        body: email.body || email.snippet
+      }) }
+    ]
+
+    // The Responses API takes the schema flat under text.format
+    const { json_schema } = LLMPrompts.getFreightRequestSchema()
+    const format = { type: 'json_schema', ...json_schema }
+
+    console.log('🔎 Extracting freight request:', email.subject)
+
+    try {
+      const response = await this.callGPT5(input, 1, format)
+      return {
+        data: this.parseJSON(response.content),
+        tokenUsage: response.tokenUsage,
+        model: response.model,
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      console.error('GPT-5 extraction failed:', error)
+      throw this.normalizeError(error)
+    }
+  }
+
+  /**
+   * Classify a reply to a quote we sent as JSON under the strict schema
+   */
+  async classifyQuoteReply(email: ProcessedEmail, quote: Quote): Promise<LLMExtractionResponse> {
+    const startTime = Date.now()
+
+    const input = [
+      { role: 'system', content: LLMPrompts.getQuoteReplyPrompt() },
+      { role: 'user', content: LLMPrompts.formatQuoteReplyForClassification({
+        from: email.from,
+        subject: email.subject,
+        receivedAt: email.receivedAt,
+        body: email.body || email.snippet
+      }, quote) }
+    ]
+
+    const { json_schema } = LLMPrompts.getQuoteReplySchema()
+    const format = { type: 'json_schema', ...json_schema }
+
+    console.log('📨 Classifying quote reply:', email.subject)
+
+    try {
+      const response = await this.callGPT5(input, 1, format)
+      return {
+        data: this.parseJSON(response.content),
+        tokenUsage: response.tokenUsage,
+        model: response.model,
+        processingTime: Date.now() - startTime
+      }
+    } catch (error) {
+      console.error('GPT-5 quote reply classification failed:', error)
+      throw this.normalizeError(error)
+    }
+  }
+
+  /**
+   * Call GPT-5 Responses API - pass a text format to get schema-constrained JSON
+   */
+  private async callGPT5(input: any[], attempt: number = 1, format?: object, maxTokens: number = this.maxTokens): Promise<LLMResponse> {
     try {
       // Simple request body - no reasoning
-      const requestBody = {
+      const requestBody: any = {
         model: this.model,
         input: input,
-        max_output_tokens: this.maxTokens
+        max_output_tokens: format ? this.extractionMaxTokens : maxTokens
+      }
+      if (format) {
+        requestBody.text = { format }
       }
 
       console.log(`📤 GPT-5 API call (attempt ${attempt})`)
 
-      const response = await fetch('https://api.openai.com/v1/responses', {
+      const response = await fetch(`${this.baseUrl}/responses`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -126,19 +237,21 @@ class LLMService {
           const retryAfter = parseInt(response.headers.get('retry-after') || '60')
           console.log(`⏰ Rate limited, retrying in ${retryAfter}s`)
           await this.delay(retryAfter * 1000)
-          return this.callGPT5(input, attempt + 1)
+          return this.callGPT5(input, attempt + 1, format, maxTokens)
         }
 
         if (response.status >= 500 && attempt < this.maxRetries) {
           const delayMs = this.baseDelay * Math.pow(2, attempt - 1)
           console.log(`⏰ Server error, retrying in ${delayMs}ms`)
           await this.delay(delayMs)
-          return this.callGPT5(input, attempt + 1)
+          return this.callGPT5(input, attempt + 1, format, maxTokens)
         }
 
         throw {
-          code: response.status >= 500 ? 'api_error' : 'invalid_request',
-          message: `GPT-5 API error: ${response.status}`
+          code: response.status === 429 ? 'rate_limit' :
+                response.status >= 500 ? 'api_error' : 'invalid_request',
+          message: `GPT-5 API error: ${response.status}`,
+          retryAfter: response.status === 429 ? parseInt(response.headers.get('retry-after') || '60') : undefined
         }
       }
 
@@ -182,7 +295,7 @@ class LLMService {
         const delayMs = this.baseDelay * Math.pow(2, attempt - 1)
         console.log(`⏰ Network error, retrying in ${delayMs}ms`)
         await this.delay(delayMs)
-        return this.callGPT5(input, attempt + 1)
+        return this.callGPT5(input, attempt + 1, format, maxTokens)
       }
       
       throw {
@@ -192,6 +305,14 @@ class LLMService {
     }
   }
 
+  private parseJSON(content: string): unknown {
+    try {
+      return JSON.parse(content)
+    } catch {
+      throw { code: 'empty_response', message: 'Extraction output is not valid JSON' }
+    }
+  }
+
   /**
    * Normalize errors
    */
@@ -241,7 +362,7 @@ class LLMService {
       }
 
       // Test with a simple request to the Responses API
-      const response = await fetch('https://api.openai.com/v1/responses', {
+      const response = await fetch(`${this.baseUrl}/responses`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -279,6 +400,3 @@ class LLMService {
     }
   }
 }
-
-// Export singleton instance
-export const llmService = new LLMService()
\ No newline at end of file
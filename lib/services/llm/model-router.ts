@@ -0,0 +1,180 @@
+// /lib/services/llm/model-router.ts
+// Routes each reply to a model, token budget and prompt from a cheap first pass over the email
+// Category, length and attachments are read without an LLM call; ROUTING_RULES decides what each combination gets
+
+import type { ProcessedEmail } from '@/lib/kv-client'
+import { llmFactory, type LLMProviderName, type LLMSelection } from './llm-factory'
+import { PROMPT_VARIANTS, type PromptVariant } from './llm-prompts'
+
+export const ROUTE_CATEGORIES = ['acknowledgement', 'quote_reply', 'freight_request', 'complex_request', 'general'] as const
+
+export type RouteCategory = typeof ROUTE_CATEGORIES[number]
+
+// What the first pass found out about the email
+export interface RouteSignals {
+  category: RouteCategory
+  length: number              // Characters of subject and body
+  attachments: number
+}
+
+// Every given condition must hold
+export interface RouteMatch {
+  categories?: RouteCategory[]
+  minLength?: number
+  maxLength?: number
+  hasAttachments?: boolean
+}
+
+export interface RoutingRule {
+  name: string
+  match?: RouteMatch          // Omitted: matches every email
+  provider?: LLMProviderName  // Omitted: the configured default
+  model?: string
+  maxTokens?: number          // Omitted: the provider's configured limit
+  prompt?: PromptVariant
+}
+
+// The route a reply took - stored on the email so cost can be broken down per route
+export interface ModelRoute {
+  name: string
+  provider: LLMProviderName
+  model: string
+  maxTokens?: number
+  prompt: PromptVariant
+  signals: RouteSignals
+  routedAt: string
+}
+
+// Short courtesy notes - "thanks, got it", "sounds good"
+const ACKNOWLEDGEMENT_PATTERN = /\b(thanks|thank you|thx|got it|received|sounds good|perfect|great|will do|appreciate it|noted)\b/i
+const ACKNOWLEDGEMENT_MAX_LENGTH = 400
+
+// Loads with more than one pickup or drop
+const MULTI_STOP_PATTERN = /\b(multi[- ]?stop|\d+\s+stops|stop\s*#?\s*[2-9]|additional stops?|extra stops?|second (pickup|drop|delivery))\b/i
+
+// Attachments first - "thanks, rate con attached" is not a plain acknowledgement
+const DEFAULT_RULES: RoutingRule[] = [
+  { name: 'attachments', match: { hasAttachments: true }, maxTokens: 1500, prompt: 'detailed' },
+  { name: 'complex', match: { categories: ['complex_request'] }, maxTokens: 1500, prompt: 'detailed' },
+  { name: 'acknowledgement', match: { categories: ['acknowledgement'] }, maxTokens: 200, prompt: 'brief' }
+]
+
+const FALLBACK_RULE: RoutingRule = { name: 'default' }
+
+class ModelRouter {
+  private enabled: boolean
+  private rules: RoutingRule[]
+
+  constructor() {
+    this.enabled = process.env.MODEL_ROUTING !== 'false'
+    this.rules = DEFAULT_RULES
+
+    // ROUTING_RULES='[{"name":"ack","match":{"categories":["acknowledgement"]},"model":"gpt-4o-mini","maxTokens":150,"prompt":"brief"}]'
+    // replaces the defaults; the first matching rule wins and anything unmatched takes the default route
+    if (process.env.ROUTING_RULES) {
+      try {
+        const parsed = JSON.parse(process.env.ROUTING_RULES)
+        if (!Array.isArray(parsed)) throw new Error('expected an array of rules')
+        this.rules = parsed.map((rule, index) => this.validateRule(rule, index))
+      } catch (error) {
+        console.warn('⚠️ Invalid ROUTING_RULES, using defaults:', error)
+      }
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled
+  }
+
+  getRules(): RoutingRule[] {
+    return [...this.rules, FALLBACK_RULE]
+  }
+
+  /**
+   * The cheap first pass - no LLM call. Uses the extraction or quote reply
+   * classification when an earlier step already produced one.
+   */
+  getSignals(email: Pick<ProcessedEmail, 'subject' | 'body' | 'snippet' | 'attachments' | 'extraction' | 'quoteReply'>): RouteSignals {
+    const body = email.body || email.snippet || ''
+    const length = (email.subject?.length || 0) + body.length
+    const attachments = email.attachments?.length || 0
+
+    let category: RouteCategory = 'general'
+    if (email.quoteReply) {
+      category = 'quote_reply'
+    } else if (email.extraction?.isFreightRequest) {
+      category = MULTI_STOP_PATTERN.test(`${email.subject}\n${body}`) ? 'complex_request' : 'freight_request'
+    } else if (body.length <= ACKNOWLEDGEMENT_MAX_LENGTH && !body.includes('?') && ACKNOWLEDGEMENT_PATTERN.test(body)) {
+      category = 'acknowledgement'
+    }
+
+    return { category, length, attachments }
+  }
+
+  /**
+   * Pick the route for an email's reply. A provider or model chosen for the request
+   * overrides the route's; a provider the route names but that is not configured is
+   * swapped for the default rather than failing the email.
+   */
+  route(email: Pick<ProcessedEmail, 'id' | 'subject' | 'body' | 'snippet' | 'attachments' | 'extraction' | 'quoteReply'>, requested?: LLMSelection): ModelRoute {
+    const signals = this.getSignals(email)
+    const rule = this.enabled
+      ? this.rules.find(candidate => this.matches(candidate.match, signals)) || FALLBACK_RULE
+      : FALLBACK_RULE
+
+    let selection: LLMSelection = { provider: rule.provider, model: rule.model }
+    if (requested?.provider || requested?.model) {
+      selection = requested
+    } else if (rule.provider && !llmFactory.isConfigured({ provider: rule.provider })) {
+      console.warn(`⚠️ Route ${rule.name} wants ${rule.provider}, which is not configured - using the default provider`)
+      selection = {}
+    }
+    const { provider, model } = llmFactory.resolve(selection)
+
+    const route: ModelRoute = {
+      name: rule.name,
+      provider,
+      model,
+      ...(rule.maxTokens ? { maxTokens: rule.maxTokens } : {}),
+      prompt: rule.prompt || 'standard',
+      signals,
+      routedAt: new Date().toISOString()
+    }
+
+    console.log(`🧭 Route for ${email.id}: ${route.name} (${signals.category}, ${signals.length} chars, ${signals.attachments} attachments) -> ${provider}/${model}, prompt=${route.prompt}${route.maxTokens ? `, maxTokens=${route.maxTokens}` : ''}`)
+    return route
+  }
+
+  private matches(match: RouteMatch | undefined, signals: RouteSignals): boolean {
+    if (!match) return true
+    if (match.categories && !match.categories.includes(signals.category)) return false
+    if (match.minLength !== undefined && signals.length < match.minLength) return false
+    if (match.maxLength !== undefined && signals.length > match.maxLength) return false
+    if (match.hasAttachments !== undefined && (signals.attachments > 0) !== match.hasAttachments) return false
+    return true
+  }
+
+  // Unknown names are dropped with a warning so one typo does not throw away the whole configuration
+  private validateRule(raw: RoutingRule, index: number): RoutingRule {
+    const rule: RoutingRule = { ...raw, name: typeof raw?.name === 'string' && raw.name ? raw.name : `rule-${index + 1}` }
+
+    if (rule.provider !== undefined && !llmFactory.isProvider(rule.provider)) {
+      console.warn(`⚠️ Route ${rule.name}: unknown provider ${rule.provider}, ignoring it`)
+      delete rule.provider
+    }
+    if (rule.prompt !== undefined && !(PROMPT_VARIANTS as readonly string[]).includes(rule.prompt)) {
+      console.warn(`⚠️ Route ${rule.name}: unknown prompt ${rule.prompt}, ignoring it`)
+      delete rule.prompt
+    }
+    if (rule.match?.categories) {
+      const unknown = rule.match.categories.filter(category => !ROUTE_CATEGORIES.includes(category))
+      if (unknown.length > 0) {
+        console.warn(`⚠️ Route ${rule.name}: unknown categories ${unknown.join(', ')}`)
+      }
+    }
+    return rule
+  }
+}
+
+// Export singleton instance
+export const modelRouter = new ModelRouter()
@@ -0,0 +1,83 @@
+// /lib/services/llm/prompt-registry.test.ts
+// Rendering prompt templates - stored variables per version, {{rateContext}} per email
+// Runs against the in-memory KV, flushed before each test
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { kv } from '@/lib/storage/kv'
+import type { MemoryKV } from '@/lib/storage/memory-kv'
+import type { FreightExtraction } from '../freight/freight-request'
+import type { RateQuote } from '../freight/rate-engine'
+import { promptRegistry } from './prompt-registry'
+
+const extraction = {
+  isFreightRequest: true,
+  request: {
+    origin: { city: 'Chicago', state: 'IL', zip: null },
+    destination: { city: 'Dallas', state: 'TX', zip: null }
+  },
+  missingFields: []
+} as unknown as FreightExtraction
+
+const rateQuote = {
+  miles: 925,
+  equipmentType: 'dry_van',
+  lineItems: [
+    { code: 'linehaul', label: 'Linehaul', amount: 2100 },
+    { code: 'fuel', label: 'Fuel surcharge', amount: 390.5 }
+  ],
+  fuelBasis: {
+    region: 'midwest',
+    weekOf: '2026-10-12',
+    pricePerGallon: 3.79,
+    band: { centsPerMile: 42 },
+    stale: false
+  },
+  total: 2490.5,
+  currency: 'USD'
+} as unknown as RateQuote
+
+describe('PromptRegistry', () => {
+  beforeEach(async () => {
+    await (kv as MemoryKV).flushall()
+  })
+
+  it('fills {{rateContext}} from the rate quote of the email being answered', async () => {
+    const { promptVersion, content } = await promptRegistry.render('standard', { extraction, rateQuote })
+
+    expect(promptVersion).toBe('standard@builtin')
+    expect(content).toContain('Lane: Chicago, IL -> Dallas, TX (925 miles, dry van)')
+    expect(content).toContain('Fuel surcharge basis: diesel $3.79/gal (midwest average, week of 2026-10-12) = 42 cents/mile')
+    expect(content).toContain('All-in total: $2,490.50 USD')
+    expect(content).not.toContain('{{')
+  })
+
+  it('leaves the pricing out for emails that are not freight requests', async () => {
+    const { content } = await promptRegistry.render('standard', {})
+
+    expect(content).not.toContain('PRICING (authoritative')
+    expect(content).toContain('Prices are all-in USD with fuel surcharge included.')
+  })
+
+  it('renders the published version with its own variables', async () => {
+    const draft = await promptRegistry.createDraft('brief', {
+      template: 'You work at {{companyName}}.\n{{rateContext}}',
+      variables: { companyName: 'Acme Freight' }
+    })
+    await promptRegistry.publish('brief', draft.version, 'dana')
+
+    const { promptVersion, content } = await promptRegistry.render('brief', { extraction, rateQuote })
+    expect(promptVersion).toBe(`brief@v${draft.version}`)
+    expect(content).toMatch(/^You work at Acme Freight\.\n\nPRICING/)
+  })
+
+  it('rejects a stored value for an email-filled variable', async () => {
+    await expect(promptRegistry.createDraft('standard', { variables: { rateContext: 'Flat $2/mile' } as never }))
+      .rejects.toThrow('Invalid variable rateContext: it is filled from each email')
+  })
+
+  it('previews without an email by showing where the pricing goes', () => {
+    const content = promptRegistry.preview('{{signature}}\n{{rateContext}}', { signature: 'Dana' })
+    expect(content).toContain('Dana')
+    expect(content).toContain('[Rate engine pricing and fuel surcharge basis for the email being answered]')
+  })
+})
@@ -0,0 +1,284 @@
+// /lib/services/llm/prompt-registry.ts
+// Versioned system prompt templates - one per reply style, edited as drafts and published without a redeploy
+// Each version keeps its own template and variable values, so the version ID stamped on an email reproduces its prompt
+
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import {
+  LLMPrompts,
+  PROMPT_VARIANTS,
+  PROMPT_VARIABLES,
+  EMAIL_PROMPT_VARIABLES,
+  type EmailContext,
+  type PromptVariant,
+  type PromptVariables
+} from './llm-prompts'
+
+export const PROMPT_VERSION_STATUSES = ['draft', 'published', 'retired'] as const
+
+export type PromptVersionStatus = typeof PROMPT_VERSION_STATUSES[number]
+
+export interface PromptVersion {
+  id: string                  // e.g. standard@v3, or standard@builtin for the prompt in code
+  name: PromptVariant
+  version: number             // 0 is the built-in prompt
+  template: string
+  variables: PromptVariables
+  status: PromptVersionStatus
+  note?: string
+  createdBy: string
+  createdAt?: string          // Missing on the built-in prompt
+  updatedAt?: string
+  publishedBy?: string
+  publishedAt?: string
+}
+
+export interface PromptTemplateSummary {
+  name: PromptVariant
+  published: PromptVersion    // The built-in prompt until a version is published
+  latestVersion: number
+  drafts: number
+}
+
+export interface PromptDraftInput {
+  template?: string
+  variables?: Partial<PromptVariables>
+  note?: string
+  author?: string
+  from?: number               // Version to start from - the published one when omitted
+}
+
+export interface RenderedPrompt {
+  promptVersion: string
+  content: string
+}
+
+// What the email-filled placeholders show when a template is previewed without an email
+const PREVIEW_RATE_CONTEXT = `
+PRICING (authoritative - use these exact numbers):
+[Rate engine pricing and fuel surcharge basis for the email being answered]
+`
+
+export const SYSTEM_AUTHOR = 'system'
+
+class PromptRegistry {
+  // Serializes publishing within this instance - it touches the old and new published versions
+  private pending: Promise<unknown> = Promise.resolve()
+
+  isTemplateName(name: unknown): name is PromptVariant {
+    return typeof name === 'string' && (PROMPT_VARIANTS as readonly string[]).includes(name)
+  }
+
+  /**
+   * Every template with its published version
+   */
+  async list(): Promise<PromptTemplateSummary[]> {
+    return Promise.all(PROMPT_VARIANTS.map(async name => {
+      const [published, versions] = await Promise.all([this.getPublished(name), this.getVersions(name)])
+      return {
+        name,
+        published,
+        latestVersion: versions[0]?.version || 0,
+        drafts: versions.filter(version => version.status === 'draft').length
+      }
+    }))
+  }
+
+  /**
+   * Stored versions of a template, newest first
+   */
+  async getVersions(name: PromptVariant): Promise<PromptVersion[]> {
+    const latest = await kv.get<number>(KEYS.PROMPT_SEQUENCE(name)) || 0
+    const versions = await Promise.all(
+      Array.from({ length: latest }, (_, index) => kv.get<PromptVersion>(KEYS.PROMPT_VERSION(name, latest - index)))
+    )
+    return versions.filter((version): version is PromptVersion => !!version)
+  }
+
+  /**
+   * One version - 0 is the built-in prompt
+   */
+  async getVersion(name: PromptVariant, version: number): Promise<PromptVersion | null> {
+    if (version === 0) {
+      const published = await kv.get<number>(KEYS.PROMPT_PUBLISHED(name))
+      return this.builtin(name, published ? 'retired' : 'published')
+    }
+    return kv.get<PromptVersion>(KEYS.PROMPT_VERSION(name, version))
+  }
+
+  /**
+   * The version replies are written with
+   */
+  async getPublished(name: PromptVariant): Promise<PromptVersion> {
+    const published = await kv.get<number>(KEYS.PROMPT_PUBLISHED(name))
+    if (published) {
+      const version = await kv.get<PromptVersion>(KEYS.PROMPT_VERSION(name, published))
+      if (version) return version
+      console.warn(`⚠️ Published prompt ${name}@v${published} is missing - using the built-in prompt`)
+    }
+    return this.builtin(name, 'published')
+  }
+
+  /**
+   * The published template filled in for an email - its stored variables plus the email's
+   * rate context - and the version ID to stamp on the email
+   */
+  async render(name: PromptVariant, email?: Pick<EmailContext, 'extraction' | 'rateQuote'>): Promise<RenderedPrompt> {
+    const version = await this.getPublished(name)
+    return {
+      promptVersion: version.id,
+      content: LLMPrompts.renderTemplate(version.template, { ...version.variables, ...LLMPrompts.getEmailVariables(email) })
+    }
+  }
+
+  /**
+   * Fill in a template without saving it - lets editors see a draft before publishing.
+   * Without an email, the email-filled placeholders show what goes there.
+   */
+  preview(template: string, variables: Partial<PromptVariables> = {}, email?: Pick<EmailContext, 'extraction' | 'rateQuote'>): string {
+    const filled = { ...LLMPrompts.getDefaultVariables(), ...variables }
+    this.validate(template, filled)
+    const perEmail = email ? LLMPrompts.getEmailVariables(email) : { rateContext: PREVIEW_RATE_CONTEXT }
+    return LLMPrompts.renderTemplate(template, { ...filled, ...perEmail })
+  }
+
+  /**
+   * Start a new draft from an existing version, with any changes applied
+   */
+  async createDraft(name: PromptVariant, input: PromptDraftInput = {}): Promise<PromptVersion> {
+    const base = input.from !== undefined
+      ? await this.getVersion(name, input.from)
+      : await this.getPublished(name)
+    if (!base) {
+      throw new Error(`Prompt ${name}@v${input.from} not found`)
+    }
+
+    const template = input.template ?? base.template
+    const variables = { ...base.variables, ...input.variables }
+    this.validate(template, variables)
+
+    const version = await kv.incr(KEYS.PROMPT_SEQUENCE(name))
+    const now = new Date().toISOString()
+    const draft: PromptVersion = {
+      id: `${name}@v${version}`,
+      name,
+      version,
+      template,
+      variables,
+      status: 'draft',
+      ...(input.note ? { note: input.note } : {}),
+      createdBy: input.author || SYSTEM_AUTHOR,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await kv.set(KEYS.PROMPT_VERSION(name, version), draft)
+    console.log(`📝 Prompt draft ${draft.id} created from ${base.id} by ${draft.createdBy}`)
+    return draft
+  }
+
+  /**
+   * Edit a draft in place. Published and retired versions are frozen - emails point at them.
+   */
+  async updateDraft(name: PromptVariant, version: number, input: Omit<PromptDraftInput, 'from' | 'author'>): Promise<PromptVersion> {
+    const existing = await this.getVersion(name, version)
+    if (!existing) {
+      throw new Error(`Prompt ${name}@v${version} not found`)
+    }
+    if (existing.status !== 'draft') {
+      throw new Error(`Cannot edit ${existing.id}: it is ${existing.status} - start a new draft from it instead`)
+    }
+
+    const template = input.template ?? existing.template
+    const variables = { ...existing.variables, ...input.variables }
+    this.validate(template, variables)
+
+    const updated: PromptVersion = {
+      ...existing,
+      template,
+      variables,
+      ...(input.note !== undefined ? { note: input.note } : {}),
+      updatedAt: new Date().toISOString()
+    }
+
+    await kv.set(KEYS.PROMPT_VERSION(name, version), updated)
+    console.log(`📝 Prompt draft ${updated.id} updated`)
+    return updated
+  }
+
+  /**
+   * Make a version the one replies use. The version it replaces is retired; publishing
+   * a retired version (or version 0, the built-in prompt) rolls back to it.
+   */
+  publish(name: PromptVariant, version: number, by: string = SYSTEM_AUTHOR): Promise<PromptVersion> {
+    const run = this.pending.then(async () => {
+      const target = await this.getVersion(name, version)
+      if (!target) {
+        throw new Error(`Prompt ${name}@v${version} not found`)
+      }
+      if (target.status === 'published') {
+        throw new Error(`Cannot publish ${target.id}: it is already published`)
+      }
+
+      const previous = await this.getPublished(name)
+      const now = new Date().toISOString()
+
+      if (previous.version > 0) {
+        await kv.set(KEYS.PROMPT_VERSION(name, previous.version), { ...previous, status: 'retired', updatedAt: now })
+      }
+
+      if (version === 0) {
+        await kv.del(KEYS.PROMPT_PUBLISHED(name))
+        console.log(`📣 Prompt ${name} rolled back to the built-in prompt by ${by}`)
+        return this.builtin(name, 'published')
+      }
+
+      const published: PromptVersion = { ...target, status: 'published', publishedBy: by, publishedAt: now, updatedAt: now }
+      await kv.set(KEYS.PROMPT_VERSION(name, version), published)
+      await kv.set(KEYS.PROMPT_PUBLISHED(name), version)
+      console.log(`📣 Prompt ${published.id} published by ${by} (was ${previous.id})`)
+      return published
+    })
+    this.pending = run.catch(() => undefined)
+    return run
+  }
+
+  // The prompt in code, shown as version 0 so it can be compared with and rolled back to
+  private builtin(name: PromptVariant, status: PromptVersionStatus): PromptVersion {
+    return {
+      id: `${name}@builtin`,
+      name,
+      version: 0,
+      template: LLMPrompts.getDefaultTemplate(name),
+      variables: LLMPrompts.getDefaultVariables(),
+      status,
+      createdBy: SYSTEM_AUTHOR
+    }
+  }
+
+  private validate(template: string, variables: Record<string, unknown>): void {
+    if (typeof template !== 'string' || !template.trim()) {
+      throw new Error('Invalid template: it is empty')
+    }
+
+    const unknown = LLMPrompts.findUnknownVariables(template)
+    if (unknown.length > 0) {
+      throw new Error(`Invalid template: unknown variables ${unknown.map(name => `{{${name}}}`).join(', ')} - use ${[...PROMPT_VARIABLES, ...EMAIL_PROMPT_VARIABLES].join(', ')}`)
+    }
+
+    for (const [name, value] of Object.entries(variables)) {
+      if ((EMAIL_PROMPT_VARIABLES as readonly string[]).includes(name)) {
+        throw new Error(`Invalid variable ${name}: it is filled from each email when the prompt is rendered`)
+      }
+      if (!(PROMPT_VARIABLES as readonly string[]).includes(name)) {
+        throw new Error(`Invalid variable ${name} - use ${PROMPT_VARIABLES.join(', ')}`)
+      }
+      if (typeof value !== 'string') {
+        throw new Error(`Invalid variable ${name}: expected text`)
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const promptRegistry = new PromptRegistry()
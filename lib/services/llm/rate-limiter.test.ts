@@ -0,0 +1,52 @@
+// /lib/services/llm/rate-limiter.test.ts
+// Per-minute request and token limits counted in KV, and provider pauses
+// Runs against the in-memory KV, flushed before each test
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { kv } from '@/lib/storage/kv'
+import type { MemoryKV } from '@/lib/storage/memory-kv'
+import { rateLimiter } from './rate-limiter'
+
+describe('RateLimiter', () => {
+  beforeEach(async () => {
+    await (kv as MemoryKV).flushall()
+    vi.stubEnv('TEST_RATE_LIMIT_RPM', '5')
+    vi.stubEnv('TEST_RATE_LIMIT_TPM', '1000')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('counts every concurrent charge - none overwrites another', async () => {
+    await Promise.all(Array.from({ length: 4 }, () => rateLimiter.consume('test', 200)))
+
+    const status = await rateLimiter.getStatus('test')
+    expect(status.availableRequests).toBe(1)
+    expect(status.availableTokens).toBe(200)
+  })
+
+  it('denies a request over the token limit until the window ends', async () => {
+    await rateLimiter.consume('test', 900)
+
+    expect((await rateLimiter.check('test', 100)).allowed).toBe(true)
+    const permit = await rateLimiter.check('test', 101)
+    expect(permit).toMatchObject({ allowed: false, reason: 'tokens' })
+    expect(permit.retryAfterMs).toBeLessThanOrEqual(60_000)
+  })
+
+  it('denies the request after the last one in the window', async () => {
+    for (let i = 0; i < 5; i++) await rateLimiter.consume('test', 0)
+
+    expect(await rateLimiter.check('test', 0)).toMatchObject({ allowed: false, reason: 'requests' })
+  })
+
+  it('keeps the longer of two pauses', async () => {
+    await rateLimiter.pause('test', 90_000)
+    await rateLimiter.pause('test', 10_000)
+
+    const permit = await rateLimiter.check('test', 0)
+    expect(permit).toMatchObject({ allowed: false, reason: 'paused' })
+    expect(permit.retryAfterMs).toBeGreaterThan(80_000)
+  })
+})
@@ -0,0 +1,150 @@
+// /lib/services/llm/rate-limiter.ts
+// Rate limits per LLM provider (requests/min and tokens/min) over fixed one-minute windows - mail transports reuse the request limit
+// Usage is counted with INCRBY in KV, so every worker instance draws from the same budget without overwriting another's
+
+import { kv } from '@/lib/storage/kv'
+import { KEYS } from '@/lib/storage/kv-keys'
+import type { ProcessedEmail } from '@/lib/kv-client'
+
+export interface RateLimitConfig {
+  requestsPerMinute: number
+  tokensPerMinute: number
+}
+
+export interface RateLimitCheck {
+  allowed: boolean
+  retryAfterMs: number
+  reason?: 'requests' | 'tokens' | 'paused'
+}
+
+export interface RateLimitStatus extends RateLimitConfig {
+  provider: string
+  availableRequests: number
+  availableTokens: number
+  pausedUntil?: string
+}
+
+// Usage counted so far in the current minute window
+interface WindowUsage {
+  requests: number
+  tokens: number
+  windowEndsAt: number
+  pausedUntil?: number
+}
+
+const MINUTE_MS = 60_000
+const WINDOW_TTL_SECONDS = 120
+
+class RateLimiter {
+  /**
+   * Limits come from {PROVIDER}_RATE_LIMIT_RPM / _TPM, falling back to LLM_RATE_LIMIT_RPM / _TPM.
+   * Dashes become underscores: openai-compatible reads OPENAI_COMPATIBLE_RATE_LIMIT_RPM.
+   */
+  getConfig(provider: string): RateLimitConfig {
+    const prefix = provider.toUpperCase().replace(/[^A-Z0-9]/g, '_')
+    return {
+      requestsPerMinute: parseInt(process.env[`${prefix}_RATE_LIMIT_RPM`] || process.env.LLM_RATE_LIMIT_RPM || '60'),
+      tokensPerMinute: parseInt(process.env[`${prefix}_RATE_LIMIT_TPM`] || process.env.LLM_RATE_LIMIT_TPM || '100000')
+    }
+  }
+
+  /**
+   * Is there budget for one request of roughly `estimatedTokens`? Does not consume anything,
+   * so concurrent worker slots can overshoot by at most one request each.
+   */
+  async check(provider: string, estimatedTokens: number): Promise<RateLimitCheck> {
+    const config = this.getConfig(provider)
+    const usage = await this.load(provider)
+    const now = Date.now()
+
+    if (usage.pausedUntil && usage.pausedUntil > now) {
+      return { allowed: false, retryAfterMs: usage.pausedUntil - now, reason: 'paused' }
+    }
+    if (usage.requests >= config.requestsPerMinute) {
+      return { allowed: false, retryAfterMs: usage.windowEndsAt - now, reason: 'requests' }
+    }
+
+    // A single request larger than the whole limit waits for a fresh window, not forever
+    const needed = Math.min(estimatedTokens, config.tokensPerMinute)
+    if (usage.tokens + needed > config.tokensPerMinute) {
+      return { allowed: false, retryAfterMs: usage.windowEndsAt - now, reason: 'tokens' }
+    }
+
+    return { allowed: true, retryAfterMs: 0 }
+  }
+
+  /**
+   * Charge one request and the actual token usage to the current window. Usage may pass
+   * the limit when the estimate was low; the next window starts from zero.
+   */
+  async consume(provider: string, tokens: number): Promise<void> {
+    const window = this.windowStart(Date.now())
+    const requestsKey = KEYS.RATE_LIMIT_USED(provider, window, 'requests')
+    const tokensKey = KEYS.RATE_LIMIT_USED(provider, window, 'tokens')
+
+    await Promise.all([kv.incr(requestsKey), kv.incrby(tokensKey, Math.max(0, Math.round(tokens)))])
+    // A window is only read while it is current - keep it a little past its end
+    await Promise.all([kv.expire(requestsKey, WINDOW_TTL_SECONDS), kv.expire(tokensKey, WINDOW_TTL_SECONDS)])
+  }
+
+  /**
+   * Stop handing out budget for a while - used when the provider itself returns 429.
+   * Concurrent pauses are last-write-wins; they come from the same provider's retry-after, so they end together.
+   */
+  async pause(provider: string, ms: number): Promise<void> {
+    const key = KEYS.RATE_LIMIT_PAUSE(provider)
+    const current = (await kv.get<number>(key)) || 0
+    const pausedUntil = Math.max(current, Date.now() + ms)
+
+    await kv.set(key, pausedUntil, { px: Math.max(1, pausedUntil - Date.now()) })
+    console.log(`⏸️ Rate limit pause for ${provider}: ${Math.round(ms / 1000)}s`)
+  }
+
+  async getStatus(provider: string): Promise<RateLimitStatus> {
+    const config = this.getConfig(provider)
+    const usage = await this.load(provider)
+
+    return {
+      provider,
+      ...config,
+      availableRequests: Math.max(0, config.requestsPerMinute - usage.requests),
+      availableTokens: Math.max(0, config.tokensPerMinute - usage.tokens),
+      pausedUntil: usage.pausedUntil && usage.pausedUntil > Date.now()
+        ? new Date(usage.pausedUntil).toISOString()
+        : undefined
+    }
+  }
+
+  /**
+   * Rough token cost of a reply call: prompt characters / 4 plus the output cap, with
+   * the system prompt and output cap its route will actually use
+   */
+  estimateReplyTokens(email: Pick<ProcessedEmail, 'subject' | 'body' | 'snippet'>, reply: { systemPrompt: string; maxTokens: number }): number {
+    const emailChars = (email.subject?.length || 0) + (email.body || email.snippet || '').length
+    return Math.ceil((reply.systemPrompt.length + emailChars) / 4) + reply.maxTokens
+  }
+
+  // Requests and tokens charged in the current window, and any pause in force
+  private async load(provider: string): Promise<WindowUsage> {
+    const window = this.windowStart(Date.now())
+    const [requests, tokens, pausedUntil] = await Promise.all([
+      kv.get<number>(KEYS.RATE_LIMIT_USED(provider, window, 'requests')),
+      kv.get<number>(KEYS.RATE_LIMIT_USED(provider, window, 'tokens')),
+      kv.get<number>(KEYS.RATE_LIMIT_PAUSE(provider))
+    ])
+
+    return {
+      requests: Number(requests) || 0,
+      tokens: Number(tokens) || 0,
+      windowEndsAt: window + MINUTE_MS,
+      pausedUntil: pausedUntil ? Number(pausedUntil) : undefined
+    }
+  }
+
+  private windowStart(now: number): number {
+    return Math.floor(now / MINUTE_MS) * MINUTE_MS
+  }
+}
+
+// Export singleton instance
+export const rateLimiter = new RateLimiter()
@@ -0,0 +1,128 @@
+// /lib/storage/email-query.ts
+// Cursor encoding, filtering and projection shared by the repository query methods
+// Backends use these for whatever their indexes cannot answer directly
+
+import type {
+  EmailField,
+  EmailQuery,
+  EmailSortField,
+  EmailSummary,
+  ProcessedEmail
+} from './email-repository'
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 200
+
+// Every projectable field - typed as a record so a new ProcessedEmail field cannot be missed
+const FIELD_NAMES: Record<EmailField, true> = {
+  id: true,
+  threadId: true,
+  subject: true,
+  from: true,
+  to: true,
+  date: true,
+  snippet: true,
+  body: true,
+  receivedAt: true,
+  historyId: true,
+  messageId: true,
+  inReplyTo: true,
+  references: true,
+  attachments: true,
+  status: true,
+  processedAt: true,
+  error: true,
+  response: true,
+  category: true,
+  tokenUsage: true,
+  generatedBy: true,
+  route: true,
+  promptVersion: true,
+  processingTime: true,
+  deliveryStatus: true,
+  deliveredAt: true,
+  deliveryAttempts: true,
+  deliveryProvider: true,
+  attempts: true,
+  nextRetryAt: true,
+  approval: true,
+  extraction: true,
+  rateQuote: true,
+  quoteId: true,
+  quoteReply: true,
+  outboundMessageId: true
+}
+
+export const EMAIL_FIELDS = Object.keys(FIELD_NAMES) as EmailField[]
+
+// Position of the last email on a page: its sort value plus the id as tie-breaker
+export interface EmailCursor {
+  value: number
+  id: string
+}
+
+export function encodeEmailCursor(cursor: EmailCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url')
+}
+
+export function decodeEmailCursor(cursor: string): EmailCursor {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof value === 'number' && typeof id === 'string') {
+      return { value, id }
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error('Invalid cursor')
+}
+
+export function clampPageSize(limit?: number): number {
+  if (!limit || limit < 1) return DEFAULT_PAGE_SIZE
+  return Math.min(Math.floor(limit), MAX_PAGE_SIZE)
+}
+
+/**
+ * Sort value for an email in milliseconds, or null when the email has none
+ * (unprocessed emails have no processedAt)
+ */
+export function getSortValue(email: ProcessedEmail, sort: EmailSortField): number | null {
+  const raw = sort === 'processedAt' ? email.processedAt : email.receivedAt
+  if (!raw) return null
+  const value = new Date(raw).getTime()
+  return isNaN(value) ? null : value
+}
+
+/**
+ * True when the email passes every filter in the query (sort and paging are ignored)
+ */
+export function matchesEmailQuery(email: ProcessedEmail, query: EmailQuery): boolean {
+  if (query.status?.length && !query.status.includes(email.status)) return false
+  if (query.category?.length && (!email.category || !query.category.includes(email.category))) return false
+  if (query.deliveryStatus?.length && (!email.deliveryStatus || !query.deliveryStatus.includes(email.deliveryStatus))) return false
+
+  if (query.sender && !email.from.toLowerCase().includes(query.sender.toLowerCase())) return false
+
+  if (query.receivedAfter || query.receivedBefore) {
+    const receivedAt = new Date(email.receivedAt).getTime()
+    if (query.receivedAfter && !(receivedAt >= new Date(query.receivedAfter).getTime())) return false
+    if (query.receivedBefore && !(receivedAt <= new Date(query.receivedBefore).getTime())) return false
+  }
+
+  return true
+}
+
+/**
+ * Keep only the requested fields - id is always returned so rows stay addressable
+ */
+export function projectEmail(email: ProcessedEmail, fields?: EmailField[]): EmailSummary {
+  if (!fields?.length) return email
+
+  const projected: EmailSummary = { id: email.id }
+  for (const field of fields) {
+    if (email[field] !== undefined) {
+      (projected as Record<string, unknown>)[field] = email[field]
+    }
+  }
+  return projected
+}
@@ -0,0 +1,238 @@
+// /lib/storage/email-repository.ts
+// Shared email types and the storage contract every backend implements
+// Consumers import these through @/lib/kv-client
+
+import type { FreightExtraction } from '@/lib/services/freight/freight-request'
+import type { RateQuote } from '@/lib/services/freight/rate-engine'
+import type { QuoteReply } from '@/lib/services/freight/quote-reply'
+import type { LLMProviderName } from '@/lib/services/llm/llm-factory'
+import type { MailTransportName } from '@/lib/services/email/mail-transport'
+import type { ModelRoute } from '@/lib/services/llm/model-router'
+
+// Email data types
+export interface EmailAttachment {
+  filename: string
+  mimeType: string
+  size?: number          // Bytes
+}
+
+export interface EmailRecord {
+  id: string
+  threadId: string
+  subject: string
+  from: string
+  to: string
+  date: string
+  snippet: string
+  body: string
+  receivedAt: string
+  historyId: number
+  messageId?: string     // Message-ID header, angle brackets included - captured by the ingester
+  inReplyTo?: string     // In-Reply-To header, when the email answers an earlier message
+  references?: string    // Raw References header - space-separated Message-IDs, oldest first
+  attachments?: EmailAttachment[]   // Attachment metadata only - the files themselves are not stored
+}
+
+export type EmailStatus = 'pending' | 'processing' | 'awaiting-approval' | 'completed' | 'failed' | 'manual-review'
+
+export const EMAIL_STATUSES: EmailStatus[] = ['pending', 'processing', 'awaiting-approval', 'completed', 'failed', 'manual-review']
+
+// Why a generated reply was held for review, and what the reviewer decided
+export interface ApprovalRecord {
+  reasons: string[]
+  requestedAt: string
+  decision?: 'approved' | 'rejected'
+  decidedBy?: string
+  decidedAt?: string
+  note?: string
+  edited?: boolean
+  draftVersion?: number  // Draft version that was sent (lib/services/email/draft-history.ts)
+}
+
+export interface ProcessedEmail extends EmailRecord {
+  status: EmailStatus
+  processedAt?: string
+  error?: string
+  response?: string
+  category?: string
+  tokenUsage?: {
+    prompt: number
+    completion: number
+    total: number
+  }
+  generatedBy?: {                  // Provider and model that wrote the reply (lib/services/llm/llm-factory.ts)
+    provider: LLMProviderName
+    model: string
+  }
+  route?: ModelRoute               // Route the model router chose for the reply (lib/services/llm/model-router.ts)
+  promptVersion?: string           // System prompt version that wrote the reply, e.g. standard@v3 (lib/services/llm/prompt-registry.ts)
+  processingTime?: number
+  deliveryStatus?: 'pending' | 'sent' | 'failed'
+  deliveredAt?: string
+  deliveryAttempts?: number        // Send attempts for the current reply (lib/services/email/outbox.ts)
+  deliveryProvider?: MailTransportName // Mail transport that sent or last tried to send the reply
+  attempts?: number        // processing attempts since the last manual retry or reset
+  nextRetryAt?: string     // when an automatic retry is scheduled
+  approval?: ApprovalRecord
+  extraction?: FreightExtraction   // Structured freight request pulled from the email before replying
+  rateQuote?: RateQuote | null     // Rate engine price for the extraction; null when it could not be priced
+  quoteId?: string                 // Quote record issued for this email (lib/services/freight/quote-service.ts)
+  quoteReply?: QuoteReply          // Intent of a reply to a quote already sent on this thread
+  outboundMessageId?: string       // Message-ID we set on the reply (lib/services/email/email-threading.ts)
+}
+
+// Processing fields that can be updated alongside a status change
+export type EmailStatusMetadata = Partial<Pick<ProcessedEmail,
+  | 'error'
+  | 'response'
+  | 'category'
+  | 'processedAt'
+  | 'tokenUsage'
+  | 'generatedBy'
+  | 'route'
+  | 'promptVersion'
+  | 'processingTime'
+  | 'deliveryStatus'
+  | 'deliveredAt'
+  | 'deliveryAttempts'
+  | 'deliveryProvider'
+  | 'attempts'
+  | 'nextRetryAt'
+  | 'approval'
+  | 'extraction'
+  | 'rateQuote'
+  | 'quoteId'
+  | 'quoteReply'
+  | 'outboundMessageId'
+>>
+
+// A conversation grouped by threadId - mirrors the email_threads table.
+// Each email carries the reply generated for it, so our side of the thread comes along.
+export interface EmailThread {
+  threadId: string
+  subject: string
+  participants: string[]
+  firstEmailAt: string
+  lastEmailAt: string
+  emailCount: number
+  emails: ProcessedEmail[]   // oldest first
+}
+
+export interface TokenUsageStats {
+  totalPrompt: number
+  totalCompletion: number
+  totalTokens: number
+  emailsProcessed: number
+  averageTokensPerEmail: number
+}
+
+export interface ProcessingStats {
+  pending: number
+  processing: number
+  awaitingApproval: number
+  completed: number
+  failed: number
+  manualReview: number
+  totalEmails: number
+  successRate: number
+}
+
+export type DeliveryStatus = NonNullable<ProcessedEmail['deliveryStatus']>
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'sent', 'failed']
+
+export type EmailField = keyof ProcessedEmail
+export type EmailSortField = 'receivedAt' | 'processedAt'
+
+// Filters, ordering and projection for paginated listings
+export interface EmailQuery {
+  status?: EmailStatus[]
+  category?: string[]
+  sender?: string              // case-insensitive substring of the From header
+  receivedAfter?: string       // ISO timestamps, inclusive
+  receivedBefore?: string
+  deliveryStatus?: DeliveryStatus[]
+  sort?: EmailSortField        // processedAt only lists emails that have been processed
+  order?: 'asc' | 'desc'
+  cursor?: string              // opaque, taken from the previous page's nextCursor
+  limit?: number
+  fields?: EmailField[]        // id is always included
+}
+
+export type EmailSummary = Partial<ProcessedEmail> & Pick<ProcessedEmail, 'id'>
+
+export interface EmailPage {
+  emails: EmailSummary[]
+  nextCursor: string | null
+}
+
+/**
+ * Storage contract for the email pipeline.
+ * Every backend implements the same surface so the processor and API routes
+ * never need to know where emails live.
+ */
+export interface EmailRepository {
+  getAllEmails(): Promise<ProcessedEmail[]>
+  getEmail(id: string): Promise<ProcessedEmail | null>
+  getEmailByMessageId(messageId: string): Promise<ProcessedEmail | null>
+  getEmailIds(): Promise<string[]>
+  hasEmail(id: string): Promise<boolean>
+  storeEmail(email: EmailRecord): Promise<void>
+  updateEmailStatus(id: string, status: EmailStatus, metadata?: EmailStatusMetadata): Promise<void>
+  updateTokenUsage(usage: ProcessedEmail['tokenUsage']): Promise<void>
+  getTokenUsageStats(): Promise<TokenUsageStats>
+  getLastHistoryId(): Promise<number>
+  setLastHistoryId(historyId: number): Promise<void>
+  getPendingEmails(): Promise<string[]>
+  getProcessingQueue(): Promise<string[]>
+  getProcessingStats(): Promise<ProcessingStats>
+  queryEmails(query: EmailQuery): Promise<EmailPage>
+  getThread(threadId: string): Promise<EmailThread | null>
+  importExistingEmails(): Promise<number>
+}
+
+/**
+ * Thread summary fields from its emails - shared by backends that do not store them
+ */
+export function buildEmailThread(threadId: string, emails: ProcessedEmail[]): EmailThread | null {
+  if (emails.length === 0) return null
+
+  const sorted = [...emails].sort((a, b) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime())
+  const participants = new Set<string>()
+  for (const email of sorted) {
+    for (const address of [email.from, email.to]) {
+      if (address) participants.add(address)
+    }
+  }
+
+  return {
+    threadId,
+    subject: sorted[0].subject,
+    participants: [...participants],
+    firstEmailAt: sorted[0].receivedAt,
+    lastEmailAt: sorted[sorted.length - 1].receivedAt,
+    emailCount: sorted.length,
+    emails: sorted
+  }
+}
+
+/**
+ * Fill in successRate from raw status counts - shared by every backend
+ */
+export function buildProcessingStats(counts: Omit<ProcessingStats, 'successRate'>): ProcessingStats {
+  const totalProcessed = counts.completed + counts.failed + counts.manualReview
+  return {
+    ...counts,
+    successRate: totalProcessed > 0 ? Math.round((counts.completed / totalProcessed) * 100) : 0
+  }
+}
+
+export type StorageBackend = 'kv' | 'postgres' | 'memory'
+
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'kv').toLowerCase()
+  if (backend === 'postgres' || backend === 'memory') return backend
+  if (backend !== 'kv') {
+    console.warn(`⚠️ Unknown STORAGE_BACKEND: ${backend}, defaulting to kv`)
+  }
+  return 'kv'
+}
@@ -0,0 +1,69 @@
+// /lib/storage/kv-email-repository.test.ts
+// KV repository over an isolated MemoryKV - indexes, status moves, stats and paging
+// Each test gets a fresh store from createMemoryEmailRepository
+
+import { describe, expect, it } from 'vitest'
+import { createMemoryEmailRepository } from './kv-email-repository'
+import type { EmailRecord } from './email-repository'
+
+function email(id: string, receivedAt: string, extra: Partial<EmailRecord> = {}): EmailRecord {
+  return {
+    id,
+    threadId: `thread-${id}`,
+    subject: `Subject ${id}`,
+    from: 'Bob <bob@acme.com>',
+    to: 'quotes@amara.test',
+    date: receivedAt,
+    snippet: '',
+    body: `Body of ${id}`,
+    receivedAt,
+    historyId: 1,
+    ...extra
+  }
+}
+
+describe('KVEmailRepository', () => {
+  it('stores emails as pending and reads them back', async () => {
+    const { repository } = createMemoryEmailRepository()
+    await repository.storeEmail(email('a', '2026-10-01T10:00:00Z'))
+
+    const stored = await repository.getEmail('a')
+    expect(stored?.status).toBe('pending')
+    expect(stored?.body).toBe('Body of a')
+    expect(await repository.hasEmail('a')).toBe(true)
+    expect(await repository.hasEmail('missing')).toBe(false)
+  })
+
+  it('moves emails between status indexes and counts them', async () => {
+    const { repository } = createMemoryEmailRepository()
+    await repository.storeEmail(email('a', '2026-10-01T10:00:00Z'))
+    await repository.storeEmail(email('b', '2026-10-01T11:00:00Z'))
+    await repository.updateEmailStatus('a', 'completed', {
+      response: 'Reply',
+      processedAt: '2026-10-01T10:05:00Z',
+      tokenUsage: { prompt: 10, completion: 5, total: 15 }
+    })
+
+    const stats = await repository.getProcessingStats()
+    expect(stats).toMatchObject({ totalEmails: 2, pending: 1, completed: 1 })
+
+    const completed = await repository.queryEmails({ status: ['completed'] })
+    expect(completed.emails.map(summary => summary.id)).toEqual(['a'])
+    expect((await repository.getEmail('a'))?.response).toBe('Reply')
+  })
+
+  it('pages newest first and projects only the requested fields', async () => {
+    const { repository } = createMemoryEmailRepository()
+    for (const [index, id] of ['a', 'b', 'c'].entries()) {
+      await repository.storeEmail(email(id, `2026-10-0${index + 1}T10:00:00Z`))
+    }
+
+    const first = await repository.queryEmails({ limit: 2, fields: ['subject'] })
+    expect(first.emails).toEqual([{ id: 'c', subject: 'Subject c' }, { id: 'b', subject: 'Subject b' }])
+    expect(first.nextCursor).not.toBeNull()
+
+    const second = await repository.queryEmails({ limit: 2, fields: ['subject'], cursor: first.nextCursor! })
+    expect(second.emails.map(summary => summary.id)).toEqual(['a'])
+    expect(second.nextCursor).toBeNull()
+  })
+})
@@ -0,0 +1,457 @@
+// /lib/storage/kv-email-repository.ts
+// Key-value implementation of the email repository (Vercel KV or the in-memory store)
+// Original storage layout: gmail:email:{id} plus :status and :response siblings
+
+import { kv, type KVClient } from './kv'
+import { KEYS, scanEmailIds } from './kv-keys'
+import { MemoryKV } from './memory-kv'
+import {
+  clampPageSize,
+  decodeEmailCursor,
+  encodeEmailCursor,
+  matchesEmailQuery,
+  projectEmail
+} from './email-query'
+import {
+  buildEmailThread,
+  buildProcessingStats,
+  EMAIL_STATUSES,
+  type EmailPage,
+  type EmailQuery,
+  type EmailRecord,
+  type EmailRepository,
+  type EmailStatus,
+  type EmailStatusMetadata,
+  type EmailThread,
+  type ProcessedEmail,
+  type ProcessingStats,
+  type TokenUsageStats
+} from './email-repository'
+
+type StoredStatus = EmailStatusMetadata & { status: EmailStatus }
+
+export class KVEmailRepository implements EmailRepository {
+  constructor(private client: KVClient) {}
+
+  // Get all emails with their status, newest first
+  async getAllEmails(): Promise<ProcessedEmail[]> {
+    const emailIds = await this.getEmailIds()
+    if (emailIds.length === 0) return []
+
+    const emails = await Promise.all(emailIds.map(id => this.getEmail(id)))
+    return emails.filter((email): email is ProcessedEmail => email !== null)
+  }
+
+  // Get single email with status and response - SILENT
+  async getEmail(id: string): Promise<ProcessedEmail | null> {
+    const [emailData, statusData, responseData] = await Promise.all([
+      this.client.get<EmailRecord>(KEYS.EMAIL(id)),
+      this.client.get<StoredStatus>(KEYS.EMAIL_STATUS(id)),
+      this.client.get<string>(KEYS.EMAIL_RESPONSE(id))
+    ])
+
+    if (!emailData) {
+      return null
+    }
+
+    // Get response from either location
+    const response = responseData || statusData?.response
+
+    return {
+      ...emailData,
+      status: statusData?.status || 'pending',
+      processedAt: statusData?.processedAt,
+      error: statusData?.error,
+      response: response,
+      category: statusData?.category,
+      tokenUsage: statusData?.tokenUsage,
+      generatedBy: statusData?.generatedBy,
+      route: statusData?.route,
+      promptVersion: statusData?.promptVersion,
+      processingTime: statusData?.processingTime,
+      deliveryStatus: statusData?.deliveryStatus,
+      deliveredAt: statusData?.deliveredAt,
+      deliveryAttempts: statusData?.deliveryAttempts,
+      deliveryProvider: statusData?.deliveryProvider,
+      attempts: statusData?.attempts,
+      nextRetryAt: statusData?.nextRetryAt || undefined,
+      approval: statusData?.approval,
+      extraction: statusData?.extraction,
+      rateQuote: statusData?.rateQuote,
+      quoteId: statusData?.quoteId || undefined,
+      quoteReply: statusData?.quoteReply,
+      outboundMessageId: statusData?.outboundMessageId || undefined
+    }
+  }
+
+  // Resolves both an inbound email's own Message-ID and the one we set on its reply
+  async getEmailByMessageId(messageId: string): Promise<ProcessedEmail | null> {
+    const id = await this.client.get<string>(KEYS.EMAIL_BY_MESSAGE_ID(messageId))
+    return id ? this.getEmail(String(id)) : null
+  }
+
+  // IDs ordered by receivedAt, newest first; rebuilds the index if it is missing
+  async getEmailIds(): Promise<string[]> {
+    let ids = await this.client.zrange<string[]>(KEYS.EMAILS_BY_RECEIVED, 0, -1, { rev: true })
+
+    if (ids.length === 0) {
+      const imported = await this.importExistingEmails()
+      if (imported === 0) return []
+      ids = await this.client.zrange<string[]>(KEYS.EMAILS_BY_RECEIVED, 0, -1, { rev: true })
+    }
+
+    return ids.map(String)
+  }
+
+  async hasEmail(id: string): Promise<boolean> {
+    return (await this.client.zscore(KEYS.EMAILS_BY_RECEIVED, id)) !== null
+  }
+
+  // Store new email and add it to every index
+  async storeEmail(email: EmailRecord): Promise<void> {
+    const previous = await this.client.get<StoredStatus>(KEYS.EMAIL_STATUS(email.id))
+
+    await Promise.all([
+      this.client.set(KEYS.EMAIL(email.id), email),
+      this.client.set(KEYS.EMAIL_STATUS(email.id), { status: 'pending' as EmailStatus }),
+      this.client.zadd(KEYS.EMAIL_QUEUE, {
+        score: new Date(email.receivedAt).getTime(),
+        member: email.id,
+      }),
+      this.indexEmail(email, 'pending', previous?.status)
+    ])
+  }
+
+  // Update email status with LLM response data - MINIMAL LOGGING
+  async updateEmailStatus(
+    id: string, 
+    status: EmailStatus,
+    metadata?: EmailStatusMetadata
+  ): Promise<void> {
+    // Only log significant updates (with responses or errors)
+    if (metadata?.response !== undefined || metadata?.error) {
+      console.log(`📝 Updating email ${id}: status=${status}${metadata?.response ? ` response=${metadata.response.length} chars` : ''}${metadata?.error ? ` error="${metadata.error}"` : ''}`)
+    }
+
+    const currentStatus = await this.client.get<any>(KEYS.EMAIL_STATUS(id)) || {}
+    
+    const statusData = {
+      ...currentStatus,
+      status,
+      ...(metadata?.processedAt !== undefined ? { processedAt: metadata.processedAt } : {}),
+      ...(metadata?.error !== undefined ? { error: metadata.error } : {}),
+      ...(metadata?.response !== undefined ? { response: metadata.response } : {}),
+      ...(metadata?.category !== undefined ? { category: metadata.category } : {}),
+      ...(metadata?.tokenUsage !== undefined ? { tokenUsage: metadata.tokenUsage } : {}),
+      ...(metadata?.generatedBy !== undefined ? { generatedBy: metadata.generatedBy } : {}),
+      ...(metadata?.route !== undefined ? { route: metadata.route } : {}),
+      ...(metadata?.promptVersion !== undefined ? { promptVersion: metadata.promptVersion } : {}),
+      ...(metadata?.processingTime !== undefined ? { processingTime: metadata.processingTime } : {}),
+      ...(metadata?.deliveryStatus !== undefined ? { deliveryStatus: metadata.deliveryStatus } : {}),
+      ...(metadata?.deliveredAt !== undefined ? { deliveredAt: metadata.deliveredAt } : {}),
+      ...(metadata?.deliveryAttempts !== undefined ? { deliveryAttempts: metadata.deliveryAttempts } : {}),
+      ...(metadata?.deliveryProvider !== undefined ? { deliveryProvider: metadata.deliveryProvider } : {}),
+      ...(metadata?.attempts !== undefined ? { attempts: metadata.attempts } : {}),
+      ...(metadata?.nextRetryAt !== undefined ? { nextRetryAt: metadata.nextRetryAt } : {}),
+      ...(metadata?.approval !== undefined ? { approval: metadata.approval } : {}),
+      ...(metadata?.extraction !== undefined ? { extraction: metadata.extraction } : {}),
+      ...(metadata?.rateQuote !== undefined ? { rateQuote: metadata.rateQuote } : {}),
+      ...(metadata?.quoteId !== undefined ? { quoteId: metadata.quoteId } : {}),
+      ...(metadata?.quoteReply !== undefined ? { quoteReply: metadata.quoteReply } : {}),
+      ...(metadata?.outboundMessageId !== undefined ? { outboundMessageId: metadata.outboundMessageId } : {})
+    }
+
+    // Store status data and move the email between status sets
+    await Promise.all([
+      this.client.set(KEYS.EMAIL_STATUS(id), statusData),
+      this.moveStatusIndex(id, currentStatus.status, status),
+      ...(metadata?.processedAt ? [this.indexProcessedAt(id, metadata.processedAt)] : []),
+      ...(metadata?.outboundMessageId ? [this.client.set(KEYS.EMAIL_BY_MESSAGE_ID(metadata.outboundMessageId), id)] : [])
+    ])
+
+    // Handle response storage/deletion
+    if (metadata?.response !== undefined) {
+      if (metadata.response) {
+        // Store response in separate key
+        await this.client.set(KEYS.EMAIL_RESPONSE(id), metadata.response)
+        
+        // Only verify for actual LLM responses (not clearing)
+        if (status === 'completed') {
+          const verifyResponse = await this.client.get<string>(KEYS.EMAIL_RESPONSE(id))
+          if (!verifyResponse) {
+            console.error(`⚠️ WARNING: Response storage verification failed for ${id}!`)
+          }
+        }
+      } else {
+        // Clear response when resetting
+        await this.client.del(KEYS.EMAIL_RESPONSE(id))
+      }
+    }
+
+    // Update processing queue
+    if (status === 'processing') {
+      await this.client.zadd(KEYS.PROCESSING_QUEUE, {
+        score: Date.now(),
+        member: id
+      })
+    } else {
+      await this.client.zrem(KEYS.PROCESSING_QUEUE, id)
+    }
+
+    // Update token usage stats
+    if (metadata?.tokenUsage) {
+      await this.updateTokenUsage(metadata.tokenUsage)
+    }
+  }
+
+  // Update global token usage statistics
+  async updateTokenUsage(usage: ProcessedEmail['tokenUsage']): Promise<void> {
+    if (!usage) return
+    
+    const current = await this.client.get<{
+      totalPrompt: number
+      totalCompletion: number
+      totalTokens: number
+      emailsProcessed: number
+      lastUpdated: string
+    }>(KEYS.TOKEN_USAGE) || {
+      totalPrompt: 0,
+      totalCompletion: 0,
+      totalTokens: 0,
+      emailsProcessed: 0,
+      lastUpdated: new Date().toISOString()
+    }
+
+    await this.client.set(KEYS.TOKEN_USAGE, {
+      totalPrompt: current.totalPrompt + usage.prompt,
+      totalCompletion: current.totalCompletion + usage.completion,
+      totalTokens: current.totalTokens + usage.total,
+      emailsProcessed: current.emailsProcessed + 1,
+      lastUpdated: new Date().toISOString()
+    })
+  }
+
+  // Get token usage statistics
+  async getTokenUsageStats(): Promise<TokenUsageStats> {
+    const stats = await this.client.get<{
+      totalPrompt: number
+      totalCompletion: number
+      totalTokens: number
+      emailsProcessed: number
+    }>(KEYS.TOKEN_USAGE) || {
+      totalPrompt: 0,
+      totalCompletion: 0,
+      totalTokens: 0,
+      emailsProcessed: 0
+    }
+
+    return {
+      ...stats,
+      averageTokensPerEmail: stats.emailsProcessed > 0 
+        ? Math.round(stats.totalTokens / stats.emailsProcessed)
+        : 0
+    }
+  }
+
+  async getLastHistoryId(): Promise<number> {
+    const lastId = await this.client.get<number>(KEYS.LAST_HISTORY_ID)
+    return lastId || 0
+  }
+
+  async setLastHistoryId(historyId: number): Promise<void> {
+    await this.client.set(KEYS.LAST_HISTORY_ID, historyId)
+  }
+
+  async getPendingEmails(): Promise<string[]> {
+    const pending = await this.client.smembers<string[]>(KEYS.EMAILS_BY_STATUS('pending'))
+    return pending.map(String)
+  }
+
+  async getProcessingQueue(): Promise<string[]> {
+    const members = await this.client.zrange(KEYS.PROCESSING_QUEUE, 0, -1)
+    return members as string[]
+  }
+
+  // Counts come straight from the index cardinalities - no email bodies are loaded
+  async getProcessingStats(): Promise<ProcessingStats> {
+    const [totalEmails, ...counts] = await Promise.all([
+      this.client.zcard(KEYS.EMAILS_BY_RECEIVED),
+      ...EMAIL_STATUSES.map(status => this.client.scard(KEYS.EMAILS_BY_STATUS(status)))
+    ])
+    const [pending, processing, awaitingApproval, completed, failed, manualReview] = counts
+
+    return buildProcessingStats({ pending, processing, awaitingApproval, completed, failed, manualReview, totalEmails })
+  }
+
+  /**
+   * Walk the receivedAt or processedAt index in sort order. Status sets and the
+   * receivedAt score range narrow the walk; the remaining filters run per email.
+   */
+  async queryEmails(query: EmailQuery): Promise<EmailPage> {
+    const sort = query.sort || 'receivedAt'
+    const desc = (query.order || 'desc') === 'desc'
+    const limit = clampPageSize(query.limit)
+    const cursor = query.cursor ? decodeEmailCursor(query.cursor) : null
+    const index = sort === 'processedAt' ? KEYS.EMAILS_BY_PROCESSED : KEYS.EMAILS_BY_RECEIVED
+
+    let min = -Infinity
+    let max = Infinity
+    if (sort === 'receivedAt') {
+      if (query.receivedAfter) min = new Date(query.receivedAfter).getTime()
+      if (query.receivedBefore) max = new Date(query.receivedBefore).getTime()
+    }
+    if (cursor) {
+      if (desc) max = Math.min(max, cursor.value)
+      else min = Math.max(min, cursor.value)
+    }
+
+    const statusIds = query.status?.length
+      ? new Set((await Promise.all(
+          query.status.map(status => this.client.smembers<string[]>(KEYS.EMAILS_BY_STATUS(status)))
+        )).flat().map(String))
+      : null
+
+    // Collect one extra match so we know whether another page exists
+    const matches: { email: ProcessedEmail; score: number }[] = []
+    const batchSize = Math.max(limit * 2, 50)
+    let offset = 0
+
+    while (matches.length <= limit) {
+      const batch = await this.client.zrange<(string | number)[]>(
+        index,
+        this.scoreBound(desc ? max : min),
+        this.scoreBound(desc ? min : max),
+        { byScore: true, rev: desc, withScores: true, offset, count: batchSize }
+      )
+
+      const candidates: { id: string; score: number }[] = []
+      for (let i = 0; i < batch.length; i += 2) {
+        const id = String(batch[i])
+        const score = Number(batch[i + 1])
+
+        // Equal scores are ordered by member, so the id breaks ties past the cursor
+        if (cursor && score === cursor.value && (desc ? id >= cursor.id : id <= cursor.id)) continue
+        if (statusIds && !statusIds.has(id)) continue
+        candidates.push({ id, score })
+      }
+
+      const emails = await Promise.all(candidates.map(({ id }) => this.getEmail(id)))
+      for (let i = 0; i < emails.length && matches.length <= limit; i++) {
+        const email = emails[i]
+        if (email && matchesEmailQuery(email, query)) {
+          matches.push({ email, score: candidates[i].score })
+        }
+      }
+
+      if (batch.length < batchSize * 2) break
+      offset += batchSize
+    }
+
+    const page = matches.slice(0, limit)
+    const last = page[page.length - 1]
+
+    return {
+      emails: page.map(({ email }) => projectEmail(email, query.fields)),
+      nextCursor: matches.length > limit
+        ? encodeEmailCursor({ value: last.score, id: last.email.id })
+        : null
+    }
+  }
+
+  // Emails indexed before the thread index existed are found by a full read and backfilled
+  async getThread(threadId: string): Promise<EmailThread | null> {
+    let ids = await this.client.zrange<string[]>(KEYS.EMAILS_BY_THREAD(threadId), 0, -1)
+
+    if (ids.length === 0) {
+      const emails = (await this.getAllEmails()).filter(email => email.threadId === threadId)
+      await Promise.all(emails.map(email => this.client.zadd(KEYS.EMAILS_BY_THREAD(threadId), {
+        score: new Date(email.receivedAt).getTime() || 0,
+        member: email.id
+      })))
+      return buildEmailThread(threadId, emails)
+    }
+
+    const emails = await Promise.all(ids.map(id => this.getEmail(String(id))))
+    return buildEmailThread(threadId, emails.filter((email): email is ProcessedEmail => email !== null))
+  }
+
+  /**
+   * Recovery path: SCAN the keyspace for email records missing from the indexes
+   * (written by the ingester directly, or predating the indexes) and index them.
+   */
+  async importExistingEmails(): Promise<number> {
+    const emailIds = await scanEmailIds(this.client)
+
+    let imported = 0
+    for (const id of emailIds) {
+      if (await this.hasEmail(id)) continue
+
+      const [email, statusData] = await Promise.all([
+        this.client.get<EmailRecord>(KEYS.EMAIL(id)),
+        this.client.get<StoredStatus>(KEYS.EMAIL_STATUS(id))
+      ])
+      if (!email) continue
+
+      const status = statusData?.status || 'pending'
+      if (!statusData) {
+        await this.client.set(KEYS.EMAIL_STATUS(id), { status })
+      }
+      await this.indexEmail(email, status)
+      if (statusData?.processedAt) {
+        await this.indexProcessedAt(id, statusData.processedAt)
+      }
+
+      imported++
+    }
+
+    return imported
+  }
+
+  private async indexEmail(email: EmailRecord, status: EmailStatus, previousStatus?: EmailStatus): Promise<void> {
+    await Promise.all([
+      this.client.zadd(KEYS.EMAILS_BY_RECEIVED, {
+        score: new Date(email.receivedAt).getTime() || 0,
+        member: email.id
+      }),
+      this.client.zadd(KEYS.EMAILS_BY_HISTORY, {
+        score: email.historyId || 0,
+        member: email.id
+      }),
+      ...(email.threadId ? [this.client.zadd(KEYS.EMAILS_BY_THREAD(email.threadId), {
+        score: new Date(email.receivedAt).getTime() || 0,
+        member: email.id
+      })] : []),
+      ...(email.messageId ? [this.client.set(KEYS.EMAIL_BY_MESSAGE_ID(email.messageId), email.id)] : []),
+      this.moveStatusIndex(email.id, previousStatus, status)
+    ])
+  }
+
+  private async indexProcessedAt(id: string, processedAt: string): Promise<void> {
+    const score = new Date(processedAt).getTime()
+    if (isNaN(score)) return
+    await this.client.zadd(KEYS.EMAILS_BY_PROCESSED, { score, member: id })
+  }
+
+  private scoreBound(value: number): number | string {
+    if (value === Infinity) return '+inf'
+    if (value === -Infinity) return '-inf'
+    return value
+  }
+
+  private async moveStatusIndex(id: string, from: EmailStatus | undefined, to: EmailStatus): Promise<void> {
+    if (from && from !== to) {
+      await this.client.srem(KEYS.EMAILS_BY_STATUS(from), id)
+    }
+    await this.client.sadd(KEYS.EMAILS_BY_STATUS(to), id)
+  }
+}
+
+// Export singleton instance bound to the configured KV client
+export const kvEmailRepository = new KVEmailRepository(kv)
+
+/**
+ * Isolated repository over a fresh MemoryKV - use as a test fixture
+ */
+export function createMemoryEmailRepository(store: MemoryKV = new MemoryKV()) {
+  return { store, repository: new KVEmailRepository(store) }
+}
@@ -0,0 +1,113 @@
+// /lib/storage/kv-keys.ts
+// Key layout for KV storage plus the single key classifier used everywhere
+// Indexes live under gmail:emails:* so they never match the gmail:email:* record pattern
+
+import type { KVClient } from './kv'
+import type { EmailStatus } from './email-repository'
+
+const EMAIL_PREFIX = 'gmail:email:'
+
+// Key patterns for KV storage
+export const KEYS = {
+  EMAIL: (id: string) => `${EMAIL_PREFIX}${id}`,
+  EMAIL_STATUS: (id: string) => `${EMAIL_PREFIX}${id}:status`,
+  EMAIL_RESPONSE: (id: string) => `${EMAIL_PREFIX}${id}:response`,
+  EMAIL_METADATA: (id: string) => `${EMAIL_PREFIX}${id}:metadata`,
+  EMAIL_DRAFTS: (id: string) => `${EMAIL_PREFIX}${id}:drafts`,
+  EMAIL_QUEUE: 'gmail:email:queue',
+  PROCESSING_QUEUE: 'gmail:email:processing:queue',
+  LAST_HISTORY_ID: 'gmail:email:last_history_id',
+  TOKEN_USAGE: 'gmail:stats:token_usage',
+  PROCESSING_STATS: 'gmail:stats:processing',
+
+  // Secondary indexes maintained by the repository
+  EMAILS_BY_RECEIVED: 'gmail:emails:by_received',
+  EMAILS_BY_HISTORY: 'gmail:emails:by_history',
+  EMAILS_BY_PROCESSED: 'gmail:emails:by_processed',
+  EMAILS_BY_STATUS: (status: EmailStatus) => `gmail:emails:status:${status}`,
+  EMAILS_BY_THREAD: (threadId: string) => `gmail:emails:thread:${threadId}`,
+  EMAIL_BY_MESSAGE_ID: (messageId: string) => `gmail:emails:message:${messageId}`,
+
+  // Processing job queue (lib/services/email/job-queue.ts)
+  JOBS_READY: 'gmail:jobs:ready',
+  JOBS_LEASED: 'gmail:jobs:leased',
+  JOB_LEASE: (id: string) => `gmail:jobs:lease:${id}`,
+  DEAD_LETTER: 'gmail:jobs:dead_letter',
+  DEAD_LETTER_ENTRY: (id: string) => `gmail:jobs:dead_letter:${id}`,
+
+  // Outbound reply outbox (lib/services/email/outbox.ts)
+  OUTBOX_MESSAGE: (emailId: string) => `gmail:outbox:message:${emailId}`,
+  OUTBOX_READY: 'gmail:outbox:ready',
+  OUTBOX_SENDING: 'gmail:outbox:sending',
+  OUTBOX_BY_CREATED: 'gmail:outbox:by_created',
+  OUTBOX_LEASE: (emailId: string) => `gmail:outbox:lease:${emailId}`,
+
+  // LLM rate limits per minute window (lib/services/llm/rate-limiter.ts)
+  RATE_LIMIT_USED: (provider: string, window: number, unit: 'requests' | 'tokens') => `gmail:ratelimit:${provider}:${window}:${unit}`,
+  RATE_LIMIT_PAUSE: (provider: string) => `gmail:ratelimit:${provider}:paused`,
+
+  // LLM circuit breakers (lib/services/llm/circuit-breaker.ts)
+  CIRCUIT: (provider: string, model: string) => `gmail:circuit:${provider}:${model}`,
+
+  // System prompt templates (lib/services/llm/prompt-registry.ts)
+  PROMPT_VERSION: (name: string, version: number) => `gmail:prompt:${name}:v${version}`,
+  PROMPT_SEQUENCE: (name: string) => `gmail:prompt:${name}:sequence`,
+  PROMPT_PUBLISHED: (name: string) => `gmail:prompt:${name}:published`,
+
+  // Fuel surcharge schedule (lib/services/freight/fuel-surcharge.ts)
+  FUEL_PRICES: 'gmail:fuel:prices',
+  FUEL_LADDER: 'gmail:fuel:ladder',
+
+  // Quotes (lib/services/freight/quote-service.ts)
+  QUOTE: (id: string) => `gmail:quote:${id}`,
+  QUOTES_BY_CREATED: 'gmail:quotes:by_created',
+  QUOTES_BY_THREAD: (threadId: string) => `gmail:quotes:thread:${threadId}`,
+  QUOTE_SEQUENCE: 'gmail:quotes:sequence',
+
+  // Lane distance cache (lib/services/freight/lane-distance.ts)
+  LANE_DISTANCE: (lane: string) => `gmail:mileage:${lane}`
+} as const
+
+// Bookkeeping keys that share the gmail:email: prefix but are not emails
+// ('all' is the legacy tracking set replaced by EMAILS_BY_RECEIVED)
+const RESERVED_SEGMENTS = new Set(['queue', 'all', 'last_history_id', 'processing'])
+
+export type KeyClass =
+  | { kind: 'email'; id: string }
+  | { kind: 'email-field'; id: string; field: string }
+  | { kind: 'system' }
+  | { kind: 'other' }
+
+/**
+ * Classify a raw KV key.
+ * gmail:email:{id} is an email record, gmail:email:{id}:{field} one of its
+ * siblings (status, response, ...), and reserved names are our own bookkeeping.
+ */
+export function classifyKey(key: string): KeyClass {
+  if (!key.startsWith(EMAIL_PREFIX)) return { kind: 'other' }
+
+  const [id, ...rest] = key.slice(EMAIL_PREFIX.length).split(':')
+  if (!id || RESERVED_SEGMENTS.has(id)) return { kind: 'system' }
+  if (rest.length === 0) return { kind: 'email', id }
+  return { kind: 'email-field', id, field: rest.join(':') }
+}
+
+/**
+ * Discover email IDs by walking the keyspace with cursor-based SCAN.
+ * Recovery path only - normal reads go through the indexes above.
+ */
+export async function scanEmailIds(client: KVClient, pageSize: number = 500): Promise<string[]> {
+  const ids: string[] = []
+  let cursor: string = '0'
+
+  do {
+    const [next, keys] = await client.scan(cursor, { match: `${EMAIL_PREFIX}*`, count: pageSize })
+    for (const key of keys) {
+      const keyClass = classifyKey(key)
+      if (keyClass.kind === 'email') ids.push(keyClass.id)
+    }
+    cursor = String(next)
+  } while (cursor !== '0')
+
+  return ids
+}
@@ -0,0 +1,76 @@
+// /lib/storage/kv.ts
+// Key-value client used by the KV repository, the Upstash ingest routes and the services that keep state
+// Resolves to Vercel KV - needed by the postgres backend too - or to the in-memory store when STORAGE_BACKEND=memory
+
+import { kv as vercelKv } from '@vercel/kv'
+import { getStorageBackend } from './email-repository'
+import { MemoryKV } from './memory-kv'
+
+export interface KVSetOptions {
+  ex?: number
+  px?: number
+  nx?: boolean
+  xx?: boolean
+}
+
+export interface KVScoreMember<T> {
+  score: number
+  member: T
+}
+
+export interface KVRangeOptions {
+  byScore?: boolean
+  rev?: boolean
+  withScores?: boolean
+  offset?: number
+  count?: number
+}
+
+export interface KVScanOptions {
+  match?: string
+  count?: number
+}
+
+/**
+ * Subset of the @vercel/kv API the app relies on.
+ * Vercel KV satisfies it as-is; MemoryKV implements it for offline use.
+ */
+export interface KVClient {
+  get<T>(key: string): Promise<T | null>
+  set<T>(key: string, value: T, opts?: KVSetOptions): Promise<'OK' | T | null>
+  del(...keys: string[]): Promise<number>
+  exists(...keys: string[]): Promise<number>
+  keys(pattern: string): Promise<string[]>
+  scan(cursor: string | number, opts?: KVScanOptions): Promise<[string, string[]]>
+  incr(key: string): Promise<number>
+  incrby(key: string, value: number): Promise<number>
+  expire(key: string, seconds: number): Promise<0 | 1>
+  sadd<T>(key: string, member: T, ...members: T[]): Promise<number>
+  srem<T>(key: string, ...members: T[]): Promise<number>
+  smembers<T extends unknown[] = string[]>(key: string): Promise<T>
+  sismember<T>(key: string, member: T): Promise<0 | 1>
+  scard(key: string): Promise<number>
+  zadd<T>(key: string, scoreMember: KVScoreMember<T>, ...scoreMembers: KVScoreMember<T>[]): Promise<number | null>
+  zrem<T>(key: string, ...members: T[]): Promise<number>
+  zrange<T extends unknown[]>(key: string, min: number | string, max: number | string, opts?: KVRangeOptions): Promise<T>
+  zcard(key: string): Promise<number>
+  zscore<T>(key: string, member: T): Promise<number | null>
+  lpush<T>(key: string, ...elements: T[]): Promise<number>
+  rpush<T>(key: string, ...elements: T[]): Promise<number>
+  lrange<T = string>(key: string, start: number, end: number): Promise<T[]>
+  ltrim(key: string, start: number, end: number): Promise<'OK'>
+  llen(key: string): Promise<number>
+}
+
+// Keep one memory store per process - Next.js dev re-evaluates modules on reload
+const globalForKV = globalThis as unknown as { memoryKV?: MemoryKV }
+
+function getMemoryKV(): MemoryKV {
+  if (!globalForKV.memoryKV) {
+    globalForKV.memoryKV = new MemoryKV({ persistPath: process.env.MEMORY_KV_FILE })
+    console.log('🧠 Using in-memory KV store', process.env.MEMORY_KV_FILE ? `(persisted to ${process.env.MEMORY_KV_FILE})` : '')
+  }
+  return globalForKV.memoryKV
+}
+
+export const kv: KVClient = getStorageBackend() === 'memory' ? getMemoryKV() : vercelKv
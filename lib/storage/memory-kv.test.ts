@@ -0,0 +1,61 @@
+// /lib/storage/memory-kv.test.ts
+// MemoryKV snapshot persistence - a burst of writes becomes one debounced snapshot
+// Snapshots go to a temporary directory per test
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MemoryKV } from './memory-kv'
+
+describe('MemoryKV persistence', () => {
+  const directories: string[] = []
+
+  function snapshotPath(): string {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-kv-'))
+    directories.push(directory)
+    return path.join(directory, 'kv.json')
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    for (const directory of directories.splice(0)) fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('folds a burst of writes into one snapshot', async () => {
+    const file = snapshotPath()
+    const writeFile = vi.spyOn(fs.promises, 'writeFile')
+    const store = new MemoryKV({ persistPath: file })
+
+    await store.set('a', 1)
+    await store.zadd('index', { score: 1, member: 'a' })
+    await store.rpush('list', 'x', 'y')
+    expect(fs.existsSync(file)).toBe(false)
+
+    await store.flush()
+    expect(writeFile).toHaveBeenCalledTimes(1)
+
+    const reloaded = new MemoryKV({ persistPath: file })
+    expect(await reloaded.get('a')).toBe(1)
+    expect(await reloaded.zrange('index', 0, -1)).toEqual(['a'])
+    expect(await reloaded.lrange('list', 0, -1)).toEqual(['x', 'y'])
+  })
+
+  it('writes on its own once the debounce passes', async () => {
+    const file = snapshotPath()
+    const store = new MemoryKV({ persistPath: file })
+
+    await store.set('a', 'value')
+    await vi.waitFor(() => expect(fs.existsSync(file)).toBe(true))
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).a.value).toBe('value')
+  })
+
+  it('does not write when nothing changed', async () => {
+    const writeFile = vi.spyOn(fs.promises, 'writeFile')
+    const store = new MemoryKV({ persistPath: snapshotPath() })
+
+    await store.get('a')
+    await store.flush()
+    expect(writeFile).not.toHaveBeenCalled()
+  })
+})
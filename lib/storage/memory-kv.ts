@@ -0,0 +1,487 @@
+// /lib/storage/memory-kv.ts
+// In-process stand-in for Vercel KV covering strings, sets, sorted sets and lists
+// Used when STORAGE_BACKEND=memory and as an isolated fixture in tests
+
+import fs from 'fs'
+import type {
+  KVClient,
+  KVRangeOptions,
+  KVScanOptions,
+  KVScoreMember,
+  KVSetOptions
+} from './kv'
+
+type Entry =
+  | { type: 'string'; value: unknown; expiresAt?: number }
+  | { type: 'set'; value: Set<string>; expiresAt?: number }
+  | { type: 'zset'; value: Map<string, number>; expiresAt?: number }
+  | { type: 'list'; value: unknown[]; expiresAt?: number }
+
+interface CollectionValues {
+  set: Set<string>
+  zset: Map<string, number>
+  list: unknown[]
+}
+
+type SerializedEntry =
+  | { type: 'string'; value: unknown; expiresAt?: number }
+  | { type: 'set'; value: string[]; expiresAt?: number }
+  | { type: 'zset'; value: [string, number][]; expiresAt?: number }
+  | { type: 'list'; value: unknown[]; expiresAt?: number }
+
+export interface MemoryKVOptions {
+  // Optional JSON snapshot file so data survives dev server restarts
+  persistPath?: string
+}
+
+// Writes within this window share one snapshot - storing an email and its indexes is a single write
+const PERSIST_DELAY_MS = 250
+
+export class MemoryKV implements KVClient {
+  private data = new Map<string, Entry>()
+  private persistPath?: string
+  private persistTimer: ReturnType<typeof setTimeout> | null = null
+  private dirty = false
+  // Snapshot writes in order, so an older one never lands after a newer one
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(options: MemoryKVOptions = {}) {
+    this.persistPath = options.persistPath
+    if (this.persistPath) {
+      this.load()
+      // Whatever is still waiting for the debounce is written on the way out
+      process.once('exit', () => this.flushSync())
+    }
+  }
+
+  /**
+   * Write the snapshot now instead of waiting for the debounce
+   */
+  async flush(): Promise<void> {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.persistTimer = null
+    }
+    if (!this.persistPath || !this.dirty) return this.writing
+
+    const path = this.persistPath
+    const snapshot = JSON.stringify(this.snapshot())
+    this.dirty = false
+
+    // Written aside and renamed so a crash mid-write never leaves a truncated snapshot
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.writeFile(`${path}.tmp`, snapshot)
+        await fs.promises.rename(`${path}.tmp`, path)
+      })
+      .catch(error => console.error(`⚠️ Failed to write memory KV snapshot ${path}:`, error))
+    return this.writing
+  }
+
+  // ----- strings -----
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.read(key)
+    if (!entry) return null
+    this.assertType(entry, 'string', key)
+    return this.clone(entry.value) as T
+  }
+
+  async set<T>(key: string, value: T, opts?: KVSetOptions): Promise<'OK' | T | null> {
+    const exists = !!this.read(key)
+    if (opts?.nx && exists) return null
+    if (opts?.xx && !exists) return null
+
+    const ttl = opts?.ex !== undefined ? opts.ex * 1000 : opts?.px
+    this.data.set(key, {
+      type: 'string',
+      value: this.clone(value),
+      expiresAt: ttl !== undefined ? Date.now() + ttl : undefined
+    })
+    this.persist()
+    return 'OK'
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    let removed = 0
+    for (const key of keys) {
+      if (this.read(key)) {
+        this.data.delete(key)
+        removed++
+      }
+    }
+    if (removed > 0) this.persist()
+    return removed
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    return keys.filter(key => !!this.read(key)).length
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const matcher = this.globToRegExp(pattern)
+    return this.liveKeys().filter(key => matcher.test(key))
+  }
+
+  /**
+   * Cursor is an offset into the sorted key space; '0' marks the end like Redis
+   */
+  async scan(cursor: string | number, opts?: KVScanOptions): Promise<[string, string[]]> {
+    const allKeys = this.liveKeys().sort()
+    const start = Number(cursor) || 0
+    const count = opts?.count || 10
+    const page = allKeys.slice(start, start + count)
+    const matcher = opts?.match ? this.globToRegExp(opts.match) : null
+    const next = start + count >= allKeys.length ? '0' : String(start + count)
+    return [next, matcher ? page.filter(key => matcher.test(key)) : page]
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.incrby(key, 1)
+  }
+
+  async incrby(key: string, value: number): Promise<number> {
+    // Read and write without awaiting in between, so concurrent increments add up like Redis INCRBY
+    const entry = this.read(key)
+    if (entry) this.assertType(entry, 'string', key)
+    const current = Number(entry?.value) || 0
+    this.data.set(key, { type: 'string', value: current + value, expiresAt: entry?.expiresAt })
+    this.persist()
+    return current + value
+  }
+
+  async expire(key: string, seconds: number): Promise<0 | 1> {
+    const entry = this.read(key)
+    if (!entry) return 0
+    entry.expiresAt = Date.now() + seconds * 1000
+    this.persist()
+    return 1
+  }
+
+  // ----- sets -----
+
+  async sadd<T>(key: string, member: T, ...members: T[]): Promise<number> {
+    const set = this.collection(key, 'set', () => new Set<string>())
+    let added = 0
+    for (const item of [member, ...members]) {
+      const serialized = this.serializeMember(item)
+      if (!set.has(serialized)) {
+        set.add(serialized)
+        added++
+      }
+    }
+    this.persist()
+    return added
+  }
+
+  async srem<T>(key: string, ...members: T[]): Promise<number> {
+    const entry = this.read(key)
+    if (!entry) return 0
+    this.assertType(entry, 'set', key)
+    let removed = 0
+    for (const item of members) {
+      if (entry.value.delete(this.serializeMember(item))) removed++
+    }
+    this.dropIfEmpty(key, entry.value.size)
+    this.persist()
+    return removed
+  }
+
+  async smembers<T extends unknown[] = string[]>(key: string): Promise<T> {
+    const entry = this.read(key)
+    if (!entry) return [] as unknown as T
+    this.assertType(entry, 'set', key)
+    return Array.from(entry.value) as unknown as T
+  }
+
+  async sismember<T>(key: string, member: T): Promise<0 | 1> {
+    const entry = this.read(key)
+    if (!entry) return 0
+    this.assertType(entry, 'set', key)
+    return entry.value.has(this.serializeMember(member)) ? 1 : 0
+  }
+
+  async scard(key: string): Promise<number> {
+    const entry = this.read(key)
+    if (!entry) return 0
+    this.assertType(entry, 'set', key)
+    return entry.value.size
+  }
+
+  // ----- sorted sets -----
+
+  async zadd<T>(key: string, scoreMember: KVScoreMember<T>, ...scoreMembers: KVScoreMember<T>[]): Promise<number | null> {
+    const zset = this.collection(key, 'zset', () => new Map<string, number>())
+    let added = 0
+    for (const { score, member } of [scoreMember, ...scoreMembers]) {
+      const serialized = this.serializeMember(member)
+      if (!zset.has(serialized)) added++
+      zset.set(serialized, score)
+    }
+    this.persist()
+    return added
+  }
+
+  async zrem<T>(key: string, ...members: T[]): Promise<number> {
+    const entry = this.read(key)
+    if (!entry) return 0
+    this.assertType(entry, 'zset', key)
+    let removed = 0
+    for (const item of members) {
+      if (entry.value.delete(this.serializeMember(item))) removed++
+    }
+    this.dropIfEmpty(key, entry.value.size)
+    this.persist()
+    return removed
+  }
+
+  /**
+   * Index ranges by default; score ranges with byScore ('-inf', '+inf' and '(' exclusive bounds).
+   * With rev + byScore the first bound is the maximum, matching ZRANGE ... BYSCORE REV.
+   */
+  async zrange<T extends unknown[]>(
+    key: string,
+    min: number | string,
+    max: number | string,
+    opts?: KVRangeOptions
+  ): Promise<T> {
+    const entry = this.read(key)
+    if (!entry) return [] as unknown as T
+    this.assertType(entry, 'zset', key)
+
+    let sorted = Array.from(entry.value.entries())
+      .sort((a, b) => a[1] - b[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    if (opts?.rev) sorted.reverse()
+
+    if (opts?.byScore) {
+      const [low, high] = opts.rev ? [max, min] : [min, max]
+      const lower = this.parseScoreBound(low)
+      const upper = this.parseScoreBound(high)
+      sorted = sorted.filter(([, score]) =>
+        (lower.exclusive ? score > lower.value : score >= lower.value) &&
+        (upper.exclusive ? score < upper.value : score <= upper.value)
+      )
+      if (opts.offset !== undefined || opts.count !== undefined) {
+        const offset = opts.offset || 0
+        sorted = sorted.slice(offset, opts.count !== undefined ? offset + opts.count : undefined)
+      }
+    } else {
+      const length = sorted.length
+      const start = this.normalizeIndex(Number(min), length)
+      const stop = this.normalizeIndex(Number(max), length)
+      sorted = sorted.slice(start, stop + 1)
+    }
+
+    const result = opts?.withScores
+      ? sorted.flatMap(([member, score]) => [member, score])
+      : sorted.map(([member]) => member)
+    return result as unknown as T
+  }
+
+  async zcard(key: string): Promise<number> {
+    const entry = this.read(key)
+    if (!entry) return 0
+    this.assertType(entry, 'zset', key)
+    return entry.value.size
+  }
+
+  async zscore<T>(key: string, member: T): Promise<number | null> {
+    const entry = this.read(key)
+    if (!entry) return null
+    this.assertType(entry, 'zset', key)
+    return entry.value.get(this.serializeMember(member)) ?? null
+  }
+
+  // ----- lists -----
+
+  async lpush<T>(key: string, ...elements: T[]): Promise<number> {
+    const list = this.collection(key, 'list', () => [] as unknown[])
+    for (const element of elements) {
+      list.unshift(this.clone(element))
+    }
+    this.persist()
+    return list.length
+  }
+
+  async rpush<T>(key: string, ...elements: T[]): Promise<number> {
+    const list = this.collection(key, 'list', () => [] as unknown[])
+    for (const element of elements) {
+      list.push(this.clone(element))
+    }
+    this.persist()
+    return list.length
+  }
+
+  async lrange<T = string>(key: string, start: number, end: number): Promise<T[]> {
+    const entry = this.read(key)
+    if (!entry) return []
+    this.assertType(entry, 'list', key)
+    const length = entry.value.length
+    return this.clone(
+      entry.value.slice(this.normalizeIndex(start, length), this.normalizeIndex(end, length) + 1)
+    ) as T[]
+  }
+
+  async ltrim(key: string, start: number, end: number): Promise<'OK'> {
+    const entry = this.read(key)
+    if (!entry) return 'OK'
+    this.assertType(entry, 'list', key)
+    const length = entry.value.length
+    entry.value = entry.value.slice(this.normalizeIndex(start, length), this.normalizeIndex(end, length) + 1)
+    this.dropIfEmpty(key, entry.value.length)
+    this.persist()
+    return 'OK'
+  }
+
+  async llen(key: string): Promise<number> {
+    const entry = this.read(key)
+    if (!entry) return 0
+    this.assertType(entry, 'list', key)
+    return entry.value.length
+  }
+
+  // ----- fixture helpers -----
+
+  /**
+   * Remove every key - call between tests for a clean store
+   */
+  async flushall(): Promise<'OK'> {
+    this.data.clear()
+    this.persist()
+    return 'OK'
+  }
+
+  /**
+   * Plain-object dump of the store, handy for assertions and debugging
+   */
+  snapshot(): Record<string, SerializedEntry> {
+    const result: Record<string, SerializedEntry> = {}
+    for (const key of this.liveKeys()) {
+      result[key] = this.serializeEntry(this.data.get(key)!)
+    }
+    return result
+  }
+
+  // ----- internals -----
+
+  private read(key: string): Entry | undefined {
+    const entry = this.data.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.data.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  private liveKeys(): string[] {
+    return Array.from(this.data.keys()).filter(key => !!this.read(key))
+  }
+
+  private collection<K extends keyof CollectionValues>(
+    key: string,
+    type: K,
+    create: () => CollectionValues[K]
+  ): CollectionValues[K] {
+    const entry = this.read(key)
+    if (entry) {
+      this.assertType(entry, type, key)
+      return (entry as Entry).value as CollectionValues[K]
+    }
+    const value = create()
+    this.data.set(key, { type, value } as Entry)
+    return value
+  }
+
+  private assertType<K extends Entry['type']>(
+    entry: Entry,
+    type: K,
+    key: string
+  ): asserts entry is Extract<Entry, { type: K }> {
+    if (entry.type !== type) {
+      throw new Error(`WRONGTYPE Operation against key ${key} holding ${entry.type}, expected ${type}`)
+    }
+  }
+
+  private dropIfEmpty(key: string, size: number) {
+    if (size === 0) this.data.delete(key)
+  }
+
+  private serializeMember(member: unknown): string {
+    return typeof member === 'string' ? member : JSON.stringify(member)
+  }
+
+  private parseScoreBound(bound: number | string): { value: number; exclusive: boolean } {
+    if (typeof bound === 'number') return { value: bound, exclusive: false }
+    const exclusive = bound.startsWith('(')
+    const raw = exclusive ? bound.slice(1) : bound
+    const value = raw === '-inf' || raw === '-' ? -Infinity
+      : raw === '+inf' || raw === 'inf' || raw === '+' ? Infinity
+      : Number(raw)
+    return { value, exclusive }
+  }
+
+  private normalizeIndex(index: number, length: number): number {
+    return index < 0 ? Math.max(length + index, 0) : index
+  }
+
+  private globToRegExp(pattern: string): RegExp {
+    const escaped = pattern
+      .replace(/[.+^${}()|\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.')
+    return new RegExp(`^${escaped}$`)
+  }
+
+  private clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value))
+  }
+
+  private serializeEntry(entry: Entry): SerializedEntry {
+    switch (entry.type) {
+      case 'set': return { type: 'set', value: Array.from(entry.value), expiresAt: entry.expiresAt }
+      case 'zset': return { type: 'zset', value: Array.from(entry.value.entries()), expiresAt: entry.expiresAt }
+      case 'list': return { type: 'list', value: entry.value, expiresAt: entry.expiresAt }
+      default: return { type: 'string', value: entry.value, expiresAt: entry.expiresAt }
+    }
+  }
+
+  private load() {
+    if (!this.persistPath || !fs.existsSync(this.persistPath)) return
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.persistPath, 'utf8')) as Record<string, SerializedEntry>
+      for (const [key, entry] of Object.entries(raw)) {
+        switch (entry.type) {
+          case 'set': this.data.set(key, { ...entry, value: new Set(entry.value) }); break
+          case 'zset': this.data.set(key, { ...entry, value: new Map(entry.value) }); break
+          default: this.data.set(key, entry)
+        }
+      }
+      console.log(`💾 Memory KV loaded ${this.data.size} keys from ${this.persistPath}`)
+    } catch (error) {
+      console.error(`⚠️ Failed to load memory KV snapshot ${this.persistPath}:`, error)
+    }
+  }
+
+  // Debounced - mutations mark the store dirty and one snapshot follows the burst
+  private persist() {
+    if (!this.persistPath) return
+    this.dirty = true
+    if (this.persistTimer) return
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null
+      void this.flush()
+    }, PERSIST_DELAY_MS)
+    // A pending snapshot must not keep a script alive - the exit hook writes it
+    this.persistTimer.unref?.()
+  }
+
+  // Exit handlers cannot wait for promises, so the last snapshot is written synchronously
+  private flushSync() {
+    if (!this.persistPath || !this.dirty) return
+    if (this.persistTimer) clearTimeout(this.persistTimer)
+    fs.writeFileSync(this.persistPath, JSON.stringify(this.snapshot()))
+    this.dirty = false
+  }
+}
@@ -0,0 +1,719 @@
+// /lib/storage/postgres-email-repository.ts
+// Postgres implementation of the email repository backed by db/001_create_db.sql and db/002_email_message_ids.sql
+// Writes email_requests, email_threads, email_responses and processing_logs
+
+import { Pool, type PoolClient } from 'pg'
+import { kv } from './kv'
+import { KEYS, scanEmailIds } from './kv-keys'
+import {
+  clampPageSize,
+  decodeEmailCursor,
+  encodeEmailCursor,
+  getSortValue,
+  projectEmail
+} from './email-query'
+import {
+  buildProcessingStats,
+  type ApprovalRecord,
+  type EmailAttachment,
+  type DeliveryStatus,
+  type EmailPage,
+  type EmailQuery,
+  type EmailRecord,
+  type EmailRepository,
+  type EmailStatus,
+  type EmailStatusMetadata,
+  type EmailThread,
+  type ProcessedEmail,
+  type ProcessingStats,
+  type TokenUsageStats
+} from './email-repository'
+import type { FreightExtraction } from '@/lib/services/freight/freight-request'
+import type { RateQuote } from '@/lib/services/freight/rate-engine'
+import type { QuoteReply } from '@/lib/services/freight/quote-reply'
+import type { MailTransportName } from '@/lib/services/email/mail-transport'
+
+// Seeded development tenant from db/001_create_db.sql
+const DEFAULT_TENANT_ID = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11'
+
+// processing_logs.status uses its own vocabulary (started, completed, failed, retrying)
+const LOG_STATUS: Record<EmailStatus, string> = {
+  'pending': 'retrying',
+  'processing': 'started',
+  'awaiting-approval': 'completed',
+  'completed': 'completed',
+  'failed': 'failed',
+  'manual-review': 'failed'
+}
+
+// email_responses.delivery_status values that map onto each ProcessedEmail delivery status
+const DELIVERY_VALUES: Record<DeliveryStatus, string[]> = {
+  'pending': ['pending'],
+  'sent': ['sent', 'delivered'],
+  'failed': ['failed', 'bounced']
+}
+
+// Columns selected for every ProcessedEmail read
+const EMAIL_SELECT = `
+  SELECT
+    r.external_id, r.external_thread_id, r.history_id, r.subject, r.from_email,
+    r.to_email, r.date, r.snippet, r.body, r.status, r.topics, r.received_at,
+    r.message_id, r.in_reply_to, r.references_header,
+    (
+      SELECT json_agg(json_build_object('filename', a.filename, 'mimeType', a.content_type, 'size', a.file_size_bytes) ORDER BY a.created_at)
+      FROM email_attachments a
+      WHERE a.email_request_id = r.id
+    ) AS attachments,
+    resp.response_body, resp.delivery_status, resp.delivered_at, resp.delivery_attempts, resp.delivery_provider, resp.approval, resp.outbound_message_id,
+    log.completed_at, log.processing_time_ms, log.error_message, log.attempts, log.next_retry_at,
+    usage.token_usage, usage.generated_by, usage.route, usage.prompt_version, ext.extraction, ext.rate_quote, ext.quote_id, ext.quote_reply
+  FROM email_requests r
+  LEFT JOIN LATERAL (
+    SELECT response_body, delivery_status, delivered_at, delivery_attempts, delivery_provider, metadata->'approval' AS approval,
+      message_id AS outbound_message_id
+    FROM email_responses
+    WHERE email_request_id = r.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) resp ON true
+  LEFT JOIN LATERAL (
+    SELECT completed_at, processing_time_ms, error_message,
+      (metadata->>'attempts')::int AS attempts, metadata->>'nextRetryAt' AS next_retry_at
+    FROM processing_logs
+    WHERE email_request_id = r.id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) log ON true
+  LEFT JOIN LATERAL (
+    SELECT result->'tokenUsage' AS token_usage, result->'generatedBy' AS generated_by, result->'route' AS route,
+      result->>'promptVersion' AS prompt_version
+    FROM processing_logs
+    WHERE email_request_id = r.id AND result ? 'tokenUsage'
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) usage ON true
+  LEFT JOIN LATERAL (
+    SELECT result->'extraction' AS extraction, result->'rateQuote' AS rate_quote, result->>'quoteId' AS quote_id,
+      result->'quoteReply' AS quote_reply
+    FROM processing_logs
+    WHERE email_request_id = r.id AND (result ? 'extraction' OR result ? 'quoteReply')
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) ext ON true`
+
+interface EmailRow {
+  external_id: string
+  external_thread_id: string | null
+  history_id: string | null
+  subject: string | null
+  from_email: string
+  to_email: string | null
+  date: Date | null
+  snippet: string | null
+  body: string | null
+  status: EmailStatus
+  topics: string[] | null
+  received_at: Date
+  message_id: string | null
+  in_reply_to: string | null
+  references_header: string | null
+  attachments: EmailAttachment[] | null
+  response_body: string | null
+  delivery_status: string | null
+  delivered_at: Date | null
+  delivery_attempts: number | null
+  delivery_provider: MailTransportName | null
+  approval: ApprovalRecord | null
+  outbound_message_id: string | null
+  completed_at: Date | null
+  processing_time_ms: number | null
+  error_message: string | null
+  attempts: number | null
+  next_retry_at: string | null
+  token_usage: ProcessedEmail['tokenUsage'] | null
+  generated_by: ProcessedEmail['generatedBy'] | null
+  route: ProcessedEmail['route'] | null
+  prompt_version: string | null
+  extraction: FreightExtraction | null
+  rate_quote: RateQuote | null
+  quote_id: string | null
+  quote_reply: QuoteReply | null
+}
+
+class PostgresEmailRepository implements EmailRepository {
+  private pool: Pool | null = null
+  private tenantId: string
+
+  constructor() {
+    this.tenantId = process.env.POSTGRES_TENANT_ID || DEFAULT_TENANT_ID
+  }
+
+  /**
+   * Lazily create the connection pool so the KV backend never needs DATABASE_URL
+   */
+  private getPool(): Pool {
+    if (!this.pool) {
+      const connectionString = process.env.DATABASE_URL || process.env.POSTGRES_URL
+      if (!connectionString) {
+        throw new Error('DATABASE_URL not configured for postgres storage')
+      }
+      this.pool = new Pool({
+        connectionString,
+        max: parseInt(process.env.POSTGRES_POOL_SIZE || '5')
+      })
+      console.log('🐘 Postgres storage initialized:', { tenantId: this.tenantId })
+    }
+    return this.pool
+  }
+
+  private async withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getPool().connect()
+    try {
+      await client.query('BEGIN')
+      const result = await fn(client)
+      await client.query('COMMIT')
+      return result
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  async getAllEmails(): Promise<ProcessedEmail[]> {
+    const { rows } = await this.getPool().query<EmailRow>(
+      `${EMAIL_SELECT} WHERE r.tenant_id = $1 ORDER BY r.received_at DESC`,
+      [this.tenantId]
+    )
+    return rows.map(row => this.toProcessedEmail(row))
+  }
+
+  async getEmail(id: string): Promise<ProcessedEmail | null> {
+    const { rows } = await this.getPool().query<EmailRow>(
+      `${EMAIL_SELECT} WHERE r.tenant_id = $1 AND r.external_id = $2`,
+      [this.tenantId, id]
+    )
+    return rows[0] ? this.toProcessedEmail(rows[0]) : null
+  }
+
+  // Resolves both an inbound email's own Message-ID and the one we set on its reply
+  async getEmailByMessageId(messageId: string): Promise<ProcessedEmail | null> {
+    const { rows } = await this.getPool().query<EmailRow>(
+      `${EMAIL_SELECT} WHERE r.tenant_id = $1 AND (r.message_id = $2 OR resp.outbound_message_id = $2) LIMIT 1`,
+      [this.tenantId, messageId]
+    )
+    return rows[0] ? this.toProcessedEmail(rows[0]) : null
+  }
+
+  async getEmailIds(): Promise<string[]> {
+    const { rows } = await this.getPool().query<{ external_id: string }>(
+      'SELECT external_id FROM email_requests WHERE tenant_id = $1',
+      [this.tenantId]
+    )
+    return rows.map(row => row.external_id)
+  }
+
+  async hasEmail(id: string): Promise<boolean> {
+    const { rowCount } = await this.getPool().query(
+      'SELECT 1 FROM email_requests WHERE tenant_id = $1 AND external_id = $2',
+      [this.tenantId, id]
+    )
+    return (rowCount ?? 0) > 0
+  }
+
+  async storeEmail(email: EmailRecord): Promise<void> {
+    await this.withTransaction(async client => {
+      let threadId: string | null = null
+
+      if (email.threadId) {
+        const participants = [email.from, email.to].filter(Boolean)
+        const thread = await client.query<{ id: string }>(
+          `INSERT INTO email_threads (tenant_id, external_thread_id, subject, participant_emails)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (tenant_id, external_thread_id) DO UPDATE SET
+             participant_emails = ARRAY(
+               SELECT DISTINCT unnest(email_threads.participant_emails || EXCLUDED.participant_emails)
+             )
+           RETURNING id`,
+          [this.tenantId, email.threadId, email.subject, participants]
+        )
+        threadId = thread.rows[0].id
+      }
+
+      const request = await client.query<{ id: string }>(
+        `INSERT INTO email_requests (
+           tenant_id, thread_id, external_id, external_thread_id, history_id,
+           subject, from_email, to_email, date, snippet, body, status, received_at,
+           message_id, in_reply_to, references_header
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'pending', $12, $13, $14, $15)
+         ON CONFLICT (tenant_id, external_id) DO UPDATE SET
+           thread_id = EXCLUDED.thread_id,
+           history_id = EXCLUDED.history_id,
+           subject = EXCLUDED.subject,
+           to_email = EXCLUDED.to_email,
+           snippet = EXCLUDED.snippet,
+           body = EXCLUDED.body,
+           status = 'pending',
+           message_id = COALESCE(EXCLUDED.message_id, email_requests.message_id),
+           in_reply_to = COALESCE(EXCLUDED.in_reply_to, email_requests.in_reply_to),
+           references_header = COALESCE(EXCLUDED.references_header, email_requests.references_header)
+         RETURNING id`,
+        [
+          this.tenantId,
+          threadId,
+          email.id,
+          email.threadId || null,
+          email.historyId,
+          email.subject,
+          email.from,
+          email.to,
+          this.toTimestamp(email.date),
+          email.snippet,
+          email.body,
+          this.toTimestamp(email.receivedAt) || new Date().toISOString(),
+          email.messageId || null,
+          email.inReplyTo || null,
+          email.references || null
+        ]
+      )
+
+      // Attachment metadata is replaced when the ingester sends it and kept when it does not
+      if (email.attachments) {
+        const requestId = request.rows[0].id
+        await client.query('DELETE FROM email_attachments WHERE email_request_id = $1', [requestId])
+        for (const attachment of email.attachments) {
+          await client.query(
+            `INSERT INTO email_attachments (tenant_id, email_request_id, filename, content_type, file_size_bytes)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [this.tenantId, requestId, attachment.filename, attachment.mimeType || null, attachment.size ?? null]
+          )
+        }
+      }
+
+      // Recounted rather than incremented - re-storing an email must not inflate the thread
+      if (threadId) {
+        await client.query(
+          `UPDATE email_threads t
+           SET email_count = stats.email_count,
+               first_email_date = stats.first_email_date,
+               last_email_date = stats.last_email_date
+           FROM (
+             SELECT COUNT(*) AS email_count, MIN(received_at) AS first_email_date, MAX(received_at) AS last_email_date
+             FROM email_requests
+             WHERE thread_id = $1
+           ) stats
+           WHERE t.id = $1`,
+          [threadId]
+        )
+      }
+    })
+  }
+
+  /**
+   * Update status and append a processing_logs entry.
+   * Metadata fields left undefined keep their current value, matching the KV backend.
+   */
+  async updateEmailStatus(
+    id: string,
+    status: EmailStatus,
+    metadata?: EmailStatusMetadata
+  ): Promise<void> {
+    if (metadata?.response !== undefined || metadata?.error) {
+      console.log(`📝 Updating email ${id}: status=${status}${metadata?.response ? ` response=${metadata.response.length} chars` : ''}${metadata?.error ? ` error="${metadata.error}"` : ''}`)
+    }
+
+    await this.withTransaction(async client => {
+      // Merge from a locked read, so a concurrent update cannot slip in between the read and the write
+      const { rows } = await client.query<EmailRow>(
+        `${EMAIL_SELECT} WHERE r.tenant_id = $1 AND r.external_id = $2 FOR UPDATE OF r`,
+        [this.tenantId, id]
+      )
+      const current = rows[0] ? this.toProcessedEmail(rows[0]) : null
+      if (!current) {
+        throw new Error(`Email not found: ${id}`)
+      }
+
+      const processedAt = metadata?.processedAt !== undefined ? metadata.processedAt : current.processedAt
+      const error = metadata?.error !== undefined ? metadata.error : current.error
+      const processingTime = metadata?.processingTime !== undefined ? metadata.processingTime : current.processingTime
+      const attempts = metadata?.attempts !== undefined ? metadata.attempts : current.attempts
+      const nextRetryAt = metadata?.nextRetryAt !== undefined ? metadata.nextRetryAt : current.nextRetryAt
+
+      const request = await client.query<{ id: string; thread_id: string | null; subject: string | null }>(
+        `UPDATE email_requests
+         SET status = $3,
+             topics = CASE WHEN $4::text IS NULL THEN topics ELSE ARRAY[$4::text] END
+         WHERE tenant_id = $1 AND external_id = $2
+         RETURNING id, thread_id, subject`,
+        [this.tenantId, id, status, metadata?.category ?? null]
+      )
+      const requestRow = request.rows[0]
+      if (!requestRow) {
+        throw new Error(`Email not found: ${id}`)
+      }
+
+      const result: Record<string, unknown> = {}
+      if (metadata?.tokenUsage) result.tokenUsage = metadata.tokenUsage
+      if (metadata?.generatedBy) result.generatedBy = metadata.generatedBy
+      if (metadata?.route) result.route = metadata.route
+      if (metadata?.promptVersion) result.promptVersion = metadata.promptVersion
+      if (metadata?.category) result.category = metadata.category
+      if (metadata?.extraction) result.extraction = metadata.extraction
+      if (metadata?.rateQuote !== undefined) result.rateQuote = metadata.rateQuote
+      if (metadata?.quoteId) result.quoteId = metadata.quoteId
+      if (metadata?.quoteReply) result.quoteReply = metadata.quoteReply
+
+      await client.query(
+        `INSERT INTO processing_logs (
+           tenant_id, email_request_id, status, processor_type, attempt_number,
+           completed_at, processing_time_ms, result, error_message, metadata, created_at
+         )
+         VALUES (
+           $1, $2, $3, $4,
+           (SELECT COUNT(*) + 1 FROM processing_logs WHERE email_request_id = $2 AND status = 'started'),
+           $5, $6, $7, $8, $9, clock_timestamp()
+         )`,
+        [
+          this.tenantId,
+          requestRow.id,
+          LOG_STATUS[status],
+          // Only rows written after an LLM call know who processed the email
+          metadata?.generatedBy?.provider || null,
+          processedAt || null,
+          processingTime ?? null,
+          Object.keys(result).length > 0 ? result : null,
+          error || null,
+          { emailStatus: status, attempts: attempts ?? 0, nextRetryAt: nextRetryAt || null }
+        ]
+      )
+
+      if (metadata?.response !== undefined) {
+        if (metadata.response) {
+          const updated = await client.query(
+            `UPDATE email_responses SET response_body = $2
+             WHERE email_request_id = $1`,
+            [requestRow.id, metadata.response]
+          )
+          if (!updated.rowCount) {
+            await client.query(
+              `INSERT INTO email_responses (
+                 tenant_id, email_request_id, thread_id, response_subject, response_body,
+                 response_type, created_at
+               )
+               VALUES ($1, $2, $3, $4, $5, 'auto', clock_timestamp())`,
+              [this.tenantId, requestRow.id, requestRow.thread_id, `Re: ${requestRow.subject || ''}`, metadata.response]
+            )
+          }
+        } else {
+          // Clear response when resetting
+          await client.query('DELETE FROM email_responses WHERE email_request_id = $1', [requestRow.id])
+        }
+      }
+
+      if (metadata?.deliveryStatus !== undefined || metadata?.deliveredAt !== undefined ||
+          metadata?.deliveryAttempts !== undefined || metadata?.deliveryProvider !== undefined) {
+        const attempted = metadata?.deliveryStatus === 'sent' || metadata?.deliveryStatus === 'failed'
+        // The outbox reports its own count; otherwise each sent/failed update is one attempt
+        await client.query(
+          `UPDATE email_responses
+           SET delivery_status = COALESCE($2, delivery_status),
+               delivered_at = COALESCE($3, delivered_at),
+               sent_at = CASE WHEN $2 = 'sent' THEN COALESCE($3, NOW()) ELSE sent_at END,
+               delivery_attempts = COALESCE($5, delivery_attempts + $4),
+               delivery_provider = COALESCE($6, delivery_provider)
+           WHERE email_request_id = $1`,
+          [
+            requestRow.id, metadata?.deliveryStatus ?? null, metadata?.deliveredAt ?? null, attempted ? 1 : 0,
+            metadata?.deliveryAttempts ?? null, metadata?.deliveryProvider ?? null
+          ]
+        )
+      }
+
+      if (metadata?.outboundMessageId !== undefined) {
+        await client.query(
+          'UPDATE email_responses SET message_id = $2 WHERE email_request_id = $1',
+          [requestRow.id, metadata.outboundMessageId || null]
+        )
+      }
+
+      // Approval describes the stored reply, so it lives on the response row
+      if (metadata?.approval !== undefined) {
+        await client.query(
+          `UPDATE email_responses
+           SET metadata = jsonb_set(COALESCE(metadata, '{}'::jsonb), '{approval}', $2::jsonb)
+           WHERE email_request_id = $1`,
+          [requestRow.id, JSON.stringify(metadata.approval)]
+        )
+      }
+    })
+  }
+
+  /**
+   * Token totals are aggregated from processing_logs, so there is nothing to accumulate here
+   */
+  async updateTokenUsage(): Promise<void> {}
+
+  async getTokenUsageStats(): Promise<TokenUsageStats> {
+    const { rows } = await this.getPool().query<{
+      total_prompt: string
+      total_completion: string
+      total_tokens: string
+      emails_processed: string
+    }>(
+      `SELECT
+         COALESCE(SUM((result->'tokenUsage'->>'prompt')::int), 0) AS total_prompt,
+         COALESCE(SUM((result->'tokenUsage'->>'completion')::int), 0) AS total_completion,
+         COALESCE(SUM((result->'tokenUsage'->>'total')::int), 0) AS total_tokens,
+         COUNT(*) AS emails_processed
+       FROM processing_logs
+       WHERE tenant_id = $1 AND result ? 'tokenUsage'`,
+      [this.tenantId]
+    )
+
+    const stats = {
+      totalPrompt: Number(rows[0].total_prompt),
+      totalCompletion: Number(rows[0].total_completion),
+      totalTokens: Number(rows[0].total_tokens),
+      emailsProcessed: Number(rows[0].emails_processed)
+    }
+
+    return {
+      ...stats,
+      averageTokensPerEmail: stats.emailsProcessed > 0
+        ? Math.round(stats.totalTokens / stats.emailsProcessed)
+        : 0
+    }
+  }
+
+  async getLastHistoryId(): Promise<number> {
+    const { rows } = await this.getPool().query<{ last_history_id: string | null }>(
+      `SELECT settings->>'last_history_id' AS last_history_id FROM tenants WHERE id = $1`,
+      [this.tenantId]
+    )
+    return Number(rows[0]?.last_history_id) || 0
+  }
+
+  async setLastHistoryId(historyId: number): Promise<void> {
+    await this.getPool().query(
+      `UPDATE tenants
+       SET settings = jsonb_set(COALESCE(settings, '{}'::jsonb), '{last_history_id}', to_jsonb($2::bigint))
+       WHERE id = $1`,
+      [this.tenantId, historyId]
+    )
+  }
+
+  async getPendingEmails(): Promise<string[]> {
+    const { rows } = await this.getPool().query<{ external_id: string }>(
+      `SELECT external_id FROM email_requests
+       WHERE tenant_id = $1 AND status = 'pending'
+       ORDER BY priority, received_at`,
+      [this.tenantId]
+    )
+    return rows.map(row => row.external_id)
+  }
+
+  async getProcessingQueue(): Promise<string[]> {
+    const { rows } = await this.getPool().query<{ external_id: string }>(
+      `SELECT external_id FROM email_requests
+       WHERE tenant_id = $1 AND status = 'processing'
+       ORDER BY updated_at`,
+      [this.tenantId]
+    )
+    return rows.map(row => row.external_id)
+  }
+
+  async getProcessingStats(): Promise<ProcessingStats> {
+    const { rows } = await this.getPool().query<{ status: EmailStatus; count: string }>(
+      `SELECT status, COUNT(*) AS count FROM email_requests
+       WHERE tenant_id = $1
+       GROUP BY status`,
+      [this.tenantId]
+    )
+
+    const counts: Partial<Record<EmailStatus, number>> = {}
+    for (const row of rows) {
+      counts[row.status] = Number(row.count)
+    }
+
+    return buildProcessingStats({
+      pending: counts['pending'] || 0,
+      processing: counts['processing'] || 0,
+      awaitingApproval: counts['awaiting-approval'] || 0,
+      completed: counts['completed'] || 0,
+      failed: counts['failed'] || 0,
+      manualReview: counts['manual-review'] || 0,
+      totalEmails: rows.reduce((sum, row) => sum + Number(row.count), 0)
+    })
+  }
+
+  /**
+   * Filters become WHERE clauses; pagination is keyset on (sort column, external_id)
+   */
+  async queryEmails(query: EmailQuery): Promise<EmailPage> {
+    const sort = query.sort || 'receivedAt'
+    const direction = (query.order || 'desc') === 'desc' ? 'DESC' : 'ASC'
+    const limit = clampPageSize(query.limit)
+    const sortColumn = sort === 'processedAt' ? 'log.completed_at' : 'r.received_at'
+
+    const params: unknown[] = [this.tenantId]
+    const param = (value: unknown) => {
+      params.push(value)
+      return `$${params.length}`
+    }
+
+    const where = ['r.tenant_id = $1']
+    if (query.status?.length) where.push(`r.status = ANY(${param(query.status)})`)
+    if (query.category?.length) where.push(`r.topics && ${param(query.category)}::text[]`)
+    if (query.sender) where.push(`r.from_email ILIKE ${param(`%${query.sender.replace(/[\\%_]/g, '\\$&')}%`)}`)
+    if (query.receivedAfter) where.push(`r.received_at >= ${param(query.receivedAfter)}`)
+    if (query.receivedBefore) where.push(`r.received_at <= ${param(query.receivedBefore)}`)
+    if (query.deliveryStatus?.length) {
+      const values = query.deliveryStatus.flatMap(status => DELIVERY_VALUES[status])
+      where.push(`resp.delivery_status = ANY(${param(values)})`)
+    }
+    if (sort === 'processedAt') where.push('log.completed_at IS NOT NULL')
+    if (query.cursor) {
+      const cursor = decodeEmailCursor(query.cursor)
+      const comparison = direction === 'DESC' ? '<' : '>'
+      where.push(`(${sortColumn}, r.external_id) ${comparison} (to_timestamp(${param(cursor.value / 1000)}), ${param(cursor.id)})`)
+    }
+
+    const { rows } = await this.getPool().query<EmailRow>(
+      `${EMAIL_SELECT}
+       WHERE ${where.join(' AND ')}
+       ORDER BY ${sortColumn} ${direction}, r.external_id ${direction}
+       LIMIT ${param(limit + 1)}`,
+      params
+    )
+
+    const emails = rows.slice(0, limit).map(row => this.toProcessedEmail(row))
+    const last = emails[emails.length - 1]
+    const lastValue = last ? getSortValue(last, sort) : null
+
+    return {
+      emails: emails.map(email => projectEmail(email, query.fields)),
+      nextCursor: rows.length > limit && lastValue !== null
+        ? encodeEmailCursor({ value: lastValue, id: last.id })
+        : null
+    }
+  }
+
+  async getThread(threadId: string): Promise<EmailThread | null> {
+    const pool = this.getPool()
+    const [thread, emails] = await Promise.all([
+      pool.query<{
+        subject: string | null
+        participant_emails: string[] | null
+        first_email_date: Date | null
+        last_email_date: Date | null
+        email_count: number | null
+      }>(
+        `SELECT subject, participant_emails, first_email_date, last_email_date, email_count
+         FROM email_threads
+         WHERE tenant_id = $1 AND external_thread_id = $2`,
+        [this.tenantId, threadId]
+      ),
+      pool.query<EmailRow>(
+        `${EMAIL_SELECT} WHERE r.tenant_id = $1 AND r.external_thread_id = $2 ORDER BY r.received_at ASC`,
+        [this.tenantId, threadId]
+      )
+    ])
+
+    const row = thread.rows[0]
+    if (!row || emails.rows.length === 0) return null
+
+    const threadEmails = emails.rows.map(email => this.toProcessedEmail(email))
+    return {
+      threadId,
+      subject: row.subject || threadEmails[0].subject,
+      participants: row.participant_emails || [],
+      firstEmailAt: row.first_email_date?.toISOString() || threadEmails[0].receivedAt,
+      lastEmailAt: row.last_email_date?.toISOString() || threadEmails[threadEmails.length - 1].receivedAt,
+      emailCount: row.email_count || threadEmails.length,
+      emails: threadEmails
+    }
+  }
+
+  /**
+   * Copy raw emails the Gmail ingester left in Upstash into email_requests.
+   * Uses SCAN discovery since nothing in KV is indexed for this backend.
+   */
+  async importExistingEmails(): Promise<number> {
+    const emailIds = await scanEmailIds(kv)
+
+    let imported = 0
+    for (const id of emailIds) {
+      if (await this.hasEmail(id)) continue
+
+      const emailData = await kv.get<EmailRecord>(KEYS.EMAIL(id))
+      if (!emailData) continue
+
+      await this.storeEmail(emailData)
+      imported++
+    }
+
+    return imported
+  }
+
+  private toProcessedEmail(row: EmailRow): ProcessedEmail {
+    return {
+      id: row.external_id,
+      threadId: row.external_thread_id || '',
+      subject: row.subject || '',
+      from: row.from_email,
+      to: row.to_email || '',
+      date: row.date ? row.date.toISOString() : '',
+      snippet: row.snippet || '',
+      body: row.body || '',
+      receivedAt: row.received_at.toISOString(),
+      historyId: Number(row.history_id) || 0,
+      messageId: row.message_id || undefined,
+      inReplyTo: row.in_reply_to || undefined,
+      references: row.references_header || undefined,
+      attachments: row.attachments || undefined,
+      status: row.status || 'pending',
+      processedAt: row.completed_at?.toISOString(),
+      error: row.error_message || undefined,
+      response: row.response_body || undefined,
+      category: row.topics?.[0],
+      tokenUsage: row.token_usage || undefined,
+      generatedBy: row.generated_by || undefined,
+      route: row.route || undefined,
+      promptVersion: row.prompt_version || undefined,
+      processingTime: row.processing_time_ms ?? undefined,
+      deliveryStatus: this.toDeliveryStatus(row.delivery_status),
+      deliveredAt: row.delivered_at?.toISOString(),
+      deliveryAttempts: row.delivery_attempts ?? undefined,
+      deliveryProvider: row.delivery_provider || undefined,
+      attempts: row.attempts ?? undefined,
+      nextRetryAt: row.next_retry_at || undefined,
+      approval: row.approval || undefined,
+      extraction: row.extraction || undefined,
+      rateQuote: row.extraction ? row.rate_quote : undefined,
+      quoteId: row.quote_id || undefined,
+      quoteReply: row.quote_reply || undefined,
+      outboundMessageId: row.outbound_message_id || undefined
+    }
+  }
+
+  private toDeliveryStatus(value: string | null): ProcessedEmail['deliveryStatus'] {
+    if (value === 'pending' || value === 'sent' || value === 'failed') return value
+    if (value === 'delivered') return 'sent'
+    if (value === 'bounced') return 'failed'
+    return undefined
+  }
+
+  /**
+   * Gmail date headers are free-form; store NULL rather than failing the insert
+   */
+  private toTimestamp(value: string | undefined): string | null {
+    if (!value) return null
+    const parsed = new Date(value)
+    return isNaN(parsed.getTime()) ? null : parsed.toISOString()
+  }
+}
+
+// Export singleton instance
+export const postgresEmailRepository = new PostgresEmailRepository()
@@ -0,0 +1,33 @@
+// /vitest.config.ts
+// Test runner configuration
+// Tests run against the in-memory store and the mock LLM provider - no network, no credentials
+
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    // Module-level singletons read these on import, so they are set before any test file loads
+    env: {
+      STORAGE_BACKEND: "memory",
+      MEMORY_KV_FILE: "",
+      LLM_PROVIDER: "mock",
+      LLM_MOCK_SCRIPT: "",
+      LLM_FALLBACK_CHAIN: "",
+      LLM_FIXTURE_MODE: "off",
+      OPENAI_API_KEY: "",
+      ANTHROPIC_API_KEY: "",
+      OPENAI_COMPATIBLE_BASE_URL: "",
+      MAIL_TRANSPORT: "console",
+      ENABLE_EMAIL_SENDING: "true",
+    },
+  },
+});